@@ -1,6 +1,6 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-  transpilePackages: ['@ugc/shared', '@ugc/database'],
+  transpilePackages: ['@ugc/shared', '@ugc/database', '@ugc/queue'],
   images: {
     remotePatterns: [
       {
@@ -30,7 +30,7 @@ const nextConfig = {
     ],
   },
   experimental: {
-    serverComponentsExternalPackages: ['@prisma/client', 'bcryptjs'],
+    serverComponentsExternalPackages: ['@prisma/client', 'bcryptjs', 'bullmq', 'ioredis'],
   },
 };
 
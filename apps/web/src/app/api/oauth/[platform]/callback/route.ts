@@ -0,0 +1,127 @@
+/**
+ * Social OAuth Callback - The platform sends the user back here after the consent screen
+ * Trades the code for tokens, finds out which account they belong to and stores them encrypted on
+ * that account, adding it to the workspace if it was not there yet.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  prisma,
+  exchangeAuthorizationCode,
+  fetchSocialProfile,
+  sealSocialTokens,
+  SocialAuthError,
+} from '@ugc/database';
+import { scheduleAccountListening } from '@ugc/queue';
+import { listeningSettingsSchema, LISTENING_INTERVAL_MINUTES } from '@ugc/shared';
+import { getWorkspaceContext, hasPermission, addAuditLog } from '@/lib/workspace';
+import {
+  OAUTH_STATE_COOKIE,
+  decodeOAuthState,
+  getBaseUrl,
+  getOAuthRedirectUri,
+  parsePlatform,
+} from '@/lib/social-oauth';
+
+interface Params {
+  params: { platform: string };
+}
+
+// Back to the accounts page, with the outcome for it to show
+function redirectTo(slug: string | undefined, result: Record<string, string>) {
+  const path = slug ? `/w/${slug}/settings/accounts` : '/dashboard';
+  const url = new URL(path, getBaseUrl());
+  for (const [name, value] of Object.entries(result)) {
+    url.searchParams.set(name, value);
+  }
+  const response = NextResponse.redirect(url);
+  response.cookies.delete({ name: OAUTH_STATE_COOKIE, path: '/api/oauth' });
+  return response;
+}
+
+// GET /api/oauth/[platform]/callback - Finish connecting a social account
+export async function GET(request: NextRequest, { params }: Params) {
+  const saved = decodeOAuthState(request.cookies.get(OAUTH_STATE_COOKIE)?.value);
+  const platform = parsePlatform(params.platform);
+  const { searchParams } = request.nextUrl;
+
+  if (!saved || !platform || saved.platform !== platform || searchParams.get('state') !== saved.state) {
+    return redirectTo(saved?.slug, { connect_error: 'invalid_state' });
+  }
+
+  // The user declined on the consent screen
+  const code = searchParams.get('code');
+  if (searchParams.get('error') || !code) {
+    return redirectTo(saved.slug, { connect_error: 'denied' });
+  }
+
+  try {
+    const context = await getWorkspaceContext(saved.slug);
+    if (!context || !hasPermission(context.role, 'admin')) {
+      return redirectTo(saved.slug, { connect_error: 'forbidden' });
+    }
+
+    const tokens = await exchangeAuthorizationCode(platform, code, getOAuthRedirectUri(platform));
+    const profile = await fetchSocialProfile(platform, tokens.accessToken);
+    const handle = profile.handle.replace(/^@/, '').toLowerCase();
+
+    const details = {
+      displayName: profile.displayName,
+      profileUrl: profile.profileUrl,
+      profileImageUrl: profile.profileImageUrl,
+      ...sealSocialTokens({ ...tokens, platformUserId: profile.platformUserId }),
+      status: 'CONNECTED' as const,
+    };
+
+    const existing = await prisma.socialAccount.findUnique({
+      where: {
+        workspaceId_platform_handle: { workspaceId: context.workspaceId, platform, handle },
+      },
+      include: { workspace: { select: { plan: true } } },
+    });
+
+    const account = existing
+      ? await prisma.socialAccount.update({ where: { id: existing.id }, data: details })
+      : await prisma.socialAccount.create({
+          data: { workspaceId: context.workspaceId, platform, handle, ...details },
+        });
+
+    if (existing) {
+      // A reconnected account resumes listening, which stopped when its tokens failed
+      const settings = listeningSettingsSchema.safeParse(existing.syncSettings ?? {});
+      if (existing.status !== 'CONNECTED' && settings.success && settings.data.enabled) {
+        await scheduleAccountListening(
+          { ...account, platform },
+          LISTENING_INTERVAL_MINUTES[existing.workspace.plan]
+        );
+      }
+
+      await prisma.notification.updateMany({
+        where: {
+          workspaceId: context.workspaceId,
+          entityType: 'social_account',
+          entityId: account.id,
+          readAt: null,
+        },
+        data: { readAt: new Date() },
+      });
+    }
+
+    await addAuditLog({
+      workspaceId: context.workspaceId,
+      userId: context.userId,
+      action: existing ? 'UPDATE' : 'CREATE',
+      entityType: 'social_account',
+      entityId: account.id,
+      oldData: existing ? { status: existing.status } : undefined,
+      newData: { platform, handle, status: 'CONNECTED', connectedWith: 'oauth' },
+    });
+
+    return redirectTo(saved.slug, { connected: handle });
+  } catch (error) {
+    console.error('Error connecting social account:', error);
+    const reason =
+      error instanceof SocialAuthError && error.code === 'no_account' ? 'no_account' : 'failed';
+    return redirectTo(saved.slug, { connect_error: reason });
+  }
+}
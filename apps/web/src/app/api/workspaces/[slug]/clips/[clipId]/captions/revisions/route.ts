@@ -0,0 +1,53 @@
+/**
+ * Clip Caption Revisions API - Version history of a clip's captions
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@ugc/database';
+import { getWorkspaceContext } from '@/lib/workspace';
+
+interface Params {
+  params: { slug: string; clipId: string };
+}
+
+// GET /api/workspaces/[slug]/clips/[clipId]/captions/revisions - List caption versions, newest first
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const context = await getWorkspaceContext(params.slug);
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Workspace not found' } },
+        { status: 404 }
+      );
+    }
+
+    const clip = await prisma.repurposedClip.findFirst({
+      where: { id: params.clipId, workspaceId: context.workspaceId },
+      select: { id: true },
+    });
+
+    if (!clip) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Clip not found' } },
+        { status: 404 }
+      );
+    }
+
+    const revisions = await prisma.captionRevision.findMany({
+      where: { clipId: clip.id },
+      include: {
+        createdBy: { select: { id: true, name: true, email: true } },
+      },
+      orderBy: { version: 'desc' },
+      take: 50,
+    });
+
+    return NextResponse.json({ success: true, data: { revisions } });
+  } catch (error) {
+    console.error('Error fetching caption revisions:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch caption revisions' } },
+      { status: 500 }
+    );
+  }
+}
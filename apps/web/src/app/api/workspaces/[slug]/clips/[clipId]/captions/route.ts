@@ -0,0 +1,247 @@
+/**
+ * Clip Captions API - Read and edit a clip's caption cues
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma, Prisma } from '@ugc/database';
+import { queueCaptionBurnIn } from '@ugc/queue';
+import { retimeCueWords, toSrt, toVtt, updateCaptionsSchema } from '@ugc/shared';
+import type { CaptionCue } from '@ugc/shared';
+import { getWorkspaceContext, hasPermission, addAuditLog } from '@/lib/workspace';
+import { deleteFile, generateMediaKey, uploadFile } from '@/lib/s3';
+
+interface Params {
+  params: { slug: string; clipId: string };
+}
+
+interface StoredTranscript {
+  language?: string;
+  provider?: string;
+  cues?: CaptionCue[];
+  tracks?: { srt?: { key: string; url: string }; vtt?: { key: string; url: string } };
+}
+
+// GET /api/workspaces/[slug]/clips/[clipId]/captions - Get the current cues
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const context = await getWorkspaceContext(params.slug);
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Workspace not found' } },
+        { status: 404 }
+      );
+    }
+
+    const clip = await prisma.repurposedClip.findFirst({
+      where: { id: params.clipId, workspaceId: context.workspaceId },
+      select: {
+        id: true,
+        duration: true,
+        storageUrl: true,
+        captionTrackUrl: true,
+        captionBurnedIn: true,
+        transcriptJson: true,
+        captionRevisions: {
+          orderBy: { version: 'desc' },
+          take: 1,
+          select: { version: true, createdAt: true },
+        },
+      },
+    });
+
+    if (!clip) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Clip not found' } },
+        { status: 404 }
+      );
+    }
+
+    const transcript = (clip.transcriptJson as StoredTranscript | null) ?? {};
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        clipId: clip.id,
+        duration: clip.duration,
+        storageUrl: clip.storageUrl,
+        captionTrackUrl: clip.captionTrackUrl,
+        captionBurnedIn: clip.captionBurnedIn,
+        language: transcript.language ?? null,
+        cues: transcript.cues ?? [],
+        srtUrl: transcript.tracks?.srt?.url ?? null,
+        version: clip.captionRevisions[0]?.version ?? 0,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching captions:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch captions' } },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/workspaces/[slug]/clips/[clipId]/captions - Save edited cues as a new version
+export async function PUT(request: NextRequest, { params }: Params) {
+  try {
+    const context = await getWorkspaceContext(params.slug);
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Workspace not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (!hasPermission(context.role, 'write')) {
+      return NextResponse.json(
+        { success: false, error: { code: 'FORBIDDEN', message: 'Insufficient permissions' } },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = updateCaptionsSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid input', details: validation.error.flatten().fieldErrors },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { baseVersion, restoredFromVersion } = validation.data;
+
+    const clip = await prisma.repurposedClip.findFirst({
+      where: { id: params.clipId, workspaceId: context.workspaceId },
+      include: {
+        captionRevisions: { orderBy: { version: 'desc' }, take: 1, select: { version: true } },
+      },
+    });
+
+    if (!clip) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Clip not found' } },
+        { status: 404 }
+      );
+    }
+
+    const currentVersion = clip.captionRevisions[0]?.version ?? 0;
+    if (baseVersion !== undefined && baseVersion !== currentVersion) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'CONFLICT',
+            message: 'Captions were changed by someone else. Reload to get the latest version.',
+            details: { currentVersion },
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    const previous = (clip.transcriptJson as StoredTranscript | null) ?? {};
+    const language = validation.data.language ?? previous.language ?? 'en';
+    const cues = validation.data.cues.map((cue) => retimeCueWords(cue));
+    const version = currentVersion + 1;
+
+    // Versioned keys so players never serve a cached track from before the edit
+    const srtKey = generateMediaKey(context.workspaceId, 'caption', `${clip.id}-v${version}.srt`);
+    const vttKey = generateMediaKey(context.workspaceId, 'caption', `${clip.id}-v${version}.vtt`);
+    const [srtUrl, vttUrl] = await Promise.all([
+      uploadFile(srtKey, toSrt(cues), 'application/x-subrip'),
+      uploadFile(vttKey, toVtt(cues), 'text/vtt'),
+    ]);
+
+    const transcriptJson = {
+      ...previous,
+      language,
+      words: cues.flatMap((cue) => cue.words ?? []),
+      cues,
+      tracks: { srt: { key: srtKey, url: srtUrl }, vtt: { key: vttKey, url: vttUrl } },
+      editedAt: new Date().toISOString(),
+    };
+
+    const [revision] = await prisma.$transaction([
+      prisma.captionRevision.create({
+        data: {
+          workspaceId: context.workspaceId,
+          clipId: clip.id,
+          version,
+          source: restoredFromVersion ? 'RESTORE' : 'EDIT',
+          language,
+          cuesJson: JSON.parse(JSON.stringify(cues)),
+          createdById: context.userId,
+        },
+      }),
+      prisma.repurposedClip.update({
+        where: { id: clip.id },
+        data: {
+          captionTrackUrl: vttUrl,
+          transcriptJson: JSON.parse(JSON.stringify(transcriptJson)) as Prisma.InputJsonObject,
+        },
+      }),
+    ]);
+
+    // Old track files are no longer referenced; the revision keeps the cues
+    const staleKeys = [previous.tracks?.srt?.key, previous.tracks?.vtt?.key].filter(Boolean) as string[];
+    await Promise.all(
+      staleKeys.map((key) =>
+        deleteFile(key).catch((error) => console.error('Error deleting caption track:', error))
+      )
+    );
+
+    // Burned-in captions are part of the video, so it has to be rendered again
+    let burnInQueued = false;
+    if (clip.captionBurnedIn) {
+      await queueCaptionBurnIn(context.workspaceId, clip.id);
+      burnInQueued = true;
+    }
+
+    await addAuditLog({
+      workspaceId: context.workspaceId,
+      userId: context.userId,
+      action: 'UPDATE',
+      entityType: 'clip_captions',
+      entityId: clip.id,
+      oldData: { version: currentVersion },
+      newData: { version, cues: cues.length, ...(restoredFromVersion && { restoredFromVersion }) },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        clipId: clip.id,
+        version: revision.version,
+        language,
+        cues,
+        captionTrackUrl: vttUrl,
+        srtUrl,
+        burnInQueued,
+      },
+    });
+  } catch (error) {
+    // Another save took this version between the check above and the insert
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'CONFLICT',
+            message: 'Captions were changed by someone else. Reload to get the latest version.',
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    console.error('Error saving captions:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to save captions' } },
+      { status: 500 }
+    );
+  }
+}
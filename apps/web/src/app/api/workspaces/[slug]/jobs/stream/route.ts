@@ -0,0 +1,87 @@
+/**
+ * Job Stream API - Live progress of the workspace's queued jobs as server-sent events
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getWorkspaceContext } from '@/lib/workspace';
+import { subscribeToJobEvents } from '@/lib/job-events';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface Params {
+  params: { slug: string };
+}
+
+// Keeps proxies from closing an idle stream
+const HEARTBEAT_MS = 25_000;
+// How long the browser waits before reconnecting
+const RECONNECT_MS = 5_000;
+
+// GET /api/workspaces/[slug]/jobs/stream - Stream `job` events with a JobProgress payload
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const context = await getWorkspaceContext(params.slug);
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Workspace not found' } },
+        { status: 404 }
+      );
+    }
+
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const send = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            // The stream was closed between two events
+            cleanup();
+          }
+        };
+
+        const unsubscribe = subscribeToJobEvents(context.workspaceId, (event) => {
+          send(`event: job\ndata: ${JSON.stringify(event)}\n\n`);
+        });
+        const heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_MS);
+
+        cleanup = () => {
+          clearInterval(heartbeat);
+          unsubscribe();
+        };
+
+        request.signal.addEventListener('abort', () => {
+          cleanup();
+          try {
+            controller.close();
+          } catch {
+            // Already closed
+          }
+        });
+
+        send(`retry: ${RECONNECT_MS}\n\n`);
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (error) {
+    console.error('Error opening job stream:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to open job stream' } },
+      { status: 500 }
+    );
+  }
+}
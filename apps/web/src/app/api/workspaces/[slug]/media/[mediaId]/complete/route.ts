@@ -0,0 +1,66 @@
+/**
+ * Media Upload Complete API - Hand a directly uploaded file to the worker
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@ugc/database';
+import { queueMediaDownload } from '@ugc/queue';
+import { getWorkspaceContext, hasPermission } from '@/lib/workspace';
+
+interface Params {
+  params: { slug: string; mediaId: string };
+}
+
+// POST /api/workspaces/[slug]/media/[mediaId]/complete - Mark a direct upload as finished
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const context = await getWorkspaceContext(params.slug);
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Workspace not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (!hasPermission(context.role, 'write')) {
+      return NextResponse.json(
+        { success: false, error: { code: 'FORBIDDEN', message: 'Insufficient permissions' } },
+        { status: 403 }
+      );
+    }
+
+    const media = await prisma.mediaAsset.findFirst({
+      where: { id: params.mediaId, workspaceId: context.workspaceId },
+    });
+
+    if (!media) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Media asset not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (media.originalUrl || media.status !== 'PENDING') {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_STATE', message: 'Media asset is not awaiting an upload' } },
+        { status: 400 }
+      );
+    }
+
+    // Without a source URL the worker verifies the stored object instead of downloading
+    const queuedJob = await queueMediaDownload(context.workspaceId, media.id);
+
+    const updated = await prisma.mediaAsset.update({
+      where: { id: media.id },
+      data: { queueJobId: queuedJob.id },
+    });
+
+    return NextResponse.json({ success: true, data: { media: updated } });
+  } catch (error) {
+    console.error('Error completing media upload:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to complete upload' } },
+      { status: 500 }
+    );
+  }
+}
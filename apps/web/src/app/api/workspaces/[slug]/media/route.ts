@@ -5,6 +5,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma, MediaType, MediaStatus } from '@ugc/database';
 import { z } from 'zod';
+import { queueMediaDownload } from '@ugc/queue';
 import { getWorkspaceContext, hasPermission, addAuditLog } from '@/lib/workspace';
 import { getStorageConfig } from '@/lib/env';
 
@@ -14,9 +15,17 @@ interface Params {
 
 const uploadMediaSchema = z.object({
   ugcPostId: z.string().cuid().optional(),
-  type: z.enum(['VIDEO', 'IMAGE']),
+  type: z.enum(['VIDEO', 'IMAGE', 'AUDIO']),
   originalUrl: z.string().url().optional(),
   filename: z.string().optional(),
+  // Music library details, shown when picking a music bed
+  track: z
+    .object({
+      title: z.string().trim().min(1).max(200),
+      artist: z.string().trim().max(200).optional(),
+      license: z.string().trim().max(500).optional(),
+    })
+    .optional(),
 });
 
 // GET /api/workspaces/[slug]/media - List media assets
@@ -89,7 +98,7 @@ export async function POST(request: NextRequest, { params }: Params) {
       );
     }
 
-    const { ugcPostId, type, originalUrl, filename } = validation.data;
+    const { ugcPostId, type, originalUrl, filename, track } = validation.data;
 
     // Verify UGC post belongs to workspace if provided
     if (ugcPostId) {
@@ -107,26 +116,39 @@ export async function POST(request: NextRequest, { params }: Params) {
     // Generate storage key
     const storageConfig = getStorageConfig();
     const timestamp = Date.now();
-    const ext = type === 'VIDEO' ? 'mp4' : 'jpg';
+    const ext = type === 'VIDEO' ? 'mp4' : type === 'AUDIO' ? 'mp3' : 'jpg';
     const storageKey = `${context.workspaceId}/${timestamp}-${filename || `media.${ext}`}`;
 
     // Create media asset record
-    const media = await prisma.mediaAsset.create({
+    let media = await prisma.mediaAsset.create({
       data: {
         workspaceId: context.workspaceId,
         ugcPostId,
         type: type as MediaType,
         originalUrl,
         storageKey,
-        status: originalUrl ? 'PENDING' : 'PENDING',
+        status: 'PENDING',
+        ...(type === 'AUDIO' && track && { metadata: { track } }),
       },
     });
 
-    // If originalUrl provided, queue download job
-    // In a real implementation, this would queue a BullMQ job
+    // Linked media is fetched by the worker; direct uploads are queued once the upload completes
     if (originalUrl) {
-      // TODO: Queue download job
-      // await queueMediaDownload(media.id, originalUrl);
+      let queuedJob;
+      try {
+        queuedJob = await queueMediaDownload(context.workspaceId, media.id, originalUrl);
+      } catch (queueError) {
+        // Otherwise the asset would stay PENDING with nothing left to download it
+        await prisma.mediaAsset.update({
+          where: { id: media.id },
+          data: { status: 'ERROR' },
+        });
+        throw queueError;
+      }
+      media = await prisma.mediaAsset.update({
+        where: { id: media.id },
+        data: { queueJobId: queuedJob.id },
+      });
     }
 
     await addAuditLog({
@@ -135,7 +157,7 @@ export async function POST(request: NextRequest, { params }: Params) {
       action: 'CREATE',
       entityType: 'media_asset',
       entityId: media.id,
-      newData: { type, originalUrl },
+      newData: { type, originalUrl, ...(track && { track }) },
     });
 
     // Return upload URL for direct uploads (simplified - in production use presigned URLs)
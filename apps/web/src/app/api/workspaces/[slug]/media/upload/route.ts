@@ -13,8 +13,8 @@ interface Params {
 
 const uploadRequestSchema = z.object({
   filename: z.string().min(1).max(255),
-  contentType: z.string().regex(/^(video|image)\//),
-  type: z.enum(['video', 'image']),
+  contentType: z.string().regex(/^(video|image|audio)\//),
+  type: z.enum(['video', 'image', 'audio']),
 });
 
 // POST /api/workspaces/[slug]/media/upload - Get presigned upload URL
@@ -0,0 +1,93 @@
+/**
+ * Notifications API - Problems the workspace should act on, such as accounts to reconnect
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@ugc/database';
+import { markNotificationsReadSchema } from '@ugc/shared';
+import { getWorkspaceContext } from '@/lib/workspace';
+
+interface Params {
+  params: { slug: string };
+}
+
+// GET /api/workspaces/[slug]/notifications - Recent notifications and the unread count
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const context = await getWorkspaceContext(params.slug);
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Workspace not found' } },
+        { status: 404 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20', 10) || 20, 100);
+
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: { workspaceId: context.workspaceId },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+      }),
+      prisma.notification.count({ where: { workspaceId: context.workspaceId, readAt: null } }),
+    ]);
+
+    return NextResponse.json({ success: true, data: { notifications, unreadCount } });
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch notifications' } },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/workspaces/[slug]/notifications - Mark notifications as read
+export async function PATCH(request: NextRequest, { params }: Params) {
+  try {
+    const context = await getWorkspaceContext(params.slug);
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Workspace not found' } },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = markNotificationsReadSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input',
+            details: validation.error.flatten().fieldErrors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { ids } = validation.data;
+    const result = await prisma.notification.updateMany({
+      where: {
+        workspaceId: context.workspaceId,
+        readAt: null,
+        ...(ids ? { id: { in: ids } } : {}),
+      },
+      data: { readAt: new Date() },
+    });
+
+    return NextResponse.json({ success: true, data: { updated: result.count } });
+  } catch (error) {
+    console.error('Error updating notifications:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to update notifications' } },
+      { status: 500 }
+    );
+  }
+}
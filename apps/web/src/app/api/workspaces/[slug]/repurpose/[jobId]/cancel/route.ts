@@ -0,0 +1,70 @@
+/**
+ * Repurpose Job Cancel API - Stop a queued or running job
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@ugc/database';
+import { getWorkspaceContext, hasPermission, addAuditLog } from '@/lib/workspace';
+import { CANCELLABLE_STATUSES, cancelRepurposeJob } from '@/lib/repurpose-jobs';
+
+interface Params {
+  params: { slug: string; jobId: string };
+}
+
+// POST /api/workspaces/[slug]/repurpose/[jobId]/cancel - Cancel a job, keeping the clips already made
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const context = await getWorkspaceContext(params.slug);
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Workspace not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (!hasPermission(context.role, 'write')) {
+      return NextResponse.json(
+        { success: false, error: { code: 'FORBIDDEN', message: 'Insufficient permissions' } },
+        { status: 403 }
+      );
+    }
+
+    const job = await prisma.repurposeJob.findFirst({
+      where: { id: params.jobId, workspaceId: context.workspaceId },
+    });
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Job not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (!CANCELLABLE_STATUSES.includes(job.status)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_STATE', message: 'Only queued or processing jobs can be cancelled' } },
+        { status: 400 }
+      );
+    }
+
+    const { job: cancelled, queueResult } = await cancelRepurposeJob(job);
+
+    await addAuditLog({
+      workspaceId: context.workspaceId,
+      userId: context.userId,
+      action: 'UPDATE',
+      entityType: 'repurpose_job',
+      entityId: job.id,
+      oldData: { status: job.status },
+      newData: { status: 'CANCELLED' },
+    });
+
+    return NextResponse.json({ success: true, data: { job: cancelled, queueResult } });
+  } catch (error) {
+    console.error('Error cancelling job:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to cancel job' } },
+      { status: 500 }
+    );
+  }
+}
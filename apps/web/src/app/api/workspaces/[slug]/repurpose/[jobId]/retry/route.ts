@@ -0,0 +1,84 @@
+/**
+ * Repurpose Job Retry API - Re-render the outputs of a job that failed
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@ugc/database';
+import { getWorkspaceContext, hasPermission, addAuditLog } from '@/lib/workspace';
+import { RETRYABLE_STATUSES, retryRepurposeJob } from '@/lib/repurpose-jobs';
+
+interface Params {
+  params: { slug: string; jobId: string };
+}
+
+// POST /api/workspaces/[slug]/repurpose/[jobId]/retry - Rerun failed or cancelled outputs
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const context = await getWorkspaceContext(params.slug);
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Workspace not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (!hasPermission(context.role, 'write')) {
+      return NextResponse.json(
+        { success: false, error: { code: 'FORBIDDEN', message: 'Insufficient permissions' } },
+        { status: 403 }
+      );
+    }
+
+    const job = await prisma.repurposeJob.findFirst({
+      where: { id: params.jobId, workspaceId: context.workspaceId },
+      include: { sourceMediaAsset: { select: { status: true } } },
+    });
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Job not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (!RETRYABLE_STATUSES.includes(job.status)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_STATE', message: 'Only failed, partial or cancelled jobs can be retried' } },
+        { status: 400 }
+      );
+    }
+
+    if (job.sourceMediaAsset.status !== 'READY') {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_STATE', message: 'Media asset is not ready for processing' } },
+        { status: 400 }
+      );
+    }
+
+    const retried = await retryRepurposeJob(job);
+    if (!retried) {
+      return NextResponse.json(
+        { success: false, error: { code: 'CONFLICT', message: 'The job is still stopping. Try again in a moment.' } },
+        { status: 409 }
+      );
+    }
+
+    await addAuditLog({
+      workspaceId: context.workspaceId,
+      userId: context.userId,
+      action: 'UPDATE',
+      entityType: 'repurpose_job',
+      entityId: job.id,
+      oldData: { status: job.status },
+      newData: { status: 'QUEUED', retry: true },
+    });
+
+    return NextResponse.json({ success: true, data: { job: retried } });
+  } catch (error) {
+    console.error('Error retrying job:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to retry job' } },
+      { status: 500 }
+    );
+  }
+}
@@ -5,6 +5,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@ugc/database';
 import { getWorkspaceContext, hasPermission, addAuditLog } from '@/lib/workspace';
+import { CANCELLABLE_STATUSES, cancelRepurposeJob } from '@/lib/repurpose-jobs';
 
 interface Params {
   params: { slug: string; jobId: string };
@@ -64,7 +65,7 @@ export async function GET(request: NextRequest, { params }: Params) {
   }
 }
 
-// DELETE /api/workspaces/[slug]/repurpose/[jobId] - Cancel a job
+// DELETE /api/workspaces/[slug]/repurpose/[jobId] - Cancel a job (same as POST .../cancel)
 export async function DELETE(request: NextRequest, { params }: Params) {
   try {
     const context = await getWorkspaceContext(params.slug);
@@ -93,19 +94,14 @@ export async function DELETE(request: NextRequest, { params }: Params) {
       );
     }
 
-    if (job.status === 'COMPLETED' || job.status === 'FAILED') {
+    if (!CANCELLABLE_STATUSES.includes(job.status)) {
       return NextResponse.json(
-        { success: false, error: { code: 'INVALID_STATE', message: 'Cannot cancel completed job' } },
+        { success: false, error: { code: 'INVALID_STATE', message: 'Only queued or processing jobs can be cancelled' } },
         { status: 400 }
       );
     }
 
-    await prisma.repurposeJob.update({
-      where: { id: params.jobId },
-      data: { status: 'CANCELLED' },
-    });
-
-    // TODO: Cancel the BullMQ job
+    await cancelRepurposeJob(job);
 
     await addAuditLog({
       workspaceId: context.workspaceId,
@@ -0,0 +1,63 @@
+/**
+ * Repurpose Batch API - Get a batch with its jobs and aggregate progress
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@ugc/database';
+import { summarizeRepurposeBatch } from '@ugc/shared';
+import { getWorkspaceContext } from '@/lib/workspace';
+
+interface Params {
+  params: { slug: string; batchId: string };
+}
+
+// GET /api/workspaces/[slug]/repurpose/batches/[batchId]
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const context = await getWorkspaceContext(params.slug);
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Workspace not found' } },
+        { status: 404 }
+      );
+    }
+
+    const batch = await prisma.repurposeBatch.findFirst({
+      where: { id: params.batchId, workspaceId: context.workspaceId },
+      include: {
+        preset: { select: { id: true, name: true } },
+        createdBy: { select: { id: true, name: true } },
+        jobs: {
+          select: {
+            id: true,
+            sourceMediaAssetId: true,
+            status: true,
+            progress: true,
+            errorMessage: true,
+            completedAt: true,
+            _count: { select: { repurposedClips: true } },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!batch) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Batch not found' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { batch, progress: summarizeRepurposeBatch(batch.jobs) },
+    });
+  } catch (error) {
+    console.error('Error fetching batch:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch batch' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * Repurpose Batches API - Fan out one repurpose job per media asset with shared params
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma, Prisma } from '@ugc/database';
+import { MAX_REPURPOSE_BATCH_SIZE, createRepurposeBatchSchema, summarizeRepurposeBatch } from '@ugc/shared';
+import { getWorkspaceContext, hasPermission, addAuditLog } from '@/lib/workspace';
+import { createRepurposeJob, resolveJobParams } from '@/lib/repurpose-jobs';
+
+interface Params {
+  params: { slug: string };
+}
+
+// GET /api/workspaces/[slug]/repurpose/batches - List recent batches with their progress
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const context = await getWorkspaceContext(params.slug);
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Workspace not found' } },
+        { status: 404 }
+      );
+    }
+
+    const batches = await prisma.repurposeBatch.findMany({
+      where: { workspaceId: context.workspaceId },
+      include: {
+        preset: { select: { id: true, name: true } },
+        createdBy: { select: { id: true, name: true } },
+        jobs: { select: { status: true, progress: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        batches: batches.map(({ jobs, ...batch }) => ({ ...batch, progress: summarizeRepurposeBatch(jobs) })),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching batches:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch batches' } },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/workspaces/[slug]/repurpose/batches - Repurpose every asset matching a filter or a list of assets
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const context = await getWorkspaceContext(params.slug);
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Workspace not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (!hasPermission(context.role, 'write')) {
+      return NextResponse.json(
+        { success: false, error: { code: 'FORBIDDEN', message: 'Insufficient permissions' } },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = createRepurposeBatchSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid input', details: validation.error.flatten().fieldErrors },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { filter, mediaAssetIds, presetId, params: overrides } = validation.data;
+
+    const resolved = await resolveJobParams(context.workspaceId, presetId, overrides);
+    if ('error' in resolved) {
+      const { status, ...error } = resolved.error;
+      return NextResponse.json({ success: false, error }, { status });
+    }
+    const jobParams = resolved.params;
+
+    const where: Prisma.MediaAssetWhereInput = {
+      workspaceId: context.workspaceId,
+      type: 'VIDEO',
+      status: 'READY',
+    };
+
+    if (filter) {
+      // Only UGC the creator approved, with rights that have not expired
+      where.ugcPost = {
+        ...(filter.platform && { platform: filter.platform }),
+        ...(filter.hashtag && { hashtags: { has: filter.hashtag } }),
+        ...((filter.from || filter.to) && {
+          postedAt: {
+            ...(filter.from && { gte: filter.from }),
+            ...(filter.to && { lte: filter.to }),
+          },
+        }),
+        rightsRequest: {
+          status: 'APPROVED',
+          OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+        },
+      };
+    } else {
+      where.id = { in: mediaAssetIds };
+    }
+
+    const assets = await prisma.mediaAsset.findMany({
+      where,
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+      take: MAX_REPURPOSE_BATCH_SIZE + 1,
+    });
+
+    // Listed assets that are missing, not videos or not ready yet
+    const selectedIds = new Set(assets.map((asset) => asset.id));
+    const skipped = (mediaAssetIds ?? []).filter((id) => !selectedIds.has(id));
+
+    if (assets.length === 0) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_STATE', message: 'No ready videos match the batch' } },
+        { status: 400 }
+      );
+    }
+
+    if (assets.length > MAX_REPURPOSE_BATCH_SIZE) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_STATE',
+            message: `More than ${MAX_REPURPOSE_BATCH_SIZE} videos match the filter, narrow it down`,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const batch = await prisma.repurposeBatch.create({
+      data: {
+        workspaceId: context.workspaceId,
+        presetId,
+        paramsJson: JSON.parse(JSON.stringify(jobParams)),
+        filterJson: JSON.parse(JSON.stringify(filter ?? { mediaAssetIds })),
+        totalJobs: assets.length,
+        createdById: context.userId,
+      },
+    });
+
+    // A job that fails to queue is kept as FAILED and counted in the batch progress
+    const jobs = [];
+    for (const asset of assets) {
+      try {
+        jobs.push(
+          await createRepurposeJob({
+            workspaceId: context.workspaceId,
+            sourceMediaAssetId: asset.id,
+            params: jobParams,
+            presetId,
+            batchId: batch.id,
+          })
+        );
+      } catch (queueError) {
+        console.error(`Error queueing batch job for asset ${asset.id}:`, queueError);
+      }
+    }
+
+    await addAuditLog({
+      workspaceId: context.workspaceId,
+      userId: context.userId,
+      action: 'CREATE',
+      entityType: 'repurpose_batch',
+      entityId: batch.id,
+      newData: { filter, mediaAssetIds, presetId, params: jobParams, totalJobs: assets.length },
+    });
+
+    const batchJobs = await prisma.repurposeJob.findMany({
+      where: { batchId: batch.id },
+      select: { status: true, progress: true },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { batch, progress: summarizeRepurposeBatch(batchJobs), queued: jobs.length, skipped },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating batch:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to create batch' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Clip Export API - Get an export with its spec checks and a download link once it is ready
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@ugc/database';
+import { getWorkspaceContext } from '@/lib/workspace';
+import { getDownloadUrl } from '@/lib/s3';
+import { serializeClipExport } from '@/lib/clip-exports';
+
+interface Params {
+  params: { slug: string; exportId: string };
+}
+
+// Bundles hold rights and product details, so they are only handed out through short-lived links
+const DOWNLOAD_URL_EXPIRY = 15 * 60;
+
+// GET /api/workspaces/[slug]/repurpose/exports/[exportId]
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const context = await getWorkspaceContext(params.slug);
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Workspace not found' } },
+        { status: 404 }
+      );
+    }
+
+    const clipExport = await prisma.clipExport.findFirst({
+      where: { id: params.exportId, workspaceId: context.workspaceId },
+      include: {
+        campaign: { select: { id: true, name: true } },
+        createdBy: { select: { id: true, name: true } },
+      },
+    });
+
+    if (!clipExport) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Export not found' } },
+        { status: 404 }
+      );
+    }
+
+    const downloadUrl =
+      clipExport.status === 'COMPLETED' && clipExport.storageKey
+        ? await getDownloadUrl(clipExport.storageKey, DOWNLOAD_URL_EXPIRY)
+        : null;
+
+    return NextResponse.json({
+      success: true,
+      data: { export: serializeClipExport(clipExport), downloadUrl },
+    });
+  } catch (error) {
+    console.error('Error fetching export:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch export' } },
+      { status: 500 }
+    );
+  }
+}
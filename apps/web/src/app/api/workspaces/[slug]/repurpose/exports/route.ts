@@ -0,0 +1,172 @@
+/**
+ * Clip Exports API - Bundle clips with captions and a manifest, checked against ad placement specs
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@ugc/database';
+import { queueClipExport } from '@ugc/queue';
+import { createClipExportSchema } from '@ugc/shared';
+import { getWorkspaceContext, hasPermission, addAuditLog } from '@/lib/workspace';
+import { serializeClipExport } from '@/lib/clip-exports';
+
+interface Params {
+  params: { slug: string };
+}
+
+// GET /api/workspaces/[slug]/repurpose/exports - List recent exports
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const context = await getWorkspaceContext(params.slug);
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Workspace not found' } },
+        { status: 404 }
+      );
+    }
+
+    const exports = await prisma.clipExport.findMany({
+      where: { workspaceId: context.workspaceId },
+      select: {
+        id: true,
+        clipIds: true,
+        platforms: true,
+        status: true,
+        progress: true,
+        fileSize: true,
+        errorMessage: true,
+        completedAt: true,
+        createdAt: true,
+        campaign: { select: { id: true, name: true } },
+        createdBy: { select: { id: true, name: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { exports: exports.map(serializeClipExport) },
+    });
+  } catch (error) {
+    console.error('Error fetching exports:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch exports' } },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/workspaces/[slug]/repurpose/exports - Queue an export bundle of selected clips
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const context = await getWorkspaceContext(params.slug);
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Workspace not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (!hasPermission(context.role, 'write')) {
+      return NextResponse.json(
+        { success: false, error: { code: 'FORBIDDEN', message: 'Insufficient permissions' } },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = createClipExportSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid input', details: validation.error.flatten().fieldErrors },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { platforms, campaignId, useBranded } = validation.data;
+    const clipIds = Array.from(new Set(validation.data.clipIds));
+
+    const clips = await prisma.repurposedClip.findMany({
+      where: { id: { in: clipIds }, workspaceId: context.workspaceId, status: 'READY', storageKey: { not: null } },
+      select: { id: true },
+    });
+
+    if (clips.length < clipIds.length) {
+      const readyIds = new Set(clips.map((clip) => clip.id));
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_STATE',
+            message: 'Some clips are missing or not ready',
+            details: { clipIds: clipIds.filter((id) => !readyIds.has(id)) },
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (campaignId) {
+      const campaign = await prisma.campaign.findFirst({
+        where: { id: campaignId, workspaceId: context.workspaceId },
+      });
+      if (!campaign) {
+        return NextResponse.json(
+          { success: false, error: { code: 'NOT_FOUND', message: 'Campaign not found' } },
+          { status: 404 }
+        );
+      }
+    }
+
+    const clipExport = await prisma.clipExport.create({
+      data: {
+        workspaceId: context.workspaceId,
+        clipIds,
+        platforms,
+        campaignId,
+        useBranded,
+        createdById: context.userId,
+      },
+    });
+
+    let queuedJob;
+    try {
+      queuedJob = await queueClipExport(context.workspaceId, clipExport.id);
+    } catch (queueError) {
+      await prisma.clipExport.update({
+        where: { id: clipExport.id },
+        data: { status: 'FAILED', errorMessage: 'Failed to queue export', completedAt: new Date() },
+      });
+      throw queueError;
+    }
+
+    const queued = await prisma.clipExport.update({
+      where: { id: clipExport.id },
+      data: { queueJobId: queuedJob.id },
+    });
+
+    await addAuditLog({
+      workspaceId: context.workspaceId,
+      userId: context.userId,
+      action: 'EXPORT',
+      entityType: 'clip_export',
+      entityId: clipExport.id,
+      newData: { clipIds, platforms, campaignId, useBranded },
+    });
+
+    return NextResponse.json(
+      { success: true, data: { export: serializeClipExport(queued) } },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating export:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to create export' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Repurpose Preset API - Get, update, delete a specific preset
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma, Prisma } from '@ugc/database';
+import { updateRepurposePresetSchema } from '@ugc/shared';
+import { getWorkspaceContext, hasPermission, addAuditLog } from '@/lib/workspace';
+
+interface Params {
+  params: { slug: string; presetId: string };
+}
+
+// GET /api/workspaces/[slug]/repurpose/presets/[presetId]
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const context = await getWorkspaceContext(params.slug);
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Workspace not found' } },
+        { status: 404 }
+      );
+    }
+
+    const preset = await prisma.repurposePreset.findFirst({
+      where: { id: params.presetId, workspaceId: context.workspaceId },
+      include: {
+        createdBy: { select: { id: true, name: true } },
+        _count: { select: { jobs: true } },
+      },
+    });
+
+    if (!preset) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Preset not found' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: { preset } });
+  } catch (error) {
+    console.error('Error fetching preset:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch preset' } },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/workspaces/[slug]/repurpose/presets/[presetId] - Rename or change settings
+// Jobs already created from the preset keep the settings they were queued with
+export async function PATCH(request: NextRequest, { params }: Params) {
+  try {
+    const context = await getWorkspaceContext(params.slug);
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Workspace not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (!hasPermission(context.role, 'write')) {
+      return NextResponse.json(
+        { success: false, error: { code: 'FORBIDDEN', message: 'Insufficient permissions' } },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = updateRepurposePresetSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid input', details: validation.error.flatten().fieldErrors },
+        },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.repurposePreset.findFirst({
+      where: { id: params.presetId, workspaceId: context.workspaceId },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Preset not found' } },
+        { status: 404 }
+      );
+    }
+
+    const { name, description, settings } = validation.data;
+
+    if (name && name !== existing.name) {
+      const duplicate = await prisma.repurposePreset.findUnique({
+        where: { workspaceId_name: { workspaceId: context.workspaceId, name } },
+      });
+
+      if (duplicate) {
+        return NextResponse.json(
+          { success: false, error: { code: 'CONFLICT', message: 'A preset with this name already exists' } },
+          { status: 409 }
+        );
+      }
+    }
+
+    const preset = await prisma.repurposePreset.update({
+      where: { id: existing.id },
+      data: {
+        ...(name !== undefined && { name }),
+        ...(description !== undefined && { description }),
+        ...(settings && { settingsJson: JSON.parse(JSON.stringify(settings)) }),
+      },
+    });
+
+    await addAuditLog({
+      workspaceId: context.workspaceId,
+      userId: context.userId,
+      action: 'UPDATE',
+      entityType: 'repurpose_preset',
+      entityId: preset.id,
+      oldData: { name: existing.name, settings: existing.settingsJson },
+      newData: { name: preset.name, settings: preset.settingsJson },
+    });
+
+    return NextResponse.json({ success: true, data: { preset } });
+  } catch (error) {
+    // Another request took the name between the check above and the write
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json(
+        { success: false, error: { code: 'CONFLICT', message: 'A preset with this name already exists' } },
+        { status: 409 }
+      );
+    }
+
+    console.error('Error updating preset:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to update preset' } },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/workspaces/[slug]/repurpose/presets/[presetId]
+export async function DELETE(request: NextRequest, { params }: Params) {
+  try {
+    const context = await getWorkspaceContext(params.slug);
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Workspace not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (!hasPermission(context.role, 'write')) {
+      return NextResponse.json(
+        { success: false, error: { code: 'FORBIDDEN', message: 'Insufficient permissions' } },
+        { status: 403 }
+      );
+    }
+
+    const existing = await prisma.repurposePreset.findFirst({
+      where: { id: params.presetId, workspaceId: context.workspaceId },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Preset not found' } },
+        { status: 404 }
+      );
+    }
+
+    // Jobs made from the preset keep their params, only the link is cleared
+    await prisma.repurposePreset.delete({ where: { id: existing.id } });
+
+    await addAuditLog({
+      workspaceId: context.workspaceId,
+      userId: context.userId,
+      action: 'DELETE',
+      entityType: 'repurpose_preset',
+      entityId: existing.id,
+      oldData: { name: existing.name, settings: existing.settingsJson },
+    });
+
+    return NextResponse.json({ success: true, data: { message: 'Preset deleted' } });
+  } catch (error) {
+    console.error('Error deleting preset:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to delete preset' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Repurpose Presets API - List and save clip recipes
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma, Prisma } from '@ugc/database';
+import { createRepurposePresetSchema } from '@ugc/shared';
+import { getWorkspaceContext, hasPermission, addAuditLog } from '@/lib/workspace';
+
+interface Params {
+  params: { slug: string };
+}
+
+// GET /api/workspaces/[slug]/repurpose/presets - List presets
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const context = await getWorkspaceContext(params.slug);
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Workspace not found' } },
+        { status: 404 }
+      );
+    }
+
+    const presets = await prisma.repurposePreset.findMany({
+      where: { workspaceId: context.workspaceId },
+      include: {
+        createdBy: { select: { id: true, name: true } },
+        _count: { select: { jobs: true } },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({ success: true, data: { presets } });
+  } catch (error) {
+    console.error('Error fetching presets:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch presets' } },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/workspaces/[slug]/repurpose/presets - Save a preset
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const context = await getWorkspaceContext(params.slug);
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Workspace not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (!hasPermission(context.role, 'write')) {
+      return NextResponse.json(
+        { success: false, error: { code: 'FORBIDDEN', message: 'Insufficient permissions' } },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = createRepurposePresetSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid input', details: validation.error.flatten().fieldErrors },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { name, description, settings } = validation.data;
+
+    const existing = await prisma.repurposePreset.findUnique({
+      where: { workspaceId_name: { workspaceId: context.workspaceId, name } },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { success: false, error: { code: 'CONFLICT', message: 'A preset with this name already exists' } },
+        { status: 409 }
+      );
+    }
+
+    const preset = await prisma.repurposePreset.create({
+      data: {
+        workspaceId: context.workspaceId,
+        name,
+        description,
+        settingsJson: JSON.parse(JSON.stringify(settings)),
+        createdById: context.userId,
+      },
+    });
+
+    await addAuditLog({
+      workspaceId: context.workspaceId,
+      userId: context.userId,
+      action: 'CREATE',
+      entityType: 'repurpose_preset',
+      entityId: preset.id,
+      newData: { name, settings },
+    });
+
+    return NextResponse.json({ success: true, data: { preset } }, { status: 201 });
+  } catch (error) {
+    // Another request took the name between the check above and the write
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json(
+        { success: false, error: { code: 'CONFLICT', message: 'A preset with this name already exists' } },
+        { status: 409 }
+      );
+    }
+
+    console.error('Error creating preset:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to create preset' } },
+      { status: 500 }
+    );
+  }
+}
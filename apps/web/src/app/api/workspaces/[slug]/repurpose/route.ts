@@ -4,30 +4,14 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma, JobStatus } from '@ugc/database';
-import { z } from 'zod';
+import { createRepurposeJobSchema } from '@ugc/shared';
 import { getWorkspaceContext, hasPermission, addAuditLog } from '@/lib/workspace';
+import { createRepurposeJob, resolveJobParams } from '@/lib/repurpose-jobs';
 
 interface Params {
   params: { slug: string };
 }
 
-const createJobSchema = z.object({
-  sourceMediaAssetId: z.string().cuid(),
-  params: z.object({
-    durations: z.array(z.number()).default([10, 20, 30]),
-    formats: z.array(z.enum(['VERTICAL_9_16', 'SQUARE_1_1', 'HORIZONTAL_16_9'])).default(['VERTICAL_9_16']),
-    generateCaptions: z.boolean().default(true),
-    burnInCaptions: z.boolean().default(false),
-    captionStyle: z.object({
-      fontFamily: z.string().optional(),
-      fontSize: z.number().optional(),
-      fontColor: z.string().optional(),
-      backgroundColor: z.string().optional(),
-      position: z.enum(['top', 'center', 'bottom']).optional(),
-    }).optional(),
-  }),
-});
-
 // GET /api/workspaces/[slug]/repurpose - List repurpose jobs
 export async function GET(request: NextRequest, { params }: Params) {
   try {
@@ -86,7 +70,7 @@ export async function POST(request: NextRequest, { params }: Params) {
     }
 
     const body = await request.json();
-    const validation = createJobSchema.safeParse(body);
+    const validation = createRepurposeJobSchema.safeParse(body);
 
     if (!validation.success) {
       return NextResponse.json(
@@ -98,7 +82,14 @@ export async function POST(request: NextRequest, { params }: Params) {
       );
     }
 
-    const { sourceMediaAssetId, params: jobParams } = validation.data;
+    const { sourceMediaAssetId, presetId, params: overrides } = validation.data;
+
+    const resolved = await resolveJobParams(context.workspaceId, presetId, overrides);
+    if ('error' in resolved) {
+      const { status, ...error } = resolved.error;
+      return NextResponse.json({ success: false, error }, { status });
+    }
+    const jobParams = resolved.params;
 
     // Verify media asset belongs to workspace and is ready
     const mediaAsset = await prisma.mediaAsset.findFirst({
@@ -123,26 +114,20 @@ export async function POST(request: NextRequest, { params }: Params) {
       );
     }
 
-    // Create job
-    const job = await prisma.repurposeJob.create({
-      data: {
-        workspaceId: context.workspaceId,
-        sourceMediaAssetId,
-        status: 'QUEUED',
-        paramsJson: JSON.parse(JSON.stringify(jobParams)),
-      },
+    const job = await createRepurposeJob({
+      workspaceId: context.workspaceId,
+      sourceMediaAssetId,
+      params: jobParams,
+      presetId,
     });
 
-    // TODO: Queue the job with BullMQ
-    // await queueClipGeneration(job.id, sourceMediaAssetId, jobParams);
-
     await addAuditLog({
       workspaceId: context.workspaceId,
       userId: context.userId,
       action: 'CREATE',
       entityType: 'repurpose_job',
       entityId: job.id,
-      newData: { sourceMediaAssetId, params: jobParams },
+      newData: { sourceMediaAssetId, presetId, params: jobParams },
     });
 
     return NextResponse.json({ success: true, data: { job } }, { status: 201 });
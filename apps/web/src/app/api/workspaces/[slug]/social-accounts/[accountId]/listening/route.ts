@@ -0,0 +1,111 @@
+/**
+ * Account Listening API - Hashtags, mentions and handles polled on a schedule for new UGC
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@ugc/database';
+import { scheduleAccountListening, unscheduleAccountListening } from '@ugc/queue';
+import { listeningSettingsSchema, LISTENING_INTERVAL_MINUTES } from '@ugc/shared';
+import { getWorkspaceContext, hasPermission, addAuditLog } from '@/lib/workspace';
+
+interface Params {
+  params: { slug: string; accountId: string };
+}
+
+// PATCH /api/workspaces/[slug]/social-accounts/[accountId]/listening - Update listening settings
+export async function PATCH(request: NextRequest, { params }: Params) {
+  try {
+    const context = await getWorkspaceContext(params.slug);
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Workspace not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (!hasPermission(context.role, 'write')) {
+      return NextResponse.json(
+        { success: false, error: { code: 'FORBIDDEN', message: 'Insufficient permissions' } },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = listeningSettingsSchema.safeParse(body);
+
+    if (!validation.success) {
+      const { formErrors, fieldErrors } = validation.error.flatten();
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: formErrors[0] ?? 'Invalid input',
+            details: fieldErrors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const account = await prisma.socialAccount.findFirst({
+      where: { id: params.accountId, workspaceId: context.workspaceId },
+      include: { workspace: { select: { plan: true } } },
+    });
+
+    if (!account) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Account not found' } },
+        { status: 404 }
+      );
+    }
+
+    const settings = validation.data;
+    if (settings.enabled && account.status !== 'CONNECTED') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'INVALID_STATE', message: 'Reconnect the account before listening' },
+        },
+        { status: 400 }
+      );
+    }
+
+    const updated = await prisma.socialAccount.update({
+      where: { id: account.id },
+      data: { syncSettings: settings },
+      select: { id: true, syncSettings: true, lastSyncAt: true },
+    });
+
+    // The first run starts right away; later runs follow the plan's interval
+    if (settings.enabled && account.platform !== 'MANUAL') {
+      await scheduleAccountListening(
+        { ...account, platform: account.platform },
+        LISTENING_INTERVAL_MINUTES[account.workspace.plan]
+      );
+    } else {
+      await unscheduleAccountListening(account.id);
+    }
+
+    await addAuditLog({
+      workspaceId: context.workspaceId,
+      userId: context.userId,
+      action: 'UPDATE',
+      entityType: 'social_account',
+      entityId: account.id,
+      oldData: { syncSettings: account.syncSettings },
+      newData: { syncSettings: settings },
+    });
+
+    return NextResponse.json({ success: true, data: { account: updated } });
+  } catch (error) {
+    console.error('Error updating listening settings:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to update listening settings' },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Social Account Connect API - Start the OAuth flow that connects a platform account
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { buildAuthorizationUrl, isSocialAuthConfigured } from '@ugc/database';
+import { getWorkspaceContext, hasPermission } from '@/lib/workspace';
+import {
+  OAUTH_STATE_COOKIE,
+  OAUTH_STATE_MAX_AGE,
+  createOAuthState,
+  encodeOAuthState,
+  getOAuthRedirectUri,
+  parsePlatform,
+} from '@/lib/social-oauth';
+
+interface Params {
+  params: { slug: string; platform: string };
+}
+
+// GET /api/workspaces/[slug]/social-accounts/connect/[platform] - Redirect to the consent screen
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const context = await getWorkspaceContext(params.slug);
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Workspace not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (!hasPermission(context.role, 'admin')) {
+      return NextResponse.json(
+        { success: false, error: { code: 'FORBIDDEN', message: 'Insufficient permissions' } },
+        { status: 403 }
+      );
+    }
+
+    const platform = parsePlatform(params.platform);
+    if (!platform) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Unknown platform' } },
+        { status: 404 }
+      );
+    }
+
+    if (!isSocialAuthConfigured(platform)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'NOT_CONFIGURED', message: 'Connecting this platform is not set up' },
+        },
+        { status: 503 }
+      );
+    }
+
+    const state = createOAuthState(params.slug, platform);
+    const response = NextResponse.redirect(
+      buildAuthorizationUrl(platform, {
+        redirectUri: getOAuthRedirectUri(platform),
+        state: state.state,
+      })
+    );
+    response.cookies.set(OAUTH_STATE_COOKIE, encodeOAuthState(state), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      // Lax, so the cookie comes along on the platform's redirect back
+      sameSite: 'lax',
+      path: '/api/oauth',
+      maxAge: OAUTH_STATE_MAX_AGE,
+    });
+    return response;
+  } catch (error) {
+    console.error('Error starting social account connection:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to start connection' } },
+      { status: 500 }
+    );
+  }
+}
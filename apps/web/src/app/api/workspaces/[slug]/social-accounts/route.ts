@@ -0,0 +1,148 @@
+/**
+ * Social Accounts API - The workspace's own platform accounts, which listening runs search for
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@ugc/database';
+import { connectSocialAccountSchema, LISTENING_INTERVAL_MINUTES } from '@ugc/shared';
+import { getWorkspaceContext, hasPermission, addAuditLog } from '@/lib/workspace';
+
+interface Params {
+  params: { slug: string };
+}
+
+// Tokens never leave the server
+const accountSelect = {
+  id: true,
+  platform: true,
+  handle: true,
+  displayName: true,
+  profileUrl: true,
+  profileImageUrl: true,
+  status: true,
+  lastSyncAt: true,
+  syncSettings: true,
+  createdAt: true,
+  _count: { select: { ugcPosts: true } },
+} as const;
+
+// GET /api/workspaces/[slug]/social-accounts - List connected accounts
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const context = await getWorkspaceContext(params.slug);
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Workspace not found' } },
+        { status: 404 }
+      );
+    }
+
+    const [accounts, workspace] = await Promise.all([
+      prisma.socialAccount.findMany({
+        where: { workspaceId: context.workspaceId },
+        select: accountSelect,
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.workspace.findUniqueOrThrow({
+        where: { id: context.workspaceId },
+        select: { plan: true },
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: { accounts, listeningIntervalMinutes: LISTENING_INTERVAL_MINUTES[workspace.plan] },
+    });
+  } catch (error) {
+    console.error('Error fetching social accounts:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch accounts' } },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/workspaces/[slug]/social-accounts - Add an account by handle
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const context = await getWorkspaceContext(params.slug);
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Workspace not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (!hasPermission(context.role, 'admin')) {
+      return NextResponse.json(
+        { success: false, error: { code: 'FORBIDDEN', message: 'Insufficient permissions' } },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = connectSocialAccountSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input',
+            details: validation.error.flatten().fieldErrors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { platform, displayName, profileUrl } = validation.data;
+    const handle = validation.data.handle.trim().replace(/^@/, '').toLowerCase();
+
+    if (platform === 'MANUAL') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Choose TikTok, Instagram or YouTube' },
+        },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.socialAccount.findUnique({
+      where: {
+        workspaceId_platform_handle: { workspaceId: context.workspaceId, platform, handle },
+      },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { success: false, error: { code: 'CONFLICT', message: 'This account is already connected' } },
+        { status: 409 }
+      );
+    }
+
+    const account = await prisma.socialAccount.create({
+      data: { workspaceId: context.workspaceId, platform, handle, displayName, profileUrl },
+      select: accountSelect,
+    });
+
+    await addAuditLog({
+      workspaceId: context.workspaceId,
+      userId: context.userId,
+      action: 'CREATE',
+      entityType: 'social_account',
+      entityId: account.id,
+      newData: { platform, handle },
+    });
+
+    return NextResponse.json({ success: true, data: { account } }, { status: 201 });
+  } catch (error) {
+    console.error('Error adding social account:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to add account' } },
+      { status: 500 }
+    );
+  }
+}
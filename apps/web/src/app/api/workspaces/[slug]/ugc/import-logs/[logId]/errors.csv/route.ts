@@ -0,0 +1,61 @@
+/**
+ * Import Errors Download - The failed rows of an import as a CSV file
+ * The file has the import's own columns, so it can be corrected and uploaded again as it is.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getFailedImportRows, prisma } from '@ugc/database';
+import { importColumnSchema, toCsv } from '@ugc/shared';
+import { getWorkspaceContext } from '@/lib/workspace';
+
+interface Params {
+  params: { slug: string; logId: string };
+}
+
+// GET /api/workspaces/[slug]/ugc/import-logs/[logId]/errors.csv - Download failed rows
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const context = await getWorkspaceContext(params.slug);
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Workspace not found' } },
+        { status: 404 }
+      );
+    }
+
+    const log = await prisma.importLog.findFirst({
+      where: { id: params.logId, workspaceId: context.workspaceId },
+      select: { id: true },
+    });
+
+    if (!log) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Import log not found' } },
+        { status: 404 }
+      );
+    }
+
+    const failed = await getFailedImportRows(log.id);
+    const columns = importColumnSchema.options;
+    const csv = toCsv([
+      ['row', 'error', ...columns],
+      ...failed.map((row) => [row.row, row.error, ...columns.map((column) => row.values[column])]),
+    ]);
+
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="errors.csv"',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting import errors:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to export import errors' },
+      },
+      { status: 500 }
+    );
+  }
+}
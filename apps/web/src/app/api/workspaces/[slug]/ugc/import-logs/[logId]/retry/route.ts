@@ -0,0 +1,185 @@
+/**
+ * Import Retry API - Import the failed rows of an earlier import again
+ * The retry is a new import log linked to the original, so each run keeps its own history.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getFailedImportRows, ImportLogger, prisma } from '@ugc/database';
+import type { ImportLoggerOptions } from '@ugc/database';
+import { queueUgcImport } from '@ugc/queue';
+import { importColumnSchema, retryUgcImportSchema } from '@ugc/shared';
+import { getWorkspaceContext, hasPermission, addAuditLog } from '@/lib/workspace';
+
+interface Params {
+  params: { slug: string; logId: string };
+}
+
+// POST /api/workspaces/[slug]/ugc/import-logs/[logId]/retry - Retry failed rows
+export async function POST(request: NextRequest, { params }: Params) {
+  let logger: ImportLogger | null = null;
+
+  try {
+    const context = await getWorkspaceContext(params.slug);
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Workspace not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (!hasPermission(context.role, 'write')) {
+      return NextResponse.json(
+        { success: false, error: { code: 'FORBIDDEN', message: 'Insufficient permissions' } },
+        { status: 403 }
+      );
+    }
+
+    // The body is optional; without one every failed row is retried as it was
+    const body = await request.json().catch(() => ({}));
+    const validation = retryUgcImportSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input',
+            details: validation.error.flatten().fieldErrors,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { corrections, dryRun } = validation.data;
+
+    const log = await prisma.importLog.findFirst({
+      where: { id: params.logId, workspaceId: context.workspaceId },
+    });
+
+    if (!log) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Import log not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (log.status === 'PENDING' || log.status === 'PROCESSING') {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_STATE', message: 'Import is still running' } },
+        { status: 400 }
+      );
+    }
+
+    const failed = await getFailedImportRows(log.id);
+    if (failed.length === 0) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_STATE', message: 'Import has no failed rows' } },
+        { status: 400 }
+      );
+    }
+
+    const failedRows = new Set(failed.map((row) => row.row));
+    const unknown = corrections.filter((correction) => !failedRows.has(correction.row));
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input',
+            details: {
+              corrections: [`Rows ${unknown.map((c) => c.row).join(', ')} did not fail`],
+            },
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // Corrected values replace the logged ones column by column
+    const corrected = new Map(corrections.map((correction) => [correction.row, correction.values]));
+    const rows = failed.map((row) => ({ ...row.values, ...corrected.get(row.row) }));
+
+    // Logged values are keyed by column already, so each column maps onto itself
+    const mapping = Object.fromEntries(
+      importColumnSchema.options
+        .filter((column) => rows.some((row) => column in row))
+        .map((column) => [column, column])
+    );
+
+    const metadata = (log.metadata ?? {}) as Record<string, unknown>;
+    logger = new ImportLogger({
+      workspaceId: context.workspaceId,
+      source: log.source as ImportLoggerOptions['source'],
+      totalItems: rows.length,
+      parentId: log.id,
+      metadata: {
+        fileName: metadata.fileName,
+        format: metadata.format,
+        mapping,
+        dryRun,
+        corrected: corrections.length,
+      },
+    });
+
+    const importLogId = await logger.start('PENDING');
+    await logger.info(
+      'VALIDATING',
+      `${dryRun ? 'Dry run of retrying' : 'Retrying'} ${rows.length} failed rows, ${corrections.length} corrected`,
+      { parentImportLogId: log.id }
+    );
+
+    await queueUgcImport({
+      workspaceId: context.workspaceId,
+      importLogId,
+      source: { rows, rowNumbers: failed.map((row) => row.row) },
+      mapping,
+      dryRun,
+    });
+
+    await addAuditLog({
+      workspaceId: context.workspaceId,
+      userId: context.userId,
+      action: 'CREATE',
+      entityType: 'csv_import',
+      entityId: importLogId,
+      newData: {
+        parentImportLogId: log.id,
+        rows: rows.length,
+        corrected: corrections.length,
+        dryRun,
+      },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          importLogId,
+          parentImportLogId: log.id,
+          rows: rows.length,
+          dryRun,
+          message: dryRun ? 'Dry run started' : 'Retry started',
+        },
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Error retrying import:', error);
+
+    if (logger?.getLogId()) {
+      await logger.fail(error instanceof Error ? error.message : 'Unknown error');
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to retry import' },
+        importLogId: logger?.getLogId(),
+      },
+      { status: 500 }
+    );
+  }
+}
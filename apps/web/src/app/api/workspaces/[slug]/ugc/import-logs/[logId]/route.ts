@@ -4,7 +4,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getWorkspaceContext } from '@/lib/workspace';
-import { getImportLog } from '@/lib/import-logger';
+import { getImportLog } from '@ugc/database';
 
 interface Params {
   params: { slug: string; logId: string };
@@ -4,7 +4,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getWorkspaceContext } from '@/lib/workspace';
-import { getImportLogs } from '@/lib/import-logger';
+import { getImportLogs } from '@ugc/database';
 
 interface Params {
   params: { slug: string };
@@ -0,0 +1,122 @@
+/**
+ * Import Upload API - Store a CSV or XLSX file for a background import
+ * Returns the file's headers, a few sample rows and the detected column mapping, so the
+ * mapping can be confirmed before the import starts.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { detectColumnMapping, MAX_IMPORT_FILE_SIZE, spreadsheetFormat } from '@ugc/shared';
+import { getWorkspaceContext, hasPermission } from '@/lib/workspace';
+import { generateMediaKey, uploadFile } from '@/lib/s3';
+import { previewImportFile } from '@/lib/import-files';
+
+interface Params {
+  params: { slug: string };
+}
+
+const CONTENT_TYPES = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+} as const;
+
+// POST /api/workspaces/[slug]/ugc/import/upload - Upload an import file (multipart field "file")
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const context = await getWorkspaceContext(params.slug);
+    if (!context) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Workspace not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (!hasPermission(context.role, 'write')) {
+      return NextResponse.json(
+        { success: false, error: { code: 'FORBIDDEN', message: 'Insufficient permissions' } },
+        { status: 403 }
+      );
+    }
+
+    const form = await request.formData().catch(() => null);
+    const file = form?.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'No file provided' } },
+        { status: 400 }
+      );
+    }
+
+    const format = spreadsheetFormat(file.name);
+    if (!format) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Upload a .csv or .xlsx file' },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (file.size === 0 || file.size > MAX_IMPORT_FILE_SIZE) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `File must be between 1 byte and ${MAX_IMPORT_FILE_SIZE / 1024 / 1024}MB`,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const body = Buffer.from(await file.arrayBuffer());
+
+    let preview;
+    try {
+      preview = await previewImportFile(body, format);
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `File could not be read as ${format.toUpperCase()}`,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (preview.headers.length === 0) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'File has no header row' } },
+        { status: 400 }
+      );
+    }
+
+    const fileKey = generateMediaKey(context.workspaceId, 'import', file.name);
+    await uploadFile(fileKey, body, CONTENT_TYPES[format]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        fileKey,
+        fileName: file.name,
+        format,
+        headers: preview.headers,
+        sampleRows: preview.sampleRows,
+        mapping: detectColumnMapping(preview.headers),
+      },
+    });
+  } catch (error) {
+    console.error('Error uploading import file:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to upload import file' },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -3,10 +3,15 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@ugc/database';
-import { ugcPostFiltersSchema, importUgcManualSchema } from '@ugc/shared';
+import { prisma, Prisma, findExistingPost, ImportLogger } from '@ugc/database';
+import {
+  ugcPostFiltersSchema,
+  importUgcManualSchema,
+  resolvePostUrl,
+  enrichedPostFields,
+} from '@ugc/shared';
 import { getWorkspaceContext, hasPermission, addAuditLog } from '@/lib/workspace';
-import { ImportLogger } from '@/lib/import-logger';
+import { enrichImportedPost } from '@/lib/post-enrichment';
 
 interface Params {
   params: { slug: string };
@@ -156,16 +161,9 @@ export async function POST(request: NextRequest, { params }: Params) {
 
     await logger.success('VALIDATING', 'Input validation passed');
 
-    const { postUrl, platform, creatorHandle, creatorName, caption, hashtags, postedAt } = validation.data;
+    const { platform, creatorHandle, creatorName, caption, hashtags, postedAt } = validation.data;
 
-    // Check for duplicates
-    await logger.info('CHECKING_DUPLICATE', 'Checking for existing imports', { postUrl, platform });
-    
-    const existing = await prisma.ugcPost.findFirst({
-      where: { workspaceId: context.workspaceId, platform, postUrl },
-    });
-
-    if (existing) {
+    const rejectDuplicate = async (existing: { id: string; creatorHandle: string }) => {
       await logger.warning('CHECKING_DUPLICATE', 'Post already imported', {
         existingPostId: existing.id,
         creatorHandle: existing.creatorHandle,
@@ -180,14 +178,44 @@ export async function POST(request: NextRequest, { params }: Params) {
         },
         { status: 409 }
       );
+    };
+
+    // Check for duplicates by canonical URL and platform post ID
+    await logger.info('CHECKING_DUPLICATE', 'Checking for existing imports', {
+      postUrl: validation.data.postUrl,
+      platform,
+    });
+
+    const { url: postUrl, postId } = await resolvePostUrl(platform, validation.data.postUrl);
+    const existing = await findExistingPost(context.workspaceId, platform, { postUrl, postId });
+
+    if (existing) {
+      return rejectDuplicate(existing);
     }
 
-    await logger.success('CHECKING_DUPLICATE', 'No duplicate found');
+    await logger.success('CHECKING_DUPLICATE', 'No duplicate found', { postUrl, postId });
+
+    // Enrich from the post URL
+    await logger.info('ENRICHING_METADATA', 'Reading post metadata from its URL', { postUrl });
+
+    const enrichment = await enrichImportedPost(logger, postUrl, platform);
+    const enriched = enrichedPostFields(enrichment, { caption, creatorName, postedAt });
+
+    // Short links that could not be followed only reveal the post ID now
+    if (!postId && enriched.postId) {
+      const existingById = await findExistingPost(context.workspaceId, platform, {
+        postUrl,
+        postId: enriched.postId,
+      });
+      if (existingById) {
+        return rejectDuplicate(existingById);
+      }
+    }
 
     // Extract hashtags
     await logger.info('EXTRACTING_HASHTAGS', 'Processing hashtags from caption');
     
-    const extractedHashtags = hashtags || (caption?.match(/#[\w]+/g)?.map(t => t.slice(1).toLowerCase()) || []);
+    const extractedHashtags = hashtags || (enriched.caption?.match(/#[\w]+/g)?.map(t => t.slice(1).toLowerCase()) || []);
     
     await logger.success('EXTRACTING_HASHTAGS', `Found ${extractedHashtags.length} hashtags`, {
       hashtags: extractedHashtags,
@@ -204,10 +232,9 @@ export async function POST(request: NextRequest, { params }: Params) {
           platform,
           postUrl,
           creatorHandle,
-          creatorName,
-          caption,
+          ...enriched,
+          postId: postId ?? enriched.postId,
           hashtags: extractedHashtags,
-          postedAt,
           importSource: 'manual',
         },
         include: {
@@ -220,6 +247,17 @@ export async function POST(request: NextRequest, { params }: Params) {
         creatorHandle: post.creatorHandle,
       });
     } catch (dbError) {
+      // Another import of the same post was saved after the duplicate check
+      if (dbError instanceof Prisma.PrismaClientKnownRequestError && dbError.code === 'P2002') {
+        const raced = await findExistingPost(context.workspaceId, platform, {
+          postUrl,
+          postId: postId ?? enriched.postId,
+        });
+        if (raced) {
+          return rejectDuplicate(raced);
+        }
+      }
+
       const errorMessage = dbError instanceof Error ? dbError.message : 'Unknown database error';
       await logger.error('CREATING_POST', 'Failed to create post', { error: errorMessage });
       await logger.fail('Database error while creating post');
@@ -7,6 +7,7 @@ import { notFound } from 'next/navigation';
 import { prisma } from '@ugc/database';
 import { formatCurrency } from '@ugc/shared';
 import { Metadata } from 'next';
+import { AdaptiveVideo } from '@/components/media/adaptive-video';
 
 interface PageProps {
   params: { workspace: string; pageSlug: string };
@@ -156,9 +157,19 @@ export default async function PublicGalleryPage({ params }: PageProps) {
 
               return (
                 <div key={item.id} className="bg-white rounded-xl shadow-sm overflow-hidden">
-                  {/* Video Thumbnail */}
+                  {/* Video */}
                   <div className="aspect-[9/16] bg-gray-100 relative">
-                    {clip.thumbnailUrl ? (
+                    {clip.streamUrl || clip.storageUrl ? (
+                      <AdaptiveVideo
+                        streamUrl={clip.streamUrl}
+                        fallbackUrl={clip.storageUrl}
+                        poster={clip.thumbnailUrl || undefined}
+                        controls
+                        playsInline
+                        preload="none"
+                        className="w-full h-full object-cover bg-black"
+                      />
+                    ) : clip.thumbnailUrl ? (
                       // eslint-disable-next-line @next/next/no-img-element
                       <img 
                         src={clip.thumbnailUrl} 
@@ -170,14 +181,6 @@ export default async function PublicGalleryPage({ params }: PageProps) {
                         <span className="text-gray-400">Video</span>
                       </div>
                     )}
-                    {/* Play button overlay */}
-                    <div className="absolute inset-0 flex items-center justify-center bg-black/20 opacity-0 hover:opacity-100 transition-opacity cursor-pointer">
-                      <div className="w-16 h-16 rounded-full bg-white/90 flex items-center justify-center">
-                        <svg className="w-8 h-8 text-gray-800 ml-1" fill="currentColor" viewBox="0 0 24 24">
-                          <path d="M8 5v14l11-7z" />
-                        </svg>
-                      </div>
-                    </div>
                   </div>
 
                   {/* Creator Info */}
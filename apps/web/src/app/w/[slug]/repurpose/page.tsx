@@ -3,10 +3,22 @@
  */
 
 import { prisma } from '@ugc/database';
+import type { BrandedRendition, PreviewSprite, RepurposeOutputSummary } from '@ugc/shared';
 import { getWorkspaceContext } from '@/lib/workspace';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { CreateClipsDialog } from '@/components/repurpose/create-clips-dialog';
 import { ClipPreviewDialog, ClipExportButton, BrowseContentButton } from '@/components/repurpose/clip-actions';
+import { CaptionEditorDialog } from '@/components/repurpose/caption-editor-dialog';
+import { SpritePreview } from '@/components/media/sprite-preview';
+import { RetryJobButton } from '@/components/repurpose/job-actions';
+import { ActiveJobsCard } from '@/components/repurpose/active-jobs-card';
+import { ExportBundleDialog } from '@/components/repurpose/export-bundle-dialog';
+
+const JOB_STATUS_LABELS: Record<string, string> = {
+  PARTIAL: 'Partially completed',
+  FAILED: 'Failed',
+  CANCELLED: 'Cancelled',
+};
 
 interface RepurposePageProps {
   params: { slug: string };
@@ -43,6 +55,17 @@ export default async function RepurposePage({ params }: RepurposePageProps) {
     take: 5,
   });
 
+  // Recently finished jobs with outputs that can be retried
+  const unfinishedJobs = await prisma.repurposeJob.findMany({
+    where: {
+      workspaceId: context.workspaceId,
+      status: { in: ['PARTIAL', 'FAILED', 'CANCELLED'] },
+      completedAt: { gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) },
+    },
+    orderBy: { completedAt: 'desc' },
+    take: 5,
+  });
+
   return (
     <div className="space-y-8">
       <div className="flex items-center justify-between">
@@ -56,28 +79,39 @@ export default async function RepurposePage({ params }: RepurposePageProps) {
       </div>
 
       {/* Active Jobs */}
-      {jobs.length > 0 && (
+      <ActiveJobsCard
+        slug={params.slug}
+        jobs={jobs.map((job) => ({ id: job.id, status: job.status, progress: job.progress }))}
+      />
+
+      {/* Jobs with failed or missing clips */}
+      {unfinishedJobs.length > 0 && (
         <Card>
           <CardHeader>
-            <CardTitle className="text-lg">Processing</CardTitle>
-            <CardDescription>Jobs currently running</CardDescription>
+            <CardTitle className="text-lg">Needs Attention</CardTitle>
+            <CardDescription>Retrying only renders the clips that are missing</CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-3">
-              {jobs.map((job) => (
-                <div key={job.id} className="flex items-center justify-between p-3 bg-muted rounded-lg">
-                  <div>
-                    <p className="font-medium text-sm">Job #{job.id.slice(-6)}</p>
-                    <p className="text-xs text-muted-foreground">{job.status}</p>
-                  </div>
-                  <div className="w-32 bg-muted-foreground/20 rounded-full h-2">
-                    <div 
-                      className="bg-primary h-2 rounded-full transition-all" 
-                      style={{ width: `${job.progress}%` }}
-                    />
+              {unfinishedJobs.map((job) => {
+                const summary = job.outputSummaryJson as RepurposeOutputSummary | null;
+
+                return (
+                  <div key={job.id} className="flex items-center justify-between p-3 bg-muted rounded-lg">
+                    <div className="min-w-0">
+                      <p className="font-medium text-sm">
+                        Job #{job.id.slice(-6)} • {JOB_STATUS_LABELS[job.status] ?? job.status}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {summary?.totalOutputs
+                          ? `${summary.completedOutputs} of ${summary.totalOutputs} clips made`
+                          : job.errorMessage || 'No clips made'}
+                      </p>
+                    </div>
+                    <RetryJobButton slug={params.slug} jobId={job.id} />
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           </CardContent>
         </Card>
@@ -85,11 +119,25 @@ export default async function RepurposePage({ params }: RepurposePageProps) {
 
       {/* Clips Library */}
       <Card>
-        <CardHeader>
-          <CardTitle>Clip Library</CardTitle>
-          <CardDescription>
-            {clips.length} clip{clips.length !== 1 ? 's' : ''} created
-          </CardDescription>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Clip Library</CardTitle>
+            <CardDescription>
+              {clips.length} clip{clips.length !== 1 ? 's' : ''} created
+            </CardDescription>
+          </div>
+          <ExportBundleDialog
+            slug={params.slug}
+            clips={clips
+              .filter((clip) => clip.status === 'READY' && clip.storageKey)
+              .map((clip) => ({
+                id: clip.id,
+                format: clip.format,
+                duration: clip.duration,
+                creatorHandle: clip.sourceMediaAsset?.ugcPost?.creatorHandle || 'unknown',
+                hasBranded: !!(clip.metadata as { branded?: BrandedRendition } | null)?.branded,
+              }))}
+          />
         </CardHeader>
         <CardContent>
           {clips.length === 0 ? (
@@ -108,11 +156,11 @@ export default async function RepurposePage({ params }: RepurposePageProps) {
                   <div key={clip.id} className="rounded-lg border overflow-hidden">
                     <div className="aspect-[9/16] bg-muted flex items-center justify-center relative">
                       {clip.thumbnailUrl ? (
-                        // eslint-disable-next-line @next/next/no-img-element
-                        <img 
-                          src={clip.thumbnailUrl} 
+                        <SpritePreview
+                          posterUrl={clip.thumbnailUrl}
+                          sprite={(clip.metadata as { preview?: PreviewSprite } | null)?.preview}
                           alt="Clip thumbnail"
-                          className="w-full h-full object-cover"
+                          className="w-full h-full"
                         />
                       ) : (
                         <span className="text-muted-foreground text-sm">Video Preview</span>
@@ -140,6 +188,7 @@ export default async function RepurposePage({ params }: RepurposePageProps) {
                           clip={{
                             id: clip.id,
                             storageUrl: clip.storageUrl,
+                            streamUrl: clip.streamUrl,
                             format: clip.format,
                             duration: clip.duration,
                             thumbnailUrl: clip.thumbnailUrl,
@@ -147,10 +196,12 @@ export default async function RepurposePage({ params }: RepurposePageProps) {
                           }}
                           creatorHandle={creatorHandle}
                         />
+                        <CaptionEditorDialog slug={params.slug} clipId={clip.id} />
                         <ClipExportButton 
                           clip={{
                             id: clip.id,
                             storageUrl: clip.storageUrl,
+                            brandedUrl: (clip.metadata as { branded?: BrandedRendition } | null)?.branded?.url,
                             format: clip.format,
                           }}
                           creatorHandle={creatorHandle}
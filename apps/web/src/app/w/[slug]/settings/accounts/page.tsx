@@ -0,0 +1,153 @@
+/**
+ * Social accounts page - connected accounts and what each one listens for
+ */
+
+import { prisma, isSocialAuthConfigured } from '@ugc/database';
+import type { SocialPlatform } from '@ugc/database';
+import { LISTENING_INTERVAL_MINUTES } from '@ugc/shared';
+import { getWorkspaceContext, hasPermission } from '@/lib/workspace';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AddSocialAccountForm } from '@/components/settings/add-social-account-form';
+import { SocialAccountsList } from '@/components/settings/social-accounts-list';
+
+interface AccountsPageProps {
+  params: { slug: string };
+  searchParams: { connected?: string; connect_error?: string };
+}
+
+const connectablePlatforms: { platform: SocialPlatform; label: string }[] = [
+  { platform: 'TIKTOK', label: 'TikTok' },
+  { platform: 'INSTAGRAM', label: 'Instagram' },
+  { platform: 'YOUTUBE', label: 'YouTube' },
+];
+
+// Outcomes the OAuth callback redirects back with
+const connectErrors: Record<string, string> = {
+  denied: 'The connection was cancelled on the platform.',
+  invalid_state: 'The connection expired or was started in another browser. Please try again.',
+  forbidden: 'Only workspace admins can connect accounts.',
+  no_account: 'No account was found for that login. Instagram accounts must be business accounts linked to a Facebook page.',
+  failed: 'The platform did not accept the connection. Please try again.',
+};
+
+function formatInterval(minutes: number): string {
+  if (minutes < 60) return `every ${minutes} minutes`;
+  if (minutes === 60) return 'every hour';
+  if (minutes < 24 * 60) return `every ${minutes / 60} hours`;
+  return 'once a day';
+}
+
+export default async function AccountsPage({ params, searchParams }: AccountsPageProps) {
+  const context = await getWorkspaceContext(params.slug);
+
+  if (!context) {
+    return null;
+  }
+
+  const workspace = await prisma.workspace.findUnique({
+    where: { id: context.workspaceId },
+    select: { plan: true },
+  });
+
+  if (!workspace) {
+    return null;
+  }
+
+  const accounts = await prisma.socialAccount.findMany({
+    where: { workspaceId: context.workspaceId },
+    select: {
+      id: true,
+      platform: true,
+      handle: true,
+      displayName: true,
+      status: true,
+      lastSyncAt: true,
+      syncSettings: true,
+      _count: { select: { ugcPosts: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const interval = formatInterval(LISTENING_INTERVAL_MINUTES[workspace.plan]);
+  const connectError = searchParams.connect_error
+    ? (connectErrors[searchParams.connect_error] ?? connectErrors.failed)
+    : null;
+  const configuredPlatforms = connectablePlatforms
+    .filter(({ platform }) => isSocialAuthConfigured(platform))
+    .map(({ platform }) => platform);
+
+  return (
+    <div className="space-y-8 max-w-4xl">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Social Accounts</h1>
+        <p className="text-muted-foreground">
+          Connect your brand&apos;s accounts and listen for new UGC
+        </p>
+      </div>
+
+      {searchParams.connected && (
+        <div className="p-4 rounded-lg border border-green-200 bg-green-50 text-sm text-green-700 dark:border-green-900 dark:bg-green-950 dark:text-green-300">
+          @{searchParams.connected} is connected.
+        </div>
+      )}
+
+      {connectError && (
+        <div className="p-4 rounded-lg border border-red-200 bg-red-50 text-sm text-red-700 dark:border-red-900 dark:bg-red-950 dark:text-red-300">
+          {connectError}
+        </div>
+      )}
+
+      {hasPermission(context.role, 'admin') && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Add Account</CardTitle>
+            <CardDescription>
+              Connect an account by logging in to the platform, or add one by its handle to listen
+              with the app&apos;s own API access
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex flex-wrap gap-2">
+              {connectablePlatforms.map(({ platform, label }) =>
+                configuredPlatforms.includes(platform) ? (
+                  <Button key={platform} variant="outline" asChild>
+                    <a
+                      href={`/api/workspaces/${params.slug}/social-accounts/connect/${platform.toLowerCase()}`}
+                    >
+                      Connect {label}
+                    </a>
+                  </Button>
+                ) : (
+                  <Button key={platform} variant="outline" disabled title="Not set up on this server">
+                    Connect {label}
+                  </Button>
+                )
+              )}
+            </div>
+            <AddSocialAccountForm slug={params.slug} />
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Listening</CardTitle>
+          <CardDescription>
+            Hashtags, mentions and handles are checked {interval} on the{' '}
+            <span className="capitalize">{workspace.plan.toLowerCase()}</span> plan. New posts land
+            in the UGC feed with a pending rights request.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <SocialAccountsList
+            accounts={accounts}
+            canEdit={hasPermission(context.role, 'write')}
+            reconnectablePlatforms={hasPermission(context.role, 'admin') ? configuredPlatforms : []}
+            slug={params.slug}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+/**
+ * Adaptive Video - Plays a HLS stream when one is available, falling back to the MP4
+ */
+
+'use client';
+
+import { useEffect, useRef } from 'react';
+import type { VideoHTMLAttributes } from 'react';
+import type Hls from 'hls.js';
+
+interface AdaptiveVideoProps extends Omit<VideoHTMLAttributes<HTMLVideoElement>, 'src'> {
+  streamUrl: string | null;
+  fallbackUrl: string | null;
+}
+
+export function AdaptiveVideo({ streamUrl, fallbackUrl, preload, children, ...props }: AdaptiveVideoProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    function playFallback() {
+      if (!video) return;
+      if (fallbackUrl) {
+        video.src = fallbackUrl;
+      } else {
+        video.removeAttribute('src');
+      }
+    }
+
+    if (!streamUrl) {
+      playFallback();
+      return;
+    }
+
+    // Safari and iOS play HLS natively
+    if (video.canPlayType('application/vnd.apple.mpegurl')) {
+      video.src = streamUrl;
+      return;
+    }
+
+    let hls: Hls | null = null;
+    let cancelled = false;
+
+    // Loaded on demand, most pages never need the player
+    import('hls.js').then(({ default: HlsPlayer }) => {
+      if (cancelled) return;
+      if (!HlsPlayer.isSupported()) {
+        playFallback();
+        return;
+      }
+
+      const player = new HlsPlayer({ capLevelToPlayerSize: true, autoStartLoad: preload !== 'none' });
+      hls = player;
+
+      player.on(HlsPlayer.Events.ERROR, (_event, data) => {
+        if (!data.fatal) return;
+        player.destroy();
+        hls = null;
+        playFallback();
+      });
+
+      if (preload === 'none') {
+        video.addEventListener('play', () => player.startLoad(), { once: true });
+      }
+
+      player.loadSource(streamUrl);
+      player.attachMedia(video);
+    });
+
+    return () => {
+      cancelled = true;
+      hls?.destroy();
+    };
+  }, [streamUrl, fallbackUrl, preload]);
+
+  return (
+    <video ref={videoRef} preload={preload} {...props}>
+      {children}
+    </video>
+  );
+}
@@ -0,0 +1,53 @@
+/**
+ * Sprite Preview - Poster image that flips through the preview sprite on hover
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { PreviewSprite } from '@ugc/shared';
+
+interface SpritePreviewProps {
+  posterUrl: string;
+  sprite?: PreviewSprite | null;
+  alt: string;
+  className?: string;
+}
+
+const FRAME_MS = 400;
+
+export function SpritePreview({ posterUrl, sprite, alt, className }: SpritePreviewProps) {
+  const [isHovering, setIsHovering] = useState(false);
+  const [frame, setFrame] = useState(0);
+
+  useEffect(() => {
+    if (!isHovering || !sprite || sprite.frames < 2) return;
+
+    const timer = setInterval(() => setFrame((current) => (current + 1) % sprite.frames), FRAME_MS);
+    return () => {
+      clearInterval(timer);
+      setFrame(0);
+    };
+  }, [isHovering, sprite]);
+
+  return (
+    <div
+      className={`relative ${className ?? ''}`}
+      onMouseEnter={() => setIsHovering(true)}
+      onMouseLeave={() => setIsHovering(false)}
+    >
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      <img src={posterUrl} alt={alt} className="w-full h-full object-cover" />
+      {isHovering && sprite && (
+        <div
+          className="absolute inset-0"
+          style={{
+            backgroundImage: `url(${sprite.url})`,
+            backgroundSize: `${sprite.frames * 100}% 100%`,
+            backgroundPosition: sprite.frames > 1 ? `${(frame / (sprite.frames - 1)) * 100}% 0` : '0 0',
+          }}
+        />
+      )}
+    </div>
+  );
+}
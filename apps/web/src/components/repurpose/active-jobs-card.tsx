@@ -0,0 +1,102 @@
+/**
+ * Active Jobs Card - Running repurpose jobs with live progress from the job stream
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { JobProgress } from '@ugc/shared';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { CancelJobButton } from '@/components/repurpose/job-actions';
+import { useJobEvents } from '@/hooks/use-job-events';
+
+interface ActiveJob {
+  id: string;
+  status: string;
+  progress: number;
+}
+
+interface ActiveJobsCardProps {
+  slug: string;
+  jobs: ActiveJob[];
+}
+
+// Queues whose finished jobs change what the page shows
+const REFRESH_QUEUES = ['clip-generation', 'caption-burn-in', 'clip-branding', 'media-transcode'];
+const REFRESH_DELAY_MS = 500;
+
+export function ActiveJobsCard({ slug, jobs }: ActiveJobsCardProps) {
+  const router = useRouter();
+  const [live, setLive] = useState<Record<string, Pick<JobProgress, 'status' | 'progress'>>>({});
+  const refreshTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => () => clearTimeout(refreshTimer.current), []);
+
+  // Several jobs often finish together, so reload the page data once
+  function scheduleRefresh() {
+    clearTimeout(refreshTimer.current);
+    refreshTimer.current = setTimeout(() => router.refresh(), REFRESH_DELAY_MS);
+  }
+
+  useJobEvents(slug, (event) => {
+    if (event.queue === 'clip-generation' && event.entityId) {
+      setLive((current) => ({
+        ...current,
+        [event.entityId!]: { status: event.status, progress: event.progress },
+      }));
+
+      // Jobs started elsewhere, e.g. in another tab, are not on the page yet
+      const isListed = jobs.some((job) => job.id === event.entityId);
+      if (!isListed && (event.status === 'queued' || event.status === 'processing')) {
+        scheduleRefresh();
+      }
+    }
+
+    if (event.queue && REFRESH_QUEUES.includes(event.queue)) {
+      if (event.status === 'completed' || event.status === 'failed') {
+        scheduleRefresh();
+      }
+    }
+  });
+
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Processing</CardTitle>
+        <CardDescription>Jobs currently running</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {jobs.map((job) => {
+            const progress = live[job.id]?.progress ?? job.progress;
+            const status = live[job.id]?.status.toUpperCase() ?? job.status;
+
+            return (
+              <div key={job.id} className="flex items-center justify-between p-3 bg-muted rounded-lg">
+                <div>
+                  <p className="font-medium text-sm">Job #{job.id.slice(-6)}</p>
+                  <p className="text-xs text-muted-foreground">{status}</p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-xs text-muted-foreground w-8 text-right">{progress}%</span>
+                  <div className="w-32 bg-muted-foreground/20 rounded-full h-2">
+                    <div
+                      className="bg-primary h-2 rounded-full transition-all"
+                      style={{ width: `${progress}%` }}
+                    />
+                  </div>
+                  <CancelJobButton slug={slug} jobId={job.id} />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,313 @@
+/**
+ * Caption Editor Dialog - Fix caption wording and timings, with version history
+ */
+
+'use client';
+
+import { useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { formatCaptionTimestamp } from '@ugc/shared';
+import type { CaptionCue } from '@ugc/shared';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/components/ui/use-toast';
+
+interface CaptionRevision {
+  id: string;
+  version: number;
+  source: 'TRANSCRIPTION' | 'EDIT' | 'RESTORE';
+  cuesJson: CaptionCue[];
+  createdAt: string;
+  createdBy: { name: string | null; email: string } | null;
+}
+
+interface CaptionEditorDialogProps {
+  slug: string;
+  clipId: string;
+}
+
+const SOURCE_LABELS: Record<CaptionRevision['source'], string> = {
+  TRANSCRIPTION: 'Auto-transcribed',
+  EDIT: 'Edited',
+  RESTORE: 'Restored',
+};
+
+export function CaptionEditorDialog({ slug, clipId }: CaptionEditorDialogProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [cues, setCues] = useState<CaptionCue[]>([]);
+  const [version, setVersion] = useState(0);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [captionBurnedIn, setCaptionBurnedIn] = useState(false);
+  const [revisions, setRevisions] = useState<CaptionRevision[]>([]);
+  const [restoredFromVersion, setRestoredFromVersion] = useState<number | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+
+  const baseUrl = `/api/workspaces/${slug}/clips/${clipId}/captions`;
+
+  async function loadCaptions() {
+    setIsLoading(true);
+    try {
+      const [captionsResponse, revisionsResponse] = await Promise.all([
+        fetch(baseUrl),
+        fetch(`${baseUrl}/revisions`),
+      ]);
+      const captionsData = await captionsResponse.json();
+      const revisionsData = await revisionsResponse.json();
+
+      if (!captionsResponse.ok) {
+        toast({
+          title: 'Failed to load captions',
+          description: captionsData.error?.message || 'An error occurred',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      setCues(captionsData.data.cues);
+      setVersion(captionsData.data.version);
+      setVideoUrl(captionsData.data.storageUrl);
+      setCaptionBurnedIn(captionsData.data.captionBurnedIn);
+      setRevisions(revisionsData.data?.revisions || []);
+      setRestoredFromVersion(null);
+      setIsDirty(false);
+    } catch (error) {
+      console.error('Failed to load captions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  function open() {
+    setIsOpen(true);
+    loadCaptions();
+  }
+
+  function close() {
+    if (isDirty && !window.confirm('Discard unsaved caption changes?')) return;
+    setIsOpen(false);
+    setShowHistory(false);
+  }
+
+  function updateCue(index: number, changes: Partial<CaptionCue>) {
+    setCues(cues.map((cue, i) => (i === index ? { ...cue, ...changes } : cue)));
+    setIsDirty(true);
+  }
+
+  function removeCue(index: number) {
+    setCues(cues.filter((_, i) => i !== index));
+    setIsDirty(true);
+  }
+
+  function addCue() {
+    const last = cues[cues.length - 1];
+    const start = last ? last.end : 0;
+    setCues([...cues, { start, end: start + 2, text: '' }]);
+    setIsDirty(true);
+  }
+
+  function seekTo(seconds: number) {
+    if (videoRef.current) {
+      videoRef.current.currentTime = seconds;
+    }
+  }
+
+  function restoreRevision(revision: CaptionRevision) {
+    setCues(revision.cuesJson);
+    setRestoredFromVersion(revision.version);
+    setIsDirty(true);
+    setShowHistory(false);
+  }
+
+  async function handleSave() {
+    setIsSaving(true);
+    try {
+      const response = await fetch(baseUrl, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          cues,
+          baseVersion: version,
+          ...(restoredFromVersion && { restoredFromVersion }),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast({
+          title: response.status === 409 ? 'Captions changed' : 'Failed to save captions',
+          description: data.error?.message || 'An error occurred',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      toast({
+        title: 'Captions saved',
+        description: data.data.burnInQueued
+          ? `Version ${data.data.version} saved. The video is being re-rendered with the new captions.`
+          : `Version ${data.data.version} saved`,
+      });
+
+      await loadCaptions();
+      router.refresh();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to save captions',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  if (!isOpen) {
+    return (
+      <Button size="sm" variant="outline" className="flex-1" onClick={open}>
+        Captions
+      </Button>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4">
+      <div className="bg-background rounded-lg shadow-lg w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="p-4 border-b flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold">Edit Captions</h3>
+            <p className="text-sm text-muted-foreground">
+              Version {version}
+              {restoredFromVersion && ` • restoring version ${restoredFromVersion}`}
+              {captionBurnedIn && ' • saving re-renders the burned-in captions'}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setShowHistory(!showHistory)}>
+              {showHistory ? 'Back to editor' : `History (${revisions.length})`}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={close}>
+              ✕
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-hidden grid md:grid-cols-[240px_1fr] gap-4 p-4">
+          <div className="bg-black rounded-lg flex items-center justify-center max-h-[60vh]">
+            {videoUrl ? (
+              <video ref={videoRef} src={videoUrl} controls className="max-h-full max-w-full rounded-lg" />
+            ) : (
+              <p className="text-white/50 text-sm p-4 text-center">Video not available</p>
+            )}
+          </div>
+
+          <div className="overflow-y-auto max-h-[60vh] pr-1">
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground text-center py-8">Loading captions...</p>
+            ) : showHistory ? (
+              <div className="space-y-2">
+                {revisions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-8">No caption versions yet</p>
+                ) : (
+                  revisions.map((revision) => (
+                    <div key={revision.id} className="flex items-center justify-between p-3 rounded-lg border">
+                      <div>
+                        <p className="text-sm font-medium">
+                          Version {revision.version} • {SOURCE_LABELS[revision.source]}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(revision.createdAt).toLocaleString()}
+                          {revision.createdBy && ` by ${revision.createdBy.name || revision.createdBy.email}`}
+                          {` • ${revision.cuesJson.length} cues`}
+                        </p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => restoreRevision(revision)}
+                        disabled={revision.version === version}
+                      >
+                        {revision.version === version ? 'Current' : 'Restore'}
+                      </Button>
+                    </div>
+                  ))
+                )}
+              </div>
+            ) : cues.length === 0 ? (
+              <div className="text-center py-8 space-y-3">
+                <p className="text-sm text-muted-foreground">
+                  No captions yet. They appear here once transcription finishes.
+                </p>
+                <Button size="sm" variant="outline" onClick={addCue}>
+                  Add caption
+                </Button>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {cues.map((cue, index) => (
+                  <div key={index} className="flex items-start gap-2 p-2 rounded-lg border">
+                    <button
+                      type="button"
+                      className="text-xs text-muted-foreground font-mono pt-2 hover:text-foreground"
+                      onClick={() => seekTo(cue.start)}
+                      title="Jump to this caption"
+                    >
+                      {formatCaptionTimestamp(cue.start).slice(3, 9)}
+                    </button>
+                    <div className="flex-1 space-y-1">
+                      <Input
+                        value={cue.text}
+                        onChange={(e) => updateCue(index, { text: e.target.value })}
+                        placeholder="Caption text"
+                      />
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <span>Start</span>
+                        <Input
+                          type="number"
+                          step="0.1"
+                          min={0}
+                          value={cue.start}
+                          onChange={(e) => updateCue(index, { start: Number(e.target.value) })}
+                          className="h-7 w-20 text-xs"
+                        />
+                        <span>End</span>
+                        <Input
+                          type="number"
+                          step="0.1"
+                          min={0}
+                          value={cue.end}
+                          onChange={(e) => updateCue(index, { end: Number(e.target.value) })}
+                          className="h-7 w-20 text-xs"
+                        />
+                      </div>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => removeCue(index)} title="Remove caption">
+                      ✕
+                    </Button>
+                  </div>
+                ))}
+                <Button size="sm" variant="outline" onClick={addCue}>
+                  Add caption
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 border-t flex justify-end gap-2">
+          <Button variant="outline" onClick={close} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || isLoading || !isDirty}>
+            {isSaving ? 'Saving...' : 'Save Captions'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
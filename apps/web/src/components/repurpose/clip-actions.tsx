@@ -7,11 +7,13 @@
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/components/ui/use-toast';
+import { AdaptiveVideo } from '@/components/media/adaptive-video';
 
 interface ClipPreviewDialogProps {
   clip: {
     id: string;
     storageUrl: string | null;
+    streamUrl: string | null;
     format: string;
     duration: number | null;
     thumbnailUrl: string | null;
@@ -47,17 +49,19 @@ export function ClipPreviewDialog({ clip, creatorHandle }: ClipPreviewDialogProp
         </div>
         <div className="p-4">
           <div className="aspect-[9/16] max-h-[60vh] mx-auto bg-black rounded-lg flex items-center justify-center">
-            {clip.storageUrl ? (
-              <video 
-                src={clip.storageUrl} 
-                controls 
+            {clip.storageUrl || clip.streamUrl ? (
+              <AdaptiveVideo
+                streamUrl={clip.streamUrl}
+                fallbackUrl={clip.storageUrl}
+                controls
+                playsInline
                 className="max-h-full max-w-full rounded-lg"
                 poster={clip.thumbnailUrl || undefined}
               >
                 {clip.captionTrackUrl && (
                   <track kind="captions" src={clip.captionTrackUrl} label="Captions" default />
                 )}
-              </video>
+              </AdaptiveVideo>
             ) : (
               <div className="text-white/50 text-center p-8">
                 <p className="text-lg mb-2">Preview not available</p>
@@ -78,6 +82,7 @@ interface ClipExportButtonProps {
   clip: {
     id: string;
     storageUrl: string | null;
+    brandedUrl?: string | null; // Paid social version with bumpers and an end card
     format: string;
   };
   creatorHandle: string;
@@ -89,8 +94,8 @@ export function ClipExportButton({ clip, creatorHandle, slug }: ClipExportButton
   const [isOpen, setIsOpen] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
 
-  async function handleDownload() {
-    if (!clip.storageUrl) {
+  async function handleDownload(url: string | null | undefined, variant: string = '') {
+    if (!url) {
       toast({
         title: 'Download unavailable',
         description: 'The clip file is not ready for download',
@@ -104,8 +109,8 @@ export function ClipExportButton({ clip, creatorHandle, slug }: ClipExportButton
     try {
       // Create download link
       const link = document.createElement('a');
-      link.href = clip.storageUrl;
-      link.download = `clip-${creatorHandle}-${clip.format}-${clip.id.slice(-6)}.mp4`;
+      link.href = url;
+      link.download = `clip-${creatorHandle}-${clip.format}-${clip.id.slice(-6)}${variant}.mp4`;
       link.target = '_blank';
       document.body.appendChild(link);
       link.click();
@@ -158,7 +163,7 @@ export function ClipExportButton({ clip, creatorHandle, slug }: ClipExportButton
           <Button 
             className="w-full justify-start" 
             variant="outline"
-            onClick={handleDownload}
+            onClick={() => handleDownload(clip.storageUrl)}
             disabled={isExporting || !clip.storageUrl}
           >
             <svg className="w-4 h-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -166,6 +171,19 @@ export function ClipExportButton({ clip, creatorHandle, slug }: ClipExportButton
             </svg>
             {isExporting ? 'Downloading...' : 'Download MP4'}
           </Button>
+          {clip.brandedUrl && (
+            <Button
+              className="w-full justify-start"
+              variant="outline"
+              onClick={() => handleDownload(clip.brandedUrl, '-branded')}
+              disabled={isExporting}
+            >
+              <svg className="w-4 h-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+              </svg>
+              Download Branded MP4
+            </Button>
+          )}
           <Button 
             className="w-full justify-start" 
             variant="outline"
@@ -10,12 +10,16 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/components/ui/use-toast';
+import { resolveRepurposeParams } from '@ugc/shared';
+import type { RepurposePresetSettings } from '@ugc/shared';
 
 interface MediaAsset {
   id: string;
   filename: string | null;
   duration: number | null;
   status: string;
+  storageUrl: string | null;
+  thumbnailUrl: string | null;
   ugcPost?: {
     creatorHandle: string;
     platform: string;
@@ -23,6 +27,84 @@ interface MediaAsset {
   } | null;
 }
 
+const SELECTION_STRATEGIES = [
+  { value: 'highlights', label: 'Highlights', description: 'Loud, busy moments with a strong opening' },
+  { value: 'scenes', label: 'Scene changes', description: 'Segments that start on a cut and keep moving' },
+  { value: 'first', label: 'From the start', description: 'Always cut from the beginning of the video' },
+] as const;
+
+interface AudioTrack {
+  id: string;
+  duration: number | null;
+  metadata: { track?: { title: string; artist?: string } } | null;
+}
+
+interface RepurposePreset {
+  id: string;
+  name: string;
+  description: string | null;
+  settingsJson: unknown;
+}
+
+const DURATION_OPTIONS = [10, 20, 30];
+
+const FORMAT_OPTIONS = [
+  { value: 'VERTICAL_9_16', label: '9:16 (TikTok/Reels)' },
+  { value: 'SQUARE_1_1', label: '1:1 (Feed)' },
+  { value: 'HORIZONTAL_16_9', label: '16:9 (YouTube)' },
+] as const;
+
+const WATERMARK_POSITIONS = [
+  { value: 'top-left', label: 'Top left' },
+  { value: 'top-right', label: 'Top right' },
+  { value: 'bottom-left', label: 'Bottom left' },
+  { value: 'bottom-right', label: 'Bottom right' },
+  { value: 'center', label: 'Center' },
+] as const;
+
+const CREDIT_POSITIONS = [
+  { value: 'top-left', label: 'Top left' },
+  { value: 'top-center', label: 'Top center' },
+  { value: 'top-right', label: 'Top right' },
+  { value: 'bottom-left', label: 'Bottom left' },
+  { value: 'bottom-center', label: 'Bottom center' },
+  { value: 'bottom-right', label: 'Bottom right' },
+] as const;
+
+const DEFAULT_ATTRIBUTION = {
+  position: 'top-left',
+  fontSize: 40,
+  fontColor: '#FFFFFF',
+  backgroundOpacity: 0.6,
+  showPlatform: true,
+} as const;
+
+const DEFAULT_AUDIO = {
+  normalize: true,
+  targetLoudness: -14,
+  muteOriginal: false,
+};
+
+const DEFAULT_END_CARD = {
+  cta: 'Shop now',
+  duration: 3,
+  backgroundColor: '#000000',
+  textColor: '#FFFFFF',
+  accentColor: '#FFFFFF',
+};
+
+const DEFAULT_SETTINGS: RepurposePresetSettings = {
+  durations: [10, 20],
+  formats: ['VERTICAL_9_16'],
+  strategy: 'highlights',
+  generateCaptions: true,
+  captionLanguage: 'en',
+  burnInCaptions: false,
+};
+
+const selectClassName =
+  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50';
+
 interface CreateClipsDialogProps {
   slug: string;
 }
@@ -34,30 +116,50 @@ export function CreateClipsDialog({ slug }: CreateClipsDialogProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [isFetching, setIsFetching] = useState(false);
   const [mediaAssets, setMediaAssets] = useState<MediaAsset[]>([]);
+  const [audioTracks, setAudioTracks] = useState<AudioTrack[]>([]);
   const [selectedAssetId, setSelectedAssetId] = useState<string>('');
-  const [clipSettings, setClipSettings] = useState({
-    shortClip: true,
-    mediumClip: true,
-    longClip: false,
-    format9_16: true,
-    format1_1: false,
-    format16_9: false,
-    autoCaption: true,
-  });
+  const [focalPoint, setFocalPoint] = useState<{ x: number; y: number } | null>(null);
+  const [presets, setPresets] = useState<RepurposePreset[]>([]);
+  const [presetId, setPresetId] = useState<string>('');
+  const [settings, setSettings] = useState<RepurposePresetSettings>(DEFAULT_SETTINGS);
+  const [customDuration, setCustomDuration] = useState('');
+  const [presetName, setPresetName] = useState('');
+  const [isSavingPreset, setIsSavingPreset] = useState(false);
 
   useEffect(() => {
     if (isOpen && mediaAssets.length === 0) {
       fetchMediaAssets();
+      fetchAudioTracks();
+    }
+    if (isOpen) {
+      fetchPresets();
     }
   }, [isOpen]);
 
+  const selectedAsset = mediaAssets.find((asset) => asset.id === selectedAssetId);
+  const branding = settings.branding;
+  // Matches the worker's default: full volume in place of the original, quieter under it
+  const musicVolume = settings.audio?.musicVolume ?? (settings.audio?.muteOriginal ? 1 : 0.25);
+
+  function assetLabel(asset: MediaAsset) {
+    return asset.ugcPost ? `@${asset.ugcPost.creatorHandle}` : asset.filename || 'Untitled';
+  }
+
+  function updateAudio(changes: Partial<NonNullable<RepurposePresetSettings['audio']>>) {
+    setSettings({ ...settings, audio: { ...DEFAULT_AUDIO, ...settings.audio, ...changes } });
+  }
+
+  function updateBranding(changes: Partial<NonNullable<RepurposePresetSettings['branding']>>) {
+    setSettings({ ...settings, branding: { ...settings.branding, ...changes } });
+  }
+
   async function fetchMediaAssets() {
     setIsFetching(true);
     try {
       const response = await fetch(`/api/workspaces/${slug}/media?status=READY&type=VIDEO`);
       const data = await response.json();
       if (data.success) {
-        setMediaAssets(data.data.assets || []);
+        setMediaAssets(data.data.media || []);
       }
     } catch (error) {
       console.error('Failed to fetch media assets:', error);
@@ -66,6 +168,113 @@ export function CreateClipsDialog({ slug }: CreateClipsDialogProps) {
     }
   }
 
+  async function fetchAudioTracks() {
+    try {
+      const response = await fetch(`/api/workspaces/${slug}/media?status=READY&type=AUDIO`);
+      const data = await response.json();
+      if (data.success) {
+        setAudioTracks(data.data.media || []);
+      }
+    } catch (error) {
+      console.error('Failed to fetch audio tracks:', error);
+    }
+  }
+
+  async function fetchPresets() {
+    try {
+      const response = await fetch(`/api/workspaces/${slug}/repurpose/presets`);
+      const data = await response.json();
+      if (data.success) {
+        setPresets(data.data.presets || []);
+      }
+    } catch (error) {
+      console.error('Failed to fetch presets:', error);
+    }
+  }
+
+  function applyPreset(id: string) {
+    setPresetId(id);
+    const preset = presets.find((item) => item.id === id);
+    if (!preset) {
+      setSettings(DEFAULT_SETTINGS);
+      return;
+    }
+
+    try {
+      // Fills in anything the preset was saved without
+      setSettings(resolveRepurposeParams(preset.settingsJson));
+    } catch (error) {
+      console.error('Invalid preset settings:', error);
+      toast({ title: 'This preset could not be loaded', variant: 'destructive' });
+    }
+  }
+
+  function toggleDuration(duration: number, checked: boolean) {
+    const durations = checked
+      ? [...settings.durations, duration].sort((a, b) => a - b)
+      : settings.durations.filter((value) => value !== duration);
+    setSettings({ ...settings, durations });
+  }
+
+  function addCustomDuration() {
+    const duration = Math.round(Number(customDuration));
+    if (duration > 0 && duration <= 600 && !settings.durations.includes(duration)) {
+      toggleDuration(duration, true);
+    }
+    setCustomDuration('');
+  }
+
+  function toggleFormat(format: RepurposePresetSettings['formats'][number], checked: boolean) {
+    const formats = checked
+      ? [...settings.formats, format]
+      : settings.formats.filter((value) => value !== format);
+    setSettings({ ...settings, formats });
+  }
+
+  async function handleSavePreset() {
+    if (!presetName.trim()) return;
+
+    setIsSavingPreset(true);
+    try {
+      const response = await fetch(`/api/workspaces/${slug}/repurpose/presets`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: presetName.trim(), settings }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast({
+          title: 'Failed to save preset',
+          description: data.error?.message || 'An error occurred',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      setPresets([...presets, data.data.preset].sort((a, b) => a.name.localeCompare(b.name)));
+      setPresetId(data.data.preset.id);
+      setPresetName('');
+      toast({ title: 'Preset saved', description: `"${data.data.preset.name}" is available to your team` });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to save preset',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSavingPreset(false);
+    }
+  }
+
+  function handleFramingClick(e: React.MouseEvent<HTMLDivElement>) {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setFocalPoint({
+      x: Math.round(((e.clientX - rect.left) / rect.width) * 1000) / 1000,
+      y: Math.round(((e.clientY - rect.top) / rect.height) * 1000) / 1000,
+    });
+  }
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     
@@ -80,15 +289,15 @@ export function CreateClipsDialog({ slug }: CreateClipsDialogProps) {
 
     setIsLoading(true);
 
-    const clipDurations: number[] = [];
-    if (clipSettings.shortClip) clipDurations.push(10);
-    if (clipSettings.mediumClip) clipDurations.push(20);
-    if (clipSettings.longClip) clipDurations.push(30);
-
-    const formats: string[] = [];
-    if (clipSettings.format9_16) formats.push('9_16');
-    if (clipSettings.format1_1) formats.push('1_1');
-    if (clipSettings.format16_9) formats.push('16_9');
+    if (settings.durations.length === 0 || settings.formats.length === 0) {
+      toast({
+        title: 'Incomplete settings',
+        description: 'Select at least one duration and one format',
+        variant: 'destructive',
+      });
+      setIsLoading(false);
+      return;
+    }
 
     try {
       const response = await fetch(`/api/workspaces/${slug}/repurpose`, {
@@ -96,11 +305,12 @@ export function CreateClipsDialog({ slug }: CreateClipsDialogProps) {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           sourceMediaAssetId: selectedAssetId,
+          ...(presetId && { presetId }),
+          // Sent in full, so changes made after picking a preset apply to this job only
           params: {
-            clipDurations,
-            formats,
-            autoCaption: clipSettings.autoCaption,
-            captionStyle: 'default',
+            ...settings,
+            ...(focalPoint && { focalPoint }),
+            burnInCaptions: settings.generateCaptions && settings.burnInCaptions,
           },
         }),
       });
@@ -123,6 +333,7 @@ export function CreateClipsDialog({ slug }: CreateClipsDialogProps) {
 
       setIsOpen(false);
       setSelectedAssetId('');
+      setFocalPoint(null);
       router.refresh();
     } catch (error) {
       toast({
@@ -174,16 +385,22 @@ export function CreateClipsDialog({ slug }: CreateClipsDialogProps) {
                         name="sourceAsset"
                         value={asset.id}
                         checked={selectedAssetId === asset.id}
-                        onChange={(e) => setSelectedAssetId(e.target.value)}
+                        onChange={(e) => {
+                          setSelectedAssetId(e.target.value);
+                          setFocalPoint(null);
+                        }}
                         className="sr-only"
                       />
-                      <div className="w-12 h-12 bg-muted rounded flex items-center justify-center text-xs">
-                        Video
-                      </div>
+                      {asset.thumbnailUrl ? (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img src={asset.thumbnailUrl} alt="" className="w-12 h-12 rounded object-cover" />
+                      ) : (
+                        <div className="w-12 h-12 bg-muted rounded flex items-center justify-center text-xs">
+                          Video
+                        </div>
+                      )}
                       <div className="flex-1 min-w-0">
-                        <p className="text-sm font-medium truncate">
-                          {asset.ugcPost ? `@${asset.ugcPost.creatorHandle}` : asset.filename || 'Untitled'}
-                        </p>
+                        <p className="text-sm font-medium truncate">{assetLabel(asset)}</p>
                         <p className="text-xs text-muted-foreground">
                           {asset.duration ? `${Math.round(asset.duration)}s` : 'Duration unknown'}
                           {asset.ugcPost && ` • ${asset.ugcPost.platform}`}
@@ -195,37 +412,62 @@ export function CreateClipsDialog({ slug }: CreateClipsDialogProps) {
               )}
             </div>
 
+            {/* Preset */}
+            {presets.length > 0 && (
+              <div className="space-y-2">
+                <Label htmlFor="preset">Preset</Label>
+                <select
+                  id="preset"
+                  value={presetId}
+                  onChange={(e) => applyPreset(e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">No preset</option>
+                  {presets.map((preset) => (
+                    <option key={preset.id} value={preset.id}>
+                      {preset.name}
+                    </option>
+                  ))}
+                </select>
+                {presets.find((preset) => preset.id === presetId)?.description && (
+                  <p className="text-xs text-muted-foreground">
+                    {presets.find((preset) => preset.id === presetId)?.description}
+                  </p>
+                )}
+              </div>
+            )}
+
             {/* Clip Duration Options */}
             <div className="space-y-2">
               <Label>Clip Durations</Label>
-              <div className="flex flex-wrap gap-3">
-                <label className="flex items-center gap-2">
-                  <input
-                    type="checkbox"
-                    checked={clipSettings.shortClip}
-                    onChange={(e) => setClipSettings({ ...clipSettings, shortClip: e.target.checked })}
-                    className="rounded"
-                  />
-                  <span className="text-sm">Short (6-12s)</span>
-                </label>
-                <label className="flex items-center gap-2">
-                  <input
-                    type="checkbox"
-                    checked={clipSettings.mediumClip}
-                    onChange={(e) => setClipSettings({ ...clipSettings, mediumClip: e.target.checked })}
-                    className="rounded"
-                  />
-                  <span className="text-sm">Medium (12-20s)</span>
-                </label>
-                <label className="flex items-center gap-2">
-                  <input
-                    type="checkbox"
-                    checked={clipSettings.longClip}
-                    onChange={(e) => setClipSettings({ ...clipSettings, longClip: e.target.checked })}
-                    className="rounded"
+              <div className="flex flex-wrap items-center gap-3">
+                {Array.from(new Set([...DURATION_OPTIONS, ...settings.durations]))
+                  .sort((a, b) => a - b)
+                  .map((duration) => (
+                    <label key={duration} className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={settings.durations.includes(duration)}
+                        onChange={(e) => toggleDuration(duration, e.target.checked)}
+                        className="rounded"
+                      />
+                      <span className="text-sm">{duration}s</span>
+                    </label>
+                  ))}
+                <div className="flex items-center gap-1">
+                  <Input
+                    type="number"
+                    min={1}
+                    max={600}
+                    placeholder="Other"
+                    value={customDuration}
+                    onChange={(e) => setCustomDuration(e.target.value)}
+                    className="w-20 h-8"
                   />
-                  <span className="text-sm">Long (20-35s)</span>
-                </label>
+                  <Button type="button" variant="ghost" size="sm" onClick={addCustomDuration} disabled={!customDuration}>
+                    Add
+                  </Button>
+                </div>
               </div>
             </div>
 
@@ -233,33 +475,77 @@ export function CreateClipsDialog({ slug }: CreateClipsDialogProps) {
             <div className="space-y-2">
               <Label>Output Formats</Label>
               <div className="flex flex-wrap gap-3">
-                <label className="flex items-center gap-2">
-                  <input
-                    type="checkbox"
-                    checked={clipSettings.format9_16}
-                    onChange={(e) => setClipSettings({ ...clipSettings, format9_16: e.target.checked })}
-                    className="rounded"
-                  />
-                  <span className="text-sm">9:16 (TikTok/Reels)</span>
-                </label>
-                <label className="flex items-center gap-2">
-                  <input
-                    type="checkbox"
-                    checked={clipSettings.format1_1}
-                    onChange={(e) => setClipSettings({ ...clipSettings, format1_1: e.target.checked })}
-                    className="rounded"
-                  />
-                  <span className="text-sm">1:1 (Feed)</span>
-                </label>
-                <label className="flex items-center gap-2">
-                  <input
-                    type="checkbox"
-                    checked={clipSettings.format16_9}
-                    onChange={(e) => setClipSettings({ ...clipSettings, format16_9: e.target.checked })}
-                    className="rounded"
+                {FORMAT_OPTIONS.map((option) => (
+                  <label key={option.value} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={settings.formats.includes(option.value)}
+                      onChange={(e) => toggleFormat(option.value, e.target.checked)}
+                      className="rounded"
+                    />
+                    <span className="text-sm">{option.label}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {/* Framing */}
+            {selectedAsset?.storageUrl && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Framing</Label>
+                  {focalPoint && (
+                    <Button type="button" variant="ghost" size="sm" onClick={() => setFocalPoint(null)}>
+                      Use smart crop
+                    </Button>
+                  )}
+                </div>
+                <div
+                  className="relative cursor-crosshair rounded-md overflow-hidden bg-black"
+                  onClick={handleFramingClick}
+                >
+                  <video
+                    src={selectedAsset.storageUrl}
+                    poster={selectedAsset.thumbnailUrl || undefined}
+                    muted
+                    preload="metadata"
+                    className="w-full h-auto block"
                   />
-                  <span className="text-sm">16:9 (YouTube)</span>
-                </label>
+                  {focalPoint && (
+                    <div
+                      className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full border-2 border-white bg-primary shadow"
+                      style={{ left: `${focalPoint.x * 100}%`, top: `${focalPoint.y * 100}%` }}
+                    />
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {focalPoint
+                    ? 'Clips are cropped around the marked point'
+                    : 'Clips follow faces and motion automatically. Click the video to keep a specific spot in frame instead.'}
+                </p>
+              </div>
+            )}
+
+            {/* Segment Selection */}
+            <div className="space-y-2">
+              <Label>Segment Selection</Label>
+              <div className="space-y-2">
+                {SELECTION_STRATEGIES.map((option) => (
+                  <label key={option.value} className="flex items-start gap-2">
+                    <input
+                      type="radio"
+                      name="strategy"
+                      value={option.value}
+                      checked={settings.strategy === option.value}
+                      onChange={() => setSettings({ ...settings, strategy: option.value })}
+                      className="mt-1"
+                    />
+                    <span>
+                      <span className="text-sm">{option.label}</span>
+                      <span className="block text-xs text-muted-foreground">{option.description}</span>
+                    </span>
+                  </label>
+                ))}
               </div>
             </div>
 
@@ -268,8 +554,8 @@ export function CreateClipsDialog({ slug }: CreateClipsDialogProps) {
               <label className="flex items-center gap-2">
                 <input
                   type="checkbox"
-                  checked={clipSettings.autoCaption}
-                  onChange={(e) => setClipSettings({ ...clipSettings, autoCaption: e.target.checked })}
+                  checked={settings.generateCaptions}
+                  onChange={(e) => setSettings({ ...settings, generateCaptions: e.target.checked })}
                   className="rounded"
                 />
                 <span className="text-sm font-medium">Auto-generate captions</span>
@@ -277,6 +563,374 @@ export function CreateClipsDialog({ slug }: CreateClipsDialogProps) {
               <p className="text-xs text-muted-foreground ml-6">
                 Automatically transcribe and add captions to clips
               </p>
+              {settings.generateCaptions && (
+                <div className="ml-6 space-y-2">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={settings.burnInCaptions}
+                      onChange={(e) => setSettings({ ...settings, burnInCaptions: e.target.checked })}
+                      className="rounded"
+                    />
+                    <span className="text-sm">Burn captions into the video</span>
+                  </label>
+                  {settings.burnInCaptions && (
+                    <label className="flex items-center gap-2 ml-6">
+                      <input
+                        type="checkbox"
+                        checked={settings.captionStyle?.karaoke ?? false}
+                        onChange={(e) =>
+                          setSettings({
+                            ...settings,
+                            captionStyle: { ...settings.captionStyle, karaoke: e.target.checked },
+                          })
+                        }
+                        className="rounded"
+                      />
+                      <span className="text-sm">Highlight each word as it is spoken</span>
+                    </label>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Audio */}
+            <div className="space-y-2">
+              <Label>Audio</Label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={settings.audio?.normalize ?? false}
+                  onChange={(e) => updateAudio({ normalize: e.target.checked })}
+                  className="rounded"
+                />
+                <span className="text-sm">Normalize loudness (EBU R128, -14 LUFS)</span>
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={settings.audio?.muteOriginal ?? false}
+                  onChange={(e) => updateAudio({ muteOriginal: e.target.checked })}
+                  className="rounded"
+                />
+                <span className="text-sm">Mute the original audio</span>
+              </label>
+              {audioTracks.length > 0 && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="music-bed" className="text-xs">Music bed</Label>
+                    <select
+                      id="music-bed"
+                      value={settings.audio?.musicBedMediaAssetId ?? ''}
+                      onChange={(e) =>
+                        updateAudio({ musicBedMediaAssetId: e.target.value || undefined })
+                      }
+                      className={selectClassName}
+                    >
+                      <option value="">None</option>
+                      {audioTracks.map((track) => (
+                        <option key={track.id} value={track.id}>
+                          {track.metadata?.track?.title || 'Untitled track'}
+                          {track.metadata?.track?.artist && ` – ${track.metadata.track.artist}`}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  {settings.audio?.musicBedMediaAssetId && (
+                    <div className="space-y-1">
+                      <Label htmlFor="music-volume" className="text-xs">
+                        Music volume ({Math.round(musicVolume * 100)}%)
+                      </Label>
+                      <input
+                        id="music-volume"
+                        type="range"
+                        min={0.05}
+                        max={1}
+                        step={0.05}
+                        value={musicVolume}
+                        onChange={(e) => updateAudio({ musicVolume: Number(e.target.value) })}
+                        className="w-full"
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+              {settings.audio?.muteOriginal && (
+                <p className="text-xs text-muted-foreground">
+                  Captions are transcribed from the clip&apos;s new audio, so they will be
+                  empty unless the music bed has vocals.
+                </p>
+              )}
+            </div>
+
+            {/* Watermark */}
+            <div className="space-y-2">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={!!settings.watermark}
+                  onChange={(e) =>
+                    setSettings({
+                      ...settings,
+                      watermark: e.target.checked ? { position: 'bottom-right', opacity: 0.8, size: 15 } : undefined,
+                    })
+                  }
+                  className="rounded"
+                />
+                <span className="text-sm font-medium">Add the workspace logo as a watermark</span>
+              </label>
+              {settings.watermark && (
+                <div className="ml-6 grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="watermark-position" className="text-xs">Position</Label>
+                    <select
+                      id="watermark-position"
+                      value={settings.watermark.position}
+                      onChange={(e) =>
+                        setSettings({
+                          ...settings,
+                          watermark: {
+                            ...settings.watermark!,
+                            position: e.target.value as (typeof WATERMARK_POSITIONS)[number]['value'],
+                          },
+                        })
+                      }
+                      className={selectClassName}
+                    >
+                      {WATERMARK_POSITIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="watermark-opacity" className="text-xs">
+                      Opacity ({Math.round(settings.watermark.opacity * 100)}%)
+                    </Label>
+                    <input
+                      id="watermark-opacity"
+                      type="range"
+                      min={0.1}
+                      max={1}
+                      step={0.05}
+                      value={settings.watermark.opacity}
+                      onChange={(e) =>
+                        setSettings({
+                          ...settings,
+                          watermark: { ...settings.watermark!, opacity: Number(e.target.value) },
+                        })
+                      }
+                      className="w-full"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Creator credit */}
+            <div className="space-y-2">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={!!settings.attribution}
+                  onChange={(e) =>
+                    setSettings({ ...settings, attribution: e.target.checked ? DEFAULT_ATTRIBUTION : undefined })
+                  }
+                  className="rounded"
+                />
+                <span className="text-sm font-medium">Credit the creator</span>
+              </label>
+              <p className="text-xs text-muted-foreground ml-6">
+                Shows &quot;@handle on TikTok&quot; from the source post for the whole clip
+              </p>
+              {settings.attribution && (
+                <div className="ml-6 space-y-2">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label htmlFor="credit-position" className="text-xs">Position</Label>
+                      <select
+                        id="credit-position"
+                        value={settings.attribution.position}
+                        onChange={(e) =>
+                          setSettings({
+                            ...settings,
+                            attribution: {
+                              ...settings.attribution!,
+                              position: e.target.value as (typeof CREDIT_POSITIONS)[number]['value'],
+                            },
+                          })
+                        }
+                        className={selectClassName}
+                      >
+                        {CREDIT_POSITIONS.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="credit-size" className="text-xs">
+                        Text size ({settings.attribution.fontSize}px)
+                      </Label>
+                      <input
+                        id="credit-size"
+                        type="range"
+                        min={24}
+                        max={80}
+                        step={4}
+                        value={settings.attribution.fontSize}
+                        onChange={(e) =>
+                          setSettings({
+                            ...settings,
+                            attribution: { ...settings.attribution!, fontSize: Number(e.target.value) },
+                          })
+                        }
+                        className="w-full"
+                      />
+                    </div>
+                  </div>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={!!settings.attribution.backgroundColor}
+                      onChange={(e) =>
+                        setSettings({
+                          ...settings,
+                          attribution: {
+                            ...settings.attribution!,
+                            backgroundColor: e.target.checked ? '#000000' : undefined,
+                          },
+                        })
+                      }
+                      className="rounded"
+                    />
+                    <span className="text-sm">Dark box behind the text</span>
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={settings.attribution.showPlatform}
+                      onChange={(e) =>
+                        setSettings({
+                          ...settings,
+                          attribution: { ...settings.attribution!, showPlatform: e.target.checked },
+                        })
+                      }
+                      className="rounded"
+                    />
+                    <span className="text-sm">Name the platform</span>
+                  </label>
+                </div>
+              )}
+            </div>
+
+            {/* Branded version */}
+            <div className="space-y-2">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={!!branding}
+                  onChange={(e) =>
+                    setSettings({
+                      ...settings,
+                      branding: e.target.checked ? { endCard: DEFAULT_END_CARD } : undefined,
+                    })
+                  }
+                  className="rounded"
+                />
+                <span className="text-sm font-medium">Also make a branded version for paid social</span>
+              </label>
+              {branding && (
+                <div className="ml-6 space-y-3">
+                  <div className="grid grid-cols-2 gap-3">
+                    {(['intro', 'outro'] as const).map((kind) => {
+                      const field = kind === 'intro' ? 'introMediaAssetId' : 'outroMediaAssetId';
+                      return (
+                        <div key={kind} className="space-y-1">
+                          <Label htmlFor={`branding-${kind}`} className="text-xs">
+                            {kind === 'intro' ? 'Intro bumper' : 'Outro bumper'}
+                          </Label>
+                          <select
+                            id={`branding-${kind}`}
+                            value={branding[field] ?? ''}
+                            onChange={(e) => updateBranding({ [field]: e.target.value || undefined })}
+                            className={selectClassName}
+                          >
+                            <option value="">None</option>
+                            {mediaAssets.map((asset) => (
+                              <option key={asset.id} value={asset.id}>
+                                {assetLabel(asset)}
+                                {asset.duration ? ` (${Math.round(asset.duration)}s)` : ''}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={!!branding.endCard}
+                      onChange={(e) => updateBranding({ endCard: e.target.checked ? DEFAULT_END_CARD : undefined })}
+                      className="rounded"
+                    />
+                    <span className="text-sm">End card with the primary product and price</span>
+                  </label>
+                  {branding.endCard && (
+                    <div className="ml-6 grid grid-cols-2 gap-3">
+                      <div className="space-y-1">
+                        <Label htmlFor="end-card-cta" className="text-xs">Call to action</Label>
+                        <Input
+                          id="end-card-cta"
+                          value={branding.endCard.cta}
+                          maxLength={40}
+                          onChange={(e) => updateBranding({ endCard: { ...branding.endCard!, cta: e.target.value } })}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="end-card-accent" className="text-xs">Button color</Label>
+                        <Input
+                          id="end-card-accent"
+                          type="color"
+                          value={branding.endCard.accentColor}
+                          onChange={(e) =>
+                            updateBranding({ endCard: { ...branding.endCard!, accentColor: e.target.value } })
+                          }
+                        />
+                      </div>
+                    </div>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    The end card shows the workspace logo and the clip&apos;s primary product. Clips without one get the
+                    call to action only.
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {/* Save as preset */}
+            <div className="space-y-2 border-t pt-4">
+              <Label htmlFor="preset-name">Save these settings as a preset</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="preset-name"
+                  placeholder="e.g. TikTok hooks 7/15s burned captions"
+                  value={presetName}
+                  onChange={(e) => setPresetName(e.target.value)}
+                  maxLength={100}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleSavePreset}
+                  disabled={isSavingPreset || !presetName.trim()}
+                >
+                  {isSavingPreset ? 'Saving...' : 'Save'}
+                </Button>
+              </div>
             </div>
 
             <div className="flex gap-2 pt-4">
@@ -0,0 +1,262 @@
+/**
+ * Export Bundle Dialog - Zip selected clips for ad platforms and show their spec checks
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { EXPORT_SPECS, exportPlatformSchema } from '@ugc/shared';
+import type { ClipExportValidation, ExportPlatform } from '@ugc/shared';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/components/ui/use-toast';
+import { useJobEvents } from '@/hooks/use-job-events';
+
+interface ExportableClip {
+  id: string;
+  format: string;
+  duration: number | null;
+  creatorHandle: string;
+  hasBranded: boolean;
+}
+
+interface ExportBundleDialogProps {
+  slug: string;
+  clips: ExportableClip[];
+}
+
+interface ExportState {
+  id: string;
+  status: string;
+  progress: number;
+  errorMessage?: string | null;
+  validation?: ClipExportValidation[] | null;
+  downloadUrl?: string | null;
+}
+
+const PLATFORMS = exportPlatformSchema.options;
+
+export function ExportBundleDialog({ slug, clips }: ExportBundleDialogProps) {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [platforms, setPlatforms] = useState<ExportPlatform[]>([...PLATFORMS]);
+  const [useBranded, setUseBranded] = useState(false);
+  const [current, setCurrent] = useState<ExportState | null>(null);
+
+  const isRunning = current?.status === 'QUEUED' || current?.status === 'PROCESSING';
+
+  async function fetchExport(id: string) {
+    try {
+      const response = await fetch(`/api/workspaces/${slug}/repurpose/exports/${id}`);
+      const data = await response.json();
+      if (data.success) {
+        setCurrent({
+          ...data.data.export,
+          validation: data.data.export.validationJson,
+          downloadUrl: data.data.downloadUrl,
+        });
+      }
+    } catch (error) {
+      console.error('Failed to fetch export:', error);
+    }
+  }
+
+  useJobEvents(
+    slug,
+    (event) => {
+      if (!current || event.queue !== 'clip-export' || event.entityId !== current.id) return;
+
+      if (event.status === 'completed' || event.status === 'failed') {
+        fetchExport(current.id);
+      } else {
+        setCurrent({ ...current, status: 'PROCESSING', progress: event.progress });
+      }
+    },
+    isOpen && isRunning
+  );
+
+  function toggleClip(id: string, checked: boolean) {
+    setSelectedIds(checked ? [...selectedIds, id] : selectedIds.filter((selected) => selected !== id));
+  }
+
+  function togglePlatform(platform: ExportPlatform, checked: boolean) {
+    setPlatforms(checked ? [...platforms, platform] : platforms.filter((selected) => selected !== platform));
+  }
+
+  async function handleExport() {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/workspaces/${slug}/repurpose/exports`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ clipIds: selectedIds, platforms, useBranded }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast({
+          title: 'Export failed',
+          description: data.error?.message || 'An error occurred',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      setCurrent(data.data.export);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to export clips',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  function handleClose() {
+    setIsOpen(false);
+    if (!isRunning) {
+      setCurrent(null);
+    }
+  }
+
+  if (!isOpen) {
+    return (
+      <Button variant="outline" onClick={() => setIsOpen(true)} disabled={clips.length === 0}>
+        Export Bundle
+      </Button>
+    );
+  }
+
+  const clipLabel = (clipId: string) => {
+    const clip = clips.find((candidate) => candidate.id === clipId);
+    return clip ? `@${clip.creatorHandle} • ${clip.format.replace('_', ':')}` : clipId.slice(-6);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <div className="bg-background rounded-lg shadow-lg w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="p-4 border-b flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold">Export Bundle</h3>
+            <p className="text-sm text-muted-foreground">
+              A zip with the clips, caption files and a manifest for media buyers
+            </p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={handleClose}>
+            ✕
+          </Button>
+        </div>
+
+        {current ? (
+          <div className="p-4 space-y-4">
+            {isRunning && (
+              <div className="space-y-2">
+                <p className="text-sm">Building the bundle...</p>
+                <div className="h-2 rounded bg-muted overflow-hidden">
+                  <div className="h-full bg-primary transition-all" style={{ width: `${current.progress}%` }} />
+                </div>
+              </div>
+            )}
+
+            {current.status === 'FAILED' && (
+              <p className="text-sm text-destructive">{current.errorMessage || 'The export failed'}</p>
+            )}
+
+            {current.validation && (
+              <div className="space-y-2">
+                <Label>Placement checks</Label>
+                {current.validation.map((clip) => (
+                  <div key={clip.clipId} className="p-2 rounded bg-muted text-xs space-y-1">
+                    <p className="font-medium">{clipLabel(clip.clipId)}</p>
+                    {Object.entries(clip.results).map(([platform, result]) => (
+                      <p key={platform} className={result.passed ? 'text-muted-foreground' : 'text-destructive'}>
+                        {EXPORT_SPECS[platform as ExportPlatform]?.name ?? platform}:{' '}
+                        {result.passed ? 'OK' : result.issues.join('; ')}
+                      </p>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              {current.downloadUrl && (
+                <Button className="flex-1" asChild>
+                  <a href={current.downloadUrl}>Download Zip</a>
+                </Button>
+              )}
+              {!isRunning && (
+                <Button variant="outline" className="flex-1" onClick={() => setCurrent(null)}>
+                  New Export
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="p-4 space-y-4">
+            <div className="space-y-2">
+              <Label>Clips ({selectedIds.length} selected)</Label>
+              <div className="max-h-60 overflow-y-auto space-y-1">
+                {clips.map((clip) => (
+                  <label key={clip.id} className="flex items-center gap-2 p-2 rounded hover:bg-muted cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(clip.id)}
+                      onChange={(e) => toggleClip(clip.id, e.target.checked)}
+                      className="rounded"
+                    />
+                    <span className="text-sm">
+                      @{clip.creatorHandle} • {clip.format.replace('_', ':')}
+                      {clip.duration ? ` • ${Math.round(clip.duration)}s` : ''}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Check against</Label>
+              <div className="flex flex-wrap gap-4">
+                {PLATFORMS.map((platform) => (
+                  <label key={platform} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={platforms.includes(platform)}
+                      onChange={(e) => togglePlatform(platform, e.target.checked)}
+                      className="rounded"
+                    />
+                    <span className="text-sm">{EXPORT_SPECS[platform].name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {clips.some((clip) => clip.hasBranded) && (
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={useBranded}
+                  onChange={(e) => setUseBranded(e.target.checked)}
+                  className="rounded"
+                />
+                <span className="text-sm">Use branded versions where available</span>
+              </label>
+            )}
+
+            <Button
+              className="w-full"
+              onClick={handleExport}
+              disabled={isLoading || selectedIds.length === 0 || platforms.length === 0}
+            >
+              {isLoading ? 'Starting...' : 'Export'}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
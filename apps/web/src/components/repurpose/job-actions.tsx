@@ -0,0 +1,77 @@
+/**
+ * Job Actions - Cancel and Retry buttons for repurpose jobs
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+
+interface JobActionProps {
+  slug: string;
+  jobId: string;
+}
+
+function useJobAction(slug: string, jobId: string, action: 'cancel' | 'retry') {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+
+  async function run() {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/workspaces/${slug}/repurpose/${jobId}/${action}`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast({
+          title: action === 'cancel' ? 'Failed to cancel job' : 'Failed to retry job',
+          description: data.error?.message || 'An error occurred',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      toast({
+        title: action === 'cancel' ? 'Job cancelled' : 'Job queued again',
+        description:
+          action === 'cancel'
+            ? 'Clips that were already made are kept'
+            : 'Only the clips that failed will be rendered',
+      });
+      router.refresh();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: `Failed to ${action} job`,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return { run, isLoading };
+}
+
+export function CancelJobButton({ slug, jobId }: JobActionProps) {
+  const { run, isLoading } = useJobAction(slug, jobId, 'cancel');
+
+  return (
+    <Button size="sm" variant="ghost" onClick={run} disabled={isLoading}>
+      {isLoading ? 'Cancelling...' : 'Cancel'}
+    </Button>
+  );
+}
+
+export function RetryJobButton({ slug, jobId }: JobActionProps) {
+  const { run, isLoading } = useJobAction(slug, jobId, 'retry');
+
+  return (
+    <Button size="sm" variant="outline" onClick={run} disabled={isLoading}>
+      {isLoading ? 'Retrying...' : 'Retry'}
+    </Button>
+  );
+}
@@ -0,0 +1,97 @@
+/**
+ * Add social account form component
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/components/ui/use-toast';
+
+interface AddSocialAccountFormProps {
+  slug: string;
+}
+
+export function AddSocialAccountForm({ slug }: AddSocialAccountFormProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+  const [handle, setHandle] = useState('');
+  const [platform, setPlatform] = useState<'TIKTOK' | 'INSTAGRAM' | 'YOUTUBE'>('TIKTOK');
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      const response = await fetch(`/api/workspaces/${slug}/social-accounts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ platform, handle }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast({
+          title: 'Failed to add account',
+          description: data.error?.message || 'An error occurred',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      toast({
+        title: 'Account added',
+        description: `@${data.data.account.handle} can now listen for UGC`,
+      });
+
+      setHandle('');
+      router.refresh();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'An unexpected error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-4">
+      <div className="space-y-2">
+        <Label htmlFor="platform" className="sr-only">Platform</Label>
+        <select
+          id="platform"
+          value={platform}
+          onChange={(e) => setPlatform(e.target.value as typeof platform)}
+          disabled={isLoading}
+          className="flex h-10 w-full sm:w-[140px] rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          <option value="TIKTOK">TikTok</option>
+          <option value="INSTAGRAM">Instagram</option>
+          <option value="YOUTUBE">YouTube</option>
+        </select>
+      </div>
+      <div className="flex-1 space-y-2">
+        <Label htmlFor="handle" className="sr-only">Handle</Label>
+        <Input
+          id="handle"
+          placeholder="@yourbrand"
+          value={handle}
+          onChange={(e) => setHandle(e.target.value)}
+          disabled={isLoading}
+          required
+        />
+      </div>
+      <Button type="submit" disabled={isLoading || !handle.trim()}>
+        {isLoading ? 'Adding...' : 'Add Account'}
+      </Button>
+    </form>
+  );
+}
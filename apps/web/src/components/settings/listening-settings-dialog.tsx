@@ -0,0 +1,185 @@
+/**
+ * Listening settings dialog - what a social account polls the platform for
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Radio } from 'lucide-react';
+import type { ListeningSettings } from '@ugc/shared';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/components/ui/use-toast';
+
+interface ListeningSettingsDialogProps {
+  slug: string;
+  accountId: string;
+  handle: string;
+  settings: ListeningSettings;
+}
+
+// Terms are edited as comma-separated lists; the API strips '#' and '@'
+function toText(terms: string[], prefix: string): string {
+  return terms.map((term) => `${prefix}${term}`).join(', ');
+}
+
+function toTerms(text: string): string[] {
+  return text
+    .split(/[,\s]+/)
+    .map((term) => term.trim())
+    .filter(Boolean);
+}
+
+export function ListeningSettingsDialog({
+  slug,
+  accountId,
+  handle,
+  settings,
+}: ListeningSettingsDialogProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [enabled, setEnabled] = useState(settings.enabled);
+  const [hashtags, setHashtags] = useState(toText(settings.hashtags, '#'));
+  const [mentions, setMentions] = useState(toText(settings.mentions, '@'));
+  const [handles, setHandles] = useState(toText(settings.handles, '@'));
+
+  function open() {
+    setEnabled(settings.enabled);
+    setHashtags(toText(settings.hashtags, '#'));
+    setMentions(toText(settings.mentions, '@'));
+    setHandles(toText(settings.handles, '@'));
+    setIsOpen(true);
+  }
+
+  async function handleSave() {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch(
+        `/api/workspaces/${slug}/social-accounts/${accountId}/listening`,
+        {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            enabled,
+            hashtags: toTerms(hashtags),
+            mentions: toTerms(mentions),
+            handles: toTerms(handles),
+          }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        const details = Object.values(data.error?.details ?? {}).flat();
+        toast({
+          title: 'Failed to save listening settings',
+          description: details[0] || data.error?.message || 'An error occurred',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      toast({
+        title: enabled ? 'Listening' : 'Listening paused',
+        description: enabled
+          ? `New posts for @${handle} will be imported on the next run`
+          : `@${handle} no longer checks for new posts`,
+      });
+
+      setIsOpen(false);
+      router.refresh();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'An unexpected error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  if (!isOpen) {
+    return (
+      <Button variant="outline" size="sm" onClick={open}>
+        <Radio className="mr-2 h-4 w-4" />
+        Listening
+      </Button>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <div className="bg-background rounded-lg shadow-lg w-full max-w-md">
+        <div className="p-6">
+          <h2 className="text-lg font-semibold mb-2">Listening for @{handle}</h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Separate terms with commas. Each run only imports posts newer than the last one found.
+          </p>
+          <div className="space-y-4">
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={enabled}
+                onChange={(e) => setEnabled(e.target.checked)}
+                disabled={isLoading}
+                className="rounded"
+              />
+              Listen for new posts
+            </label>
+            <div className="space-y-2">
+              <Label htmlFor="listening-hashtags">Hashtags</Label>
+              <Input
+                id="listening-hashtags"
+                value={hashtags}
+                onChange={(e) => setHashtags(e.target.value)}
+                placeholder="#summerdrop, #yourbrand"
+                disabled={isLoading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="listening-mentions">Mentions</Label>
+              <Input
+                id="listening-mentions"
+                value={mentions}
+                onChange={(e) => setMentions(e.target.value)}
+                placeholder="@yourbrand"
+                disabled={isLoading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="listening-handles">Creators</Label>
+              <Input
+                id="listening-handles"
+                value={handles}
+                onChange={(e) => setHandles(e.target.value)}
+                placeholder="@favorite.creator"
+                disabled={isLoading}
+              />
+              <p className="text-xs text-muted-foreground">Every new post from these creators</p>
+            </div>
+            <div className="flex gap-2 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsOpen(false)}
+                disabled={isLoading}
+              >
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={isLoading}>
+                {isLoading ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+/**
+ * Social accounts list component
+ */
+
+'use client';
+
+import { listeningSettingsSchema } from '@ugc/shared';
+import type { Platform, SocialAccountStatus } from '@ugc/database';
+import { Button } from '@/components/ui/button';
+import { ListeningSettingsDialog } from '@/components/settings/listening-settings-dialog';
+
+interface SocialAccountRow {
+  id: string;
+  platform: Platform;
+  handle: string;
+  displayName: string | null;
+  status: SocialAccountStatus;
+  lastSyncAt: Date | null;
+  syncSettings: unknown;
+  _count: { ugcPosts: number };
+}
+
+interface SocialAccountsListProps {
+  accounts: SocialAccountRow[];
+  canEdit: boolean;
+  // Platforms the user may connect through OAuth; empty for non-admins
+  reconnectablePlatforms: Platform[];
+  slug: string;
+}
+
+const platformLabels: Record<Platform, string> = {
+  TIKTOK: 'TikTok',
+  INSTAGRAM: 'Instagram',
+  YOUTUBE: 'YouTube',
+  MANUAL: 'Manual',
+};
+
+const statusBadgeColors: Record<SocialAccountStatus, string> = {
+  CONNECTED: 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300',
+  DISCONNECTED: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+  EXPIRED: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-300',
+  ERROR: 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300',
+};
+
+export function SocialAccountsList({
+  accounts,
+  canEdit,
+  reconnectablePlatforms,
+  slug,
+}: SocialAccountsListProps) {
+  if (accounts.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No accounts yet. Add one to start listening for UGC.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {accounts.map((account) => {
+        // Accounts saved before listening existed have no settings yet
+        const parsed = listeningSettingsSchema.safeParse(account.syncSettings ?? {});
+        const settings = parsed.success ? parsed.data : listeningSettingsSchema.parse({});
+        const terms = [
+          ...settings.hashtags.map((tag) => `#${tag}`),
+          ...settings.mentions.map((mention) => `@${mention}`),
+          ...settings.handles.map((handle) => `@${handle}`),
+        ];
+
+        return (
+          <div
+            key={account.id}
+            className="flex items-center justify-between gap-4 p-4 rounded-lg border"
+          >
+            <div className="min-w-0">
+              <p className="font-medium">
+                @{account.handle}
+                <span className="text-muted-foreground ml-2">
+                  {platformLabels[account.platform]}
+                </span>
+              </p>
+              <p className="text-sm text-muted-foreground truncate">
+                {settings.enabled && terms.length > 0
+                  ? `Listening for ${terms.join(', ')}`
+                  : 'Not listening'}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {account._count.ugcPosts} post{account._count.ugcPosts !== 1 ? 's' : ''} found
+                {account.lastSyncAt &&
+                  ` · last checked ${new Date(account.lastSyncAt).toLocaleString()}`}
+              </p>
+            </div>
+            <div className="flex items-center gap-4 shrink-0">
+              <span
+                className={`px-2.5 py-0.5 rounded-full text-xs font-medium ${statusBadgeColors[account.status]}`}
+              >
+                {account.status.charAt(0) + account.status.slice(1).toLowerCase()}
+              </span>
+              {(account.status === 'EXPIRED' || account.status === 'ERROR') &&
+                reconnectablePlatforms.includes(account.platform) && (
+                  <Button variant="outline" size="sm" asChild>
+                    <a
+                      href={`/api/workspaces/${slug}/social-accounts/connect/${account.platform.toLowerCase()}`}
+                    >
+                      Reconnect
+                    </a>
+                  </Button>
+                )}
+              {canEdit && (
+                <ListeningSettingsDialog
+                  slug={slug}
+                  accountId={account.id}
+                  handle={account.handle}
+                  settings={settings}
+                />
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -4,9 +4,10 @@
 
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useJobEvents } from '@/hooks/use-job-events';
 
 interface ImportLogEntry {
   id: string;
@@ -21,6 +22,7 @@ interface ImportLogEntry {
 interface ImportLog {
   id: string;
   source: string;
+  parentId: string | null;
   status: string;
   totalItems: number;
   processed: number;
@@ -32,6 +34,10 @@ interface ImportLog {
   entries: ImportLogEntry[];
 }
 
+// Jobs that write to import logs, or to the posts an import created
+const IMPORT_QUEUES = ['ugc-ingestion', 'ugc-import', 'media-download'];
+const REFRESH_DELAY_MS = 500;
+
 interface ImportLogsPanelProps {
   slug: string;
   onClose?: () => void;
@@ -43,19 +49,40 @@ export function ImportLogsPanel({ slug, onClose, currentLogId }: ImportLogsPanel
   const [selectedLog, setSelectedLog] = useState<ImportLog | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isLoadingDetail, setIsLoadingDetail] = useState(false);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [retryError, setRetryError] = useState<string | null>(null);
+  const refreshTimer = useRef<ReturnType<typeof setTimeout>>();
+  const selectedLogId = useRef<string | null>(null);
+  selectedLogId.current = selectedLog?.id ?? null;
 
   useEffect(() => {
     fetchLogs();
   }, [slug]);
 
+  useEffect(() => () => clearTimeout(refreshTimer.current), []);
+
+  // Reload quietly when an import job finishes, batching jobs that finish together
+  useJobEvents(slug, (event) => {
+    if (!event.queue || !IMPORT_QUEUES.includes(event.queue)) return;
+    if (event.status !== 'completed' && event.status !== 'failed') return;
+
+    clearTimeout(refreshTimer.current);
+    refreshTimer.current = setTimeout(() => {
+      fetchLogs(true);
+      if (selectedLogId.current) {
+        fetchLogDetail(selectedLogId.current, true);
+      }
+    }, REFRESH_DELAY_MS);
+  });
+
   useEffect(() => {
     if (currentLogId) {
       fetchLogDetail(currentLogId);
     }
   }, [currentLogId]);
 
-  async function fetchLogs() {
-    setIsLoading(true);
+  async function fetchLogs(quiet = false) {
+    if (!quiet) setIsLoading(true);
     try {
       const response = await fetch(`/api/workspaces/${slug}/ugc/import-logs?limit=10`);
       const data = await response.json();
@@ -69,8 +96,8 @@ export function ImportLogsPanel({ slug, onClose, currentLogId }: ImportLogsPanel
     }
   }
 
-  async function fetchLogDetail(logId: string) {
-    setIsLoadingDetail(true);
+  async function fetchLogDetail(logId: string, quiet = false) {
+    if (!quiet) setIsLoadingDetail(true);
     try {
       const response = await fetch(`/api/workspaces/${slug}/ugc/import-logs/${logId}`);
       const data = await response.json();
@@ -84,6 +111,31 @@ export function ImportLogsPanel({ slug, onClose, currentLogId }: ImportLogsPanel
     }
   }
 
+  // Import the failed rows again as a new log, then show that one
+  async function retryFailedRows(logId: string) {
+    setIsRetrying(true);
+    setRetryError(null);
+    try {
+      const response = await fetch(`/api/workspaces/${slug}/ugc/import-logs/${logId}/retry`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        setRetryError(data.error?.message || 'Retry failed');
+        return;
+      }
+      fetchLogs(true);
+      fetchLogDetail(data.data.importLogId);
+    } catch (error) {
+      console.error('Failed to retry import:', error);
+      setRetryError('Retry failed');
+    } finally {
+      setIsRetrying(false);
+    }
+  }
+
   const statusColors: Record<string, string> = {
     PENDING: 'bg-gray-100 text-gray-700',
     PROCESSING: 'bg-blue-100 text-blue-700',
@@ -95,6 +147,7 @@ export function ImportLogsPanel({ slug, onClose, currentLogId }: ImportLogsPanel
   const stepIcons: Record<string, string> = {
     VALIDATING: '🔍',
     CHECKING_DUPLICATE: '🔄',
+    ENRICHING_METADATA: '🌐',
     EXTRACTING_HASHTAGS: '#️⃣',
     CREATING_POST: '📝',
     CREATING_RIGHTS_REQUEST: '✅',
@@ -128,7 +181,14 @@ export function ImportLogsPanel({ slug, onClose, currentLogId }: ImportLogsPanel
           // Detailed log view
           <div className="flex flex-col h-full">
             <div className="flex items-center justify-between mb-4">
-              <Button variant="ghost" size="sm" onClick={() => setSelectedLog(null)}>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setSelectedLog(null);
+                  setRetryError(null);
+                }}
+              >
                 ← Back to list
               </Button>
               <span className={`px-2 py-1 rounded text-xs font-medium ${statusColors[selectedLog.status]}`}>
@@ -155,6 +215,46 @@ export function ImportLogsPanel({ slug, onClose, currentLogId }: ImportLogsPanel
               </div>
             </div>
 
+            {(selectedLog.parentId ||
+              (selectedLog.failed > 0 &&
+                selectedLog.status !== 'PENDING' &&
+                selectedLog.status !== 'PROCESSING')) && (
+              <div className="flex flex-wrap items-center gap-2 mb-4">
+                {selectedLog.parentId && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => fetchLogDetail(selectedLog.parentId!)}
+                  >
+                    ↩ Original import
+                  </Button>
+                )}
+                {selectedLog.failed > 0 &&
+                  selectedLog.status !== 'PENDING' &&
+                  selectedLog.status !== 'PROCESSING' && (
+                    <>
+                      <Button variant="outline" size="sm" asChild>
+                        <a
+                          href={`/api/workspaces/${slug}/ugc/import-logs/${selectedLog.id}/errors.csv`}
+                          download
+                        >
+                          ⬇ errors.csv
+                        </a>
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => retryFailedRows(selectedLog.id)}
+                        disabled={isRetrying}
+                      >
+                        {isRetrying ? 'Retrying...' : `🔁 Retry ${selectedLog.failed} failed`}
+                      </Button>
+                    </>
+                  )}
+                {retryError && <span className="text-xs text-red-600">{retryError}</span>}
+              </div>
+            )}
+
             <div className="flex-1 overflow-y-auto space-y-2">
               {isLoadingDetail ? (
                 <div className="text-center py-8 text-muted-foreground">Loading...</div>
@@ -213,7 +313,15 @@ export function ImportLogsPanel({ slug, onClose, currentLogId }: ImportLogsPanel
                   }}
                 >
                   <div className="flex items-center justify-between mb-1">
-                    <span className="font-medium text-sm capitalize">{log.source} Import</span>
+                    <span className="font-medium text-sm">
+                      <span className="capitalize">{log.source}</span> Import
+                      {log.parentId && (
+                        <span className="ml-1 text-xs text-muted-foreground">(retry)</span>
+                      )}
+                      {log.metadata?.dryRun === true && (
+                        <span className="ml-1 text-xs text-muted-foreground">(dry run)</span>
+                      )}
+                    </span>
                     <span className={`px-2 py-0.5 rounded text-xs font-medium ${statusColors[log.status]}`}>
                       {log.status}
                     </span>
@@ -253,9 +361,20 @@ export function ImportStatus({ logId, slug, onViewLogs }: ImportStatusProps) {
     }
   }, [logId]);
 
-  async function fetchLog() {
+  // Background imports report progress after each chunk of rows
+  useJobEvents(
+    slug,
+    (event) => {
+      if (event.queue === 'ugc-import' && event.entityId === logId) {
+        fetchLog(true);
+      }
+    },
+    Boolean(logId)
+  );
+
+  async function fetchLog(quiet = false) {
     if (!logId) return;
-    setIsLoading(true);
+    if (!quiet) setIsLoading(true);
     try {
       const response = await fetch(`/api/workspaces/${slug}/ugc/import-logs/${logId}`);
       const data = await response.json();
@@ -273,6 +392,7 @@ export function ImportStatus({ logId, slug, onViewLogs }: ImportStatusProps) {
   if (!log) return null;
 
   const hasErrors = log.entries.some(e => e.status === 'error');
+  const isDryRun = log.metadata?.dryRun === true;
   const lastEntry = log.entries[log.entries.length - 1];
 
   return (
@@ -284,9 +404,9 @@ export function ImportStatus({ logId, slug, onViewLogs }: ImportStatusProps) {
     }`}>
       <div className="flex items-center justify-between mb-2">
         <span className="font-medium text-sm">
-          {log.status === 'COMPLETED' ? '✅ Import Successful' :
-           log.status === 'FAILED' ? '❌ Import Failed' :
-           log.status === 'PARTIAL' ? '⚠️ Partial Success' :
+          {log.status === 'COMPLETED' ? (isDryRun ? '✅ Dry Run Passed' : '✅ Import Successful') :
+           log.status === 'FAILED' ? (isDryRun ? '❌ Dry Run Failed' : '❌ Import Failed') :
+           log.status === 'PARTIAL' ? (isDryRun ? '⚠️ Dry Run Found Problems' : '⚠️ Partial Success') :
            '⏳ Processing...'}
         </span>
         {onViewLogs && (
@@ -296,6 +416,20 @@ export function ImportStatus({ logId, slug, onViewLogs }: ImportStatusProps) {
         )}
       </div>
       
+      {(log.status === 'PENDING' || log.status === 'PROCESSING') && log.totalItems > 0 && (
+        <div className="mb-2">
+          <div className="h-1.5 rounded bg-blue-100 overflow-hidden">
+            <div
+              className="h-full bg-blue-500 transition-all"
+              style={{ width: `${Math.round((log.processed / log.totalItems) * 100)}%` }}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            {log.processed} of {log.totalItems} rows
+          </p>
+        </div>
+      )}
+
       {lastEntry && (
         <p className="text-sm text-muted-foreground">{lastEntry.message}</p>
       )}
@@ -10,6 +10,13 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/components/ui/use-toast';
+import {
+  importColumnSchema,
+  missingImportColumns,
+  REQUIRED_IMPORT_COLUMNS,
+  type ImportColumn,
+  type ImportColumnMapping,
+} from '@ugc/shared';
 import { ImportStatus, ImportLogsPanel } from './import-logs-panel';
 
 interface ImportUgcDialogProps {
@@ -201,12 +208,30 @@ export function ImportUgcDialog({ slug }: ImportUgcDialogProps) {
 }
 
 /**
- * CSV Import Dialog with logging
+ * CSV/XLSX Import Dialog with column mapping and logging
+ * The file is uploaded first so its headers can be mapped, then imported in the background.
  */
 interface CsvImportDialogProps {
   slug: string;
 }
 
+interface ImportUpload {
+  fileKey: string;
+  fileName: string;
+  headers: string[];
+  sampleRows: Record<string, string>[];
+}
+
+const IMPORT_COLUMN_LABELS: Record<ImportColumn, string> = {
+  post_url: 'Post URL',
+  creator_handle: 'Creator handle',
+  platform: 'Platform',
+  creator_name: 'Creator name',
+  caption: 'Caption',
+  hashtags: 'Hashtags',
+  posted_at: 'Posted at',
+};
+
 export function CsvImportDialog({ slug }: CsvImportDialogProps) {
   const router = useRouter();
   const { toast } = useToast();
@@ -214,46 +239,82 @@ export function CsvImportDialog({ slug }: CsvImportDialogProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [showLogs, setShowLogs] = useState(false);
   const [lastImportLogId, setLastImportLogId] = useState<string | null>(null);
-  const [csvData, setCsvData] = useState('');
+  const [upload, setUpload] = useState<ImportUpload | null>(null);
+  const [mapping, setMapping] = useState<ImportColumnMapping>({});
+  const [dryRun, setDryRun] = useState(true);
 
-  async function handleSubmit(e: React.FormEvent) {
-    e.preventDefault();
-    setIsLoading(true);
+  const missing = missingImportColumns(mapping);
+  const mappedColumns = importColumnSchema.options.filter((column) => mapping[column]);
+
+  function reset() {
+    setUpload(null);
+    setMapping({});
+    setDryRun(true);
     setLastImportLogId(null);
+  }
+
+  async function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsLoading(true);
+    reset();
 
     try {
-      // Parse CSV
-      const lines = csvData.trim().split('\n');
-      if (lines.length < 2) {
+      const body = new FormData();
+      body.append('file', file);
+      const response = await fetch(`/api/workspaces/${slug}/ugc/import/upload`, {
+        method: 'POST',
+        body,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
         toast({
-          title: 'Invalid CSV',
-          description: 'CSV must have a header row and at least one data row',
+          title: 'Upload failed',
+          description: data.error?.message || 'An error occurred',
           variant: 'destructive',
         });
-        setIsLoading(false);
         return;
       }
 
-      const headers = lines[0].split(',').map(h => h.trim().toLowerCase().replace(/\s+/g, '_'));
-      const rows = lines.slice(1).map(line => {
-        const values = line.split(',');
-        const row: Record<string, string> = {};
-        headers.forEach((header, idx) => {
-          row[header] = values[idx]?.trim() || '';
-        });
-        return row;
+      setUpload(data.data);
+      setMapping(data.data.mapping);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'An unexpected error occurred',
+        variant: 'destructive',
       });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!upload) return;
+    setIsLoading(true);
+    setLastImportLogId(null);
 
+    try {
       const response = await fetch(`/api/workspaces/${slug}/ugc/import/csv`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ rows }),
+        body: JSON.stringify({
+          fileKey: upload.fileKey,
+          fileName: upload.fileName,
+          mapping,
+          dryRun,
+        }),
       });
 
       const data = await response.json();
+      const importLogId = data.data?.importLogId ?? data.importLogId;
 
-      if (data.importLogId) {
-        setLastImportLogId(data.importLogId);
+      if (importLogId) {
+        setLastImportLogId(importLogId);
       }
 
       if (!response.ok) {
@@ -266,12 +327,15 @@ export function CsvImportDialog({ slug }: CsvImportDialogProps) {
       }
 
       toast({
-        title: 'CSV Import Complete',
-        description: data.data.message,
+        title: dryRun ? 'Dry run started' : 'Import started',
+        description: dryRun
+          ? 'Every row is being checked; nothing will be imported'
+          : 'Posts will appear in your library as rows are processed',
       });
 
-      setCsvData('');
-      router.refresh();
+      if (!dryRun) {
+        router.refresh();
+      }
     } catch (error) {
       toast({
         title: 'Error',
@@ -305,13 +369,13 @@ export function CsvImportDialog({ slug }: CsvImportDialogProps) {
 
   return (
     <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
-      <div className="bg-background rounded-lg shadow-lg w-full max-w-lg max-h-[90vh] overflow-y-auto">
+      <div className="bg-background rounded-lg shadow-lg w-full max-w-2xl max-h-[90vh] overflow-y-auto">
         <div className="p-6">
           <div className="flex items-center justify-between mb-4">
             <div>
               <h2 className="text-lg font-semibold">Import CSV</h2>
               <p className="text-sm text-muted-foreground">
-                Bulk import UGC posts from a CSV file
+                Bulk import UGC posts from a CSV or Excel file
               </p>
             </div>
             <Button variant="ghost" size="sm" onClick={() => setShowLogs(true)}>
@@ -321,22 +385,103 @@ export function CsvImportDialog({ slug }: CsvImportDialogProps) {
           
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="csv">CSV Data</Label>
-              <textarea
-                id="csv"
-                value={csvData}
-                onChange={(e) => setCsvData(e.target.value)}
-                className="flex min-h-[200px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm font-mono"
-                placeholder={`post_url,platform,creator_handle,creator_name,caption,hashtags
-https://tiktok.com/@user/video/123,TIKTOK,user,User Name,Great content!,ugc,brand
-https://instagram.com/p/abc,INSTAGRAM,creator,Creator,Amazing!,fashion`}
+              <Label htmlFor="import-file">File</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                onChange={handleFile}
                 disabled={isLoading}
               />
               <p className="text-xs text-muted-foreground">
-                Required columns: post_url, platform, creator_handle
+                {upload
+                  ? `${upload.fileName} - ${upload.headers.length} columns`
+                  : 'A header row is required; columns are matched to post fields automatically'}
               </p>
             </div>
 
+            {upload && (
+              <>
+                <div className="space-y-2">
+                  <Label>Columns</Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {importColumnSchema.options.map((column) => (
+                      <div key={column} className="space-y-1">
+                        <Label htmlFor={`column-${column}`} className="text-xs">
+                          {IMPORT_COLUMN_LABELS[column]}
+                          {REQUIRED_IMPORT_COLUMNS.includes(column) && ' *'}
+                        </Label>
+                        <select
+                          id={`column-${column}`}
+                          value={mapping[column] ?? ''}
+                          onChange={(e) =>
+                            setMapping({ ...mapping, [column]: e.target.value || undefined })
+                          }
+                          className="flex h-9 w-full rounded-md border border-input bg-background px-2 py-1 text-sm"
+                          disabled={isLoading}
+                        >
+                          <option value="">
+                            {column === 'platform' ? 'From post URL' : 'Not mapped'}
+                          </option>
+                          {upload.headers.map((header) => (
+                            <option key={header} value={header}>
+                              {header}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                  {missing.length > 0 && (
+                    <p className="text-xs text-red-600">
+                      Choose a column for {missing.map((column) => IMPORT_COLUMN_LABELS[column]).join(' and ')}
+                    </p>
+                  )}
+                </div>
+
+                {upload.sampleRows.length > 0 && mappedColumns.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Preview</Label>
+                    <div className="overflow-x-auto rounded border">
+                      <table className="w-full text-xs">
+                        <thead className="bg-muted">
+                          <tr>
+                            {mappedColumns.map((column) => (
+                              <th key={column} className="px-2 py-1 text-left font-medium">
+                                {IMPORT_COLUMN_LABELS[column]}
+                              </th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {upload.sampleRows.map((row, idx) => (
+                            <tr key={idx} className="border-t">
+                              {mappedColumns.map((column) => (
+                                <td key={column} className="px-2 py-1 max-w-[160px] truncate">
+                                  {row[mapping[column]!]}
+                                </td>
+                              ))}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
+
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={dryRun}
+                    onChange={(e) => setDryRun(e.target.checked)}
+                    disabled={isLoading}
+                    className="rounded"
+                  />
+                  Dry run - check every row without importing anything
+                </label>
+              </>
+            )}
+
             {/* Import Status Display */}
             {lastImportLogId && (
               <ImportStatus 
@@ -352,14 +497,14 @@ https://instagram.com/p/abc,INSTAGRAM,creator,Creator,Amazing!,fashion`}
                 variant="outline" 
                 onClick={() => {
                   setIsOpen(false);
-                  setLastImportLogId(null);
+                  reset();
                 }} 
                 disabled={isLoading}
               >
                 Cancel
               </Button>
-              <Button type="submit" disabled={isLoading || !csvData.trim()}>
-                {isLoading ? 'Importing...' : 'Import CSV'}
+              <Button type="submit" disabled={isLoading || !upload || missing.length > 0}>
+                {isLoading ? 'Working...' : dryRun ? 'Check File' : 'Import File'}
               </Button>
             </div>
           </form>
@@ -0,0 +1,121 @@
+/**
+ * Notifications dropdown component
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Bell } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+interface NotificationItem {
+  id: string;
+  title: string;
+  message: string;
+  link: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+interface NotificationsMenuProps {
+  slug: string;
+}
+
+export function NotificationsMenu({ slug }: NotificationsMenuProps) {
+  const router = useRouter();
+  const [notifications, setNotifications] = useState<NotificationItem[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/workspaces/${slug}/notifications`);
+      if (!response.ok) return;
+      const data = await response.json();
+      setNotifications(data.data.notifications);
+      setUnreadCount(data.data.unreadCount);
+    } catch (error) {
+      console.error('Failed to load notifications:', error);
+    }
+  }, [slug]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function markRead(ids?: string[]) {
+    await fetch(`/api/workspaces/${slug}/notifications`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(ids ? { ids } : {}),
+    });
+    await load();
+  }
+
+  function handleSelect(notification: NotificationItem) {
+    if (!notification.readAt) {
+      markRead([notification.id]);
+    }
+    if (notification.link) {
+      router.push(notification.link);
+    }
+  }
+
+  return (
+    <DropdownMenu onOpenChange={(open) => open && load()}>
+      <DropdownMenuTrigger asChild>
+        <button
+          className="relative mr-4 p-2 rounded-full hover:bg-accent focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+          aria-label={unreadCount > 0 ? `${unreadCount} unread notifications` : 'Notifications'}
+        >
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute top-1 right-1 w-2 h-2 rounded-full bg-red-500" />
+          )}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          <span>Notifications</span>
+          {unreadCount > 0 && (
+            <button
+              className="text-xs font-normal text-muted-foreground hover:text-foreground"
+              onClick={() => markRead()}
+            >
+              Mark all read
+            </button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-4 text-sm text-center text-muted-foreground">
+            You&apos;re all caught up
+          </p>
+        ) : (
+          notifications.map((notification) => (
+            <DropdownMenuItem
+              key={notification.id}
+              onClick={() => handleSelect(notification)}
+              className="flex flex-col items-start gap-1 cursor-pointer"
+            >
+              <span className={notification.readAt ? 'text-sm' : 'text-sm font-medium'}>
+                {notification.title}
+              </span>
+              <span className="text-xs text-muted-foreground">{notification.message}</span>
+              <span className="text-xs text-muted-foreground">
+                {new Date(notification.createdAt).toLocaleString()}
+              </span>
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -5,6 +5,7 @@
 import Link from 'next/link';
 import { getSession } from '@/lib/auth';
 import { prisma } from '@ugc/database';
+import { NotificationsMenu } from './notifications-menu';
 import { UserMenu } from './user-menu';
 import { WorkspaceSwitcher } from './workspace-switcher';
 
@@ -49,6 +50,9 @@ export async function WorkspaceHeader({ slug }: WorkspaceHeaderProps) {
         {/* Spacer */}
         <div className="flex-1" />
 
+        {/* Notifications */}
+        <NotificationsMenu slug={slug} />
+
         {/* User Menu */}
         <UserMenu user={session.user} />
       </div>
@@ -15,7 +15,8 @@ import {
   FileVideo, 
   BarChart3, 
   Settings,
-  Users
+  Users,
+  AtSign
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { WorkspaceRole } from '@ugc/database';
@@ -69,6 +70,11 @@ export function WorkspaceNav({ slug, role }: WorkspaceNavProps) {
   ];
 
   const settingsItems = [
+    {
+      title: 'Social Accounts',
+      href: `${basePath}/settings/accounts`,
+      icon: AtSign,
+    },
     {
       title: 'Team',
       href: `${basePath}/settings/team`,
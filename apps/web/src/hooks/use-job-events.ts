@@ -0,0 +1,32 @@
+/**
+ * useJobEvents - Subscribe to the workspace job stream
+ */
+
+'use client';
+
+import { useEffect, useRef } from 'react';
+import type { JobProgress } from '@ugc/shared';
+
+export function useJobEvents(slug: string, onEvent: (event: JobProgress) => void, enabled: boolean = true) {
+  // Keep the latest handler without reopening the stream on every render
+  const handlerRef = useRef(onEvent);
+  useEffect(() => {
+    handlerRef.current = onEvent;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    // EventSource reconnects by itself after the stream drops
+    const source = new EventSource(`/api/workspaces/${slug}/jobs/stream`);
+    source.addEventListener('job', (message) => {
+      try {
+        handlerRef.current(JSON.parse((message as MessageEvent<string>).data) as JobProgress);
+      } catch (error) {
+        console.error('Invalid job event:', error);
+      }
+    });
+
+    return () => source.close();
+  }, [slug, enabled]);
+}
@@ -0,0 +1,17 @@
+/**
+ * Clip export helpers shared by the export routes
+ */
+
+/**
+ * An export as returned by the API
+ * Bundles can pass 2 GB, so their size is a BigInt in the database; JSON has no BigInt, and
+ * sizes up to 4 GB are exact as numbers
+ */
+export function serializeClipExport<T extends { fileSize: bigint | null }>(
+  clipExport: T
+): Omit<T, 'fileSize'> & { fileSize: number | null } {
+  return {
+    ...clipExport,
+    fileSize: clipExport.fileSize === null ? null : Number(clipExport.fileSize),
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * Import file previews - headers and first rows of an uploaded CSV or XLSX file
+ * The worker reads the whole file later; this only reads as far as the preview needs.
+ */
+
+import { Readable } from 'node:stream';
+import ExcelJS from 'exceljs';
+import {
+  CsvParser,
+  spreadsheetCellText,
+  spreadsheetHeaders,
+  spreadsheetRecord,
+  type SpreadsheetFormat,
+} from '@ugc/shared';
+
+const PREVIEW_ROWS = 5;
+// Enough of a CSV file for the header and a few rows, even with long captions
+const CSV_PREVIEW_BYTES = 64 * 1024;
+
+export interface ImportFilePreview {
+  headers: string[];
+  sampleRows: Record<string, string>[];
+}
+
+function csvPreviewRecords(file: Buffer): string[][] {
+  const head = file.subarray(0, CSV_PREVIEW_BYTES);
+  const parser = new CsvParser();
+  const records = parser.push(new TextDecoder().decode(head, { stream: true }));
+  if (head.length === file.length) records.push(...parser.flush());
+  return records.slice(0, PREVIEW_ROWS + 1);
+}
+
+async function xlsxPreviewRecords(file: Buffer): Promise<string[][]> {
+  const records: string[][] = [];
+  const workbook = new ExcelJS.stream.xlsx.WorkbookReader(Readable.from(file), {
+    sharedStrings: 'cache',
+    hyperlinks: 'ignore',
+    // Styles tell date cells from numbers
+    styles: 'cache',
+    worksheets: 'emit',
+  });
+
+  // Only the first sheet is imported
+  for await (const worksheet of workbook) {
+    for await (const row of worksheet) {
+      // Row values are 1-indexed and sparse
+      const values = Array.from((row.values as unknown[]).slice(1), spreadsheetCellText);
+      if (values.some(Boolean)) records.push(values);
+      if (records.length > PREVIEW_ROWS) break;
+    }
+    break;
+  }
+  return records;
+}
+
+/**
+ * Headers and the first few data rows of an import file
+ */
+export async function previewImportFile(
+  file: Buffer,
+  format: SpreadsheetFormat
+): Promise<ImportFilePreview> {
+  const [header = [], ...rows] =
+    format === 'csv' ? csvPreviewRecords(file) : await xlsxPreviewRecords(file);
+  const headers = spreadsheetHeaders(header);
+  return { headers, sampleRows: rows.map((cells) => spreadsheetRecord(headers, cells)) };
+}
@@ -0,0 +1,130 @@
+/**
+ * Job Events - Relay BullMQ queue events to the workspace that owns each job
+ * One listener per queue is shared by every open stream in this process. Job payloads carry
+ * their workspace, so each job is looked up once and its events only reach that workspace.
+ */
+
+import { EventEmitter } from 'node:events';
+import { QUEUE_NAMES, getQueue, getQueueEvents } from '@ugc/queue';
+import type { QueueName } from '@ugc/queue';
+import type { JobProgress } from '@ugc/shared';
+
+export type JobEventListener = (event: JobProgress) => void;
+
+interface JobOwner {
+  workspaceId: string;
+  entityId?: string;
+}
+
+interface JobEventHub {
+  emitter: EventEmitter;
+  // Pending lookups are cached too, so events of one job are relayed in order
+  owners: Map<string, Promise<JobOwner | null>>;
+}
+
+// Enough for every job that is running or queued at once
+const OWNER_CACHE_SIZE = 1000;
+
+// Survive hot reloads in development, like the Prisma client
+const globalForJobEvents = globalThis as unknown as { jobEventHub?: JobEventHub };
+
+async function lookupOwner(queue: QueueName, jobId: string): Promise<JobOwner | null> {
+  const job = await getQueue<Record<string, unknown>>(queue).getJob(jobId);
+  const data = job?.data;
+  if (!data || typeof data.workspaceId !== 'string') {
+    return null;
+  }
+
+  // The record the job works on; clip transcodes carry a clip id rather than the asset id
+  const entityId =
+    data.repurposeJobId ??
+    data.clipId ??
+    data.mediaAssetId ??
+    data.exportId ??
+    data.socialAccountId ??
+    data.importLogId;
+  return {
+    workspaceId: data.workspaceId,
+    entityId: typeof entityId === 'string' ? entityId : undefined,
+  };
+}
+
+function resolveOwner(hub: JobEventHub, queue: QueueName, jobId: string): Promise<JobOwner | null> {
+  const key = `${queue}:${jobId}`;
+  let owner = hub.owners.get(key);
+  if (!owner) {
+    owner = lookupOwner(queue, jobId).catch((error) => {
+      console.error('Error looking up queued job:', error);
+      hub.owners.delete(key);
+      return null;
+    });
+    hub.owners.set(key, owner);
+
+    if (hub.owners.size > OWNER_CACHE_SIZE) {
+      hub.owners.delete(hub.owners.keys().next().value!);
+    }
+  }
+  return owner;
+}
+
+async function relay(
+  hub: JobEventHub,
+  queue: QueueName,
+  jobId: string,
+  event: Pick<JobProgress, 'status' | 'progress' | 'error'>
+) {
+  // Nobody is watching, so skip the lookup
+  if (hub.emitter.eventNames().length === 0) {
+    return;
+  }
+
+  const owner = await resolveOwner(hub, queue, jobId);
+  if (event.status === 'completed' || event.status === 'failed') {
+    hub.owners.delete(`${queue}:${jobId}`);
+  }
+  if (!owner) {
+    return;
+  }
+
+  const payload: JobProgress = { jobId, queue, entityId: owner.entityId, ...event };
+  hub.emitter.emit(owner.workspaceId, payload);
+}
+
+function createHub(): JobEventHub {
+  const hub: JobEventHub = { emitter: new EventEmitter(), owners: new Map() };
+  // One listener per open stream
+  hub.emitter.setMaxListeners(0);
+
+  for (const queue of Object.values(QUEUE_NAMES)) {
+    // Token refresh sweeps belong to no workspace
+    if (queue === QUEUE_NAMES.SOCIAL_TOKEN_REFRESH) continue;
+    const events = getQueueEvents(queue);
+
+    events.on('waiting', ({ jobId }) => void relay(hub, queue, jobId, { status: 'queued', progress: 0 }));
+    events.on('active', ({ jobId }) => void relay(hub, queue, jobId, { status: 'processing', progress: 0 }));
+    events.on('progress', ({ jobId, data }) => {
+      const progress = typeof data === 'number' ? Math.min(100, Math.max(0, Math.round(data))) : 0;
+      void relay(hub, queue, jobId, { status: 'processing', progress });
+    });
+    events.on('completed', ({ jobId }) => void relay(hub, queue, jobId, { status: 'completed', progress: 100 }));
+    events.on('failed', ({ jobId, failedReason }) =>
+      void relay(hub, queue, jobId, { status: 'failed', progress: 100, error: failedReason })
+    );
+    events.on('error', (error) => console.error(`Error reading ${queue} events:`, error));
+  }
+
+  return hub;
+}
+
+/**
+ * Receive progress of every queued job in a workspace
+ * The queue listeners are started on the first subscription; returns the unsubscribe function
+ */
+export function subscribeToJobEvents(workspaceId: string, listener: JobEventListener): () => void {
+  const hub = (globalForJobEvents.jobEventHub ??= createHub());
+
+  hub.emitter.on(workspaceId, listener);
+  return () => {
+    hub.emitter.off(workspaceId, listener);
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Post enrichment for imports - fills in what the importer did not type from the post's URL
+ */
+
+import { enrichPostUrl, type Platform, type PostEnrichment } from '@ugc/shared';
+import type { ImportLogger } from '@ugc/database';
+
+// Instagram's oEmbed endpoint takes an app access token; without one only Open Graph tags are read
+function instagramAccessToken(): string | undefined {
+  const { META_APP_ID, META_APP_SECRET } = process.env;
+  return META_APP_ID && META_APP_SECRET ? `${META_APP_ID}|${META_APP_SECRET}` : undefined;
+}
+
+/**
+ * Look up a post's details, logging the outcome as an ENRICHING_METADATA step
+ * A failed lookup is only a warning; the post is imported with what was typed.
+ */
+export async function enrichImportedPost(
+  logger: ImportLogger,
+  postUrl: string,
+  platform: Platform,
+  prefix = ''
+): Promise<PostEnrichment | null> {
+  try {
+    const enrichment = await enrichPostUrl(postUrl, platform, {
+      instagramAccessToken: instagramAccessToken(),
+    });
+
+    if (!enrichment) {
+      await logger.warning('ENRICHING_METADATA', `${prefix}No public metadata found for post`, {
+        postUrl,
+      });
+      return null;
+    }
+
+    await logger.success(
+      'ENRICHING_METADATA',
+      `${prefix}Read post metadata via ${enrichment.source}`,
+      {
+        postUrl,
+        fields: Object.keys(enrichment).filter(
+          (key) => key !== 'source' && key !== 'raw' && enrichment[key as keyof PostEnrichment]
+        ),
+      }
+    );
+    return enrichment;
+  } catch (error) {
+    await logger.warning('ENRICHING_METADATA', `${prefix}Could not read post metadata`, {
+      postUrl,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Repurpose job helpers shared by the job and batch routes
+ */
+
+import { prisma, JobStatus, RepurposeJob } from '@ugc/database';
+import { QUEUE_NAMES, cancelQueueJob, isQueueJobActive, queueClipGeneration } from '@ugc/queue';
+import type { ClipGenerationJobData } from '@ugc/queue';
+import { resolveRepurposeParams } from '@ugc/shared';
+import type { RepurposeParams } from '@ugc/shared';
+
+export const CANCELLABLE_STATUSES: JobStatus[] = ['QUEUED', 'PROCESSING'];
+export const RETRYABLE_STATUSES: JobStatus[] = ['FAILED', 'PARTIAL', 'CANCELLED'];
+
+interface JobParamsError {
+  status: number;
+  code: string;
+  message: string;
+}
+
+/**
+ * Resolve the params for new jobs from an optional preset and the fields passed with the request
+ * Returns an API error when the preset does not exist, a watermark is requested without a logo,
+ * or a bumper or music bed is not ready in the workspace
+ */
+export async function resolveJobParams(
+  workspaceId: string,
+  presetId: string | undefined,
+  overrides: Partial<RepurposeParams>
+): Promise<{ params: RepurposeParams } | { error: JobParamsError }> {
+  let presetSettings: unknown;
+  if (presetId) {
+    const preset = await prisma.repurposePreset.findFirst({ where: { id: presetId, workspaceId } });
+    if (!preset) {
+      return { error: { status: 404, code: 'NOT_FOUND', message: 'Preset not found' } };
+    }
+    presetSettings = preset.settingsJson;
+  }
+
+  // Fields sent with the request override the preset's settings
+  const params = resolveRepurposeParams(presetSettings, overrides);
+
+  if (params.watermark) {
+    const workspace = await prisma.workspace.findUnique({
+      where: { id: workspaceId },
+      select: { logoUrl: true },
+    });
+    if (!workspace?.logoUrl) {
+      return { error: { status: 400, code: 'INVALID_STATE', message: 'Add a workspace logo to use a watermark' } };
+    }
+  }
+
+  const bumperIds = [params.branding?.introMediaAssetId, params.branding?.outroMediaAssetId].filter(
+    (id): id is string => !!id
+  );
+  if (bumperIds.length > 0) {
+    const bumpers = await prisma.mediaAsset.count({
+      where: { id: { in: bumperIds }, workspaceId, type: 'VIDEO', status: 'READY' },
+    });
+    if (bumpers < new Set(bumperIds).size) {
+      return { error: { status: 400, code: 'INVALID_STATE', message: 'Bumpers must be ready videos in this workspace' } };
+    }
+  }
+
+  const musicBedId = params.audio?.musicBedMediaAssetId;
+  if (musicBedId) {
+    const musicBed = await prisma.mediaAsset.findFirst({
+      where: { id: musicBedId, workspaceId, type: 'AUDIO', status: 'READY' },
+    });
+    if (!musicBed) {
+      return { error: { status: 400, code: 'INVALID_STATE', message: 'The music bed must be a ready audio track in this workspace' } };
+    }
+  }
+
+  return { params };
+}
+
+/**
+ * Create a job and queue it for the worker, remembering the BullMQ job id for status lookups
+ * If queueing fails the job is kept as FAILED and the error is rethrown
+ */
+export async function createRepurposeJob(input: {
+  workspaceId: string;
+  sourceMediaAssetId: string;
+  params: RepurposeParams;
+  presetId?: string;
+  batchId?: string;
+}) {
+  const job = await prisma.repurposeJob.create({
+    data: {
+      workspaceId: input.workspaceId,
+      sourceMediaAssetId: input.sourceMediaAssetId,
+      status: 'QUEUED',
+      presetId: input.presetId,
+      batchId: input.batchId,
+      paramsJson: JSON.parse(JSON.stringify(input.params)),
+    },
+  });
+
+  let queuedJob;
+  try {
+    queuedJob = await queueClipGeneration(input.workspaceId, job.id, input.sourceMediaAssetId, input.params);
+  } catch (queueError) {
+    await prisma.repurposeJob.update({
+      where: { id: job.id },
+      data: { status: 'FAILED', errorMessage: 'Failed to queue job', completedAt: new Date() },
+    });
+    throw queueError;
+  }
+
+  return prisma.repurposeJob.update({
+    where: { id: job.id },
+    data: { queueJobId: queuedJob.id },
+  });
+}
+
+/**
+ * Mark a job as cancelled and stop it in the queue
+ * A running job is signalled; the worker kills its ffmpeg processes and keeps the clips already made
+ */
+export async function cancelRepurposeJob(job: RepurposeJob) {
+  const cancelled = await prisma.repurposeJob.update({
+    where: { id: job.id },
+    data: { status: 'CANCELLED', completedAt: new Date() },
+  });
+
+  const queueResult = job.queueJobId
+    ? await cancelQueueJob(QUEUE_NAMES.CLIP_GENERATION, job.queueJobId)
+    : 'not_found';
+
+  return { job: cancelled, queueResult };
+}
+
+/**
+ * Queue a finished job again
+ * The worker keeps clips that already succeeded, so only failed or missing outputs are rendered
+ * Returns null while a previous run of the job is still stopping
+ */
+export async function retryRepurposeJob(job: RepurposeJob) {
+  if (job.queueJobId && (await isQueueJobActive(QUEUE_NAMES.CLIP_GENERATION, job.queueJobId))) {
+    return null;
+  }
+
+  await prisma.repurposeJob.update({
+    where: { id: job.id },
+    data: { status: 'QUEUED', errorMessage: null, completedAt: null },
+  });
+
+  const params = job.paramsJson as unknown as ClipGenerationJobData['params'];
+  let queuedJob;
+  try {
+    queuedJob = await queueClipGeneration(job.workspaceId, job.id, job.sourceMediaAssetId, params);
+  } catch (queueError) {
+    await prisma.repurposeJob.update({
+      where: { id: job.id },
+      data: { status: job.status, errorMessage: 'Failed to queue retry' },
+    });
+    throw queueError;
+  }
+
+  return prisma.repurposeJob.update({
+    where: { id: job.id },
+    data: { queueJobId: queuedJob.id },
+  });
+}
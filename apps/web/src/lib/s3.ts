@@ -114,7 +114,7 @@ export async function deleteFile(key: string): Promise<void> {
  */
 export function generateMediaKey(
   workspaceId: string,
-  type: 'video' | 'image' | 'caption' | 'thumbnail',
+  type: 'video' | 'image' | 'audio' | 'caption' | 'thumbnail' | 'export' | 'import',
   filename: string
 ): string {
   const timestamp = Date.now();
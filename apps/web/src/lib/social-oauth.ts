@@ -0,0 +1,60 @@
+/**
+ * Social OAuth helpers - shared by the connect and callback routes
+ * The state sent to the platform is also kept in a short-lived httpOnly cookie with the workspace
+ * it was started from, so a callback is only accepted by the browser that started it.
+ */
+
+import { randomBytes } from 'node:crypto';
+import type { SocialPlatform } from '@ugc/database';
+
+export const OAUTH_STATE_COOKIE = 'social_oauth_state';
+
+// Long enough to log in to the platform and approve
+export const OAUTH_STATE_MAX_AGE = 10 * 60;
+
+export interface OAuthState {
+  state: string;
+  slug: string;
+  platform: SocialPlatform;
+}
+
+const platforms: SocialPlatform[] = ['TIKTOK', 'INSTAGRAM', 'YOUTUBE'];
+
+/**
+ * Platform from a route segment ('tiktok'), or null when it cannot be connected
+ */
+export function parsePlatform(value: string): SocialPlatform | null {
+  const platform = value.toUpperCase() as SocialPlatform;
+  return platforms.includes(platform) ? platform : null;
+}
+
+export function getBaseUrl(): string {
+  return process.env.NEXTAUTH_URL || 'http://localhost:3000';
+}
+
+/**
+ * Callback URL to register with each platform's OAuth app
+ */
+export function getOAuthRedirectUri(platform: SocialPlatform): string {
+  return `${getBaseUrl()}/api/oauth/${platform.toLowerCase()}/callback`;
+}
+
+export function createOAuthState(slug: string, platform: SocialPlatform): OAuthState {
+  return { state: randomBytes(24).toString('base64url'), slug, platform };
+}
+
+export function encodeOAuthState(state: OAuthState): string {
+  return Buffer.from(JSON.stringify(state)).toString('base64url');
+}
+
+export function decodeOAuthState(value: string | undefined): OAuthState | null {
+  if (!value) {
+    return null;
+  }
+  try {
+    const state = JSON.parse(Buffer.from(value, 'base64url').toString('utf8')) as OAuthState;
+    return typeof state.state === 'string' && typeof state.slug === 'string' ? state : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * One-off merge of UGC posts that were imported more than once
+ * Before imports compared canonical URLs, the same post shared with `?igshid=`, a short link, a
+ * trailing slash or an `m.` host was saved again as a new post. This canonicalizes every post's
+ * URL, backfills its platform post id (following TikTok short links), and merges posts with the
+ * same id or canonical URL into the oldest one. Rights requests, media, product tags and events
+ * move to the kept post.
+ *
+ * Runs as a dry run that only prints what it would do, unless --apply is given.
+ *
+ * Usage: pnpm --filter @ugc/worker merge:duplicates [-- --apply] [--workspace <slug>]
+ */
+
+import { mergeUgcPosts, prisma } from '@ugc/database';
+import { canonicalizePostUrl, isShortPostLink, resolvePostUrl } from '@ugc/shared';
+import type { CanonicalPostUrl } from '@ugc/shared';
+
+const args = process.argv.slice(2);
+const apply = args.includes('--apply');
+const workspaceSlug = args.includes('--workspace') ? args[args.indexOf('--workspace') + 1] : null;
+
+interface Post {
+  id: string;
+  workspaceId: string;
+  platform: 'TIKTOK' | 'INSTAGRAM' | 'YOUTUBE' | 'MANUAL';
+  postUrl: string;
+  postId: string | null;
+  createdAt: Date;
+  canonical: CanonicalPostUrl;
+}
+
+async function canonicalize(post: Omit<Post, 'canonical'>): Promise<CanonicalPostUrl> {
+  const canonical =
+    !post.postId && isShortPostLink(post.platform, post.postUrl)
+      ? await resolvePostUrl(post.platform, post.postUrl)
+      : canonicalizePostUrl(post.platform, post.postUrl);
+  return { url: canonical.url, postId: post.postId ?? canonical.postId };
+}
+
+// Posts with the same platform id, or without one and the same canonical URL, are one post
+function groupDuplicates(posts: Post[]): Post[][] {
+  const groups = new Map<string, Post[]>();
+  const urlGroups = new Map<string, string>();
+
+  const withIdFirst = [...posts].sort(
+    (a, b) => Number(!a.canonical.postId) - Number(!b.canonical.postId)
+  );
+  for (const post of withIdFirst) {
+    const scope = `${post.workspaceId}:${post.platform}`;
+    const urlKey = `url:${scope}:${post.canonical.url}`;
+    const key = post.canonical.postId
+      ? `id:${scope}:${post.canonical.postId}`
+      : (urlGroups.get(urlKey) ?? urlKey);
+    if (!urlGroups.has(urlKey)) urlGroups.set(urlKey, key);
+    groups.set(key, [...(groups.get(key) ?? []), post]);
+  }
+
+  return [...groups.values()].map((group) =>
+    group.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+  );
+}
+
+async function main() {
+  const workspace = workspaceSlug
+    ? await prisma.workspace.findUnique({ where: { slug: workspaceSlug }, select: { id: true } })
+    : null;
+  if (workspaceSlug && !workspace) {
+    throw new Error(`Workspace ${workspaceSlug} not found`);
+  }
+
+  const rows = await prisma.ugcPost.findMany({
+    where: workspace ? { workspaceId: workspace.id } : undefined,
+    select: {
+      id: true,
+      workspaceId: true,
+      platform: true,
+      postUrl: true,
+      postId: true,
+      createdAt: true,
+    },
+  });
+
+  const posts: Post[] = [];
+  for (const row of rows) {
+    posts.push({ ...row, canonical: await canonicalize(row) });
+  }
+
+  let merged = 0;
+  let updated = 0;
+  for (const [keep, ...duplicates] of groupDuplicates(posts)) {
+    const identity = {
+      postUrl: keep.canonical.url,
+      postId:
+        keep.canonical.postId ?? duplicates.find((post) => post.canonical.postId)?.canonical.postId,
+    };
+
+    if (duplicates.length > 0) {
+      console.log(
+        `${apply ? 'Merging' : 'Would merge'} ${duplicates.map((post) => post.postUrl).join(', ')} into ${keep.id} (${identity.postUrl})`
+      );
+      if (apply) {
+        const result = await mergeUgcPosts(
+          keep.id,
+          duplicates.map((post) => post.id),
+          identity
+        );
+        console.log(
+          `  rights request ${result.rightsRequestMoved ? 'moved' : 'kept'}, ${result.mediaAssetsMoved} media, ${result.productsMoved} products, ${result.eventsMoved} events moved`
+        );
+      }
+      merged += duplicates.length;
+      continue;
+    }
+
+    if (identity.postUrl !== keep.postUrl || (identity.postId ?? null) !== keep.postId) {
+      console.log(`${apply ? 'Updating' : 'Would update'} ${keep.postUrl} to ${identity.postUrl}`);
+      if (apply) {
+        await prisma.ugcPost.update({
+          where: { id: keep.id },
+          data: { postUrl: identity.postUrl, postId: identity.postId ?? null },
+        });
+      }
+      updated++;
+    }
+  }
+
+  console.log(
+    `${posts.length} posts checked: ${merged} duplicates ${apply ? 'merged' : 'to merge'}, ${updated} URLs ${apply ? 'canonicalized' : 'to canonicalize'}`
+  );
+  if (!apply && merged + updated > 0) {
+    console.log('Dry run; pass --apply to make these changes');
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,203 @@
+/**
+ * Mock OAuth server for connecting social accounts locally and in tests
+ * Serves `/<platform>/authorize`, `/token` and `/profile` for tiktok, instagram and youtube in each
+ * platform's own response format. Point the app at it with
+ * SOCIAL_OAUTH_BASE_URL=http://localhost:4010 and any client id and secret.
+ *
+ * The consent screen approves at once. Access tokens live MOCK_OAUTH_TOKEN_TTL seconds (default
+ * 600), so refreshes can be watched; refresh tokens rotate on use. POST /revoke invalidates every
+ * token issued so far, which makes the next refresh fail as if the user had revoked access.
+ *
+ * Usage: pnpm --filter @ugc/worker mock:oauth
+ */
+
+import { randomBytes } from 'node:crypto';
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+const PORT = parseInt(process.env.MOCK_OAUTH_PORT || '4010', 10);
+const TOKEN_TTL = parseInt(process.env.MOCK_OAUTH_TOKEN_TTL || '600', 10);
+const HANDLE = process.env.MOCK_OAUTH_HANDLE || 'mockbrand';
+
+type Platform = 'tiktok' | 'instagram' | 'youtube';
+
+interface Grant {
+  platform: Platform;
+  expiresAt: number;
+}
+
+const codes = new Map<string, Platform>();
+const accessTokens = new Map<string, Grant>();
+const refreshTokens = new Map<string, Platform>();
+
+function token(prefix: string): string {
+  return `${prefix}_${randomBytes(12).toString('hex')}`;
+}
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function refuse(res: ServerResponse, description: string) {
+  send(res, 400, { error: 'invalid_grant', error_description: description });
+}
+
+async function readForm(req: IncomingMessage): Promise<URLSearchParams> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return new URLSearchParams(Buffer.concat(chunks).toString('utf8'));
+}
+
+function issueTokens(res: ServerResponse, platform: Platform) {
+  const accessToken = token('access');
+  accessTokens.set(accessToken, { platform, expiresAt: Date.now() + TOKEN_TTL * 1000 });
+
+  // Meta hands out no refresh tokens
+  let refreshToken: string | undefined;
+  if (platform !== 'instagram') {
+    refreshToken = token('refresh');
+    refreshTokens.set(refreshToken, platform);
+  }
+
+  send(res, 200, {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: TOKEN_TTL,
+    refresh_token: refreshToken,
+    refresh_expires_in: refreshToken ? 365 * 24 * 3600 : undefined,
+    open_id: platform === 'tiktok' ? `open_${HANDLE}` : undefined,
+  });
+}
+
+async function handleToken(req: IncomingMessage, res: ServerResponse, platform: Platform) {
+  const form = await readForm(req);
+  const grantType = form.get('grant_type');
+
+  if (!(form.get('client_id') || form.get('client_key')) || !form.get('client_secret')) {
+    return send(res, 401, { error: 'invalid_client', error_description: 'Client credentials missing' });
+  }
+
+  if (grantType === 'authorization_code') {
+    const code = form.get('code') ?? '';
+    if (codes.get(code) !== platform) return refuse(res, 'Unknown or used authorization code');
+    codes.delete(code);
+    return issueTokens(res, platform);
+  }
+
+  if (grantType === 'refresh_token') {
+    const refreshToken = form.get('refresh_token') ?? '';
+    if (refreshTokens.get(refreshToken) !== platform) return refuse(res, 'Refresh token revoked');
+    refreshTokens.delete(refreshToken);
+    return issueTokens(res, platform);
+  }
+
+  if (grantType === 'fb_exchange_token') {
+    const grant = accessTokens.get(form.get('fb_exchange_token') ?? '');
+    if (!grant || grant.platform !== platform || grant.expiresAt < Date.now()) {
+      return send(res, 400, {
+        error: { message: 'Error validating access token', type: 'OAuthException', code: 190 },
+      });
+    }
+    return issueTokens(res, platform);
+  }
+
+  send(res, 400, { error: 'unsupported_grant_type' });
+}
+
+function profile(platform: Platform) {
+  switch (platform) {
+    case 'tiktok':
+      return {
+        data: {
+          user: {
+            open_id: `open_${HANDLE}`,
+            username: HANDLE,
+            display_name: 'Mock Brand',
+            avatar_url: 'https://example.com/avatar.png',
+          },
+        },
+        error: { code: 'ok', message: '' },
+      };
+    case 'instagram':
+      return {
+        data: [
+          {
+            id: 'page_1',
+            instagram_business_account: {
+              id: '17841400000000000',
+              username: HANDLE,
+              name: 'Mock Brand',
+              profile_picture_url: 'https://example.com/avatar.png',
+            },
+          },
+        ],
+      };
+    case 'youtube':
+      return {
+        items: [
+          {
+            id: 'UCmockchannel000000000000',
+            snippet: {
+              title: 'Mock Brand',
+              customUrl: `@${HANDLE}`,
+              thumbnails: { default: { url: 'https://example.com/avatar.png' } },
+            },
+          },
+        ],
+      };
+  }
+}
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+  const [, platform, action] = url.pathname.split('/') as [string, Platform, string];
+
+  if (req.method === 'POST' && url.pathname === '/revoke') {
+    codes.clear();
+    accessTokens.clear();
+    refreshTokens.clear();
+    console.log('Revoked every token');
+    return send(res, 200, { revoked: true });
+  }
+
+  if (!['tiktok', 'instagram', 'youtube'].includes(platform)) {
+    return send(res, 404, { error: 'not_found' });
+  }
+
+  if (req.method === 'GET' && action === 'authorize') {
+    const redirectUri = url.searchParams.get('redirect_uri');
+    if (!redirectUri) return send(res, 400, { error: 'invalid_request' });
+
+    const code = token('code');
+    codes.set(code, platform);
+    const callback = new URL(redirectUri);
+    callback.searchParams.set('code', code);
+    callback.searchParams.set('state', url.searchParams.get('state') ?? '');
+    res.writeHead(302, { Location: callback.toString() });
+    return res.end();
+  }
+
+  if (req.method === 'POST' && action === 'token') {
+    handleToken(req, res, platform).catch((error) => {
+      console.error('Token request failed:', error);
+      send(res, 500, { error: 'server_error' });
+    });
+    return;
+  }
+
+  if (req.method === 'GET' && action === 'profile') {
+    const accessToken = req.headers.authorization?.replace(/^Bearer /, '') ?? '';
+    const grant = accessTokens.get(accessToken);
+    if (!grant || grant.platform !== platform || grant.expiresAt < Date.now()) {
+      return send(res, 401, { error: 'invalid_token' });
+    }
+    return send(res, 200, profile(platform));
+  }
+
+  send(res, 404, { error: 'not_found' });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock OAuth server listening on http://localhost:${PORT} as @${HANDLE}`);
+});
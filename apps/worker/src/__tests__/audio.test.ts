@@ -0,0 +1,94 @@
+/**
+ * Unit tests for clip audio filter graphs
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ClipAudio } from '@ugc/queue';
+import { audioFilters, musicBedVolume } from '../lib/audio.js';
+
+const AUDIO: ClipAudio = { normalize: false, targetLoudness: -14, muteOriginal: false };
+
+describe('musicBedVolume', () => {
+  it('should play the bed at full volume when it replaces the original audio', () => {
+    expect(musicBedVolume({ ...AUDIO, muteOriginal: true })).toBe(1);
+  });
+
+  it('should duck the bed under the original audio', () => {
+    expect(musicBedVolume(AUDIO)).toBe(0.25);
+  });
+
+  it('should prefer an explicit volume', () => {
+    expect(musicBedVolume({ ...AUDIO, muteOriginal: true, musicVolume: 0.5 })).toBe(0.5);
+  });
+});
+
+describe('audioFilters', () => {
+  it('should pass the original audio through at the clip length', () => {
+    const filters = audioFilters(AUDIO, { original: '0:a', duration: 15, output: 'aout' });
+
+    expect(filters).toEqual([
+      '[0:a]aresample=48000,aformat=sample_fmts=fltp:channel_layouts=stereo,atrim=duration=15[aout]',
+    ]);
+  });
+
+  it('should generate silence when the original is muted and there is no music', () => {
+    const filters = audioFilters(
+      { ...AUDIO, muteOriginal: true },
+      { original: '0:a', duration: 15, output: 'aout' }
+    );
+
+    expect(filters[0]).toBe('anullsrc=r=48000:cl=stereo,atrim=duration=15[silence]');
+    expect(filters[1]).toMatch(/^\[silence\]/);
+  });
+
+  it('should generate silence when the source has no audio', () => {
+    const filters = audioFilters(AUDIO, { duration: 10, output: 'aout' });
+
+    expect(filters[0]).toContain('anullsrc');
+    expect(filters).toHaveLength(2);
+  });
+
+  it('should replace muted original audio with the faded music bed', () => {
+    const filters = audioFilters(
+      { ...AUDIO, muteOriginal: true },
+      { original: '0:a', music: '1:a', duration: 15, output: 'aout' }
+    );
+
+    expect(filters).toEqual([
+      '[1:a]atrim=duration=15,asetpts=PTS-STARTPTS,volume=1,afade=t=out:st=14:d=1[bed]',
+      '[bed]aresample=48000,aformat=sample_fmts=fltp:channel_layouts=stereo,atrim=duration=15[aout]',
+    ]);
+  });
+
+  it('should mix the music bed under the original audio', () => {
+    const filters = audioFilters(AUDIO, {
+      original: '0:a',
+      music: '1:a',
+      duration: 15,
+      output: 'aout',
+    });
+
+    expect(filters[0]).toContain('volume=0.25');
+    expect(filters[1]).toBe(
+      '[0:a][bed]amix=inputs=2:duration=longest:dropout_transition=0,volume=2[mix]'
+    );
+    expect(filters[2]).toMatch(/^\[mix\]/);
+  });
+
+  it('should not fade for longer than a clip shorter than a second', () => {
+    const filters = audioFilters(AUDIO, { music: '1:a', duration: 0.5, output: 'aout' });
+
+    expect(filters[0]).toContain('afade=t=out:st=0:d=0.5');
+  });
+
+  it('should normalize loudness to the target before resampling', () => {
+    const filters = audioFilters(
+      { ...AUDIO, normalize: true, targetLoudness: -16 },
+      { original: '0:a', duration: 15, output: 'aout' }
+    );
+
+    expect(filters[0]).toBe(
+      '[0:a]loudnorm=I=-16:TP=-1.5:LRA=11,aresample=48000,aformat=sample_fmts=fltp:channel_layouts=stereo,atrim=duration=15[aout]'
+    );
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for highlight ranking
+ */
+
+import { describe, it, expect } from 'vitest';
+import { rankWindows, type LoudnessSample, type MediaAnalysis } from '../lib/highlights.js';
+
+// One-second loudness samples at `level` dB, with `peaks` overriding individual seconds
+function loudness(
+  duration: number,
+  level: number,
+  peaks: Record<number, number> = {}
+): LoudnessSample[] {
+  return Array.from({ length: duration }, (_, time) => ({ time, level: peaks[time] ?? level }));
+}
+
+function analysis(overrides: Partial<MediaAnalysis> = {}): MediaAnalysis {
+  return { duration: 60, sceneCuts: [], loudness: loudness(60, -40), ...overrides };
+}
+
+describe('rankWindows', () => {
+  it('should return the opening window for the first strategy', () => {
+    const windows = rankWindows(analysis({ sceneCuts: [20, 22, 24] }), 15, 'first');
+
+    expect(windows).toEqual([
+      { start: 0, end: 15, score: 0, reasons: ['First segment of the source'] },
+    ]);
+  });
+
+  it('should return the whole source when it is no longer than the clip', () => {
+    const windows = rankWindows(analysis({ duration: 10 }), 15, 'highlights');
+
+    expect(windows).toHaveLength(1);
+    expect(windows[0]).toMatchObject({
+      start: 0,
+      end: 10,
+      reasons: ['Source is no longer than the clip'],
+    });
+  });
+
+  it('should rank a window full of scene cuts first for the scenes strategy', () => {
+    const windows = rankWindows(analysis({ sceneCuts: [30, 32, 34, 36, 38, 40] }), 15, 'scenes');
+
+    expect(windows[0].start).toBe(30);
+    expect(windows[0].end).toBe(45);
+    expect(windows[0].reasons).toContain('Starts on a scene cut at 30.0s');
+    expect(windows[0].reasons).toContain('5 scene changes');
+  });
+
+  it('should start a second before a loudness peak for the highlights strategy', () => {
+    const windows = rankWindows(
+      analysis({ loudness: loudness(60, -60, { 40: -6 }) }),
+      10,
+      'highlights'
+    );
+
+    expect(windows[0].start).toBe(39);
+    expect(windows[0].reasons).toContain('Loudness peak of -6.0 dB at 40.0s');
+  });
+
+  it('should note a strong opening when the first seconds are loud', () => {
+    const windows = rankWindows(
+      analysis({ loudness: loudness(60, -60, { 20: -6, 21: -6 }) }),
+      10,
+      'highlights'
+    );
+    const opening = windows.find((window) => window.start === 20);
+
+    expect(opening?.reasons).toContain('Strong audio in the opening seconds');
+  });
+
+  it('should clamp late candidates so every window fits in the source', () => {
+    const windows = rankWindows(analysis({ sceneCuts: [55, 58] }), 15, 'scenes');
+
+    expect(windows.every((window) => window.end <= 60)).toBe(true);
+    expect(windows.map((window) => window.start)).toContain(45);
+  });
+
+  it('should keep one window per start, sorted by score then start', () => {
+    const windows = rankWindows(analysis({ sceneCuts: [50, 55, 58] }), 15, 'scenes');
+    const starts = windows.map((window) => window.start);
+
+    expect(new Set(starts).size).toBe(starts.length);
+    for (let i = 1; i < windows.length; i++) {
+      const [previous, current] = [windows[i - 1], windows[i]];
+      expect(
+        previous.score > current.score ||
+          (previous.score === current.score && previous.start < current.start)
+      ).toBe(true);
+    }
+  });
+
+  it('should ignore silence when picking loudness peaks', () => {
+    const windows = rankWindows(analysis({ loudness: loudness(60, -60) }), 15, 'highlights');
+
+    expect(windows).toHaveLength(1);
+    expect(windows[0]).toMatchObject({ start: 0, score: 0, reasons: [] });
+  });
+});
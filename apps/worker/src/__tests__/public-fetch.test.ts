@@ -0,0 +1,56 @@
+/**
+ * Unit tests for fetching URLs from workspace input
+ */
+
+import { describe, it, expect } from 'vitest';
+import { fetchPublicUrl, isPublicAddress, UnsafeUrlError } from '../lib/public-fetch.js';
+
+describe('isPublicAddress', () => {
+  it('should accept public addresses', () => {
+    expect(isPublicAddress('93.184.216.34')).toBe(true);
+    expect(isPublicAddress('2606:2800:220:1:248:1893:25c8:1946')).toBe(true);
+  });
+
+  it('should refuse loopback, private and link-local addresses', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.20.0.5',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::1',
+      'fd00::1',
+      'fe80::1',
+    ]) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+  });
+
+  it('should judge IPv4-mapped IPv6 addresses by their IPv4 part', () => {
+    expect(isPublicAddress('::ffff:169.254.169.254')).toBe(false);
+    expect(isPublicAddress('::ffff:93.184.216.34')).toBe(true);
+  });
+
+  it('should refuse anything that is not an address', () => {
+    expect(isPublicAddress('localhost')).toBe(false);
+  });
+});
+
+describe('fetchPublicUrl', () => {
+  it('should refuse other protocols', async () => {
+    await expect(fetchPublicUrl('file:///etc/passwd', { timeoutMs: 1000 })).rejects.toThrow(
+      UnsafeUrlError
+    );
+  });
+
+  it('should refuse private hosts without fetching them', async () => {
+    await expect(
+      fetchPublicUrl('http://169.254.169.254/latest/meta-data/', { timeoutMs: 1000 })
+    ).rejects.toThrow('not a public host');
+    await expect(fetchPublicUrl('http://[::1]:6379/', { timeoutMs: 1000 })).rejects.toThrow(
+      UnsafeUrlError
+    );
+  });
+});
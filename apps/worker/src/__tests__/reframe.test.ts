@@ -0,0 +1,122 @@
+/**
+ * Unit tests for smart reframing
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  planSmartCrop,
+  simplifyKeyframes,
+  type CropKeyframe,
+  type SampledFrames,
+} from '../lib/reframe.js';
+
+const SOURCE = { width: 1920, height: 1080 };
+const VERTICAL = { width: 1080, height: 1920 };
+const WIDTH = 32;
+const HEIGHT = 18;
+
+// A frame filled with one grey level, with an optional skin-toned block starting at column `blockAt`
+function frame(level: number, blockAt?: number): Buffer {
+  const pixels = Buffer.alloc(WIDTH * HEIGHT * 3, level);
+  if (blockAt !== undefined) {
+    for (let row = 4; row < 14; row++) {
+      for (let col = blockAt; col < blockAt + 6; col++) {
+        pixels.set([224, 172, 140], (row * WIDTH + col) * 3);
+      }
+    }
+  }
+  return pixels;
+}
+
+function sampled(frames: Buffer[]): SampledFrames {
+  return { width: WIDTH, height: HEIGHT, fps: 4, frames };
+}
+
+// Keyframes of a scene that cuts every `shotLength` seconds, jumping between two windows
+function cutKeyframes(shots: number, shotLength: number): CropKeyframe[] {
+  const keyframes: CropKeyframe[] = [];
+  for (let shot = 0; shot < shots; shot++) {
+    const t = shot * shotLength;
+    const x = shot % 2 ? 1200 : 0;
+    if (shot > 0) keyframes.push({ ...keyframes[keyframes.length - 1], t: t - 0.01 });
+    keyframes.push({ t, x, y: 0 }, { t: t + shotLength / 2, x: x + 10, y: 0 });
+  }
+  return keyframes;
+}
+
+describe('simplifyKeyframes', () => {
+  it('should drop keyframes on a straight line', () => {
+    const keyframes = [0, 1, 2, 3, 4].map((t) => ({ t, x: t * 100, y: 0 }));
+    expect(simplifyKeyframes(keyframes)).toEqual([
+      { t: 0, x: 0, y: 0 },
+      { t: 4, x: 400, y: 0 },
+    ]);
+  });
+
+  it('should keep both sides of a cut', () => {
+    const keyframes = [
+      { t: 0, x: 0, y: 0 },
+      { t: 1.99, x: 0, y: 0 },
+      { t: 2, x: 800, y: 0 },
+      { t: 4, x: 800, y: 0 },
+    ];
+    expect(simplifyKeyframes(keyframes)).toEqual(keyframes);
+  });
+
+  it('should fit clips with more cuts than the keyframe budget', () => {
+    const result = simplifyKeyframes(cutKeyframes(120, 0.25));
+
+    expect(result.length).toBeLessThanOrEqual(48);
+    expect(result[0].t).toBe(0);
+    for (let i = 1; i < result.length; i++) {
+      expect(result[i].t).toBeGreaterThanOrEqual(result[i - 1].t);
+    }
+  });
+
+  it('should merge the shortest shots first', () => {
+    // 30 one-second shots and one 10-second shot, which has to survive
+    const keyframes = cutKeyframes(30, 1).concat(
+      { t: 29.99, x: 1210, y: 0 },
+      { t: 30, x: 600, y: 0 },
+      { t: 40, x: 600, y: 0 }
+    );
+    const result = simplifyKeyframes(keyframes);
+
+    expect(result.length).toBeLessThanOrEqual(48);
+    expect(result[result.length - 1]).toMatchObject({ x: 600 });
+  });
+});
+
+describe('planSmartCrop', () => {
+  it('should follow a subject on one side of the frame', () => {
+    const frames = Array.from({ length: 8 }, () => frame(40, 24));
+    const path = planSmartCrop(sampled(frames), SOURCE, VERTICAL);
+
+    expect(path.mode).toBe('smart');
+    expect(new Set(path.keyframes.map((keyframe) => keyframe.x)).size).toBe(1);
+    expect(path.keyframes[0].x).toBeGreaterThan((SOURCE.width - path.width) / 2);
+  });
+
+  it('should finish with a cut on every frame', () => {
+    const frames = Array.from({ length: 120 }, (_, i) => frame(i % 2 ? 230 : 20, i % 4 ? 2 : 24));
+    const path = planSmartCrop(sampled(frames), SOURCE, VERTICAL);
+
+    expect(path.shots!.length).toBeGreaterThan(24);
+    expect(path.keyframes.length).toBeLessThanOrEqual(48);
+  });
+
+  it('should finish with a cut every four frames', () => {
+    const frames = Array.from({ length: 120 }, (_, i) =>
+      Math.floor(i / 4) % 2 ? frame(230, 2) : frame(20, 24)
+    );
+    const path = planSmartCrop(sampled(frames), SOURCE, VERTICAL);
+
+    expect(path.shots!.length).toBe(30);
+    expect(path.keyframes.length).toBeLessThanOrEqual(48);
+  });
+
+  it('should fall back to a center crop when nothing needs cropping', () => {
+    const path = planSmartCrop(sampled([frame(40)]), SOURCE, SOURCE);
+    expect(path.mode).toBe('center');
+  });
+});
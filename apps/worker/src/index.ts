@@ -3,129 +3,118 @@
  * Handles background jobs for media processing, ingestion, and more
  */
 
-import { Worker, Queue } from 'bullmq';
-import Redis from 'ioredis';
+import { Worker } from 'bullmq';
+import {
+  QUEUE_NAMES,
+  getRedisConnection,
+  closeRedisConnection,
+  scheduleSocialTokenRefresh,
+} from '@ugc/queue';
+import { processMediaDownload } from './processors/media-download.js';
+import { processMediaTranscode } from './processors/media-transcode.js';
+import { processClipGeneration } from './processors/clip-generation.js';
+import { processCaptionGeneration } from './processors/caption-generation.js';
+import { processCaptionBurnIn } from './processors/caption-burn-in.js';
+import { processClipBranding } from './processors/clip-branding.js';
+import { processClipExport } from './processors/clip-export.js';
+import { processUgcIngestion } from './processors/ugc-ingestion.js';
+import { processUgcImport } from './processors/ugc-import.js';
+import { processSocialTokenRefresh } from './processors/social-token-refresh.js';
+import { startCancellationListener, stopCancellationListener, withCancellation } from './lib/cancellation.js';
 
 // Initialize Redis connection
-const connection = new Redis(process.env.REDIS_URL || 'redis://localhost:6379', {
-  maxRetriesPerRequest: null,
-});
+const connection = getRedisConnection();
 
 console.log('🚀 Starting UGC Commerce Worker...');
 
-// Define queue names
-export const QUEUE_NAMES = {
-  MEDIA_DOWNLOAD: 'media-download',
-  MEDIA_TRANSCODE: 'media-transcode',
-  CLIP_GENERATION: 'clip-generation',
-  CAPTION_GENERATION: 'caption-generation',
-  UGC_INGESTION: 'ugc-ingestion',
-};
+// Running repurpose jobs can be cancelled from the web app
+startCancellationListener().catch((error) => {
+  console.error('Failed to subscribe to job cancellations:', error);
+});
 
 // Create workers for each queue
 const workers: Worker[] = [];
 
 // Media Download Worker
-const mediaDownloadWorker = new Worker(
-  QUEUE_NAMES.MEDIA_DOWNLOAD,
-  async (job) => {
-    console.log(`Processing media download job: ${job.id}`);
-    const { mediaAssetId, sourceUrl } = job.data;
-    
-    // TODO: Implement actual download logic
-    // 1. Download file from sourceUrl
-    // 2. Upload to S3
-    // 3. Update media asset in database
-    
-    await job.updateProgress(100);
-    return { success: true, mediaAssetId };
-  },
-  { connection, concurrency: 3 }
-);
+const mediaDownloadWorker = new Worker(QUEUE_NAMES.MEDIA_DOWNLOAD, processMediaDownload, {
+  connection,
+  concurrency: 3,
+});
 workers.push(mediaDownloadWorker);
 
 // Media Transcode Worker
-const mediaTranscodeWorker = new Worker(
-  QUEUE_NAMES.MEDIA_TRANSCODE,
-  async (job) => {
-    console.log(`Processing media transcode job: ${job.id}`);
-    const { mediaAssetId, format, outputPath } = job.data;
-    
-    // TODO: Implement FFmpeg transcoding
-    // 1. Get source file from S3
-    // 2. Transcode using FFmpeg
-    // 3. Upload transcoded file to S3
-    // 4. Update database
-    
-    await job.updateProgress(100);
-    return { success: true, mediaAssetId, format };
-  },
-  { connection, concurrency: 2 }
-);
+const mediaTranscodeWorker = new Worker(QUEUE_NAMES.MEDIA_TRANSCODE, processMediaTranscode, {
+  connection,
+  concurrency: 1,
+});
 workers.push(mediaTranscodeWorker);
 
 // Clip Generation Worker
 const clipGenerationWorker = new Worker(
   QUEUE_NAMES.CLIP_GENERATION,
-  async (job) => {
-    console.log(`Processing clip generation job: ${job.id}`);
-    const { repurposeJobId, sourceMediaAssetId, params } = job.data;
-    
-    // TODO: Implement clip generation
-    // 1. Get source video from S3
-    // 2. Detect scene changes / split by duration
-    // 3. Generate multiple clips
-    // 4. Apply format transformations (9:16, 1:1, 16:9)
-    // 5. Upload clips to S3
-    // 6. Create repurposed_clips records
-    
-    await job.updateProgress(100);
-    return { success: true, repurposeJobId };
-  },
+  withCancellation(QUEUE_NAMES.CLIP_GENERATION, processClipGeneration),
   { connection, concurrency: 1 }
 );
 workers.push(clipGenerationWorker);
 
 // Caption Generation Worker
-const captionGenerationWorker = new Worker(
-  QUEUE_NAMES.CAPTION_GENERATION,
-  async (job) => {
-    console.log(`Processing caption generation job: ${job.id}`);
-    const { clipId, language } = job.data;
-    
-    // TODO: Implement caption generation
-    // 1. Get audio from video
-    // 2. Send to Whisper API or local model
-    // 3. Generate SRT/VTT file
-    // 4. Upload to S3
-    // 5. Optionally burn-in captions using FFmpeg
-    
-    await job.updateProgress(100);
-    return { success: true, clipId };
-  },
-  { connection, concurrency: 2 }
-);
+const captionGenerationWorker = new Worker(QUEUE_NAMES.CAPTION_GENERATION, processCaptionGeneration, {
+  connection,
+  concurrency: 2,
+});
 workers.push(captionGenerationWorker);
 
+// Caption Burn-in Worker
+const captionBurnInWorker = new Worker(QUEUE_NAMES.CAPTION_BURN_IN, processCaptionBurnIn, {
+  connection,
+  concurrency: 1,
+});
+workers.push(captionBurnInWorker);
+
+// Clip Branding Worker
+const clipBrandingWorker = new Worker(QUEUE_NAMES.CLIP_BRANDING, processClipBranding, {
+  connection,
+  concurrency: 1,
+});
+workers.push(clipBrandingWorker);
+
+// Clip Export Worker
+const clipExportWorker = new Worker(QUEUE_NAMES.CLIP_EXPORT, processClipExport, {
+  connection,
+  concurrency: 1,
+});
+workers.push(clipExportWorker);
+
 // UGC Ingestion Worker
-const ugcIngestionWorker = new Worker(
-  QUEUE_NAMES.UGC_INGESTION,
-  async (job) => {
-    console.log(`Processing UGC ingestion job: ${job.id}`);
-    const { workspaceId, platform, searchCriteria } = job.data;
-    
-    // TODO: Implement platform-specific ingestion
-    // 1. Call platform API (TikTok, Instagram, YouTube)
-    // 2. Parse response and create ugc_posts records
-    // 3. Queue media downloads for each post
-    
-    await job.updateProgress(100);
-    return { success: true, workspaceId };
-  },
-  { connection, concurrency: 5 }
-);
+// Concurrency is kept low so searches stay within the platforms' rate limits
+const ugcIngestionWorker = new Worker(QUEUE_NAMES.UGC_INGESTION, processUgcIngestion, {
+  connection,
+  concurrency: 2,
+});
 workers.push(ugcIngestionWorker);
 
+// UGC Import Worker
+// One file at a time per worker; each row already waits on URL lookups
+const ugcImportWorker = new Worker(QUEUE_NAMES.UGC_IMPORT, processUgcImport, {
+  connection,
+  concurrency: 1,
+});
+workers.push(ugcImportWorker);
+
+// Social Token Refresh Worker
+const socialTokenRefreshWorker = new Worker(QUEUE_NAMES.SOCIAL_TOKEN_REFRESH, processSocialTokenRefresh, {
+  connection,
+  concurrency: 1,
+});
+workers.push(socialTokenRefreshWorker);
+
+// Every worker process upserts the same schedule, so there is only ever one
+scheduleSocialTokenRefresh(parseInt(process.env.SOCIAL_TOKEN_REFRESH_MINUTES || '30', 10)).catch(
+  (error) => {
+    console.error('Failed to schedule social token refresh:', error);
+  }
+);
+
 // Worker event handlers
 workers.forEach((worker) => {
   worker.on('completed', (job) => {
@@ -145,7 +134,8 @@ workers.forEach((worker) => {
 async function shutdown() {
   console.log('Shutting down workers...');
   await Promise.all(workers.map((worker) => worker.close()));
-  await connection.quit();
+  await stopCancellationListener();
+  await closeRedisConnection();
   console.log('Workers shut down gracefully');
   process.exit(0);
 }
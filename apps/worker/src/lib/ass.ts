@@ -0,0 +1,255 @@
+/**
+ * Advanced SubStation Alpha (ASS) builder for burning captions in with libass
+ * Styles come from the shared CaptionStyle, scaled to the clip's frame size
+ */
+
+import type { CaptionCue, ClipAttribution, MediaDimensions, ResolvedCaptionStyle } from '@ugc/shared';
+
+const ALIGNMENT: Record<ResolvedCaptionStyle['position'], number> = {
+  bottom: 2,
+  center: 5,
+  top: 8,
+};
+
+/**
+ * Convert #RGB / #RRGGBB to an ASS colour (&HAABBGGRR, where alpha 00 is opaque)
+ */
+export function toAssColor(hex: string, opacity: number = 1): string {
+  let value = hex.replace('#', '');
+  if (value.length === 3) {
+    value = value
+      .split('')
+      .map((c) => c + c)
+      .join('');
+  }
+  if (!/^[0-9a-fA-F]{6}$/.test(value)) {
+    value = 'FFFFFF';
+  }
+
+  const [r, g, b] = [value.slice(0, 2), value.slice(2, 4), value.slice(4, 6)];
+  const alpha = Math.round((1 - Math.min(1, Math.max(0, opacity))) * 255)
+    .toString(16)
+    .padStart(2, '0');
+
+  return `&H${alpha}${b}${g}${r}`.toUpperCase();
+}
+
+// Inline colour overrides take &HBBGGRR& without alpha
+function overrideColor(hex: string): string {
+  return `&H${toAssColor(hex).slice(4)}&`;
+}
+
+function formatAssTime(seconds: number): string {
+  const totalCs = Math.max(0, Math.round(seconds * 100));
+  const h = Math.floor(totalCs / 360_000);
+  const m = Math.floor((totalCs % 360_000) / 6000);
+  const s = Math.floor((totalCs % 6000) / 100);
+  const cs = totalCs % 100;
+  return `${h}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}.${cs.toString().padStart(2, '0')}`;
+}
+
+// Braces start override blocks and backslashes start tags, so neither may reach libass raw
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '/').replace(/{/g, '(').replace(/}/g, ')').replace(/\r?\n/g, '\\N');
+}
+
+function dialogue(start: number, end: number, text: string): string {
+  return `Dialogue: 0,${formatAssTime(start)},${formatAssTime(end)},Default,,0,0,0,,${text}`;
+}
+
+/**
+ * Build karaoke events for one cue: the full line stays on screen and the
+ * word being spoken switches to the highlight colour
+ */
+function karaokeEvents(cue: CaptionCue, style: ResolvedCaptionStyle): string[] {
+  const words = cue.words?.filter((word) => word.text.trim()) ?? [];
+  if (words.length === 0) {
+    return [dialogue(cue.start, cue.end, escapeText(cue.text))];
+  }
+
+  const base = overrideColor(style.fontColor);
+  const highlight = overrideColor(style.highlightColor);
+  const events: string[] = [];
+
+  // Lead-in before the first word is spoken
+  if (words[0].start > cue.start) {
+    events.push(dialogue(cue.start, words[0].start, escapeText(words.map((w) => w.text).join(' '))));
+  }
+
+  words.forEach((word, index) => {
+    const start = Math.max(cue.start, word.start);
+    const end = index + 1 < words.length ? words[index + 1].start : cue.end;
+    if (end <= start) return;
+
+    const text = words
+      .map((w, i) => (i === index ? `{\\1c${highlight}}${escapeText(w.text)}{\\1c${base}}` : escapeText(w.text)))
+      .join(' ');
+    events.push(dialogue(start, end, text));
+  });
+
+  return events;
+}
+
+/**
+ * Render cues as an ASS document sized for the target frame
+ */
+export function buildAssSubtitles(
+  cues: CaptionCue[],
+  style: ResolvedCaptionStyle,
+  frame: MediaDimensions
+): string {
+  const scale = Math.min(frame.width, frame.height) / 1080;
+  const fontSize = Math.round(style.fontSize * scale);
+  const marginV = Math.round(style.marginBottom * scale);
+  const marginH = Math.round((frame.width * (1 - Math.min(100, Math.max(10, style.maxWidth)) / 100)) / 2);
+
+  // BorderStyle 3 draws an opaque box in the outline colour; 1 draws a plain outline
+  const boxed = Boolean(style.backgroundColor);
+  const borderStyle = boxed ? 3 : 1;
+  const outlineColor = boxed ? toAssColor(style.backgroundColor!, style.backgroundOpacity) : toAssColor('#000000');
+  const outline = boxed ? Math.round(fontSize * 0.25) : Math.max(2, Math.round(fontSize * 0.06));
+
+  const primary = toAssColor(style.fontColor);
+  const secondary = toAssColor(style.highlightColor);
+
+  const header = [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${frame.width}`,
+    `PlayResY: ${frame.height}`,
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    `Style: Default,${style.fontFamily},${fontSize},${primary},${secondary},${outlineColor},&H80000000,-1,0,0,0,100,100,0,0,${borderStyle},${outline},0,${ALIGNMENT[style.position]},${marginH},${marginH},${marginV},1`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+  ];
+
+  const events = cues.flatMap((cue) =>
+    style.karaoke ? karaokeEvents(cue, style) : [dialogue(cue.start, cue.end, escapeText(cue.text))]
+  );
+
+  return `${[...header, ...events].join('\n')}\n`;
+}
+
+export interface EndCardText {
+  title?: string; // Product title
+  price?: string; // Formatted price
+  cta: string;
+}
+
+export interface EndCardColors {
+  textColor: string;
+  accentColor: string; // CTA button, its label uses the background color
+  backgroundColor: string;
+}
+
+/**
+ * Render an end card's product title, price and CTA button as an ASS document
+ * Lines are placed in the lower part of the frame, below the logo and product image
+ */
+export function buildEndCardSubtitles(
+  text: EndCardText,
+  colors: EndCardColors,
+  frame: MediaDimensions,
+  duration: number
+): string {
+  const scale = Math.min(frame.width, frame.height) / 1080;
+  const marginH = Math.round(frame.width * 0.1);
+  const centerX = Math.round(frame.width / 2);
+  const at = (fraction: number) => `{\\an5\\pos(${centerX},${Math.round(frame.height * fraction)})}`;
+
+  const style = (
+    name: string,
+    size: number,
+    primary: string,
+    outline: string,
+    borderStyle: number,
+    border: number
+  ) =>
+    `Style: ${name},Arial,${Math.round(size * scale)},${primary},${primary},${outline},&H00000000,-1,0,0,0,100,100,0,0,${borderStyle},${Math.round(border * scale)},0,5,${marginH},${marginH},0,1`;
+
+  const header = [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${frame.width}`,
+    `PlayResY: ${frame.height}`,
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    style('Title', 64, toAssColor(colors.textColor), toAssColor(colors.backgroundColor), 1, 0),
+    style('Price', 56, toAssColor(colors.textColor), toAssColor(colors.backgroundColor), 1, 0),
+    // BorderStyle 3 turns the outline into a filled box, the CTA button
+    style('Cta', 56, toAssColor(colors.backgroundColor), toAssColor(colors.accentColor), 3, 24),
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+  ];
+
+  const line = (styleName: string, position: number, value: string) =>
+    `Dialogue: 0,${formatAssTime(0)},${formatAssTime(duration)},${styleName},,0,0,0,,${at(position)}${escapeText(value)}`;
+
+  // Without a product the CTA sits in the middle of the card
+  const title = text.title && text.title.length > 80 ? `${text.title.slice(0, 79)}…` : text.title;
+  const events = [
+    ...(title ? [line('Title', 0.66, title)] : []),
+    ...(text.price ? [line('Price', 0.74, text.price)] : []),
+    line('Cta', text.title || text.price ? 0.85 : 0.5, text.cta),
+  ];
+
+  return `${[...header, ...events].join('\n')}\n`;
+}
+
+// Numpad alignment for each credit position
+const CREDIT_ALIGNMENT: Record<ClipAttribution['position'], number> = {
+  'bottom-left': 1,
+  'bottom-center': 2,
+  'bottom-right': 3,
+  'top-left': 7,
+  'top-center': 8,
+  'top-right': 9,
+};
+
+/**
+ * Render a creator credit line as an ASS document shown for the whole clip
+ * It keeps the same small margin from the frame edges as the watermark
+ */
+export function buildCreditSubtitles(
+  text: string,
+  style: ClipAttribution,
+  frame: MediaDimensions,
+  duration: number
+): string {
+  const scale = Math.min(frame.width, frame.height) / 1080;
+  const fontSize = Math.round(style.fontSize * scale);
+  const margin = Math.round(Math.min(frame.width, frame.height) * 0.04);
+
+  const boxed = Boolean(style.backgroundColor);
+  const outlineColor = boxed ? toAssColor(style.backgroundColor!, style.backgroundOpacity) : toAssColor('#000000');
+  const outline = boxed ? Math.round(fontSize * 0.25) : Math.max(2, Math.round(fontSize * 0.06));
+
+  const header = [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${frame.width}`,
+    `PlayResY: ${frame.height}`,
+    'WrapStyle: 2',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    `Style: Credit,Arial,${fontSize},${toAssColor(style.fontColor)},${toAssColor(style.fontColor)},${outlineColor},&H80000000,-1,0,0,0,100,100,0,0,${boxed ? 3 : 1},${outline},0,${CREDIT_ALIGNMENT[style.position]},${margin},${margin},${margin},1`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+  ];
+
+  const event = `Dialogue: 0,${formatAssTime(0)},${formatAssTime(duration)},Credit,,0,0,0,,${escapeText(text)}`;
+
+  return `${[...header, event].join('\n')}\n`;
+}
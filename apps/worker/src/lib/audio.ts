@@ -0,0 +1,72 @@
+/**
+ * Audio of rendered clips: muting, music beds and loudness normalization
+ */
+
+import type { ClipAudio } from '@ugc/queue';
+
+const SAMPLE_RATE = 48000;
+
+// Fade the music bed out over the last second instead of cutting it off
+const MUSIC_FADE_SECONDS = 1;
+
+export interface ClipAudioOptions extends ClipAudio {
+  hasAudio: boolean; // Whether the source has an audio track to keep
+  musicBedPath?: string; // Local copy of the music bed
+}
+
+/**
+ * Music bed volume: full when it replaces the original audio, quieter when mixed under it
+ */
+export function musicBedVolume(audio: ClipAudio): number {
+  return audio.musicVolume ?? (audio.muteOriginal ? 1 : 0.25);
+}
+
+/**
+ * Filter graph steps that build a clip's audio track from the source and an optional music bed
+ * The output is always a stereo track of the clip's length, silent when nothing is left to play,
+ * so captions and later renders can rely on it
+ */
+export function audioFilters(
+  audio: ClipAudio,
+  labels: { original?: string; music?: string; duration: number; output: string }
+): string[] {
+  const { duration } = labels;
+  const filters: string[] = [];
+  const sources: string[] = [];
+
+  if (labels.original && !audio.muteOriginal) {
+    sources.push(labels.original);
+  }
+
+  if (labels.music) {
+    const fadeStart = Math.max(0, duration - MUSIC_FADE_SECONDS);
+    filters.push(
+      `[${labels.music}]atrim=duration=${duration},asetpts=PTS-STARTPTS,volume=${musicBedVolume(audio)},` +
+        `afade=t=out:st=${fadeStart}:d=${Math.min(MUSIC_FADE_SECONDS, duration)}[bed]`
+    );
+    sources.push('bed');
+  }
+
+  let mix: string;
+  if (sources.length === 0) {
+    filters.push(`anullsrc=r=${SAMPLE_RATE}:cl=stereo,atrim=duration=${duration}[silence]`);
+    mix = 'silence';
+  } else if (sources.length === 1) {
+    mix = sources[0];
+  } else {
+    // amix halves each input, so the original keeps its level once the result is doubled
+    filters.push(
+      `${sources.map((source) => `[${source}]`).join('')}amix=inputs=2:duration=longest:dropout_transition=0,volume=2[mix]`
+    );
+    mix = 'mix';
+  }
+
+  // loudnorm resamples internally, so the rate is set again afterwards
+  const normalize = audio.normalize ? `loudnorm=I=${audio.targetLoudness}:TP=-1.5:LRA=11,` : '';
+  filters.push(
+    `[${mix}]${normalize}aresample=${SAMPLE_RATE},aformat=sample_fmts=fltp:channel_layouts=stereo,` +
+      `atrim=duration=${duration}[${labels.output}]`
+  );
+
+  return filters;
+}
@@ -0,0 +1,147 @@
+/**
+ * Branded clip versions: a generated end card and bumper videos joined around the clip
+ */
+
+import { writeFile } from 'node:fs/promises';
+import ffmpeg from 'fluent-ffmpeg';
+import type { MediaDimensions } from '@ugc/shared';
+import { buildEndCardSubtitles, EndCardColors, EndCardText } from './ass.js';
+import { assFilter, runFfmpeg } from './ffmpeg.js';
+
+// Every segment is conformed to this before joining
+const FRAME_RATE = 30;
+const SAMPLE_RATE = 48000;
+
+const ENCODE_OPTIONS = [
+  '-c:v libx264',
+  '-preset veryfast',
+  '-crf 23',
+  '-pix_fmt yuv420p',
+  '-c:a aac',
+  '-b:a 128k',
+  '-movflags +faststart',
+];
+
+// ffmpeg colors are written 0xRRGGBB
+function ffmpegColor(hex: string): string {
+  const value = hex.replace('#', '');
+  return `0x${value.length === 3 ? value.replace(/./g, (c) => c + c) : value}`;
+}
+
+export interface RenderEndCardOptions {
+  output: string;
+  subtitles: string; // Path the card's text is written to
+  frame: MediaDimensions;
+  duration: number;
+  text: EndCardText;
+  colors: EndCardColors;
+  logoPath?: string;
+  productImagePath?: string;
+}
+
+/**
+ * Render an end card: the workspace logo at the top, the product image in the middle,
+ * then the product title, price and CTA, over a solid background with silent audio
+ */
+export async function renderEndCard(options: RenderEndCardOptions): Promise<void> {
+  const { frame, duration } = options;
+  const subtitles = buildEndCardSubtitles(options.text, options.colors, frame, duration);
+  await writeFile(options.subtitles, subtitles, 'utf8');
+
+  const background = ffmpegColor(options.colors.backgroundColor);
+  const command = ffmpeg()
+    .input(`color=c=${background}:s=${frame.width}x${frame.height}:r=${FRAME_RATE}:d=${duration}`)
+    .inputFormat('lavfi')
+    .input(`anullsrc=r=${SAMPLE_RATE}:cl=stereo`)
+    .inputFormat('lavfi');
+
+  const filters: string[] = [];
+  let base = '0:v';
+  let nextInput = 2;
+
+  // Images are single frames; overlay keeps showing them until the card ends
+  const place = (path: string, label: string, maxWidth: number, maxHeight: number, y: string) => {
+    command.input(path);
+    filters.push(
+      `[${nextInput}:v]scale=${maxWidth}:${maxHeight}:force_original_aspect_ratio=decrease,format=rgba[${label}]`,
+      `[${base}][${label}]overlay=x=(main_w-overlay_w)/2:y=${y}:format=auto[with-${label}]`
+    );
+    base = `with-${label}`;
+    nextInput += 1;
+  };
+
+  if (options.logoPath) {
+    place(
+      options.logoPath,
+      'logo',
+      Math.round(frame.width * 0.3),
+      Math.round(frame.height * 0.1),
+      `${Math.round(frame.height * 0.05)}`
+    );
+  }
+  if (options.productImagePath) {
+    place(
+      options.productImagePath,
+      'product',
+      Math.round(frame.width * 0.6),
+      Math.round(frame.height * 0.36),
+      `${Math.round(frame.height * 0.4)}-overlay_h/2`
+    );
+  }
+
+  filters.push(`[${base}]${assFilter(options.subtitles)}[v]`);
+
+  command
+    .complexFilter(filters)
+    .outputOptions(['-map [v]', '-map 1:a', `-t ${duration}`, ...ENCODE_OPTIONS])
+    .output(options.output);
+
+  await runFfmpeg(command, { duration });
+}
+
+export interface BrandedSegment {
+  path: string;
+  duration: number;
+  hasAudio: boolean;
+}
+
+/**
+ * Join segments into one MP4 at the given frame size
+ * Each segment is scaled to fit and letterboxed, and segments without audio get silence
+ */
+export async function joinSegments(options: {
+  segments: BrandedSegment[];
+  output: string;
+  frame: MediaDimensions;
+  onProgress?: (fraction: number) => void;
+}): Promise<number> {
+  const { width, height } = options.frame;
+  const command = ffmpeg();
+  const filters: string[] = [];
+  const pairs: string[] = [];
+
+  options.segments.forEach((segment, index) => {
+    command.input(segment.path);
+    filters.push(
+      `[${index}:v]scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+        `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=${FRAME_RATE},format=yuv420p[v${index}]`,
+      segment.hasAudio
+        ? `[${index}:a]aresample=${SAMPLE_RATE},aformat=sample_fmts=fltp:channel_layouts=stereo[a${index}]`
+        : `anullsrc=r=${SAMPLE_RATE}:cl=stereo,atrim=duration=${segment.duration},aformat=sample_fmts=fltp[a${index}]`
+    );
+    pairs.push(`[v${index}][a${index}]`);
+  });
+
+  filters.push(`${pairs.join('')}concat=n=${options.segments.length}:v=1:a=1[v][a]`);
+
+  const duration = options.segments.reduce((total, segment) => total + segment.duration, 0);
+
+  command
+    .complexFilter(filters)
+    .outputOptions(['-map [v]', '-map [a]', ...ENCODE_OPTIONS])
+    .output(options.output);
+
+  await runFfmpeg(command, { duration, onProgress: options.onProgress });
+
+  return duration;
+}
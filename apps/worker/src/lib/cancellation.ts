@@ -0,0 +1,89 @@
+/**
+ * Cancelling running jobs
+ * The web app publishes on JOB_CANCELLATION_CHANNEL; every job wrapped with `withCancellation`
+ * gets an AbortSignal that runFfmpeg picks up, so in-flight ffmpeg processes are killed
+ * without threading the signal through every helper
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { Job } from 'bullmq';
+import type Redis from 'ioredis';
+import { JOB_CANCELLATION_CHANNEL, getRedisConnection } from '@ugc/queue';
+import type { JobCancellationMessage, QueueName } from '@ugc/queue';
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job was cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+const controllers = new Map<string, AbortController>();
+const signalStorage = new AsyncLocalStorage<AbortSignal>();
+let subscriber: Redis | null = null;
+
+function controllerKey(queue: string, jobId: string): string {
+  return `${queue}:${jobId}`;
+}
+
+/**
+ * The cancellation signal of the job being processed, if it is cancellable
+ */
+export function currentCancellationSignal(): AbortSignal | undefined {
+  return signalStorage.getStore();
+}
+
+/**
+ * Throw if the current job has been cancelled; call between steps that do not run ffmpeg
+ */
+export function throwIfCancelled(): void {
+  if (currentCancellationSignal()?.aborted) {
+    throw new JobCancelledError();
+  }
+}
+
+/**
+ * Wrap a processor so its job can be cancelled while it runs
+ */
+export function withCancellation<T, R>(queue: QueueName, processor: (job: Job<T>) => Promise<R>) {
+  return async (job: Job<T>): Promise<R> => {
+    const key = controllerKey(queue, job.id!);
+    const controller = new AbortController();
+    controllers.set(key, controller);
+
+    try {
+      return await signalStorage.run(controller.signal, () => processor(job));
+    } finally {
+      controllers.delete(key);
+    }
+  };
+}
+
+/**
+ * Start listening for cancellations, on a dedicated connection since subscribers cannot run commands
+ */
+export async function startCancellationListener(): Promise<void> {
+  if (subscriber) return;
+
+  subscriber = getRedisConnection().duplicate();
+  subscriber.on('message', (_channel: string, payload: string) => {
+    try {
+      const message = JSON.parse(payload) as JobCancellationMessage;
+      const controller = controllers.get(controllerKey(message.queue, message.jobId));
+      if (controller) {
+        console.log(`Cancelling job ${message.jobId} on ${message.queue}`);
+        controller.abort();
+      }
+    } catch (error) {
+      console.error('Invalid job cancellation message:', error);
+    }
+  });
+
+  await subscriber.subscribe(JOB_CANCELLATION_CHANNEL);
+}
+
+export async function stopCancellationListener(): Promise<void> {
+  if (!subscriber) return;
+  await subscriber.quit();
+  subscriber = null;
+}
@@ -0,0 +1,42 @@
+/**
+ * Clip metadata updates
+ * Transcode, branding and caption jobs run side by side on the same clip and each owns its own
+ * metadata keys, so a write merges into the metadata as it is at that moment, under a row lock,
+ * rather than writing back a copy read when the job started
+ */
+
+import { prisma, Prisma } from '@ugc/database';
+
+export interface ClipMetadataChanges {
+  set?: Prisma.JsonObject; // Keys to add or replace; values must be plain JSON
+  remove?: string[];
+  data?: Omit<Prisma.RepurposedClipUpdateInput, 'metadata'>; // Other clip fields to write with them
+}
+
+/**
+ * Merge changes into a clip's metadata
+ * Returns the metadata from just before the update, or null when the clip no longer exists
+ */
+export async function updateClipMetadata(
+  clipId: string,
+  changes: ClipMetadataChanges
+): Promise<Prisma.JsonObject | null> {
+  return prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT "id" FROM "repurposed_clips" WHERE "id" = ${clipId} FOR UPDATE`;
+    const clip = await tx.repurposedClip.findUnique({
+      where: { id: clipId },
+      select: { metadata: true },
+    });
+    if (!clip) return null;
+
+    const previous = (clip.metadata as Prisma.JsonObject | null) ?? {};
+    const metadata: Prisma.JsonObject = { ...previous, ...changes.set };
+    for (const key of changes.remove ?? []) delete metadata[key];
+
+    await tx.repurposedClip.update({
+      where: { id: clipId },
+      data: { ...changes.data, metadata },
+    });
+    return previous;
+  });
+}
@@ -0,0 +1,93 @@
+/**
+ * File-backed connector for tests and local development
+ * Serves the posts in FAKE_CONNECTOR_FILE (default fixtures/fake-connector.json), re-read on every
+ * search so the file can be edited while the worker runs. Hashtags and mentions come from captions.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { extractHashtags, extractMentions } from '@ugc/shared';
+import type {
+  ConnectorPage,
+  ConnectorPlatform,
+  ConnectorPost,
+  PlatformConnector,
+  SearchQuery,
+} from './index.js';
+
+// Small pages, so paging is exercised with a handful of fixtures
+const PAGE_SIZE = 3;
+
+interface FakePost {
+  platform: ConnectorPlatform;
+  postId: string;
+  postUrl: string;
+  creatorHandle?: string;
+  creatorName?: string;
+  caption?: string;
+  postedAt?: string;
+  thumbnailUrl?: string;
+  mediaType?: 'VIDEO' | 'IMAGE';
+  mediaUrl?: string;
+  metrics?: ConnectorPost['metrics'];
+}
+
+export class FakeConnector implements PlatformConnector {
+  readonly usesAccountCredentials = false;
+
+  constructor(readonly platform: ConnectorPlatform) {}
+
+  private async posts(): Promise<ConnectorPost[]> {
+    const file =
+      process.env.FAKE_CONNECTOR_FILE || join(__dirname, '../../../fixtures/fake-connector.json');
+    const { posts } = JSON.parse(await readFile(file, 'utf8')) as { posts: FakePost[] };
+
+    return posts
+      .filter((post) => post.platform === this.platform)
+      .map((post) => ({
+        postId: post.postId,
+        postUrl: post.postUrl,
+        creatorHandle: post.creatorHandle,
+        creatorName: post.creatorName,
+        creatorProfileUrl: undefined,
+        caption: post.caption,
+        hashtags: extractHashtags(post.caption ?? ''),
+        mentions: extractMentions(post.caption ?? ''),
+        postedAt: post.postedAt ? new Date(post.postedAt) : undefined,
+        thumbnailUrl: post.thumbnailUrl,
+        mediaType: post.mediaType ?? 'VIDEO',
+        mediaUrl: post.mediaUrl,
+        metrics: post.metrics,
+        raw: post,
+      }))
+      .sort((a, b) => (b.postedAt?.getTime() ?? 0) - (a.postedAt?.getTime() ?? 0));
+  }
+
+  async search(query: SearchQuery, cursor?: string): Promise<ConnectorPage> {
+    const value = query.value.toLowerCase();
+    const matches = (await this.posts()).filter(
+      (post) =>
+        (query.type === 'hashtag'
+          ? post.hashtags.includes(value)
+          : query.type === 'mention'
+            ? post.mentions.includes(value)
+            : post.creatorHandle?.toLowerCase() === value) &&
+        (!query.since || !post.postedAt || post.postedAt > query.since)
+    );
+
+    const offset = cursor ? Number(cursor) : 0;
+    const next = offset + PAGE_SIZE;
+    return {
+      posts: matches.slice(offset, next),
+      nextCursor: next < matches.length ? String(next) : undefined,
+    };
+  }
+
+  async getPost(postId: string): Promise<ConnectorPost | null> {
+    return (await this.posts()).find((post) => post.postId === postId) ?? null;
+  }
+
+  async getMediaUrl(postId: string): Promise<string | null> {
+    return (await this.getPost(postId))?.mediaUrl ?? null;
+  }
+}
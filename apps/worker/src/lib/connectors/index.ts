@@ -0,0 +1,140 @@
+/**
+ * Platform connectors - find UGC on social platforms through their official APIs
+ * UGC_CONNECTOR selects the backend: 'live' (default) calls the platform APIs, 'fake' serves
+ * posts from FAKE_CONNECTOR_FILE for local development and tests. Searches run with the app's
+ * credentials from the environment, or with a connected account's OAuth token where the
+ * platform supports it.
+ */
+
+import { FakeConnector } from './fake.js';
+import { InstagramConnector } from './instagram.js';
+import { TikTokConnector } from './tiktok.js';
+import { YouTubeConnector } from './youtube.js';
+
+export type ConnectorPlatform = 'TIKTOK' | 'INSTAGRAM' | 'YOUTUBE';
+
+export interface SearchQuery {
+  type: 'hashtag' | 'mention' | 'handle';
+  value: string; // Without the leading '#' or '@'
+  // Only posts published after this are wanted; connectors narrow the search where the API allows
+  since?: Date;
+}
+
+export interface ConnectorPost {
+  postId: string; // The platform's id
+  postUrl: string;
+  creatorHandle?: string; // Some search endpoints leave it out; fetch the post to fill it in
+  creatorName?: string;
+  creatorProfileUrl?: string;
+  caption?: string;
+  hashtags: string[];
+  mentions: string[];
+  postedAt?: Date;
+  thumbnailUrl?: string;
+  mediaType: 'VIDEO' | 'IMAGE';
+  mediaUrl?: string; // Direct link to the media file, when the search result includes one
+  metrics?: { views?: number; likes?: number; comments?: number; shares?: number };
+  raw: unknown; // Response item the post was built from
+}
+
+export interface ConnectorPage {
+  posts: ConnectorPost[];
+  nextCursor?: string; // Pass back to search for the next page; absent on the last page
+}
+
+// OAuth token of a connected social account
+export interface ConnectorCredentials {
+  accessToken: string;
+  platformUserId?: string;
+}
+
+export interface PlatformConnector {
+  readonly platform: ConnectorPlatform;
+  // Whether requests are made with the account's OAuth token rather than the app's credentials,
+  // so an auth error means the account has to be connected again
+  readonly usesAccountCredentials: boolean;
+  search(query: SearchQuery, cursor?: string): Promise<ConnectorPage>;
+  getPost(postId: string): Promise<ConnectorPost | null>;
+  // Direct link to the post's media file, or null when the platform does not expose one
+  getMediaUrl(postId: string): Promise<string | null>;
+}
+
+/**
+ * A platform API refused or failed a request
+ * Auth errors (401/403, also used for missing credentials) mean the credentials need to be
+ * renewed; retrying will not help
+ */
+export class ConnectorError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'ConnectorError';
+  }
+
+  get isAuthError(): boolean {
+    return this.status === 401 || this.status === 403;
+  }
+}
+
+/**
+ * Fetch JSON from a platform API, turning error responses into a ConnectorError
+ */
+export async function fetchJson<T>(platform: string, url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    signal: init?.signal ?? AbortSignal.timeout(30_000),
+  });
+  const body = await response.text();
+
+  if (!response.ok) {
+    throw new ConnectorError(
+      `${platform} API returned ${response.status}: ${body.slice(0, 500)}`,
+      response.status
+    );
+  }
+
+  return JSON.parse(body) as T;
+}
+
+const connectors = new Map<ConnectorPlatform, PlatformConnector>();
+
+function createConnector(
+  platform: ConnectorPlatform,
+  credentials?: ConnectorCredentials
+): PlatformConnector {
+  const name = process.env.UGC_CONNECTOR || 'live';
+  switch (name) {
+    case 'live':
+      // TikTok's Research API only accepts the app's own client credentials
+      return platform === 'TIKTOK'
+        ? new TikTokConnector()
+        : platform === 'INSTAGRAM'
+          ? new InstagramConnector(credentials)
+          : new YouTubeConnector(credentials);
+    case 'fake':
+      return new FakeConnector(platform);
+    default:
+      throw new Error(`Unknown UGC connector: ${name}`);
+  }
+}
+
+/**
+ * Connector for a platform; with credentials it searches as that account and is not shared
+ */
+export function getPlatformConnector(
+  platform: ConnectorPlatform,
+  credentials?: ConnectorCredentials
+): PlatformConnector {
+  if (credentials) {
+    return createConnector(platform, credentials);
+  }
+
+  let connector = connectors.get(platform);
+  if (!connector) {
+    connector = createConnector(platform);
+    connectors.set(platform, connector);
+  }
+  return connector;
+}
@@ -0,0 +1,164 @@
+/**
+ * Instagram connector - Instagram Graph API
+ * Searches on behalf of the brand's Instagram business account: a connected account's OAuth
+ * token, or INSTAGRAM_USER_ID with a long-lived INSTAGRAM_ACCESS_TOKEN. Hashtag results do not include the creator's username,
+ * and other accounts' media cannot be fetched on its own, so those posts come without a handle.
+ */
+
+import { extractHashtags, extractMentions } from '@ugc/shared';
+import { ConnectorError, fetchJson } from './index.js';
+import type {
+  ConnectorCredentials,
+  ConnectorPage,
+  ConnectorPost,
+  PlatformConnector,
+  SearchQuery,
+} from './index.js';
+
+const GRAPH_URL = 'https://graph.facebook.com/v19.0';
+const MEDIA_FIELDS =
+  'id,caption,media_type,media_url,permalink,thumbnail_url,timestamp,like_count,comments_count';
+const PAGE_SIZE = 50;
+
+interface InstagramMedia {
+  id: string;
+  caption?: string;
+  media_type?: 'IMAGE' | 'VIDEO' | 'CAROUSEL_ALBUM';
+  media_url?: string;
+  permalink: string;
+  thumbnail_url?: string;
+  timestamp?: string;
+  like_count?: number;
+  comments_count?: number;
+  username?: string;
+}
+
+interface InstagramPage {
+  data: InstagramMedia[];
+  paging?: { cursors?: { after?: string }; next?: string };
+}
+
+export class InstagramConnector implements PlatformConnector {
+  readonly platform = 'INSTAGRAM' as const;
+  // Hashtag ids never change, and looking them up counts against a weekly limit
+  private hashtagIds = new Map<string, string>();
+
+  constructor(private readonly account?: ConnectorCredentials) {}
+
+  // Accounts whose Instagram user is not known yet search with the app's token
+  get usesAccountCredentials(): boolean {
+    return Boolean(this.account?.platformUserId);
+  }
+
+  private credentials() {
+    if (this.account?.platformUserId) {
+      return { accessToken: this.account.accessToken, userId: this.account.platformUserId };
+    }
+
+    const accessToken = process.env.INSTAGRAM_ACCESS_TOKEN;
+    const userId = process.env.INSTAGRAM_USER_ID;
+    if (!accessToken || !userId) {
+      throw new ConnectorError('INSTAGRAM_ACCESS_TOKEN and INSTAGRAM_USER_ID are not set', 401);
+    }
+    return { accessToken, userId };
+  }
+
+  private get<T>(path: string, params: Record<string, string | undefined>): Promise<T> {
+    const { accessToken } = this.credentials();
+    const search = new URLSearchParams({ access_token: accessToken });
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) search.set(key, value);
+    }
+    return fetchJson<T>('Instagram', `${GRAPH_URL}/${path}?${search}`);
+  }
+
+  private toPost(media: InstagramMedia, username?: string): ConnectorPost {
+    const handle = media.username ?? username;
+    const isVideo = media.media_type === 'VIDEO';
+    return {
+      postId: media.id,
+      postUrl: media.permalink,
+      creatorHandle: handle,
+      creatorProfileUrl: handle ? `https://www.instagram.com/${handle}/` : undefined,
+      caption: media.caption,
+      hashtags: extractHashtags(media.caption ?? ''),
+      mentions: extractMentions(media.caption ?? ''),
+      postedAt: media.timestamp ? new Date(media.timestamp) : undefined,
+      thumbnailUrl: isVideo ? media.thumbnail_url : media.media_url,
+      mediaType: isVideo ? 'VIDEO' : 'IMAGE',
+      mediaUrl: media.media_url,
+      metrics: { likes: media.like_count, comments: media.comments_count },
+      raw: media,
+    };
+  }
+
+  private page(page: InstagramPage, username?: string): ConnectorPage {
+    return {
+      posts: page.data.map((media) => this.toPost(media, username)),
+      nextCursor: page.paging?.next ? page.paging.cursors?.after : undefined,
+    };
+  }
+
+  private async hashtagId(hashtag: string): Promise<string | null> {
+    let id = this.hashtagIds.get(hashtag);
+    if (!id) {
+      const { userId } = this.credentials();
+      const result = await this.get<{ data: { id: string }[] }>('ig_hashtag_search', {
+        user_id: userId,
+        q: hashtag,
+      });
+      id = result.data[0]?.id;
+      if (!id) return null;
+      this.hashtagIds.set(hashtag, id);
+    }
+    return id;
+  }
+
+  async search(query: SearchQuery, cursor?: string): Promise<ConnectorPage> {
+    const { userId } = this.credentials();
+
+    if (query.type === 'hashtag') {
+      const hashtagId = await this.hashtagId(query.value);
+      if (!hashtagId) return { posts: [] };
+      const page = await this.get<InstagramPage>(`${hashtagId}/recent_media`, {
+        user_id: userId,
+        fields: MEDIA_FIELDS,
+        limit: String(PAGE_SIZE),
+        after: cursor,
+      });
+      return this.page(page);
+    }
+
+    if (query.type === 'mention') {
+      // Media the brand's account is tagged in; only the brand's own account can be searched
+      const page = await this.get<InstagramPage>(`${userId}/tags`, {
+        fields: `${MEDIA_FIELDS},username`,
+        limit: String(PAGE_SIZE),
+        after: cursor,
+      });
+      return this.page(page);
+    }
+
+    const after = cursor ? `.after(${cursor})` : '';
+    const result = await this.get<{ business_discovery?: { media?: InstagramPage } }>(userId, {
+      fields: `business_discovery.username(${query.value}){media${after}.limit(${PAGE_SIZE}){${MEDIA_FIELDS}}}`,
+    });
+    return this.page(result.business_discovery?.media ?? { data: [] }, query.value);
+  }
+
+  async getPost(postId: string): Promise<ConnectorPost | null> {
+    try {
+      const media = await this.get<InstagramMedia>(postId, { fields: `${MEDIA_FIELDS},username` });
+      return this.toPost(media);
+    } catch (error) {
+      // Media of other accounts is not readable by id
+      if (error instanceof ConnectorError && error.status === 400) return null;
+      throw error;
+    }
+  }
+
+  async getMediaUrl(postId: string): Promise<string | null> {
+    const post = await this.getPost(postId);
+    return post?.mediaUrl ?? null;
+  }
+}
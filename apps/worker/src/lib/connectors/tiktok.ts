@@ -0,0 +1,173 @@
+/**
+ * TikTok connector - Research API
+ * Authenticates with the app's client credentials (TIKTOK_CLIENT_KEY / TIKTOK_CLIENT_SECRET).
+ * The API only searches 30-day windows and does not expose video files, so posts are found
+ * from the last TIKTOK_SEARCH_DAYS days and their media has to be added by hand.
+ */
+
+import { extractMentions } from '@ugc/shared';
+import { ConnectorError, fetchJson } from './index.js';
+import type { ConnectorPage, ConnectorPost, PlatformConnector, SearchQuery } from './index.js';
+
+const API_URL = 'https://open.tiktokapis.com/v2';
+const FIELDS =
+  'id,video_description,create_time,username,hashtag_names,view_count,like_count,comment_count,share_count';
+const PAGE_SIZE = 100;
+const MAX_SEARCH_DAYS = 30;
+
+interface TikTokVideo {
+  id: number | string;
+  video_description?: string;
+  create_time?: number; // Unix seconds
+  username?: string;
+  hashtag_names?: string[];
+  view_count?: number;
+  like_count?: number;
+  comment_count?: number;
+  share_count?: number;
+}
+
+interface TikTokQueryResponse {
+  data?: { videos?: TikTokVideo[]; cursor?: number; has_more?: boolean; search_id?: string };
+  error?: { code: string; message: string };
+}
+
+// The API's date filter, YYYYMMDD in UTC
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+export class TikTokConnector implements PlatformConnector {
+  readonly platform = 'TIKTOK' as const;
+  readonly usesAccountCredentials = false;
+  private token: { value: string; expiresAt: number } | null = null;
+
+  private async accessToken(): Promise<string> {
+    if (this.token && this.token.expiresAt > Date.now() + 60_000) {
+      return this.token.value;
+    }
+
+    const clientKey = process.env.TIKTOK_CLIENT_KEY;
+    const clientSecret = process.env.TIKTOK_CLIENT_SECRET;
+    if (!clientKey || !clientSecret) {
+      throw new ConnectorError('TIKTOK_CLIENT_KEY and TIKTOK_CLIENT_SECRET are not set', 401);
+    }
+
+    const response = await fetchJson<{ access_token: string; expires_in: number }>(
+      'TikTok',
+      `${API_URL}/oauth/token/`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          client_key: clientKey,
+          client_secret: clientSecret,
+          grant_type: 'client_credentials',
+        }),
+      }
+    );
+
+    this.token = {
+      value: response.access_token,
+      expiresAt: Date.now() + response.expires_in * 1000,
+    };
+    return this.token.value;
+  }
+
+  private async query(
+    condition: { field_name: string; field_values: string[] },
+    page: { cursor?: number; searchId?: string } = {},
+    since?: Date
+  ): Promise<NonNullable<TikTokQueryResponse['data']>> {
+    const days = Math.min(
+      MAX_SEARCH_DAYS,
+      Number(process.env.TIKTOK_SEARCH_DAYS) || MAX_SEARCH_DAYS
+    );
+    const end = new Date();
+    const earliest = new Date(end.getTime() - (days - 1) * 24 * 60 * 60 * 1000);
+    const start = since && since > earliest ? since : earliest;
+
+    const response = await fetchJson<TikTokQueryResponse>(
+      'TikTok',
+      `${API_URL}/research/video/query/?fields=${FIELDS}`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${await this.accessToken()}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          query: { and: [{ operation: 'IN', ...condition }] },
+          start_date: formatDate(start),
+          end_date: formatDate(end),
+          max_count: PAGE_SIZE,
+          ...(page.cursor !== undefined && { cursor: page.cursor }),
+          ...(page.searchId && { search_id: page.searchId }),
+        }),
+      }
+    );
+
+    if (response.error && response.error.code !== 'ok') {
+      throw new ConnectorError(
+        `TikTok API error ${response.error.code}: ${response.error.message}`
+      );
+    }
+    return response.data ?? {};
+  }
+
+  private toPost(video: TikTokVideo): ConnectorPost {
+    const id = String(video.id);
+    return {
+      postId: id,
+      postUrl: `https://www.tiktok.com/@${video.username}/video/${id}`,
+      creatorHandle: video.username,
+      creatorProfileUrl: video.username ? `https://www.tiktok.com/@${video.username}` : undefined,
+      caption: video.video_description,
+      hashtags: (video.hashtag_names ?? []).map((tag) => tag.toLowerCase()),
+      mentions: extractMentions(video.video_description ?? ''),
+      postedAt: video.create_time ? new Date(video.create_time * 1000) : undefined,
+      mediaType: 'VIDEO',
+      metrics: {
+        views: video.view_count,
+        likes: video.like_count,
+        comments: video.comment_count,
+        shares: video.share_count,
+      },
+      raw: video,
+    };
+  }
+
+  async search(query: SearchQuery, cursor?: string): Promise<ConnectorPage> {
+    // Mentions have no field of their own, so they are matched as keywords in the description
+    const condition =
+      query.type === 'hashtag'
+        ? { field_name: 'hashtag_name', field_values: [query.value] }
+        : query.type === 'handle'
+          ? { field_name: 'username', field_values: [query.value] }
+          : { field_name: 'keyword', field_values: [`@${query.value}`] };
+
+    // Later pages need the search id of the first one, so both travel in the cursor
+    const [searchId, offset] = cursor ? cursor.split(':') : [];
+    const data = await this.query(
+      condition,
+      { searchId, cursor: offset ? Number(offset) : undefined },
+      query.since
+    );
+
+    return {
+      posts: (data.videos ?? []).map((video) => this.toPost(video)),
+      nextCursor:
+        data.has_more && data.search_id ? `${data.search_id}:${data.cursor ?? 0}` : undefined,
+    };
+  }
+
+  async getPost(postId: string): Promise<ConnectorPost | null> {
+    const data = await this.query({ field_name: 'video_id', field_values: [postId] });
+    const video = data.videos?.[0];
+    return video ? this.toPost(video) : null;
+  }
+
+  async getMediaUrl(): Promise<string | null> {
+    return null;
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * YouTube connector - YouTube Data API v3
+ * Searches public Shorts with YOUTUBE_API_KEY, or a connected channel's OAuth token. Search results are only snippets, so every page
+ * is completed with the videos' statistics and their channels' handles. The API does not expose
+ * video files, so media has to be added by hand.
+ */
+
+import { extractHashtags, extractMentions } from '@ugc/shared';
+import { ConnectorError, fetchJson } from './index.js';
+import type {
+  ConnectorCredentials,
+  ConnectorPage,
+  ConnectorPost,
+  PlatformConnector,
+  SearchQuery,
+} from './index.js';
+
+const API_URL = 'https://www.googleapis.com/youtube/v3';
+const PAGE_SIZE = 50;
+
+interface YouTubeVideo {
+  id: string;
+  snippet: {
+    channelId: string;
+    channelTitle?: string;
+    title?: string;
+    description?: string;
+    publishedAt?: string;
+    tags?: string[];
+    thumbnails?: Record<string, { url: string }>;
+  };
+  statistics?: { viewCount?: string; likeCount?: string; commentCount?: string };
+}
+
+interface YouTubeChannel {
+  id: string;
+  snippet?: { customUrl?: string };
+}
+
+export class YouTubeConnector implements PlatformConnector {
+  readonly platform = 'YOUTUBE' as const;
+  private channelIds = new Map<string, string>();
+
+  constructor(private readonly account?: ConnectorCredentials) {}
+
+  get usesAccountCredentials(): boolean {
+    return this.account !== undefined;
+  }
+
+  private get<T>(path: string, params: Record<string, string | undefined>): Promise<T> {
+    const search = new URLSearchParams();
+    let init: RequestInit | undefined;
+    if (this.account) {
+      init = { headers: { Authorization: `Bearer ${this.account.accessToken}` } };
+    } else {
+      const key = process.env.YOUTUBE_API_KEY;
+      if (!key) {
+        throw new ConnectorError('YOUTUBE_API_KEY is not set', 401);
+      }
+      search.set('key', key);
+    }
+    for (const [name, value] of Object.entries(params)) {
+      if (value !== undefined) search.set(name, value);
+    }
+    return fetchJson<T>('YouTube', `${API_URL}/${path}?${search}`, init);
+  }
+
+  private async channelId(handle: string): Promise<string | null> {
+    let id = this.channelIds.get(handle);
+    if (!id) {
+      const result = await this.get<{ items?: YouTubeChannel[] }>('channels', {
+        part: 'id',
+        forHandle: `@${handle}`,
+      });
+      id = result.items?.[0]?.id;
+      if (!id) return null;
+      this.channelIds.set(handle, id);
+    }
+    return id;
+  }
+
+  // Full details of a page of videos, in the order given
+  private async videos(ids: string[]): Promise<ConnectorPost[]> {
+    if (ids.length === 0) return [];
+
+    const { items: videos = [] } = await this.get<{ items?: YouTubeVideo[] }>('videos', {
+      part: 'snippet,statistics',
+      id: ids.join(','),
+    });
+    const channelIds = Array.from(new Set(videos.map((video) => video.snippet.channelId)));
+    const { items: channels = [] } = await this.get<{ items?: YouTubeChannel[] }>('channels', {
+      part: 'snippet',
+      id: channelIds.join(','),
+    });
+    const handles = new Map(
+      channels.map((channel) => [channel.id, channel.snippet?.customUrl?.replace(/^@/, '')])
+    );
+
+    return ids.flatMap((id) => {
+      const video = videos.find((candidate) => candidate.id === id);
+      if (!video) return [];
+
+      const { snippet, statistics } = video;
+      const handle = handles.get(snippet.channelId);
+      const text = `${snippet.title ?? ''}\n${snippet.description ?? ''}`;
+      const count = (value?: string) => (value === undefined ? undefined : Number(value));
+
+      return [
+        {
+          postId: id,
+          postUrl: `https://www.youtube.com/shorts/${id}`,
+          creatorHandle: handle,
+          creatorName: snippet.channelTitle,
+          creatorProfileUrl: handle ? `https://www.youtube.com/@${handle}` : undefined,
+          caption: snippet.description
+            ? `${snippet.title}\n\n${snippet.description}`
+            : snippet.title,
+          hashtags: Array.from(new Set(extractHashtags(text))),
+          mentions: Array.from(new Set(extractMentions(text))),
+          postedAt: snippet.publishedAt ? new Date(snippet.publishedAt) : undefined,
+          thumbnailUrl: (snippet.thumbnails?.high ?? snippet.thumbnails?.default)?.url,
+          mediaType: 'VIDEO' as const,
+          metrics: {
+            views: count(statistics?.viewCount),
+            likes: count(statistics?.likeCount),
+            comments: count(statistics?.commentCount),
+          },
+          raw: video,
+        },
+      ];
+    });
+  }
+
+  async search(query: SearchQuery, cursor?: string): Promise<ConnectorPage> {
+    let channelId: string | undefined;
+    if (query.type === 'handle') {
+      const id = await this.channelId(query.value);
+      if (!id) return { posts: [] };
+      channelId = id;
+    }
+
+    const result = await this.get<{
+      items?: { id: { videoId: string } }[];
+      nextPageToken?: string;
+    }>('search', {
+      part: 'id',
+      type: 'video',
+      videoDuration: 'short',
+      order: 'date',
+      maxResults: String(PAGE_SIZE),
+      q:
+        query.type === 'hashtag'
+          ? `#${query.value}`
+          : query.type === 'mention'
+            ? `@${query.value}`
+            : undefined,
+      channelId,
+      publishedAfter: query.since?.toISOString(),
+      pageToken: cursor,
+    });
+
+    return {
+      posts: await this.videos((result.items ?? []).map((item) => item.id.videoId)),
+      nextCursor: result.nextPageToken,
+    };
+  }
+
+  async getPost(postId: string): Promise<ConnectorPost | null> {
+    const [post] = await this.videos([postId]);
+    return post ?? null;
+  }
+
+  async getMediaUrl(): Promise<string | null> {
+    return null;
+  }
+}
@@ -0,0 +1,378 @@
+/**
+ * FFmpeg helpers for probing and rendering video
+ * Uses the ffmpeg/ffprobe binaries on PATH (or FFMPEG_PATH / FFPROBE_PATH)
+ */
+
+import ffmpeg, { FfmpegCommand, FfprobeData } from 'fluent-ffmpeg';
+import type { ClipFormat } from '@ugc/queue';
+import type { MediaDimensions, VideoMetadata } from '@ugc/shared';
+import { currentCancellationSignal, JobCancelledError } from './cancellation.js';
+import { audioFilters, ClipAudioOptions } from './audio.js';
+import { watermarkFilters, WatermarkOverlay } from './overlays.js';
+
+// Output frame size for each clip format
+export const FORMAT_DIMENSIONS: Record<ClipFormat, MediaDimensions> = {
+  VERTICAL_9_16: { width: 1080, height: 1920 },
+  SQUARE_1_1: { width: 1080, height: 1080 },
+  HORIZONTAL_16_9: { width: 1920, height: 1080 },
+};
+
+export interface ProbeResult extends VideoMetadata {
+  hasAudio: boolean;
+}
+
+/**
+ * Read duration, dimensions and codec details from a local file
+ */
+export function probeVideo(filePath: string): Promise<ProbeResult> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(filePath, (err: Error | null, data: FfprobeData) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+
+      const video = data.streams.find((stream) => stream.codec_type === 'video');
+      if (!video) {
+        reject(new Error('No video stream found'));
+        return;
+      }
+
+      // Phones record portrait video as landscape frames with a rotation tag
+      const rotation = Math.abs(Number(video.tags?.rotate ?? 0)) % 180;
+      const width = video.width ?? 0;
+      const height = video.height ?? 0;
+      const [num, den] = (video.avg_frame_rate || '0/1').split('/').map(Number);
+
+      resolve({
+        duration: Number(data.format.duration ?? video.duration ?? 0),
+        width: rotation === 90 ? height : width,
+        height: rotation === 90 ? width : height,
+        codec: video.codec_name,
+        bitrate: data.format.bit_rate ? Number(data.format.bit_rate) : undefined,
+        fps: den ? Math.round((num / den) * 100) / 100 : undefined,
+        hasAudio: data.streams.some((stream) => stream.codec_type === 'audio'),
+      });
+    });
+  });
+}
+
+export interface AudioProbeResult {
+  duration: number;
+  codec?: string;
+  bitrate?: number;
+  sampleRate?: number;
+  channels?: number;
+}
+
+/**
+ * Read duration and codec details of an audio-only file such as a music bed
+ */
+export function probeAudio(filePath: string): Promise<AudioProbeResult> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(filePath, (err: Error | null, data: FfprobeData) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+
+      const audio = data.streams.find((stream) => stream.codec_type === 'audio');
+      if (!audio) {
+        reject(new Error('No audio stream found'));
+        return;
+      }
+
+      resolve({
+        duration: Number(data.format.duration ?? audio.duration ?? 0),
+        codec: audio.codec_name,
+        bitrate: data.format.bit_rate ? Number(data.format.bit_rate) : undefined,
+        sampleRate: audio.sample_rate ? Number(audio.sample_rate) : undefined,
+        channels: audio.channels,
+      });
+    });
+  });
+}
+
+/**
+ * Parse an ffmpeg timemark (HH:MM:SS.ms) into seconds
+ */
+export function parseTimemark(timemark: string): number {
+  const [h, m, s] = timemark.split(':').map(Number);
+  return (h || 0) * 3600 + (m || 0) * 60 + (s || 0);
+}
+
+/**
+ * Run a prepared ffmpeg command to completion
+ * `duration` is the expected output length, used to report progress as a 0-1 fraction.
+ * The process is killed if the job it runs for is cancelled.
+ */
+export function runFfmpeg(
+  command: FfmpegCommand,
+  options: {
+    duration?: number;
+    onProgress?: (fraction: number) => void;
+    onStderr?: (line: string) => void;
+  } = {}
+): Promise<void> {
+  const signal = currentCancellationSignal();
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new JobCancelledError());
+      return;
+    }
+
+    let stderrTail = '';
+    const onAbort = () => command.kill('SIGKILL');
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    command
+      .on('progress', (progress: { timemark?: string }) => {
+        if (options.onProgress && options.duration && progress.timemark) {
+          options.onProgress(Math.min(1, parseTimemark(progress.timemark) / options.duration));
+        }
+      })
+      .on('stderr', (line: string) => {
+        options.onStderr?.(line);
+        stderrTail = `${stderrTail}\n${line}`.slice(-2000);
+      })
+      .on('error', (err: Error) => {
+        signal?.removeEventListener('abort', onAbort);
+        if (signal?.aborted) {
+          reject(new JobCancelledError());
+          return;
+        }
+        reject(new Error(`ffmpeg failed: ${err.message}${stderrTail ? `\n${stderrTail}` : ''}`));
+      })
+      .on('end', () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      })
+      .run();
+  });
+}
+
+/**
+ * Compute the largest centered crop of the source that matches the target aspect ratio
+ */
+export function centerCrop(source: MediaDimensions, target: MediaDimensions) {
+  const targetRatio = target.width / target.height;
+  const sourceRatio = source.width / source.height;
+
+  let width = source.width;
+  let height = source.height;
+  if (sourceRatio > targetRatio) {
+    width = Math.round(source.height * targetRatio);
+  } else {
+    height = Math.round(source.width / targetRatio);
+  }
+
+  // libx264 needs even dimensions
+  width -= width % 2;
+  height -= height % 2;
+
+  return {
+    width,
+    height,
+    x: Math.floor((source.width - width) / 2),
+    y: Math.floor((source.height - height) / 2),
+  };
+}
+
+/**
+ * Scale dimensions down so the shorter edge is at most `maxShortEdge`, keeping them even
+ */
+export function fitShortEdge(source: MediaDimensions, maxShortEdge: number): MediaDimensions {
+  const scale = Math.min(1, maxShortEdge / Math.min(source.width, source.height));
+  const even = (value: number) => Math.max(2, Math.round((value * scale) / 2) * 2);
+  return { width: even(source.width), height: even(source.height) };
+}
+
+export interface RenderClipOptions {
+  input: string;
+  output: string;
+  start: number;
+  duration: number;
+  format: ClipFormat;
+  source: MediaDimensions;
+  crop?: string; // Crop filter, defaults to a center crop
+  watermark?: WatermarkOverlay;
+  subtitles?: string; // ASS file drawn on top, such as the creator credit
+  audio?: ClipAudioOptions;
+  onProgress?: (fraction: number) => void;
+}
+
+/**
+ * Cut a segment from the source and reframe it to the target format as H.264/AAC MP4
+ */
+export async function renderClip(options: RenderClipOptions): Promise<MediaDimensions> {
+  const target = FORMAT_DIMENSIONS[options.format];
+  const crop = centerCrop(options.source, target);
+
+  const reframe = [
+    options.crop ?? `crop=${crop.width}:${crop.height}:${crop.x}:${crop.y}`,
+    `scale=${target.width}:${target.height}`,
+    'setsar=1',
+  ].join(',');
+
+  const text = options.subtitles ? assFilter(options.subtitles) : undefined;
+  const command = ffmpeg(options.input).seekInput(options.start).duration(options.duration);
+
+  // Extra inputs (the watermark and the music bed) turn the filters into a graph with labelled outputs
+  const graph: string[] = [];
+  let nextInput = 1;
+
+  if (options.watermark) {
+    command.input(options.watermark.path);
+    graph.push(
+      `[0:v]${reframe}[base]`,
+      ...watermarkFilters(options.watermark, target, {
+        input: `${nextInput}:v`,
+        base: 'base',
+        output: text ? 'marked' : 'v',
+      }),
+      ...(text ? [`[marked]${text}[v]`] : [])
+    );
+    nextInput += 1;
+  }
+
+  if (options.audio) {
+    let music: string | undefined;
+    if (options.audio.musicBedPath) {
+      // Short tracks repeat until the clip ends
+      command.input(options.audio.musicBedPath).inputOptions(['-stream_loop -1']);
+      music = `${nextInput}:a`;
+      nextInput += 1;
+    }
+    graph.push(
+      ...audioFilters(options.audio, {
+        original: options.audio.hasAudio ? '0:a' : undefined,
+        music,
+        duration: options.duration,
+        output: 'a',
+      })
+    );
+  }
+
+  if (graph.length > 0) {
+    if (!options.watermark) {
+      graph.unshift(`[0:v]${text ? `${reframe},${text}` : reframe}[v]`);
+    }
+    command.complexFilter(graph).outputOptions(['-map [v]', options.audio ? '-map [a]' : '-map 0:a:0?']);
+  } else {
+    command.videoFilters(text ? `${reframe},${text}` : reframe).outputOptions(['-map 0:v:0', '-map 0:a:0?']);
+  }
+
+  command
+    .outputOptions([
+      '-c:v libx264',
+      '-preset veryfast',
+      '-crf 23',
+      '-pix_fmt yuv420p',
+      '-c:a aac',
+      '-b:a 128k',
+      '-movflags +faststart',
+    ])
+    .output(options.output);
+
+  await runFfmpeg(command, { duration: options.duration, onProgress: options.onProgress });
+
+  return target;
+}
+
+/**
+ * Extract the first audio track as 16 kHz mono PCM WAV, the input speech models expect
+ */
+export async function extractAudio(input: string, output: string): Promise<void> {
+  const command = ffmpeg(input)
+    .noVideo()
+    .audioChannels(1)
+    .audioFrequency(16000)
+    .audioCodec('pcm_s16le')
+    .outputOptions(['-map 0:a:0'])
+    .output(output);
+
+  await runFfmpeg(command);
+}
+
+// Quote a path for use as a filter option value (paths containing quotes are not supported)
+function escapeFilterPath(path: string): string {
+  return `'${path.replace(/:/g, '\\:')}'`;
+}
+
+/**
+ * libass filter for an ASS file; fonts are looked up through fontconfig, plus CAPTION_FONTS_DIR when set
+ */
+export function assFilter(subtitles: string): string {
+  const fontsDir = process.env.CAPTION_FONTS_DIR;
+  return `ass=${escapeFilterPath(subtitles)}${fontsDir ? `:fontsdir=${escapeFilterPath(fontsDir)}` : ''}`;
+}
+
+export interface BurnSubtitlesOptions {
+  input: string;
+  output: string;
+  subtitles: string; // Path to an .ass file
+  duration?: number;
+  onProgress?: (fraction: number) => void;
+}
+
+/**
+ * Render an ASS subtitle file into the video with libass, copying the audio as-is
+ * Fonts are looked up through fontconfig, plus CAPTION_FONTS_DIR when set
+ */
+export async function burnSubtitles(options: BurnSubtitlesOptions): Promise<void> {
+  const command = ffmpeg(options.input)
+    .videoFilters([assFilter(options.subtitles)])
+    .outputOptions([
+      '-map 0:v:0',
+      '-map 0:a:0?',
+      '-c:v libx264',
+      '-preset veryfast',
+      '-crf 23',
+      '-pix_fmt yuv420p',
+      '-c:a copy',
+      '-movflags +faststart',
+    ])
+    .output(options.output);
+
+  await runFfmpeg(command, { duration: options.duration, onProgress: options.onProgress });
+}
+
+export interface NormalizeVideoOptions {
+  input: string;
+  output: string;
+  source: MediaDimensions;
+  duration?: number;
+  onProgress?: (fraction: number) => void;
+}
+
+/**
+ * Re-encode an upload as a web-friendly H.264/AAC MP4, at most 1080p, with the index up front
+ */
+export async function normalizeVideo(options: NormalizeVideoOptions): Promise<MediaDimensions> {
+  const target = fitShortEdge(options.source, 1080);
+
+  const command = ffmpeg(options.input)
+    .videoFilters([`scale=${target.width}:${target.height}`, 'setsar=1'])
+    .outputOptions([
+      '-map 0:v:0',
+      '-map 0:a:0?',
+      '-c:v libx264',
+      '-profile:v high',
+      '-preset veryfast',
+      '-crf 21',
+      '-maxrate 8M',
+      '-bufsize 12M',
+      '-pix_fmt yuv420p',
+      '-c:a aac',
+      '-b:a 128k',
+      '-ar 48000',
+      '-ac 2',
+      '-movflags +faststart',
+    ])
+    .output(options.output);
+
+  await runFfmpeg(command, { duration: options.duration, onProgress: options.onProgress });
+
+  return target;
+}
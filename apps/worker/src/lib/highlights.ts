@@ -0,0 +1,205 @@
+/**
+ * Highlight selection for clip start points
+ * Analyses scene cuts and audio loudness, then ranks candidate windows for a target duration
+ */
+
+import ffmpeg from 'fluent-ffmpeg';
+import type { ClipSelectionStrategy } from '@ugc/queue';
+import { runFfmpeg } from './ffmpeg.js';
+
+export interface LoudnessSample {
+  time: number; // Window start in seconds
+  level: number; // RMS level in dBFS
+}
+
+export interface MediaAnalysis {
+  duration: number;
+  sceneCuts: number[];
+  loudness: LoudnessSample[];
+}
+
+export interface RankedWindow {
+  start: number;
+  end: number;
+  score: number;
+  reasons: string[];
+}
+
+// Scene score above which a frame counts as a cut (0-1)
+const SCENE_THRESHOLD = parseFloat(process.env.CLIP_SCENE_THRESHOLD || '0.3');
+
+// Levels at or below this are treated as silence
+const SILENCE_DB = -60;
+
+// Length of the opening used to judge how strong a clip's hook is
+const HOOK_SECONDS = 2;
+
+const WEIGHTS: Record<Exclude<ClipSelectionStrategy, 'first'>, { scenes: number; audio: number; hook: number }> = {
+  scenes: { scenes: 0.7, audio: 0.2, hook: 0.1 },
+  highlights: { scenes: 0.3, audio: 0.45, hook: 0.25 },
+};
+
+/**
+ * Find scene cut timestamps with ffmpeg's scene change score
+ */
+export async function detectSceneCuts(input: string, threshold: number = SCENE_THRESHOLD): Promise<number[]> {
+  const cuts: number[] = [];
+
+  const command = ffmpeg(input)
+    .noAudio()
+    .videoFilters([`scale=320:-2`, `select='gt(scene,${threshold})'`, 'showinfo'])
+    .outputOptions(['-vsync vfr'])
+    .format('null')
+    .output('-');
+
+  await runFfmpeg(command, {
+    onStderr: (line) => {
+      if (!line.includes('Parsed_showinfo')) return;
+      const match = line.match(/pts_time:\s*([\d.]+)/);
+      if (match) cuts.push(parseFloat(match[1]));
+    },
+  });
+
+  return cuts;
+}
+
+/**
+ * Measure RMS loudness in one-second windows
+ */
+export async function measureLoudness(input: string): Promise<LoudnessSample[]> {
+  const samples: LoudnessSample[] = [];
+  let currentTime: number | null = null;
+
+  const command = ffmpeg(input)
+    .noVideo()
+    .audioFilters([
+      'aresample=8000',
+      'asetnsamples=n=8000:p=0',
+      'astats=metadata=1:reset=1',
+      'ametadata=print:key=lavfi.astats.Overall.RMS_level',
+    ])
+    .format('null')
+    .output('-');
+
+  await runFfmpeg(command, {
+    onStderr: (line) => {
+      if (!line.includes('Parsed_ametadata')) return;
+
+      const time = line.match(/pts_time:\s*([\d.]+)/);
+      if (time) {
+        currentTime = parseFloat(time[1]);
+        return;
+      }
+
+      const level = line.match(/RMS_level=(-?[\d.]+|-inf)/);
+      if (level && currentTime !== null) {
+        samples.push({
+          time: currentTime,
+          level: level[1] === '-inf' ? SILENCE_DB : Math.max(SILENCE_DB, parseFloat(level[1])),
+        });
+        currentTime = null;
+      }
+    },
+  });
+
+  return samples;
+}
+
+/**
+ * Run both analysis passes over a local file
+ */
+export async function analyzeMedia(input: string, duration: number, hasAudio: boolean): Promise<MediaAnalysis> {
+  const [sceneCuts, loudness] = await Promise.all([
+    detectSceneCuts(input),
+    hasAudio ? measureLoudness(input) : Promise.resolve([]),
+  ]);
+
+  return { duration, sceneCuts, loudness };
+}
+
+function normalizeLevel(level: number): number {
+  return Math.min(1, Math.max(0, (level - SILENCE_DB) / -SILENCE_DB));
+}
+
+function averageLevel(samples: LoudnessSample[], start: number, end: number): number | null {
+  const inside = samples.filter((sample) => sample.time >= start && sample.time < end);
+  if (inside.length === 0) return null;
+  return inside.reduce((sum, sample) => sum + normalizeLevel(sample.level), 0) / inside.length;
+}
+
+/**
+ * Rank candidate windows of `duration` seconds
+ * Candidates start at the beginning, at every scene cut and just before every loudness peak
+ */
+export function rankWindows(
+  analysis: MediaAnalysis,
+  duration: number,
+  strategy: ClipSelectionStrategy
+): RankedWindow[] {
+  const latestStart = Math.max(0, analysis.duration - duration);
+
+  if (strategy === 'first' || latestStart === 0) {
+    return [
+      {
+        start: 0,
+        end: Math.min(duration, analysis.duration),
+        score: 0,
+        reasons: [strategy === 'first' ? 'First segment of the source' : 'Source is no longer than the clip'],
+      },
+    ];
+  }
+
+  const weights = WEIGHTS[strategy];
+  const sortedLevels = [...analysis.loudness].sort((a, b) => b.level - a.level);
+  const peaks = sortedLevels.slice(0, 5).filter((sample) => sample.level > SILENCE_DB);
+
+  const candidates = new Set<number>([0]);
+  for (const cut of analysis.sceneCuts) candidates.add(cut);
+  for (const peak of peaks) candidates.add(Math.max(0, peak.time - 1));
+
+  const windows: RankedWindow[] = [];
+
+  for (const candidate of candidates) {
+    const start = Math.round(Math.min(candidate, latestStart) * 100) / 100;
+    const end = start + duration;
+    const reasons: string[] = [];
+
+    // Visual dynamism: cuts per three seconds, capped
+    const cutsInside = analysis.sceneCuts.filter((cut) => cut > start && cut < end).length;
+    const startsOnCut = analysis.sceneCuts.some((cut) => Math.abs(cut - start) < 0.25);
+    let sceneScore = Math.min(1, cutsInside / Math.max(1, duration / 3));
+    if (startsOnCut) {
+      sceneScore = Math.min(1, sceneScore + 0.25);
+      reasons.push(`Starts on a scene cut at ${start.toFixed(1)}s`);
+    }
+    if (cutsInside > 0) {
+      reasons.push(`${cutsInside} scene change${cutsInside === 1 ? '' : 's'}`);
+    }
+
+    const audioScore = averageLevel(analysis.loudness, start, end) ?? 0;
+    const hookScore = averageLevel(analysis.loudness, start, start + HOOK_SECONDS) ?? 0;
+
+    const peak = peaks.find((sample) => sample.time >= start && sample.time < end);
+    if (peak) {
+      reasons.push(`Loudness peak of ${peak.level.toFixed(1)} dB at ${peak.time.toFixed(1)}s`);
+    }
+    if (hookScore >= 0.6) {
+      reasons.push('Strong audio in the opening seconds');
+    }
+
+    const score = weights.scenes * sceneScore + weights.audio * audioScore + weights.hook * hookScore;
+
+    windows.push({ start, end, score: Math.round(score * 1000) / 1000, reasons });
+  }
+
+  // Deduplicate windows that clamp to the same start, keeping the best-scored one
+  const unique = new Map<number, RankedWindow>();
+  for (const window of windows) {
+    const existing = unique.get(window.start);
+    if (!existing || existing.score < window.score) {
+      unique.set(window.start, window);
+    }
+  }
+
+  return Array.from(unique.values()).sort((a, b) => b.score - a.score || a.start - b.start);
+}
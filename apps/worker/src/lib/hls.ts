@@ -0,0 +1,139 @@
+/**
+ * HLS packaging: an adaptive bitrate ladder of H.264/AAC renditions with a master playlist
+ * Each rendition is encoded separately with keyframes forced on segment boundaries,
+ * so players can switch between them at any segment
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import ffmpeg from 'fluent-ffmpeg';
+import type { MediaDimensions } from '@ugc/shared';
+import { fitShortEdge, runFfmpeg } from './ffmpeg.js';
+
+const SEGMENT_SECONDS = 4;
+
+export interface HlsRung {
+  name: string;
+  shortEdge: number; // Height for landscape video, width for portrait
+  videoBitrate: number; // Bits per second
+  audioBitrate: number;
+  level: string; // H.264 Main profile level
+  codec: string; // RFC 6381 codec string for that profile and level
+}
+
+export const HLS_LADDER: HlsRung[] = [
+  { name: '360p', shortEdge: 360, videoBitrate: 800_000, audioBitrate: 96_000, level: '3.0', codec: 'avc1.4d401e' },
+  { name: '720p', shortEdge: 720, videoBitrate: 2_800_000, audioBitrate: 128_000, level: '3.1', codec: 'avc1.4d401f' },
+  { name: '1080p', shortEdge: 1080, videoBitrate: 5_000_000, audioBitrate: 128_000, level: '4.0', codec: 'avc1.4d4028' },
+];
+
+export interface HlsVariant extends MediaDimensions {
+  name: string;
+  bandwidth: number; // Peak bits per second, as advertised in the master playlist
+  codecs: string;
+  playlist: string; // Path relative to the master playlist
+}
+
+export interface HlsPackage {
+  master: string; // File name of the master playlist inside the output directory
+  variants: HlsVariant[];
+}
+
+/**
+ * Pick the rungs that do not upscale the source
+ * A source smaller than the lowest rung still gets that rung, at its own size
+ */
+export function planLadder(source: MediaDimensions): Array<{ rung: HlsRung; size: MediaDimensions }> {
+  const sourceShortEdge = Math.min(source.width, source.height);
+  // Allow a little slack so e.g. 1072p phone video still gets the 1080p rung
+  const rungs = HLS_LADDER.filter((rung) => rung.shortEdge <= sourceShortEdge * 1.05);
+
+  return (rungs.length > 0 ? rungs : HLS_LADDER.slice(0, 1)).map((rung) => ({
+    rung,
+    size: fitShortEdge(source, rung.shortEdge),
+  }));
+}
+
+/**
+ * Build the master playlist that lists every variant
+ */
+export function buildMasterPlaylist(variants: HlsVariant[]): string {
+  const lines = ['#EXTM3U', '#EXT-X-VERSION:6', '#EXT-X-INDEPENDENT-SEGMENTS'];
+
+  for (const variant of variants) {
+    lines.push(
+      `#EXT-X-STREAM-INF:BANDWIDTH=${variant.bandwidth},RESOLUTION=${variant.width}x${variant.height},CODECS="${variant.codecs}"`,
+      variant.playlist
+    );
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+export interface PackageHlsOptions {
+  input: string;
+  outputDir: string;
+  source: MediaDimensions;
+  hasAudio: boolean;
+  duration?: number;
+  onProgress?: (fraction: number) => void;
+}
+
+/**
+ * Encode the ladder into `outputDir/<rung>/index.m3u8` and write `outputDir/master.m3u8`
+ */
+export async function packageHls(options: PackageHlsOptions): Promise<HlsPackage> {
+  const ladder = planLadder(options.source);
+  const variants: HlsVariant[] = [];
+
+  for (const [index, { rung, size }] of ladder.entries()) {
+    const variantDir = join(options.outputDir, rung.name);
+    await mkdir(variantDir, { recursive: true });
+
+    const maxrate = Math.round(rung.videoBitrate * 1.1);
+    const command = ffmpeg(options.input)
+      .videoFilters([`scale=${size.width}:${size.height}`, 'setsar=1'])
+      .outputOptions([
+        '-map 0:v:0',
+        ...(options.hasAudio ? ['-map 0:a:0'] : []),
+        '-c:v libx264',
+        '-profile:v main',
+        `-level:v ${rung.level}`,
+        '-preset veryfast',
+        `-b:v ${rung.videoBitrate}`,
+        `-maxrate ${maxrate}`,
+        `-bufsize ${rung.videoBitrate * 2}`,
+        '-pix_fmt yuv420p',
+        `-force_key_frames expr:gte(t,n_forced*${SEGMENT_SECONDS})`,
+        '-sc_threshold 0',
+        ...(options.hasAudio ? ['-c:a aac', `-b:a ${rung.audioBitrate}`, '-ar 48000', '-ac 2'] : []),
+        '-f hls',
+        `-hls_time ${SEGMENT_SECONDS}`,
+        '-hls_playlist_type vod',
+        '-hls_flags independent_segments',
+        // Separate arguments so paths with spaces survive fluent-ffmpeg's option splitting
+        '-hls_segment_filename',
+        join(variantDir, 'segment_%03d.ts'),
+      ])
+      .output(join(variantDir, 'index.m3u8'));
+
+    await runFfmpeg(command, {
+      duration: options.duration,
+      onProgress: (fraction) => options.onProgress?.((index + fraction) / ladder.length),
+    });
+
+    variants.push({
+      name: rung.name,
+      width: size.width,
+      height: size.height,
+      bandwidth: maxrate + (options.hasAudio ? rung.audioBitrate : 0),
+      codecs: options.hasAudio ? `${rung.codec},mp4a.40.2` : rung.codec,
+      playlist: `${rung.name}/index.m3u8`,
+    });
+  }
+
+  const master = 'master.m3u8';
+  await writeFile(join(options.outputDir, master), buildMasterPlaylist(variants), 'utf8');
+
+  return { master, variants };
+}
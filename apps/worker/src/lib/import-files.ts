@@ -0,0 +1,49 @@
+/**
+ * Import file reading - rows of a downloaded CSV or XLSX file, one at a time
+ * Both formats are streamed from disk, so a file of any size is never held in memory whole.
+ */
+
+import { createReadStream } from 'node:fs';
+import ExcelJS from 'exceljs';
+import { CsvParser, spreadsheetCellText } from '@ugc/shared';
+import type { SpreadsheetFormat } from '@ugc/shared';
+
+async function* csvRecords(path: string): AsyncGenerator<string[]> {
+  const parser = new CsvParser();
+  const decoder = new TextDecoder();
+  for await (const chunk of createReadStream(path)) {
+    yield* parser.push(decoder.decode(chunk as Buffer, { stream: true }));
+  }
+  yield* parser.push(decoder.decode());
+  yield* parser.flush();
+}
+
+async function* xlsxRecords(path: string): AsyncGenerator<string[]> {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookReader(path, {
+    sharedStrings: 'cache',
+    hyperlinks: 'ignore',
+    // Styles tell date cells from numbers
+    styles: 'cache',
+    worksheets: 'emit',
+  });
+
+  // Only the first sheet is imported
+  for await (const worksheet of workbook) {
+    for await (const row of worksheet) {
+      // Row values are 1-indexed and sparse
+      const values = Array.from((row.values as unknown[]).slice(1), spreadsheetCellText);
+      if (values.some(Boolean)) yield values;
+    }
+    break;
+  }
+}
+
+/**
+ * Records of an import file, header row first; blank rows are skipped
+ */
+export function readImportRecords(
+  path: string,
+  format: SpreadsheetFormat
+): AsyncGenerator<string[]> {
+  return format === 'csv' ? csvRecords(path) : xlsxRecords(path);
+}
@@ -0,0 +1,69 @@
+/**
+ * Brand overlays drawn over rendered clips
+ */
+
+import { createWriteStream } from 'node:fs';
+import { Readable, Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { ReadableStream as WebReadableStream } from 'node:stream/web';
+import type { ClipWatermark } from '@ugc/queue';
+import type { MediaDimensions } from '@ugc/shared';
+import { fetchPublicUrl } from './public-fetch.js';
+
+// Logos are small; anything bigger is almost certainly the wrong URL
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+const IMAGE_TIMEOUT_MS = 30_000;
+
+export interface WatermarkOverlay extends ClipWatermark {
+  path: string; // Local PNG, JPEG or WebP file
+}
+
+/**
+ * Download an image such as the workspace logo to a local file
+ */
+export async function downloadImage(url: string, filePath: string): Promise<void> {
+  // Logo and product image URLs come from workspace input, like linked media
+  const response = await fetchPublicUrl(url, { timeoutMs: IMAGE_TIMEOUT_MS });
+  if (!response.ok || !response.body) {
+    throw new Error(`Image download failed with status ${response.status}`);
+  }
+
+  let received = 0;
+  const limit = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      callback(received > MAX_IMAGE_BYTES ? new Error(`Image exceeds ${MAX_IMAGE_BYTES} bytes`) : null, chunk);
+    },
+  });
+
+  await pipeline(Readable.fromWeb(response.body as WebReadableStream<Uint8Array>), limit, createWriteStream(filePath));
+}
+
+/**
+ * Filter graph steps that scale the watermark input and overlay it on `base`
+ * The logo is scaled to `size` percent of the frame width and kept a small margin from the edges
+ */
+export function watermarkFilters(
+  watermark: ClipWatermark,
+  frame: MediaDimensions,
+  labels: { input: string; base: string; output: string }
+): string[] {
+  const width = Math.max(2, Math.round((frame.width * watermark.size) / 100 / 2) * 2);
+  const margin = Math.round(Math.min(frame.width, frame.height) * 0.04);
+
+  const x = watermark.position.endsWith('left')
+    ? `${margin}`
+    : watermark.position.endsWith('right')
+      ? `main_w-overlay_w-${margin}`
+      : '(main_w-overlay_w)/2';
+  const y = watermark.position.startsWith('top')
+    ? `${margin}`
+    : watermark.position.startsWith('bottom')
+      ? `main_h-overlay_h-${margin}`
+      : '(main_h-overlay_h)/2';
+
+  return [
+    `[${labels.input}]scale=${width}:-2,format=rgba,colorchannelmixer=aa=${watermark.opacity}[logo]`,
+    `[${labels.base}][logo]overlay=x=${x}:y=${y}:format=auto[${labels.output}]`,
+  ];
+}
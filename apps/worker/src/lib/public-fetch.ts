@@ -0,0 +1,102 @@
+/**
+ * Fetching URLs that come from workspace input, such as linked media, logos and product images
+ * Only http and https URLs whose host resolves to public addresses are fetched. Redirects are
+ * followed by hand so every hop is checked the same way, and a timeout covers the whole request,
+ * body included, so a host that never answers cannot hold a job forever.
+ */
+
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+
+const MAX_REDIRECTS = 5;
+
+// Loopback, private, link-local (cloud metadata lives there), shared, multicast and reserved ranges
+const blocked = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  blocked.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  blocked.addSubnet(network, prefix, 'ipv6');
+}
+
+export class UnsafeUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsafeUrlError';
+  }
+}
+
+/**
+ * Whether an IP address is on the public internet
+ * IPv4 addresses mapped into IPv6 are judged by their IPv4 part
+ */
+export function isPublicAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+  if (mapped) return isPublicAddress(mapped);
+
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !blocked.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+async function assertPublicUrl(url: URL): Promise<void> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new UnsafeUrlError(`Only http and https URLs can be fetched, not ${url.protocol}`);
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(host)
+    ? [host]
+    : (await lookup(host, { all: true })).map((entry) => entry.address);
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new UnsafeUrlError(`${url.hostname} is not a public host`);
+  }
+}
+
+/**
+ * Fetch a URL from workspace input, refusing hosts that are not public
+ * Throws an UnsafeUrlError for such hosts and for too many redirects; other responses, errors
+ * included, are returned as they are
+ */
+export async function fetchPublicUrl(
+  url: string,
+  options: { timeoutMs: number; headers?: Record<string, string> }
+): Promise<Response> {
+  const signal = AbortSignal.timeout(options.timeoutMs);
+  let current = new URL(url);
+
+  for (let hop = 0; ; hop++) {
+    await assertPublicUrl(current);
+    const response = await fetch(current, { headers: options.headers, redirect: 'manual', signal });
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    if (hop === MAX_REDIRECTS) {
+      throw new UnsafeUrlError(`Gave up after ${MAX_REDIRECTS} redirects`);
+    }
+    current = new URL(location, current);
+  }
+}
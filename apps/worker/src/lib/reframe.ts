@@ -0,0 +1,441 @@
+/**
+ * Smart reframing for format conversion
+ * Scores low-resolution frames for saliency (edges, motion and skin tones as a CPU-only
+ * stand-in for face detection), picks a crop window per shot and smooths it over time
+ */
+
+import { readFile } from 'node:fs/promises';
+import ffmpeg from 'fluent-ffmpeg';
+import type { MediaDimensions } from '@ugc/shared';
+import { centerCrop, runFfmpeg } from './ffmpeg.js';
+
+export interface CropKeyframe {
+  t: number; // Seconds from the start of the clip
+  x: number; // Crop origin in source pixels
+  y: number;
+}
+
+export interface CropPath {
+  mode: 'center' | 'smart' | 'manual';
+  width: number;
+  height: number;
+  keyframes: CropKeyframe[];
+  focalPoint?: { x: number; y: number };
+  shots?: number[]; // Shot start times used by smart crops
+}
+
+export interface SampledFrames {
+  width: number;
+  height: number;
+  fps: number;
+  frames: Buffer[]; // rgb24
+}
+
+const SAMPLE_FPS = 4;
+const SAMPLE_LONG_EDGE = 160;
+
+// Mean luma change (0-255) between samples that counts as a cut
+const SHOT_CHANGE_THRESHOLD = 28;
+
+// Windows that drift less than this share of the frame inside a shot are locked in place
+const LOCK_TOLERANCE = 0.08;
+
+// Keyframes closer than this to the interpolated path are dropped
+const SIMPLIFY_TOLERANCE_PX = 4;
+const MAX_KEYFRAMES = 48;
+
+function even(value: number): number {
+  return Math.max(2, Math.round(value / 2) * 2);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Decode a segment of the source as small RGB frames
+ */
+export async function sampleFrames(
+  input: string,
+  output: string,
+  start: number,
+  duration: number,
+  source: MediaDimensions
+): Promise<SampledFrames> {
+  const landscape = source.width >= source.height;
+  const width = landscape ? SAMPLE_LONG_EDGE : even((SAMPLE_LONG_EDGE * source.width) / source.height);
+  const height = landscape ? even((SAMPLE_LONG_EDGE * source.height) / source.width) : SAMPLE_LONG_EDGE;
+
+  const command = ffmpeg(input)
+    .seekInput(start)
+    .duration(duration)
+    .noAudio()
+    .videoFilters([`fps=${SAMPLE_FPS}`, `scale=${width}:${height}`])
+    .outputOptions(['-pix_fmt rgb24'])
+    .format('rawvideo')
+    .output(output);
+
+  await runFfmpeg(command);
+
+  const data = await readFile(output);
+  const frameSize = width * height * 3;
+  const frames: Buffer[] = [];
+  for (let offset = 0; offset + frameSize <= data.length; offset += frameSize) {
+    frames.push(data.subarray(offset, offset + frameSize));
+  }
+
+  return { width, height, fps: SAMPLE_FPS, frames };
+}
+
+/**
+ * Score one frame and project the saliency onto the axis the crop moves along
+ */
+function scoreFrame(
+  frame: Buffer,
+  width: number,
+  height: number,
+  previousLuma: Uint8Array | null,
+  axis: 'x' | 'y'
+): { profile: Float64Array; luma: Uint8Array; change: number } {
+  const pixels = width * height;
+  const luma = new Uint8Array(pixels);
+  const skin = new Uint8Array(pixels);
+
+  for (let i = 0; i < pixels; i++) {
+    const r = frame[i * 3];
+    const g = frame[i * 3 + 1];
+    const b = frame[i * 3 + 2];
+    const y = 0.299 * r + 0.587 * g + 0.114 * b;
+    const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+    const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+    luma[i] = y;
+    // Classic YCbCr skin range, which holds up across most skin tones under normal light
+    skin[i] = cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173 && y > 40 ? 1 : 0;
+  }
+
+  const gradient = new Float64Array(pixels);
+  const motion = new Float64Array(pixels);
+  let maxGradient = 0;
+  let maxMotion = 0;
+  let change = 0;
+
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      const i = row * width + col;
+      const dx = col + 1 < width ? Math.abs(luma[i + 1] - luma[i]) : 0;
+      const dy = row + 1 < height ? Math.abs(luma[i + width] - luma[i]) : 0;
+      gradient[i] = dx + dy;
+      if (gradient[i] > maxGradient) maxGradient = gradient[i];
+
+      if (previousLuma) {
+        motion[i] = Math.abs(luma[i] - previousLuma[i]);
+        change += motion[i];
+        if (motion[i] > maxMotion) maxMotion = motion[i];
+      }
+    }
+  }
+
+  const length = axis === 'x' ? width : height;
+  const profile = new Float64Array(length);
+
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      const i = row * width + col;
+      const score =
+        0.35 * (maxGradient ? gradient[i] / maxGradient : 0) +
+        0.25 * (maxMotion ? motion[i] / maxMotion : 0) +
+        0.4 * skin[i];
+      profile[axis === 'x' ? col : row] += score;
+    }
+  }
+
+  // Mild center bias so empty edges never win over an equally busy middle
+  const middle = (length - 1) / 2;
+  for (let i = 0; i < length; i++) {
+    const offset = middle ? (i - middle) / middle : 0;
+    profile[i] *= 1 - 0.3 * offset * offset;
+  }
+
+  return { profile, luma, change: previousLuma ? change / pixels : 0 };
+}
+
+/**
+ * Center of the window of `size` samples with the highest saliency
+ * Ties go to the window nearest the previous center to avoid jitter
+ */
+function bestWindowCenter(profile: Float64Array, size: number, previous: number): number {
+  const length = profile.length;
+  if (size >= length) return length / 2;
+
+  let sum = 0;
+  for (let i = 0; i < size; i++) sum += profile[i];
+
+  let bestSum = sum;
+  let bestCenter = size / 2;
+  for (let start = 1; start + size <= length; start++) {
+    sum += profile[start + size - 1] - profile[start - 1];
+    const center = start + size / 2;
+    const clearlyBetter = sum > bestSum * 1.02;
+    const asGoodAndCloser =
+      sum >= bestSum * 0.98 && Math.abs(center - previous) < Math.abs(bestCenter - previous);
+
+    if (clearlyBetter || asGoodAndCloser) {
+      bestSum = Math.max(bestSum, sum);
+      bestCenter = center;
+    }
+  }
+
+  return bestSum > 0 ? bestCenter : previous;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Smooth the window centers inside one shot: median filter against outliers,
+ * moving average against jitter, and a lock when the subject barely moves
+ */
+function smoothShot(centers: number[], axisLength: number, fps: number): number[] {
+  if (centers.length <= 2) {
+    const value = median(centers);
+    return centers.map(() => value);
+  }
+
+  const filtered = centers.map((_, i) => median(centers.slice(Math.max(0, i - 2), i + 3)));
+
+  const radius = Math.max(1, Math.round(fps / 2));
+  const averaged = filtered.map((_, i) => {
+    const window = filtered.slice(Math.max(0, i - radius), i + radius + 1);
+    return window.reduce((sum, value) => sum + value, 0) / window.length;
+  });
+
+  const spread = Math.max(...averaged) - Math.min(...averaged);
+  if (spread < axisLength * LOCK_TOLERANCE) {
+    const value = median(averaged);
+    return averaged.map(() => value);
+  }
+
+  return averaged;
+}
+
+// Tolerance doublings tried before falling back to one window per shot
+const MAX_SIMPLIFY_PASSES = 6;
+
+// Two keyframes closer than this in time are the two sides of a cut
+const CUT_GAP = 0.05;
+
+interface Shot {
+  start: number;
+  end: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * Hold one window per shot, merging the shortest shots into a neighbour until the keyframes fit
+ * Every cut after the first shot takes two keyframes, a hold and the new window.
+ */
+function holdPerShot(keyframes: CropKeyframe[]): CropKeyframe[] {
+  const groups: CropKeyframe[][] = [[keyframes[0]]];
+  for (let i = 1; i < keyframes.length; i++) {
+    if (keyframes[i].t - keyframes[i - 1].t < CUT_GAP) groups.push([]);
+    groups[groups.length - 1].push(keyframes[i]);
+  }
+
+  const lastT = keyframes[keyframes.length - 1].t;
+  const shots: Shot[] = groups.map((group, i) => ({
+    start: group[0].t,
+    end: groups[i + 1]?.[0].t ?? lastT,
+    x: Math.round(median(group.map((keyframe) => keyframe.x))),
+    y: Math.round(median(group.map((keyframe) => keyframe.y))),
+  }));
+
+  const maxShots = Math.floor((MAX_KEYFRAMES + 1) / 2);
+  while (shots.length > maxShots) {
+    let shortest = 0;
+    for (let i = 1; i < shots.length; i++) {
+      if (shots[i].end - shots[i].start < shots[shortest].end - shots[shortest].start) shortest = i;
+    }
+
+    // Fold it into the shorter neighbour, which keeps the longer shot of the two's window
+    const previous = shots[shortest - 1];
+    const next = shots[shortest + 1];
+    const into =
+      !next || (previous && previous.end - previous.start <= next.end - next.start)
+        ? shortest - 1
+        : shortest + 1;
+    const [first, second] = into < shortest ? [into, shortest] : [shortest, into];
+    const keep =
+      shots[first].end - shots[first].start >= shots[second].end - shots[second].start
+        ? shots[first]
+        : shots[second];
+    shots.splice(first, 2, { start: shots[first].start, end: shots[second].end, x: keep.x, y: keep.y });
+  }
+
+  const result: CropKeyframe[] = [];
+  shots.forEach((shot, i) => {
+    if (i > 0) {
+      const previous = shots[i - 1];
+      result.push({ t: Math.max(previous.start, shot.start - 0.01), x: previous.x, y: previous.y });
+    }
+    result.push({ t: shot.start, x: shot.x, y: shot.y });
+  });
+  return result;
+}
+
+/**
+ * Drop keyframes that a straight line between their neighbours already covers
+ * Cuts (two keyframes at almost the same time) are always kept; when there are too many cuts to
+ * fit MAX_KEYFRAMES, each shot holds one window and the shortest shots are merged away.
+ */
+export function simplifyKeyframes(keyframes: CropKeyframe[]): CropKeyframe[] {
+  let tolerance = SIMPLIFY_TOLERANCE_PX;
+  let result = keyframes;
+
+  for (let pass = 0; pass < MAX_SIMPLIFY_PASSES && result.length > 2; pass++) {
+    const kept: CropKeyframe[] = [result[0]];
+    for (let i = 1; i < result.length - 1; i++) {
+      const previous = kept[kept.length - 1];
+      const current = result[i];
+      const next = result[i + 1];
+      const isCut = next.t - current.t < CUT_GAP || current.t - previous.t < CUT_GAP;
+      const ratio = (current.t - previous.t) / (next.t - previous.t);
+      const expectedX = previous.x + (next.x - previous.x) * ratio;
+      const expectedY = previous.y + (next.y - previous.y) * ratio;
+      if (isCut || Math.abs(current.x - expectedX) > tolerance || Math.abs(current.y - expectedY) > tolerance) {
+        kept.push(current);
+      }
+    }
+    kept.push(result[result.length - 1]);
+
+    result = kept;
+    if (result.length <= MAX_KEYFRAMES) return result;
+    tolerance *= 2;
+  }
+
+  return result.length <= MAX_KEYFRAMES ? result : holdPerShot(result);
+}
+
+/**
+ * A fixed center crop
+ */
+export function planCenterCrop(source: MediaDimensions, target: MediaDimensions): CropPath {
+  const crop = centerCrop(source, target);
+  return { mode: 'center', width: crop.width, height: crop.height, keyframes: [{ t: 0, x: crop.x, y: crop.y }] };
+}
+
+/**
+ * A fixed crop centerd on a focal point given as 0-1 fractions of the source frame
+ */
+export function planManualCrop(
+  source: MediaDimensions,
+  target: MediaDimensions,
+  focalPoint: { x: number; y: number }
+): CropPath {
+  const crop = centerCrop(source, target);
+  const x = Math.round(clamp(focalPoint.x * source.width - crop.width / 2, 0, source.width - crop.width));
+  const y = Math.round(clamp(focalPoint.y * source.height - crop.height / 2, 0, source.height - crop.height));
+  return { mode: 'manual', width: crop.width, height: crop.height, keyframes: [{ t: 0, x, y }], focalPoint };
+}
+
+/**
+ * Follow the most salient region, holding one smoothed window per shot
+ */
+export function planSmartCrop(sampled: SampledFrames, source: MediaDimensions, target: MediaDimensions): CropPath {
+  const crop = centerCrop(source, target);
+  const axis: 'x' | 'y' = crop.width < source.width ? 'x' : crop.height < source.height ? 'y' : 'x';
+  const needsCrop = crop.width < source.width || crop.height < source.height;
+
+  if (!needsCrop || sampled.frames.length === 0) {
+    return planCenterCrop(source, target);
+  }
+
+  const sampleLength = axis === 'x' ? sampled.width : sampled.height;
+  const sourceLength = axis === 'x' ? source.width : source.height;
+  const cropLength = axis === 'x' ? crop.width : crop.height;
+  const scale = sampleLength / sourceLength;
+  const windowSize = Math.max(1, Math.round(cropLength * scale));
+
+  // Per-frame best centers and shot boundaries
+  const centers: number[] = [];
+  const shotStarts: number[] = [0];
+  let previousLuma: Uint8Array | null = null;
+  let previousCenter = sampleLength / 2;
+
+  sampled.frames.forEach((frame, index) => {
+    const { profile, luma, change } = scoreFrame(frame, sampled.width, sampled.height, previousLuma, axis);
+    if (index > 0 && change > SHOT_CHANGE_THRESHOLD) {
+      shotStarts.push(index);
+    }
+    previousCenter = bestWindowCenter(profile, windowSize, previousCenter);
+    centers.push(previousCenter);
+    previousLuma = luma;
+  });
+
+  const keyframes: CropKeyframe[] = [];
+  shotStarts.forEach((shotStart, shotIndex) => {
+    const shotEnd = shotStarts[shotIndex + 1] ?? centers.length;
+    const smoothed = smoothShot(centers.slice(shotStart, shotEnd), sampleLength, sampled.fps);
+
+    smoothed.forEach((center, i) => {
+      const offset = Math.round(clamp(center / scale - cropLength / 2, 0, sourceLength - cropLength));
+      const t = (shotStart + i) / sampled.fps;
+
+      // Hold the previous shot's window until the frame before the cut
+      if (i === 0 && keyframes.length > 0) {
+        const last = keyframes[keyframes.length - 1];
+        keyframes.push({ ...last, t: Math.max(last.t, t - 0.01) });
+      }
+
+      keyframes.push({
+        t: Math.round(t * 1000) / 1000,
+        x: axis === 'x' ? offset : crop.x,
+        y: axis === 'y' ? offset : crop.y,
+      });
+    });
+  });
+
+  return {
+    mode: 'smart',
+    width: crop.width,
+    height: crop.height,
+    keyframes: simplifyKeyframes(keyframes),
+    shots: shotStarts.map((index) => index / sampled.fps),
+  };
+}
+
+// Piecewise-linear ffmpeg expression over the clip time `t`
+function interpolationExpression(keyframes: CropKeyframe[], key: 'x' | 'y'): string {
+  const last = keyframes[keyframes.length - 1][key];
+  let expression = `${last}`;
+
+  for (let i = keyframes.length - 2; i >= 0; i--) {
+    const from = keyframes[i];
+    const to = keyframes[i + 1];
+    const span = to.t - from.t;
+    const segment =
+      from[key] === to[key] || span <= 0
+        ? `${from[key]}`
+        : `${from[key]}+(${to[key] - from[key]})*(t-${from.t})/${span.toFixed(3)}`;
+    expression = `if(lt(t,${to.t}),${segment},${expression})`;
+  }
+
+  return expression;
+}
+
+/**
+ * ffmpeg crop filter for a crop path
+ */
+export function cropFilter(path: CropPath): string {
+  const [first] = path.keyframes;
+  if (path.keyframes.length === 1) {
+    return `crop=${path.width}:${path.height}:${first.x}:${first.y}`;
+  }
+
+  const x = interpolationExpression(path.keyframes, 'x');
+  const y = interpolationExpression(path.keyframes, 'y');
+  return `crop=${path.width}:${path.height}:'${x}':'${y}'`;
+}
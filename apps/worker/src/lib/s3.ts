@@ -0,0 +1,258 @@
+/**
+ * S3-compatible storage helpers for the worker
+ * Mirrors the web app's storage helpers, with file-based uploads and downloads for media processing
+ */
+
+import { createReadStream, createWriteStream } from 'node:fs';
+import { readdir, stat } from 'node:fs/promises';
+import { extname, join, relative, sep } from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import { Readable } from 'node:stream';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+  DeleteObjectsCommand,
+} from '@aws-sdk/client-s3';
+
+let s3Client: S3Client | null = null;
+
+/**
+ * S3-compatible storage configuration
+ * Uses the same environment variables and MinIO defaults as the web app
+ */
+export function getStorageConfig() {
+  const endpoint = process.env.S3_ENDPOINT || 'http://localhost:9000';
+  const bucket = process.env.S3_BUCKET || 'ugc-media';
+
+  return {
+    endpoint,
+    accessKey: process.env.S3_ACCESS_KEY || 'minioadmin',
+    secretKey: process.env.S3_SECRET_KEY || 'minioadmin',
+    bucket,
+    region: process.env.S3_REGION || 'us-east-1',
+    publicUrl: process.env.S3_PUBLIC_URL || `${endpoint}/${bucket}`,
+  };
+}
+
+/**
+ * Get or create S3 client instance
+ */
+export function getS3Client(): S3Client {
+  if (s3Client) {
+    return s3Client;
+  }
+
+  const config = getStorageConfig();
+
+  s3Client = new S3Client({
+    endpoint: config.endpoint,
+    region: config.region,
+    credentials: {
+      accessKeyId: config.accessKey,
+      secretAccessKey: config.secretKey,
+    },
+    forcePathStyle: true, // Required for MinIO and some S3-compatible services
+  });
+
+  return s3Client;
+}
+
+/**
+ * Upload a file directly from memory
+ */
+export async function uploadFile(
+  key: string,
+  body: Buffer | Uint8Array | string,
+  contentType: string
+): Promise<string> {
+  const config = getStorageConfig();
+
+  await getS3Client().send(
+    new PutObjectCommand({
+      Bucket: config.bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+    })
+  );
+
+  return getPublicUrl(key);
+}
+
+/**
+ * Stream a local file to storage
+ */
+export async function uploadFromPath(
+  key: string,
+  filePath: string,
+  contentType: string
+): Promise<{ url: string; size: number }> {
+  const config = getStorageConfig();
+  const { size } = await stat(filePath);
+
+  await getS3Client().send(
+    new PutObjectCommand({
+      Bucket: config.bucket,
+      Key: key,
+      Body: createReadStream(filePath),
+      ContentLength: size,
+      ContentType: contentType,
+    })
+  );
+
+  return { url: getPublicUrl(key), size };
+}
+
+const DIRECTORY_CONTENT_TYPES: Record<string, string> = {
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.ts': 'video/mp2t',
+  '.mp4': 'video/mp4',
+  '.jpg': 'image/jpeg',
+  '.vtt': 'text/vtt',
+};
+
+async function listFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const nested = await Promise.all(
+    entries.map((entry) => (entry.isDirectory() ? listFiles(join(dir, entry.name)) : [join(dir, entry.name)]))
+  );
+  return nested.flat();
+}
+
+/**
+ * Upload every file below a local directory, keeping relative paths under `prefix`
+ */
+export async function uploadDirectory(prefix: string, dir: string, concurrency: number = 4): Promise<string[]> {
+  const files = await listFiles(dir);
+
+  const keys: string[] = [];
+  for (let i = 0; i < files.length; i += concurrency) {
+    await Promise.all(
+      files.slice(i, i + concurrency).map(async (filePath) => {
+        const key = `${prefix}/${relative(dir, filePath).split(sep).join('/')}`;
+        const contentType = DIRECTORY_CONTENT_TYPES[extname(filePath)] || 'application/octet-stream';
+        await uploadFromPath(key, filePath, contentType);
+        keys.push(key);
+      })
+    );
+  }
+
+  return keys;
+}
+
+/**
+ * Delete a file
+ */
+export async function deleteFile(key: string): Promise<void> {
+  const config = getStorageConfig();
+
+  await getS3Client().send(
+    new DeleteObjectCommand({
+      Bucket: config.bucket,
+      Key: key,
+    })
+  );
+}
+
+/**
+ * Delete every object whose key starts with `prefix`
+ */
+export async function deletePrefix(prefix: string): Promise<number> {
+  const config = getStorageConfig();
+  let deleted = 0;
+  let continuationToken: string | undefined;
+
+  do {
+    const listing = await getS3Client().send(
+      new ListObjectsV2Command({
+        Bucket: config.bucket,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      })
+    );
+
+    const objects = (listing.Contents ?? []).flatMap((object) => (object.Key ? [{ Key: object.Key }] : []));
+    if (objects.length > 0) {
+      await getS3Client().send(
+        new DeleteObjectsCommand({
+          Bucket: config.bucket,
+          Delete: { Objects: objects, Quiet: true },
+        })
+      );
+      deleted += objects.length;
+    }
+
+    continuationToken = listing.IsTruncated ? listing.NextContinuationToken : undefined;
+  } while (continuationToken);
+
+  return deleted;
+}
+
+/**
+ * Stream an object from storage to a local file
+ */
+export async function downloadToPath(key: string, filePath: string): Promise<void> {
+  const config = getStorageConfig();
+
+  const response = await getS3Client().send(
+    new GetObjectCommand({
+      Bucket: config.bucket,
+      Key: key,
+    })
+  );
+
+  if (!response.Body) {
+    throw new Error(`Storage object ${key} has no body`);
+  }
+
+  await pipeline(response.Body as Readable, createWriteStream(filePath));
+}
+
+/**
+ * Get size and content type of a stored object, or null if it does not exist
+ */
+export async function headFile(
+  key: string
+): Promise<{ size: number; contentType: string | null } | null> {
+  const config = getStorageConfig();
+
+  try {
+    const response = await getS3Client().send(
+      new HeadObjectCommand({
+        Bucket: config.bucket,
+        Key: key,
+      })
+    );
+    return { size: response.ContentLength ?? 0, contentType: response.ContentType ?? null };
+  } catch (error) {
+    if ((error as { name?: string }).name === 'NotFound') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Generate a storage key for media assets
+ */
+export function generateMediaKey(
+  workspaceId: string,
+  type: 'video' | 'image' | 'audio' | 'caption' | 'thumbnail' | 'export',
+  filename: string
+): string {
+  const timestamp = Date.now();
+  const sanitizedFilename = filename.replace(/[^a-zA-Z0-9.-]/g, '_');
+  return `${workspaceId}/${type}/${timestamp}-${sanitizedFilename}`;
+}
+
+/**
+ * Get public URL for a storage key
+ */
+export function getPublicUrl(key: string): string {
+  const config = getStorageConfig();
+  return `${config.publicUrl}/${key}`;
+}
@@ -0,0 +1,19 @@
+/**
+ * Scratch directory helpers for jobs that work on local files
+ */
+
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+/**
+ * Run a callback with a fresh temporary directory that is removed afterwards
+ */
+export async function withTempDir<T>(prefix: string, fn: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await mkdtemp(join(process.env.WORKER_TMP_DIR || tmpdir(), `ugc-${prefix}-`));
+  try {
+    return await fn(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
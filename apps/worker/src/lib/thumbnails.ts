@@ -0,0 +1,122 @@
+/**
+ * Poster frames and animated preview sprites for videos and images
+ */
+
+import { join } from 'node:path';
+import ffmpeg from 'fluent-ffmpeg';
+import type { MediaDimensions, PreviewSprite } from '@ugc/shared';
+import { fitShortEdge, runFfmpeg } from './ffmpeg.js';
+import { deleteFile, generateMediaKey, uploadFromPath } from './s3.js';
+
+const POSTER_SHORT_EDGE = 720;
+const SPRITE_SHORT_EDGE = 180;
+const SPRITE_MAX_FRAMES = 10;
+
+export interface StoredPoster extends MediaDimensions {
+  key: string;
+  url: string;
+}
+
+export interface StoredPreviewSprite extends PreviewSprite {
+  key: string;
+}
+
+export interface Thumbnails {
+  poster: StoredPoster;
+  preview?: StoredPreviewSprite; // Videos only
+}
+
+/**
+ * Grab a representative frame near the start, skipping black or blurry first frames
+ */
+export async function renderPoster(
+  input: string,
+  output: string,
+  source: MediaDimensions,
+  duration: number
+): Promise<MediaDimensions> {
+  const size = fitShortEdge(source, POSTER_SHORT_EDGE);
+
+  const command = ffmpeg(input);
+  if (duration > 0) {
+    command.seekInput(Math.min(1, duration * 0.1));
+  }
+  command
+    .videoFilters([
+      // Picks the most typical frame out of each batch; images have a single frame
+      ...(duration > 0 ? ['thumbnail=30'] : []),
+      `scale=${size.width}:${size.height}`,
+    ])
+    .outputOptions(['-frames:v 1', '-q:v 3'])
+    .output(output);
+
+  await runFfmpeg(command);
+  return size;
+}
+
+/**
+ * Tile evenly spaced frames into a single strip
+ */
+export async function renderPreviewSprite(
+  input: string,
+  output: string,
+  source: MediaDimensions,
+  duration: number
+): Promise<Omit<PreviewSprite, 'url'>> {
+  const size = fitShortEdge(source, SPRITE_SHORT_EDGE);
+  const frames = Math.max(1, Math.min(SPRITE_MAX_FRAMES, Math.floor(duration * 2)));
+  const interval = duration / frames;
+
+  const command = ffmpeg(input)
+    .videoFilters([
+      `fps=1/${interval.toFixed(4)}`,
+      `scale=${size.width}:${size.height}`,
+      `tile=${frames}x1`,
+    ])
+    .outputOptions(['-frames:v 1', '-q:v 5'])
+    .output(output);
+
+  await runFfmpeg(command);
+  return { frames, frameWidth: size.width, frameHeight: size.height, interval };
+}
+
+export interface GenerateThumbnailsOptions {
+  input: string;
+  workDir: string;
+  workspaceId: string;
+  name: string; // Used in the storage key, e.g. the asset or clip id
+  source: MediaDimensions;
+  duration: number; // 0 for images, which only get a poster
+}
+
+/**
+ * Render and upload the poster (and the preview sprite for videos)
+ */
+export async function generateThumbnails(options: GenerateThumbnailsOptions): Promise<Thumbnails> {
+  const posterPath = join(options.workDir, 'poster.jpg');
+  const posterSize = await renderPoster(options.input, posterPath, options.source, options.duration);
+  const posterKey = generateMediaKey(options.workspaceId, 'thumbnail', `${options.name}-poster.jpg`);
+  const { url: posterUrl } = await uploadFromPath(posterKey, posterPath, 'image/jpeg');
+  const poster: StoredPoster = { key: posterKey, url: posterUrl, ...posterSize };
+
+  if (options.duration <= 0) {
+    return { poster };
+  }
+
+  const spritePath = join(options.workDir, 'preview.jpg');
+  const layout = await renderPreviewSprite(options.input, spritePath, options.source, options.duration);
+  const spriteKey = generateMediaKey(options.workspaceId, 'thumbnail', `${options.name}-preview.jpg`);
+  const { url: spriteUrl } = await uploadFromPath(spriteKey, spritePath, 'image/jpeg');
+
+  return { poster, preview: { key: spriteKey, url: spriteUrl, ...layout } };
+}
+
+/**
+ * Delete thumbnails that have been replaced; failures are only logged
+ */
+export async function deleteThumbnails(previous: Partial<Thumbnails> | undefined): Promise<void> {
+  const keys = [previous?.poster?.key, previous?.preview?.key].filter(Boolean) as string[];
+  await Promise.all(
+    keys.map((key) => deleteFile(key).catch((error) => console.error('Error deleting thumbnail:', error)))
+  );
+}
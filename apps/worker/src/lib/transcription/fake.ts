@@ -0,0 +1,35 @@
+/**
+ * Deterministic transcription provider for tests and local development
+ * Produces the same script for the same duration without looking at the audio
+ */
+
+import type { CaptionWord } from '@ugc/shared';
+import type { TranscriptionProvider, TranscriptionRequest, TranscriptionResult } from './index.js';
+
+const SCRIPT =
+  'Okay so I have been using this for two weeks now. Honestly it changed my whole routine. ' +
+  'The texture is amazing and it lasts all day. Link is in my bio if you want to try it.';
+
+const WORD_SECONDS = 0.4;
+
+export class FakeTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'fake';
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    const script = SCRIPT.split(' ');
+    const count = Math.floor(request.duration / WORD_SECONDS);
+    const words: CaptionWord[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const start = Math.round(i * WORD_SECONDS * 1000) / 1000;
+      words.push({
+        text: script[i % script.length],
+        start,
+        end: Math.round((start + WORD_SECONDS * 0.9) * 1000) / 1000,
+        confidence: 1,
+      });
+    }
+
+    return { language: request.language === 'auto' ? 'en' : request.language, words };
+  }
+}
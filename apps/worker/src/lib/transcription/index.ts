@@ -0,0 +1,43 @@
+/**
+ * Speech-to-text providers
+ * TRANSCRIPTION_PROVIDER selects the backend: 'whisper-cpp' (default) or 'fake'
+ */
+
+import type { CaptionWord } from '@ugc/shared';
+import { FakeTranscriptionProvider } from './fake.js';
+import { WhisperCppProvider } from './whisper-cpp.js';
+
+export interface TranscriptionRequest {
+  audioPath: string; // 16 kHz mono WAV
+  language: string; // ISO 639-1 code, or 'auto' to detect
+  duration: number;
+}
+
+export interface TranscriptionResult {
+  language: string; // Detected language when 'auto' was requested
+  words: CaptionWord[];
+}
+
+export interface TranscriptionProvider {
+  readonly name: string;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>;
+}
+
+let provider: TranscriptionProvider | null = null;
+
+export function getTranscriptionProvider(): TranscriptionProvider {
+  if (!provider) {
+    const name = process.env.TRANSCRIPTION_PROVIDER || 'whisper-cpp';
+    switch (name) {
+      case 'whisper-cpp':
+        provider = new WhisperCppProvider();
+        break;
+      case 'fake':
+        provider = new FakeTranscriptionProvider();
+        break;
+      default:
+        throw new Error(`Unknown transcription provider: ${name}`);
+    }
+  }
+  return provider;
+}
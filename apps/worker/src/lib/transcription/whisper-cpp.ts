@@ -0,0 +1,83 @@
+/**
+ * whisper.cpp transcription provider
+ * Runs the whisper.cpp CLI locally (WHISPER_CPP_PATH, default `whisper-cli`) with the
+ * ggml model at WHISPER_MODEL_PATH, splitting segments on words to get word timings
+ */
+
+import { execFile } from 'node:child_process';
+import { readFile } from 'node:fs/promises';
+import { promisify } from 'node:util';
+import type { CaptionWord } from '@ugc/shared';
+import type { TranscriptionProvider, TranscriptionRequest, TranscriptionResult } from './index.js';
+
+const execFileAsync = promisify(execFile);
+
+interface WhisperToken {
+  text: string;
+  p?: number;
+}
+
+interface WhisperSegment {
+  offsets: { from: number; to: number }; // Milliseconds
+  text: string;
+  tokens?: WhisperToken[];
+}
+
+interface WhisperOutput {
+  result?: { language?: string };
+  transcription: WhisperSegment[];
+}
+
+export class WhisperCppProvider implements TranscriptionProvider {
+  readonly name = 'whisper-cpp';
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    const binary = process.env.WHISPER_CPP_PATH || 'whisper-cli';
+    const model = process.env.WHISPER_MODEL_PATH;
+    if (!model) {
+      throw new Error('WHISPER_MODEL_PATH is not set');
+    }
+
+    const outputPrefix = `${request.audioPath}.whisper`;
+
+    await execFileAsync(
+      binary,
+      [
+        '--model', model,
+        '--file', request.audioPath,
+        '--language', request.language,
+        '--threads', process.env.WHISPER_THREADS || '2',
+        '--max-len', '1',
+        '--split-on-word',
+        '--output-json-full',
+        '--output-file', outputPrefix,
+        '--no-prints',
+      ],
+      // Roughly real time on a small CPU model, with headroom for short clips
+      { timeout: Math.max(120, request.duration * 10) * 1000, maxBuffer: 10 * 1024 * 1024 }
+    );
+
+    const output = JSON.parse(await readFile(`${outputPrefix}.json`, 'utf8')) as WhisperOutput;
+
+    const words: CaptionWord[] = [];
+    for (const segment of output.transcription) {
+      const text = segment.text.trim();
+      if (!text) continue;
+
+      // Special tokens look like [_BEG_] or [_TT_150]
+      const tokens = (segment.tokens ?? []).filter((token) => !token.text.startsWith('[_'));
+      const confidence = tokens.length
+        ? tokens.reduce((sum, token) => sum + (token.p ?? 0), 0) / tokens.length
+        : undefined;
+
+      words.push({
+        text,
+        start: segment.offsets.from / 1000,
+        end: segment.offsets.to / 1000,
+        ...(confidence !== undefined && { confidence: Math.round(confidence * 1000) / 1000 }),
+      });
+    }
+
+    return { language: output.result?.language || request.language, words };
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Zip archives of local files
+ * Entries are stored without compression: the bulk of a bundle is video, which does not compress
+ */
+
+import { createReadStream } from 'node:fs';
+import { open, stat } from 'node:fs/promises';
+import { crc32 } from 'node:zlib'; // Node 20.15+
+
+export interface ZipEntry {
+  name: string; // Path inside the archive, '/'-separated
+  path: string; // Local file
+}
+
+// Without the ZIP64 extension, sizes and offsets are 32-bit
+const MAX_ZIP_SIZE = 0xffffffff;
+const UTF8_NAMES = 0x0800;
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+async function fileCrc32(path: string): Promise<number> {
+  let crc = 0;
+  for await (const chunk of createReadStream(path)) {
+    crc = crc32(chunk as Buffer, crc);
+  }
+  return crc;
+}
+
+/**
+ * Write a zip archive of the given files to `output`
+ * Each file is read twice, once for its checksum and once to copy it, so nothing is held in memory
+ */
+export async function writeZip(output: string, entries: ZipEntry[]): Promise<number> {
+  const handle = await open(output, 'w');
+  const central: Buffer[] = [];
+  const modified = dosDateTime(new Date());
+  let offset = 0;
+
+  try {
+    for (const entry of entries) {
+      const name = Buffer.from(entry.name, 'utf8');
+      const { size } = await stat(entry.path);
+      const crc = await fileCrc32(entry.path);
+
+      if (offset + 30 + name.length + size > MAX_ZIP_SIZE) {
+        throw new Error('Zip archives over 4 GB are not supported');
+      }
+
+      const local = Buffer.alloc(30);
+      local.writeUInt32LE(0x04034b50, 0);
+      local.writeUInt16LE(20, 4); // Version needed to extract
+      local.writeUInt16LE(UTF8_NAMES, 6);
+      local.writeUInt16LE(0, 8); // Stored
+      local.writeUInt16LE(modified.time, 10);
+      local.writeUInt16LE(modified.date, 12);
+      local.writeUInt32LE(crc, 14);
+      local.writeUInt32LE(size, 18);
+      local.writeUInt32LE(size, 22);
+      local.writeUInt16LE(name.length, 26);
+      local.writeUInt16LE(0, 28); // Extra field length
+      await handle.write(Buffer.concat([local, name]));
+
+      for await (const chunk of createReadStream(entry.path)) {
+        await handle.write(chunk as Buffer);
+      }
+
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(20, 4); // Version made by
+      header.writeUInt16LE(20, 6);
+      header.writeUInt16LE(UTF8_NAMES, 8);
+      header.writeUInt16LE(0, 10);
+      header.writeUInt16LE(modified.time, 12);
+      header.writeUInt16LE(modified.date, 14);
+      header.writeUInt32LE(crc, 16);
+      header.writeUInt32LE(size, 20);
+      header.writeUInt32LE(size, 24);
+      header.writeUInt16LE(name.length, 28);
+      header.writeUInt32LE(offset, 42); // Extra, comment, disk and attributes stay zero
+      central.push(header, name);
+
+      offset += 30 + name.length + size;
+    }
+
+    const directory = Buffer.concat(central);
+    if (offset + directory.length + 22 > MAX_ZIP_SIZE) {
+      throw new Error('Zip archives over 4 GB are not supported');
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+    await handle.write(Buffer.concat([directory, end]));
+
+    return offset + directory.length + end.length;
+  } finally {
+    await handle.close();
+  }
+}
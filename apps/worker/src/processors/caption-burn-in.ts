@@ -0,0 +1,140 @@
+/**
+ * Caption Burn-in processor
+ * Renders a clip's caption cues into the video with libass, styled from the clip's CaptionStyle
+ * The un-captioned rendition is kept so captions can be re-burned after edits
+ */
+
+import { writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { Job, UnrecoverableError } from 'bullmq';
+import { prisma, Prisma } from '@ugc/database';
+import { queueClipBranding, queueClipTranscode } from '@ugc/queue';
+import type { CaptionBurnInJobData } from '@ugc/queue';
+import { resolveCaptionStyle } from '@ugc/shared';
+import type { CaptionStyle, Transcript } from '@ugc/shared';
+import { buildAssSubtitles } from '../lib/ass.js';
+import { updateClipMetadata } from '../lib/clip-metadata.js';
+import { burnSubtitles, probeVideo } from '../lib/ffmpeg.js';
+import { deleteFile, downloadToPath, generateMediaKey, uploadFromPath } from '../lib/s3.js';
+import { withTempDir } from '../lib/temp.js';
+import { deleteThumbnails, generateThumbnails, Thumbnails } from '../lib/thumbnails.js';
+
+interface ClipRendition {
+  key: string;
+  url: string;
+}
+
+export async function processCaptionBurnIn(job: Job<CaptionBurnInJobData>) {
+  const { clipId } = job.data;
+
+  const clip = await prisma.repurposedClip.findUnique({ where: { id: clipId } });
+  if (!clip) {
+    throw new UnrecoverableError(`Clip ${clipId} not found`);
+  }
+
+  const transcript = clip.transcriptJson as unknown as Transcript | null;
+  if (!transcript?.cues) {
+    throw new UnrecoverableError('Clip has no captions to burn in');
+  }
+
+  const metadata = (clip.metadata as Prisma.JsonObject | null) ?? {};
+
+  // Always render from the clean rendition so captions are never burned in twice
+  const clean =
+    (metadata.cleanRendition as unknown as ClipRendition | undefined) ??
+    (clip.storageKey && clip.storageUrl ? { key: clip.storageKey, url: clip.storageUrl } : undefined);
+  if (!clean) {
+    throw new UnrecoverableError('Clip has not been rendered yet');
+  }
+
+  const style = resolveCaptionStyle(clip.captionStyle as Partial<CaptionStyle> | null);
+
+  try {
+    const { storageKey, url, thumbnails } = await withTempDir('burn-in', async (dir) => {
+      const inputPath = join(dir, 'clean.mp4');
+      const subtitlesPath = join(dir, 'captions.ass');
+      const outputPath = join(dir, 'captioned.mp4');
+
+      await downloadToPath(clean.key, inputPath);
+      const probe = await probeVideo(inputPath);
+
+      await writeFile(subtitlesPath, buildAssSubtitles(transcript.cues, style, probe), 'utf8');
+
+      await burnSubtitles({
+        input: inputPath,
+        output: outputPath,
+        subtitles: subtitlesPath,
+        duration: probe.duration,
+        // Progress is advisory; a failed update must not become an unhandled rejection
+        onProgress: (fraction) =>
+          void job
+            .updateProgress(Math.floor(fraction * 90))
+            .catch((error) => console.error('Error reporting progress:', error)),
+      });
+
+      const key = generateMediaKey(clip.workspaceId, 'video', `${clip.id}-captioned.mp4`);
+      const uploaded = await uploadFromPath(key, outputPath, 'video/mp4');
+
+      // Posters should show the captions too
+      const captionedThumbnails = await generateThumbnails({
+        input: outputPath,
+        workDir: dir,
+        workspaceId: clip.workspaceId,
+        name: `${clip.id}-captioned`,
+        source: probe,
+        duration: probe.duration,
+      });
+
+      return { storageKey: key, url: uploaded.url, thumbnails: captionedThumbnails };
+    });
+
+    // Other jobs may have written to the clip's metadata during the render
+    const before = await updateClipMetadata(clip.id, {
+      set: { ...JSON.parse(JSON.stringify(thumbnails)), cleanRendition: { ...clean } },
+      remove: ['burnInError'],
+      data: {
+        storageKey,
+        storageUrl: url,
+        streamUrl: null, // Players fall back to the MP4 until the new stream is packaged
+        thumbnailUrl: thumbnails.poster.url,
+        captionBurnedIn: true,
+        captionStyle: JSON.parse(JSON.stringify(style)),
+      },
+    });
+
+    await deleteThumbnails({ poster: before?.poster, preview: before?.preview } as unknown as Partial<Thumbnails>);
+    // A re-burn replaces the previous captioned video; the clean rendition is never deleted
+    if (clip.captionBurnedIn && clip.storageKey && clip.storageKey !== clean.key) {
+      await deleteFile(clip.storageKey).catch((error) => console.error('Error deleting captioned rendition:', error));
+    }
+    await queueClipTranscode(clip.workspaceId, clip.id);
+    // The branded version is rebuilt from the captioned clip
+    if (metadata.branding) {
+      await queueClipBranding(clip.workspaceId, clip.id);
+    }
+
+    await job.updateProgress(100);
+    return { success: true, clipId, storageKey };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const attempts = job.opts.attempts ?? 1;
+    const isFinalAttempt = error instanceof UnrecoverableError || job.attemptsMade + 1 >= attempts;
+
+    if (isFinalAttempt) {
+      await updateClipMetadata(clip.id, {
+        set: { burnInError: { message: message.slice(0, 2000), failedAt: new Date().toISOString() } },
+      });
+
+      // Clip generation left packaging and branding to this job, so the clean rendition gets them
+      // instead; a failed re-burn keeps the captioned video it already had
+      if (!clip.captionBurnedIn) {
+        await queueClipTranscode(clip.workspaceId, clip.id);
+        if (metadata.branding) {
+          await queueClipBranding(clip.workspaceId, clip.id);
+        }
+      }
+    }
+
+    throw error;
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Caption Generation processor
+ * Transcribes a clip's audio, writes SRT and WebVTT tracks to storage,
+ * stores the word-level transcript on the RepurposedClip and records it as a caption revision
+ */
+
+import { join } from 'node:path';
+import { Job, UnrecoverableError } from 'bullmq';
+import { prisma, Prisma } from '@ugc/database';
+import { queueCaptionBurnIn, queueClipBranding, queueClipTranscode } from '@ugc/queue';
+import type { CaptionGenerationJobData } from '@ugc/queue';
+import { groupWordsIntoCues, toSrt, toVtt } from '@ugc/shared';
+import type { CaptionCue, CaptionWord, Transcript } from '@ugc/shared';
+import { updateClipMetadata } from '../lib/clip-metadata.js';
+import { extractAudio, probeVideo } from '../lib/ffmpeg.js';
+import { downloadToPath, generateMediaKey, uploadFile } from '../lib/s3.js';
+import { withTempDir } from '../lib/temp.js';
+import { getTranscriptionProvider } from '../lib/transcription/index.js';
+
+// Versions to try before giving up when edits keep taking the next one first
+const MAX_VERSION_ATTEMPTS = 3;
+
+/**
+ * Record a transcription as the clip's next caption revision
+ * An edit saved in between takes the same version number; the unique constraint rejects this
+ * one, and it is recorded as the version after that instead
+ */
+async function createTranscriptionRevision(
+  workspaceId: string,
+  clipId: string,
+  language: string,
+  cues: CaptionCue[]
+) {
+  for (let attempt = 1; ; attempt++) {
+    const latest = await prisma.captionRevision.findFirst({
+      where: { clipId },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+
+    try {
+      return await prisma.captionRevision.create({
+        data: {
+          workspaceId,
+          clipId,
+          version: (latest?.version ?? 0) + 1,
+          source: 'TRANSCRIPTION',
+          language,
+          cuesJson: JSON.parse(JSON.stringify(cues)),
+        },
+      });
+    } catch (error) {
+      const versionTaken =
+        error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+      if (!versionTaken || attempt >= MAX_VERSION_ATTEMPTS) throw error;
+    }
+  }
+}
+
+export async function processCaptionGeneration(job: Job<CaptionGenerationJobData>) {
+  const { clipId, language, burnIn } = job.data;
+
+  const clip = await prisma.repurposedClip.findUnique({ where: { id: clipId } });
+  if (!clip) {
+    throw new UnrecoverableError(`Clip ${clipId} not found`);
+  }
+  if (!clip.storageKey) {
+    throw new UnrecoverableError('Clip has not been rendered yet');
+  }
+
+  const provider = getTranscriptionProvider();
+
+  try {
+    const result = await withTempDir('captions', async (dir) => {
+      const videoPath = join(dir, 'clip.mp4');
+      await downloadToPath(clip.storageKey!, videoPath);
+      await job.updateProgress(10);
+
+      const probe = await probeVideo(videoPath);
+
+      // Silent clips get an empty track rather than failing
+      if (!probe.hasAudio) {
+        return { language, words: [] as CaptionWord[] };
+      }
+
+      const audioPath = join(dir, 'audio.wav');
+      await extractAudio(videoPath, audioPath);
+      await job.updateProgress(25);
+
+      return provider.transcribe({ audioPath, language, duration: probe.duration });
+    });
+    await job.updateProgress(80);
+
+    const cues = groupWordsIntoCues(result.words);
+    const transcript: Transcript = {
+      language: result.language,
+      provider: provider.name,
+      words: result.words,
+      cues,
+    };
+
+    const srtKey = generateMediaKey(clip.workspaceId, 'caption', `${clip.id}.srt`);
+    const vttKey = generateMediaKey(clip.workspaceId, 'caption', `${clip.id}.vtt`);
+    const [srtUrl, vttUrl] = await Promise.all([
+      uploadFile(srtKey, toSrt(cues), 'application/x-subrip'),
+      uploadFile(vttKey, toVtt(cues), 'text/vtt'),
+    ]);
+
+    await createTranscriptionRevision(clip.workspaceId, clip.id, transcript.language, cues);
+
+    // The transcode and branding jobs write to the clip while it is transcribed
+    await updateClipMetadata(clip.id, {
+      remove: ['captionError'],
+      data: {
+        // Browsers play WebVTT natively, so it is the primary track
+        captionTrackUrl: vttUrl,
+        transcriptJson: JSON.parse(
+          JSON.stringify({
+            ...transcript,
+            tracks: { srt: { key: srtKey, url: srtUrl }, vtt: { key: vttKey, url: vttUrl } },
+            generatedAt: new Date().toISOString(),
+          })
+        ),
+      },
+    });
+
+    if (burnIn) {
+      await queueCaptionBurnIn(clip.workspaceId, clip.id);
+    }
+
+    await job.updateProgress(100);
+    return { success: true, clipId, cues: cues.length, language: transcript.language };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const attempts = job.opts.attempts ?? 1;
+    const isFinalAttempt = error instanceof UnrecoverableError || job.attemptsMade + 1 >= attempts;
+
+    // The clip itself is still usable, so only the caption failure is recorded
+    if (isFinalAttempt) {
+      await updateClipMetadata(clip.id, {
+        set: {
+          captionError: {
+            message: message.slice(0, 2000),
+            provider: provider.name,
+            failedAt: new Date().toISOString(),
+          },
+        },
+      });
+
+      // Packaging and branding were left to the burn-in, which will not run now, so they are
+      // done with the clean rendition instead
+      if (burnIn && !clip.captionBurnedIn) {
+        await queueClipTranscode(clip.workspaceId, clip.id);
+        if ((clip.metadata as Prisma.JsonObject | null)?.branding) {
+          await queueClipBranding(clip.workspaceId, clip.id);
+        }
+      }
+    }
+
+    throw error;
+  }
+}
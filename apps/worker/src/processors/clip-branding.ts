@@ -0,0 +1,197 @@
+/**
+ * Clip Branding processor
+ * Renders the paid social version of a clip: intro bumper, the clip, an end card with the primary
+ * product and CTA, then the outro bumper. The clip itself is left untouched; the branded MP4 is
+ * recorded in its metadata and re-rendered whenever captions are burned in again.
+ */
+
+import { join } from 'node:path';
+import { Job, UnrecoverableError } from 'bullmq';
+import { prisma, Prisma } from '@ugc/database';
+import type { ClipBranding, ClipBrandingJobData } from '@ugc/queue';
+import { formatCurrency } from '@ugc/shared';
+import type { BrandedRendition } from '@ugc/shared';
+import { BrandedSegment, joinSegments, renderEndCard } from '../lib/branding.js';
+import { updateClipMetadata } from '../lib/clip-metadata.js';
+import { probeVideo } from '../lib/ffmpeg.js';
+import { downloadImage } from '../lib/overlays.js';
+import { deleteFile, downloadToPath, generateMediaKey, uploadFromPath } from '../lib/s3.js';
+import { withTempDir } from '../lib/temp.js';
+
+/**
+ * Find a bumper video, which must still be a READY video in the clip's workspace
+ */
+async function loadBumper(workspaceId: string, mediaAssetId: string, label: string) {
+  const asset = await prisma.mediaAsset.findFirst({
+    where: { id: mediaAssetId, workspaceId, type: 'VIDEO', status: 'READY' },
+  });
+  if (!asset?.storageKey) {
+    throw new UnrecoverableError(`The ${label} bumper is missing or not ready`);
+  }
+  return asset;
+}
+
+/**
+ * The primary product tagged on the clip, falling back to the one tagged on its UGC post
+ */
+async function findPrimaryProduct(clipId: string, ugcPostId: string | null) {
+  const clipMap = await prisma.contentProductMap.findFirst({
+    where: { repurposedClipId: clipId, isPrimary: true },
+    include: { product: true },
+    orderBy: { createdAt: 'desc' },
+  });
+  if (clipMap || !ugcPostId) {
+    return clipMap?.product ?? null;
+  }
+
+  const postMap = await prisma.contentProductMap.findFirst({
+    where: { ugcPostId, isPrimary: true },
+    include: { product: true },
+    orderBy: { createdAt: 'desc' },
+  });
+  return postMap?.product ?? null;
+}
+
+export async function processClipBranding(job: Job<ClipBrandingJobData>) {
+  const { clipId } = job.data;
+
+  const clip = await prisma.repurposedClip.findUnique({
+    where: { id: clipId },
+    include: {
+      sourceMediaAsset: { select: { ugcPostId: true } },
+      workspace: { select: { logoUrl: true } },
+    },
+  });
+  if (!clip) {
+    throw new UnrecoverableError(`Clip ${clipId} not found`);
+  }
+
+  const metadata = (clip.metadata as Prisma.JsonObject | null) ?? {};
+  const branding = metadata.branding as unknown as ClipBranding | undefined;
+  if (!branding) {
+    throw new UnrecoverableError('Clip has no branding settings');
+  }
+  if (!clip.storageKey) {
+    throw new UnrecoverableError('Clip has not been rendered yet');
+  }
+
+  try {
+    const intro = branding.introMediaAssetId
+      ? await loadBumper(clip.workspaceId, branding.introMediaAssetId, 'intro')
+      : null;
+    const outro = branding.outroMediaAssetId
+      ? await loadBumper(clip.workspaceId, branding.outroMediaAssetId, 'outro')
+      : null;
+    const product = branding.endCard ? await findPrimaryProduct(clip.id, clip.sourceMediaAsset.ugcPostId) : null;
+
+    const rendition = await withTempDir('branding', async (dir) => {
+      const clipPath = join(dir, 'clip.mp4');
+      await downloadToPath(clip.storageKey!, clipPath);
+      const probe = await probeVideo(clipPath);
+      const frame = { width: probe.width, height: probe.height };
+
+      const bumper = async (storageKey: string, name: string): Promise<BrandedSegment> => {
+        const path = join(dir, `${name}.mp4`);
+        await downloadToPath(storageKey, path);
+        const bumperProbe = await probeVideo(path);
+        return { path, duration: bumperProbe.duration, hasAudio: bumperProbe.hasAudio };
+      };
+
+      const segments: BrandedSegment[] = [];
+      if (intro) {
+        segments.push(await bumper(intro.storageKey!, 'intro'));
+      }
+      segments.push({ path: clipPath, duration: probe.duration, hasAudio: probe.hasAudio });
+
+      if (branding.endCard) {
+        // A missing image leaves a gap on the card rather than failing the render
+        const image = async (url: string | null | undefined, name: string) => {
+          if (!url) return undefined;
+          const path = join(dir, name);
+          try {
+            await downloadImage(url, path);
+            return path;
+          } catch (error) {
+            console.warn(`End card ${name} for clip ${clip.id} could not be downloaded:`, error);
+            return undefined;
+          }
+        };
+
+        const endCardPath = join(dir, 'end-card.mp4');
+        await renderEndCard({
+          output: endCardPath,
+          subtitles: join(dir, 'end-card.ass'),
+          frame,
+          duration: branding.endCard.duration,
+          text: {
+            title: product?.title,
+            price: product?.price ? formatCurrency(Number(product.price), product.currency) : undefined,
+            cta: branding.endCard.cta,
+          },
+          colors: branding.endCard,
+          logoPath: await image(clip.workspace.logoUrl, 'logo'),
+          productImagePath: await image(product?.imageUrl, 'product'),
+        });
+        segments.push({ path: endCardPath, duration: branding.endCard.duration, hasAudio: true });
+      }
+
+      if (outro) {
+        segments.push(await bumper(outro.storageKey!, 'outro'));
+      }
+
+      const outputPath = join(dir, 'branded.mp4');
+      const duration = await joinSegments({
+        segments,
+        output: outputPath,
+        frame,
+        // Progress is advisory; a failed update must not become an unhandled rejection
+        onProgress: (fraction) =>
+          void job
+            .updateProgress(Math.floor(fraction * 95))
+            .catch((error) => console.error('Error reporting progress:', error)),
+      });
+
+      const key = generateMediaKey(clip.workspaceId, 'video', `${clip.id}-branded.mp4`);
+      const uploaded = await uploadFromPath(key, outputPath, 'video/mp4');
+
+      const branded: BrandedRendition = {
+        key,
+        url: uploaded.url,
+        duration: Math.round(duration * 100) / 100,
+        ...(intro && { introMediaAssetId: intro.id }),
+        ...(outro && { outroMediaAssetId: outro.id }),
+        ...(branding.endCard && {
+          endCard: { productId: product?.id ?? null, duration: branding.endCard.duration },
+        }),
+        renderedAt: new Date().toISOString(),
+      };
+      return branded;
+    });
+
+    // The transcode and caption jobs may have written their own keys since the clip was read
+    const before = await updateClipMetadata(clip.id, {
+      set: { branded: JSON.parse(JSON.stringify(rendition)) },
+      remove: ['brandingError'],
+    });
+
+    const previous = before?.branded as unknown as BrandedRendition | undefined;
+    if (previous?.key && previous.key !== rendition.key) {
+      await deleteFile(previous.key).catch((error) => console.error('Error deleting branded rendition:', error));
+    }
+
+    await job.updateProgress(100);
+    return { success: true, clipId, storageKey: rendition.key };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const attempts = job.opts.attempts ?? 1;
+    const isFinalAttempt = error instanceof UnrecoverableError || job.attemptsMade + 1 >= attempts;
+
+    if (isFinalAttempt) {
+      await updateClipMetadata(clip.id, {
+        set: { brandingError: { message: message.slice(0, 2000), failedAt: new Date().toISOString() } },
+      });
+    }
+
+    throw error;
+  }
+}
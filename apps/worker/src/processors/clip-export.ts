@@ -0,0 +1,236 @@
+/**
+ * Clip Export processor
+ * Bundles the selected clips into one zip for media buyers: the renditions, their SRT and WebVTT
+ * captions and a manifest.csv with the creator, rights expiry, products and a UTM link per clip.
+ * Every clip is checked against the requested ad placement specs; the results go into the manifest
+ * and the export record.
+ */
+
+import { stat, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { Job, UnrecoverableError } from 'bullmq';
+import { prisma, Prisma } from '@ugc/database';
+import type { ClipExportJobData } from '@ugc/queue';
+import { appendUtmToUrl, toCsv, validateClipExport } from '@ugc/shared';
+import type { BrandedRendition, ClipExportValidation, ExportPlatform } from '@ugc/shared';
+import { probeVideo } from '../lib/ffmpeg.js';
+import { downloadToPath, generateMediaKey, uploadFromPath } from '../lib/s3.js';
+import { withTempDir } from '../lib/temp.js';
+import { writeZip, ZipEntry } from '../lib/zip.js';
+
+interface CaptionTracks {
+  srt?: { key: string; url: string };
+  vtt?: { key: string; url: string };
+}
+
+const FORMAT_NAMES: Record<string, string> = {
+  VERTICAL_9_16: '9x16',
+  SQUARE_1_1: '1x1',
+  HORIZONTAL_16_9: '16x9',
+};
+
+const MANIFEST_COLUMNS = [
+  'file',
+  'clip_id',
+  'format',
+  'duration_s',
+  'width',
+  'height',
+  'bitrate_kbps',
+  'file_size_bytes',
+  'creator',
+  'platform',
+  'post_url',
+  'rights_status',
+  'rights_expires_at',
+  'products',
+  'utm_link',
+  'captions_srt',
+  'captions_vtt',
+];
+
+const productMapSelect = {
+  select: { isPrimary: true, product: { select: { title: true, url: true } } },
+  orderBy: { createdAt: 'asc' },
+} satisfies Prisma.ContentProductMapFindManyArgs;
+
+function fileStem(index: number, handle: string | undefined, format: string, duration: number | null): string {
+  const creator = (handle ?? 'upload').replace(/^@+/, '').replace(/[^a-zA-Z0-9._-]/g, '_');
+  const seconds = duration ? `-${Math.round(duration)}s` : '';
+  return `${String(index + 1).padStart(2, '0')}-${creator}-${FORMAT_NAMES[format] ?? format}${seconds}`;
+}
+
+export async function processClipExport(job: Job<ClipExportJobData>) {
+  const { exportId } = job.data;
+
+  const clipExport = await prisma.clipExport.findUnique({
+    where: { id: exportId },
+    include: { campaign: true },
+  });
+  if (!clipExport) {
+    throw new UnrecoverableError(`Export ${exportId} not found`);
+  }
+
+  await prisma.clipExport.update({
+    where: { id: exportId },
+    data: { status: 'PROCESSING', progress: 0, errorMessage: null },
+  });
+
+  try {
+    const found = await prisma.repurposedClip.findMany({
+      where: { id: { in: clipExport.clipIds }, workspaceId: clipExport.workspaceId },
+      include: {
+        contentProductMaps: productMapSelect,
+        sourceMediaAsset: {
+          select: {
+            ugcPost: {
+              select: {
+                creatorHandle: true,
+                platform: true,
+                postUrl: true,
+                rightsRequest: { select: { status: true, expiresAt: true } },
+                contentProductMaps: productMapSelect,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    // Keep the order the clips were selected in
+    const clips = clipExport.clipIds
+      .map((id) => found.find((clip) => clip.id === id))
+      .filter((clip): clip is (typeof found)[number] => !!clip?.storageKey);
+    if (clips.length === 0) {
+      throw new UnrecoverableError('None of the clips can be exported');
+    }
+
+    const platforms = clipExport.platforms as ExportPlatform[];
+    const campaign = clipExport.campaign;
+
+    const bundle = await withTempDir('export', async (dir) => {
+      const entries: ZipEntry[] = [];
+      const validations: ClipExportValidation[] = [];
+      const rows: (string | number | null | undefined)[][] = [
+        [...MANIFEST_COLUMNS, ...platforms.map((platform) => platform.toLowerCase())],
+      ];
+
+      for (const [index, clip] of clips.entries()) {
+        const post = clip.sourceMediaAsset.ugcPost;
+        const stem = fileStem(index, post?.creatorHandle, clip.format, clip.duration);
+        const metadata = (clip.metadata as Prisma.JsonObject | null) ?? {};
+        const branded = clipExport.useBranded
+          ? (metadata.branded as unknown as BrandedRendition | undefined)
+          : undefined;
+
+        const videoName = `clips/${stem}.mp4`;
+        const videoPath = join(dir, `${stem}.mp4`);
+        await downloadToPath(branded?.key ?? clip.storageKey!, videoPath);
+        const probe = await probeVideo(videoPath);
+        const { size } = await stat(videoPath);
+        entries.push({ name: videoName, path: videoPath });
+
+        const results = validateClipExport({ ...probe, fileSize: size }, platforms);
+        validations.push({ clipId: clip.id, file: videoName, results });
+
+        // Burned-in or not, the sidecar tracks let placements show their own captions
+        const tracks = (clip.transcriptJson as { tracks?: CaptionTracks } | null)?.tracks;
+        const captions: Record<'srt' | 'vtt', string | undefined> = { srt: undefined, vtt: undefined };
+        for (const type of ['srt', 'vtt'] as const) {
+          const track = tracks?.[type];
+          if (!track) continue;
+          const path = join(dir, `${stem}.${type}`);
+          await downloadToPath(track.key, path);
+          captions[type] = `captions/${stem}.${type}`;
+          entries.push({ name: captions[type]!, path });
+        }
+
+        // Products tagged on the clip win over the ones tagged on its post
+        const productMaps =
+          clip.contentProductMaps.length > 0 ? clip.contentProductMaps : (post?.contentProductMaps ?? []);
+        const primary = productMaps.find((map) => map.isPrimary) ?? productMaps[0];
+        const utmLink = primary
+          ? appendUtmToUrl(primary.product.url, {
+              utmSource: campaign ? campaign.utmSource ?? undefined : 'ugc',
+              utmMedium: campaign ? campaign.utmMedium ?? undefined : 'paid_social',
+              utmCampaign: campaign?.utmCampaign,
+              utmContent: campaign?.utmContent ?? clip.id,
+            })
+          : undefined;
+
+        rows.push([
+          videoName,
+          clip.id,
+          clip.format,
+          Math.round(probe.duration * 100) / 100,
+          probe.width,
+          probe.height,
+          probe.bitrate ? Math.round(probe.bitrate / 1000) : undefined,
+          size,
+          post ? `@${post.creatorHandle.replace(/^@+/, '')}` : undefined,
+          post?.platform,
+          post?.postUrl,
+          post?.rightsRequest?.status,
+          post?.rightsRequest?.expiresAt?.toISOString(),
+          productMaps.map((map) => map.product.title).join('; '),
+          utmLink,
+          captions.srt,
+          captions.vtt,
+          ...platforms.map((platform) =>
+            results[platform].passed ? 'pass' : `fail: ${results[platform].issues.join('; ')}`
+          ),
+        ]);
+
+        await job.updateProgress(Math.floor(((index + 1) / clips.length) * 80));
+      }
+
+      const manifestPath = join(dir, 'manifest.csv');
+      await writeFile(manifestPath, toCsv(rows), 'utf8');
+      entries.push({ name: 'manifest.csv', path: manifestPath });
+
+      const zipPath = join(dir, 'bundle.zip');
+      const fileSize = await writeZip(zipPath, entries);
+      await job.updateProgress(90);
+
+      const key = generateMediaKey(clipExport.workspaceId, 'export', `${clipExport.id}.zip`);
+      await uploadFromPath(key, zipPath, 'application/zip');
+
+      return { key, fileSize, validations };
+    });
+
+    await prisma.clipExport.update({
+      where: { id: exportId },
+      data: {
+        status: 'COMPLETED',
+        progress: 100,
+        storageKey: bundle.key,
+        fileSize: bundle.fileSize,
+        validationJson: JSON.parse(JSON.stringify(bundle.validations)),
+        completedAt: new Date(),
+      },
+    });
+
+    await job.updateProgress(100);
+    return {
+      success: true,
+      exportId,
+      clips: clips.length,
+      failedChecks: bundle.validations.filter((validation) =>
+        Object.values(validation.results).some((result) => !result.passed)
+      ).length,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const attempts = job.opts.attempts ?? 1;
+    const isFinalAttempt = error instanceof UnrecoverableError || job.attemptsMade + 1 >= attempts;
+
+    await prisma.clipExport.update({
+      where: { id: exportId },
+      data: isFinalAttempt
+        ? { status: 'FAILED', errorMessage: message.slice(0, 2000), completedAt: new Date() }
+        : { status: 'QUEUED', errorMessage: message.slice(0, 2000) },
+    });
+
+    throw error;
+  }
+}
@@ -0,0 +1,417 @@
+/**
+ * Clip Generation processor
+ * Picks the best segment for each requested duration, reframes it for every format (with the workspace
+ * logo and the creator credit on top when requested), remixes its audio if asked, uploads each output
+ * and records it as a RepurposedClip.
+ * With branding, each clip is also queued for a paid social version with bumpers and an end card.
+ * Outputs fail independently: a job with some failed outputs ends as PARTIAL, and can be cancelled
+ * while it runs.
+ */
+
+import { writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { Job, UnrecoverableError } from 'bullmq';
+import { prisma } from '@ugc/database';
+import { queueCaptionGeneration, queueClipBranding, queueClipTranscode } from '@ugc/queue';
+import type { ClipFormat, ClipGenerationJobData } from '@ugc/queue';
+import { formatCreatorCredit } from '@ugc/shared';
+import type { RepurposeOutput, RepurposeOutputSummary } from '@ugc/shared';
+import { buildCreditSubtitles } from '../lib/ass.js';
+import type { ClipAudioOptions } from '../lib/audio.js';
+import { JobCancelledError, throwIfCancelled } from '../lib/cancellation.js';
+import { FORMAT_DIMENSIONS, probeVideo, renderClip } from '../lib/ffmpeg.js';
+import { analyzeMedia, MediaAnalysis, RankedWindow, rankWindows } from '../lib/highlights.js';
+import { downloadImage, WatermarkOverlay } from '../lib/overlays.js';
+import { UnsafeUrlError } from '../lib/public-fetch.js';
+import { cropFilter, CropPath, planManualCrop, planSmartCrop, sampleFrames, SampledFrames } from '../lib/reframe.js';
+import { downloadToPath, generateMediaKey, uploadFromPath } from '../lib/s3.js';
+import { withTempDir } from '../lib/temp.js';
+import { generateThumbnails } from '../lib/thumbnails.js';
+
+interface PlannedOutput {
+  format: ClipFormat;
+  duration: number;
+}
+
+function isFinalAttempt(job: Job): boolean {
+  return job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+}
+
+/**
+ * Expand durations × formats into outputs, clamping to the source length
+ * Durations that collapse to the same length after clamping are only rendered once
+ */
+function planOutputs(durations: number[], formats: ClipFormat[], sourceDuration: number): PlannedOutput[] {
+  const outputs: PlannedOutput[] = [];
+  const seen = new Set<string>();
+
+  for (const duration of durations) {
+    const clamped = Math.min(duration, Math.floor(sourceDuration * 100) / 100);
+    if (clamped <= 0) continue;
+
+    for (const format of formats) {
+      const key = `${format}:${clamped}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      outputs.push({ format, duration: clamped });
+    }
+  }
+
+  return outputs;
+}
+
+export async function processClipGeneration(job: Job<ClipGenerationJobData>) {
+  const { repurposeJobId, sourceMediaAssetId, params } = job.data;
+
+  const repurposeJob = await prisma.repurposeJob.findUnique({
+    where: { id: repurposeJobId },
+    include: {
+      sourceMediaAsset: { include: { ugcPost: { select: { creatorHandle: true, platform: true } } } },
+      workspace: { select: { logoUrl: true } },
+    },
+  });
+
+  if (!repurposeJob) {
+    throw new UnrecoverableError(`Repurpose job ${repurposeJobId} not found`);
+  }
+
+  if (repurposeJob.status === 'CANCELLED') {
+    return { success: false, repurposeJobId, cancelled: true };
+  }
+
+  const source = repurposeJob.sourceMediaAsset;
+  if (source.id !== sourceMediaAssetId || !source.storageKey) {
+    throw new UnrecoverableError('Source media asset is missing from storage');
+  }
+
+  const logoUrl = repurposeJob.workspace.logoUrl;
+  if (params.watermark && !logoUrl) {
+    throw new UnrecoverableError('The workspace has no logo to use as a watermark');
+  }
+
+  const musicBedId = params.audio?.musicBedMediaAssetId;
+  const musicBed = musicBedId
+    ? await prisma.mediaAsset.findFirst({
+        where: { id: musicBedId, workspaceId: repurposeJob.workspaceId, type: 'AUDIO', status: 'READY' },
+      })
+    : null;
+  if (musicBedId && !musicBed?.storageKey) {
+    throw new UnrecoverableError('The music bed is missing or not ready');
+  }
+
+  // Uploads have no creator to credit, so they are rendered without the credit line
+  const credit =
+    params.attribution && source.ugcPost
+      ? formatCreatorCredit(source.ugcPost.creatorHandle, source.ugcPost.platform, params.attribution.showPlatform)
+      : undefined;
+
+  // The job may have been cancelled since it was read
+  const started = await prisma.repurposeJob.updateMany({
+    where: { id: repurposeJobId, status: { not: 'CANCELLED' } },
+    data: {
+      status: 'PROCESSING',
+      startedAt: repurposeJob.startedAt ?? new Date(),
+      errorMessage: null,
+    },
+  });
+  if (started.count === 0) {
+    return { success: false, repurposeJobId, cancelled: true };
+  }
+
+  // Status of every output, kept outside the render loop so failures and cancellations can record it
+  let summaryOutputs: RepurposeOutput[] = [];
+  const buildSummary = (): RepurposeOutputSummary => ({
+    totalOutputs: summaryOutputs.length,
+    completedOutputs: summaryOutputs.filter((entry) => entry.status === 'completed').length,
+    failedOutputs: summaryOutputs.filter((entry) => entry.status === 'failed').length,
+    outputs: summaryOutputs.map((entry) => ({ ...entry })),
+  });
+
+  try {
+    const summary = await withTempDir('clips', async (dir) => {
+      const sourcePath = join(dir, 'source');
+      await downloadToPath(source.storageKey!, sourcePath);
+      const probe = await probeVideo(sourcePath);
+
+      const outputs = planOutputs(params.durations, params.formats, probe.duration);
+      if (outputs.length === 0) {
+        throw new UnrecoverableError('No clips can be generated from this source');
+      }
+
+      let watermark: WatermarkOverlay | undefined;
+      if (params.watermark && logoUrl) {
+        const logoPath = join(dir, 'logo');
+        try {
+          await downloadImage(logoUrl, logoPath);
+        } catch (error) {
+          if (error instanceof UnsafeUrlError) throw new UnrecoverableError(`Logo cannot be downloaded: ${error.message}`);
+          throw error;
+        }
+        watermark = { ...params.watermark, path: logoPath };
+      }
+
+      let audio: ClipAudioOptions | undefined;
+      if (params.audio) {
+        audio = { ...params.audio, hasAudio: probe.hasAudio };
+        if (musicBed?.storageKey) {
+          audio.musicBedPath = join(dir, 'music');
+          await downloadToPath(musicBed.storageKey, audio.musicBedPath);
+        }
+      }
+
+      // Every format of a duration shares the same segment
+      const strategy = params.strategy ?? 'first';
+      const analysis: MediaAnalysis =
+        strategy === 'first'
+          ? { duration: probe.duration, sceneCuts: [], loudness: [] }
+          : await analyzeMedia(sourcePath, probe.duration, probe.hasAudio);
+      const segments = new Map<number, RankedWindow>();
+      for (const output of outputs) {
+        if (!segments.has(output.duration)) {
+          segments.set(output.duration, rankWindows(analysis, output.duration, strategy)[0]);
+        }
+      }
+
+      // Frames sampled for smart reframing, shared by every format of a segment
+      const sampledSegments = new Map<number, SampledFrames>();
+
+      const planCrop = async (output: PlannedOutput, segment: RankedWindow): Promise<CropPath> => {
+        const target = FORMAT_DIMENSIONS[output.format];
+        if (params.focalPoint) {
+          return planManualCrop(probe, target, params.focalPoint);
+        }
+
+        let sampled = sampledSegments.get(output.duration);
+        if (!sampled) {
+          sampled = await sampleFrames(
+            sourcePath,
+            join(dir, `frames-${output.duration}.rgb`),
+            segment.start,
+            output.duration,
+            probe
+          );
+          sampledSegments.set(output.duration, sampled);
+        }
+        return planSmartCrop(sampled, probe, target);
+      };
+
+      // Clips from an earlier attempt or run of this job are kept, so a retry only renders what is missing
+      const existingClips = await prisma.repurposedClip.findMany({
+        where: { repurposeJobId, status: 'READY' },
+      });
+
+      summaryOutputs = outputs.map((output) => ({ ...output, status: 'pending' }));
+      let lastReported = -1;
+
+      const reportProgress = async (completed: number, fraction: number = 0) => {
+        const progress = Math.floor(((completed + fraction) / outputs.length) * 100);
+        if (progress === lastReported) return;
+        lastReported = progress;
+        await job.updateProgress(progress);
+        await prisma.repurposeJob.update({
+          where: { id: repurposeJobId },
+          data: { progress, outputSummaryJson: JSON.parse(JSON.stringify(buildSummary())) },
+        });
+      };
+
+      const renderOutput = async (output: PlannedOutput, index: number) => {
+        const segment = segments.get(output.duration)!;
+        const startTime = segment.start;
+        const outputPath = join(dir, `clip-${index}.mp4`);
+        const crop = await planCrop(output, segment);
+
+        let creditPath: string | undefined;
+        if (credit && params.attribution) {
+          creditPath = join(dir, `credit-${index}.ass`);
+          const frame = FORMAT_DIMENSIONS[output.format];
+          await writeFile(creditPath, buildCreditSubtitles(credit, params.attribution, frame, output.duration), 'utf8');
+        }
+
+        const dimensions = await renderClip({
+          input: sourcePath,
+          output: outputPath,
+          start: startTime,
+          duration: output.duration,
+          format: output.format,
+          source: probe,
+          crop: cropFilter(crop),
+          watermark,
+          subtitles: creditPath,
+          audio,
+          // Progress is advisory; a failed update must not become an unhandled rejection
+          onProgress: (fraction) =>
+            void reportProgress(index, fraction).catch((error) =>
+              console.error('Error reporting progress:', error)
+            ),
+        });
+
+        const storageKey = generateMediaKey(
+          repurposeJob.workspaceId,
+          'video',
+          `${repurposeJobId}-${output.format.toLowerCase()}-${output.duration}s.mp4`
+        );
+        const { url } = await uploadFromPath(storageKey, outputPath, 'video/mp4');
+
+        const thumbnails = await generateThumbnails({
+          input: outputPath,
+          workDir: dir,
+          workspaceId: repurposeJob.workspaceId,
+          name: `${repurposeJobId}-${output.format.toLowerCase()}-${output.duration}s`,
+          source: dimensions,
+          duration: output.duration,
+        });
+
+        const clip = await prisma.repurposedClip.create({
+          data: {
+            workspaceId: repurposeJob.workspaceId,
+            sourceMediaAssetId,
+            repurposeJobId,
+            storageKey,
+            storageUrl: url,
+            format: output.format,
+            duration: output.duration,
+            width: dimensions.width,
+            height: dimensions.height,
+            startTime,
+            endTime: startTime + output.duration,
+            thumbnailUrl: thumbnails.poster.url,
+            // Style the caption worker will use for this clip
+            captionStyle: params.captionStyle ? JSON.parse(JSON.stringify(params.captionStyle)) : undefined,
+            metadata: {
+              selection: { strategy, score: segment.score, reasons: segment.reasons },
+              crop: JSON.parse(JSON.stringify(crop)),
+              ...(params.watermark && { watermark: JSON.parse(JSON.stringify(params.watermark)) }),
+              ...(params.audio && { audio: JSON.parse(JSON.stringify(params.audio)) }),
+              ...(credit && { attribution: { text: credit, ...JSON.parse(JSON.stringify(params.attribution)) } }),
+              // Settings the branding worker renders the paid social version with
+              ...(params.branding && { branding: JSON.parse(JSON.stringify(params.branding)) }),
+              ...JSON.parse(JSON.stringify(thumbnails)),
+            },
+            status: 'READY',
+          },
+        });
+
+        // Burning captions in needs a transcript first, so it is queued by the caption job
+        if (params.generateCaptions || params.burnInCaptions) {
+          await queueCaptionGeneration(
+            clip.workspaceId,
+            clip.id,
+            params.captionLanguage ?? 'en',
+            params.burnInCaptions
+          );
+        }
+        // The burn-in job packages and brands the captioned video instead, or the caption job
+        // packages the clean one if it cannot transcribe the clip
+        if (!params.burnInCaptions) {
+          await queueClipTranscode(clip.workspaceId, clip.id);
+          if (params.branding) {
+            await queueClipBranding(clip.workspaceId, clip.id);
+          }
+        }
+
+        return { clipId: clip.id, startTime, endTime: startTime + output.duration };
+      };
+
+      // One failed output does not stop the others
+      for (const [index, output] of outputs.entries()) {
+        throwIfCancelled();
+        const entry = summaryOutputs[index];
+
+        const existing = existingClips.find(
+          (clip) => clip.format === output.format && Math.abs((clip.duration ?? 0) - output.duration) < 0.01
+        );
+
+        if (existing) {
+          Object.assign(entry, {
+            status: 'completed',
+            clipId: existing.id,
+            startTime: existing.startTime ?? 0,
+            endTime: existing.endTime ?? output.duration,
+          });
+          await reportProgress(index + 1);
+          continue;
+        }
+
+        entry.status = 'processing';
+        try {
+          Object.assign(entry, { status: 'completed', ...(await renderOutput(output, index)) });
+        } catch (error) {
+          if (error instanceof JobCancelledError) throw error;
+          console.error(`Output ${output.format} ${output.duration}s of job ${repurposeJobId} failed:`, error);
+          entry.status = 'failed';
+          entry.error = (error instanceof Error ? error.message : 'Unknown error').slice(0, 500);
+        }
+        await reportProgress(index + 1);
+      }
+
+      return buildSummary();
+    });
+
+    if (summary.failedOutputs > 0) {
+      const message = `${summary.failedOutputs} of ${summary.totalOutputs} outputs failed`;
+      // Earlier attempts are retried by BullMQ, which only re-renders the failed outputs
+      if (!isFinalAttempt(job)) {
+        throw new Error(message);
+      }
+      if (summary.completedOutputs === 0) {
+        throw new UnrecoverableError(message);
+      }
+
+      await prisma.repurposeJob.updateMany({
+        where: { id: repurposeJobId, status: { not: 'CANCELLED' } },
+        data: {
+          status: 'PARTIAL',
+          progress: 100,
+          errorMessage: message,
+          completedAt: new Date(),
+          outputSummaryJson: JSON.parse(JSON.stringify(summary)),
+        },
+      });
+
+      return { success: false, repurposeJobId, clips: summary.completedOutputs, failed: summary.failedOutputs };
+    }
+
+    await prisma.repurposeJob.updateMany({
+      where: { id: repurposeJobId, status: { not: 'CANCELLED' } },
+      data: {
+        status: 'COMPLETED',
+        progress: 100,
+        completedAt: new Date(),
+        outputSummaryJson: JSON.parse(JSON.stringify(summary)),
+      },
+    });
+
+    return { success: true, repurposeJobId, clips: summary.completedOutputs };
+  } catch (error) {
+    // The cancel route has already set the job to CANCELLED
+    if (error instanceof JobCancelledError) {
+      for (const entry of summaryOutputs) {
+        if (entry.status === 'pending' || entry.status === 'processing') {
+          entry.status = 'cancelled';
+        }
+      }
+      if (summaryOutputs.length > 0) {
+        await prisma.repurposeJob.update({
+          where: { id: repurposeJobId },
+          data: { outputSummaryJson: JSON.parse(JSON.stringify(buildSummary())) },
+        });
+      }
+      return { success: false, repurposeJobId, cancelled: true };
+    }
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const finalAttempt = error instanceof UnrecoverableError || isFinalAttempt(job);
+
+    await prisma.repurposeJob.updateMany({
+      where: { id: repurposeJobId, status: { not: 'CANCELLED' } },
+      data: {
+        status: finalAttempt ? 'FAILED' : 'QUEUED',
+        errorMessage: message.slice(0, 2000),
+        ...(summaryOutputs.length > 0 && { outputSummaryJson: JSON.parse(JSON.stringify(buildSummary())) }),
+        ...(finalAttempt && { completedAt: new Date() }),
+      },
+    });
+
+    throw error;
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Media Download processor
+ * Streams a media asset's source into storage and moves it through
+ * PENDING → DOWNLOADING → PROCESSING → READY (or ERROR), then queues probing, thumbnails and transcoding
+ */
+
+import { createWriteStream } from 'node:fs';
+import { join } from 'node:path';
+import { Readable, Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { ReadableStream as WebReadableStream } from 'node:stream/web';
+import { Job, UnrecoverableError } from 'bullmq';
+import { prisma, Prisma } from '@ugc/database';
+import { queueMediaTranscode } from '@ugc/queue';
+import type { MediaDownloadJobData } from '@ugc/queue';
+import { fetchPublicUrl, UnsafeUrlError } from '../lib/public-fetch.js';
+import { generateMediaKey, getPublicUrl, headFile, uploadFromPath } from '../lib/s3.js';
+import { withTempDir } from '../lib/temp.js';
+
+// Refuse anything larger than this (default 1 GB)
+const MAX_DOWNLOAD_BYTES = parseInt(process.env.MEDIA_MAX_DOWNLOAD_BYTES || `${1024 * 1024 * 1024}`, 10);
+
+// Time allowed for the whole download, body included (default 15 minutes)
+const DOWNLOAD_TIMEOUT_MS = parseInt(process.env.MEDIA_DOWNLOAD_TIMEOUT_MS || `${15 * 60 * 1000}`, 10);
+
+const EXTENSIONS: Record<string, string> = {
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+  'video/webm': 'webm',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/aac': 'aac',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+};
+
+const DEFAULT_MIME_TYPES: Record<string, string> = {
+  VIDEO: 'video/mp4',
+  IMAGE: 'image/jpeg',
+  AUDIO: 'audio/mpeg',
+};
+
+export async function processMediaDownload(job: Job<MediaDownloadJobData>) {
+  const { mediaAssetId } = job.data;
+
+  const asset = await prisma.mediaAsset.findUnique({ where: { id: mediaAssetId } });
+  if (!asset) {
+    throw new UnrecoverableError(`Media asset ${mediaAssetId} not found`);
+  }
+
+  const sourceUrl = job.data.sourceUrl || asset.originalUrl;
+
+  try {
+    // Direct uploads are already in storage - only verify the object and record its details
+    if (!sourceUrl) {
+      if (!asset.storageKey) {
+        throw new UnrecoverableError('Media asset has neither a source URL nor a storage key');
+      }
+
+      await prisma.mediaAsset.update({ where: { id: asset.id }, data: { status: 'PROCESSING' } });
+
+      const object = await headFile(asset.storageKey);
+      if (!object) {
+        throw new Error(`Uploaded file not found in storage: ${asset.storageKey}`);
+      }
+
+      await prisma.mediaAsset.update({
+        where: { id: asset.id },
+        data: {
+          status: 'READY',
+          storageUrl: asset.storageUrl || getPublicUrl(asset.storageKey),
+          fileSize: object.size,
+          mimeType: object.contentType || asset.mimeType,
+        },
+      });
+
+      await queueMediaTranscode(asset.workspaceId, asset.id);
+
+      await job.updateProgress(100);
+      return { success: true, mediaAssetId, fileSize: object.size };
+    }
+
+    await prisma.mediaAsset.update({ where: { id: asset.id }, data: { status: 'DOWNLOADING' } });
+
+    return await withTempDir('download', async (dir) => {
+      let response: Response;
+      try {
+        response = await fetchPublicUrl(sourceUrl, { timeoutMs: DOWNLOAD_TIMEOUT_MS });
+      } catch (error) {
+        // Retrying will not make a private host public
+        if (error instanceof UnsafeUrlError) throw new UnrecoverableError(error.message);
+        throw error;
+      }
+      if (!response.ok || !response.body) {
+        throw new Error(`Download failed with status ${response.status}`);
+      }
+
+      const contentLength = parseInt(response.headers.get('content-length') || '0', 10);
+      if (contentLength > MAX_DOWNLOAD_BYTES) {
+        throw new UnrecoverableError(`File is too large (${contentLength} bytes)`);
+      }
+
+      const mimeType =
+        response.headers.get('content-type')?.split(';')[0].trim() || DEFAULT_MIME_TYPES[asset.type];
+      const filePath = join(dir, 'source');
+
+      // Download accounts for the first 80% of progress, upload for the rest
+      let received = 0;
+      let lastReported = 0;
+      const progress = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          received += chunk.length;
+          if (received > MAX_DOWNLOAD_BYTES) {
+            callback(new UnrecoverableError(`File exceeds ${MAX_DOWNLOAD_BYTES} bytes`));
+            return;
+          }
+          if (contentLength > 0) {
+            const percent = Math.floor((received / contentLength) * 80);
+            if (percent >= lastReported + 5) {
+              lastReported = percent;
+              // Progress is advisory; a failed update must not become an unhandled rejection
+              void job
+                .updateProgress(percent)
+                .catch((error) => console.error('Error reporting progress:', error));
+            }
+          }
+          callback(null, chunk);
+        },
+      });
+
+      await pipeline(
+        Readable.fromWeb(response.body as WebReadableStream<Uint8Array>),
+        progress,
+        createWriteStream(filePath)
+      );
+      await job.updateProgress(80);
+
+      await prisma.mediaAsset.update({ where: { id: asset.id }, data: { status: 'PROCESSING' } });
+
+      const storageKey =
+        asset.storageKey ||
+        generateMediaKey(
+          asset.workspaceId,
+          asset.type === 'VIDEO' ? 'video' : asset.type === 'AUDIO' ? 'audio' : 'image',
+          `${asset.id}.${EXTENSIONS[mimeType] || 'bin'}`
+        );
+      const { url, size } = await uploadFromPath(storageKey, filePath, mimeType);
+
+      await prisma.mediaAsset.update({
+        where: { id: asset.id },
+        data: {
+          status: 'READY',
+          storageKey,
+          storageUrl: url,
+          fileSize: size,
+          mimeType,
+        },
+      });
+
+      await queueMediaTranscode(asset.workspaceId, asset.id);
+
+      await job.updateProgress(100);
+      return { success: true, mediaAssetId, fileSize: size };
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const attempts = job.opts.attempts ?? 1;
+    const isFinalAttempt = error instanceof UnrecoverableError || job.attemptsMade + 1 >= attempts;
+
+    // Keep the asset PENDING between retries so it only shows ERROR once we give up
+    await prisma.mediaAsset.update({
+      where: { id: asset.id },
+      data: {
+        status: isFinalAttempt ? 'ERROR' : 'PENDING',
+        metadata: {
+          ...((asset.metadata as Prisma.JsonObject | null) ?? {}),
+          lastError: {
+            message,
+            sourceUrl: sourceUrl ?? null,
+            attempt: job.attemptsMade + 1,
+            failedAt: new Date().toISOString(),
+          },
+        },
+      },
+    });
+
+    throw error;
+  }
+}
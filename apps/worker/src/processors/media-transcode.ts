@@ -0,0 +1,320 @@
+/**
+ * Media Transcode processor
+ * Probes READY assets and renders their poster (and preview sprite for videos), then turns
+ * source videos into a normalized H.264/AAC MP4 plus an HLS ladder. Rendered clips are packaged
+ * as HLS, so players stream an adaptive rendition instead of the raw upload. Audio assets are only probed.
+ * Renditions are stored next to the original, under its key without the extension.
+ */
+
+import { mkdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import { Job, UnrecoverableError } from 'bullmq';
+import { prisma, MediaAsset, Prisma } from '@ugc/database';
+import type { MediaTranscodeJobData } from '@ugc/queue';
+import type { VideoMetadata } from '@ugc/shared';
+import { updateClipMetadata } from '../lib/clip-metadata.js';
+import { normalizeVideo, probeAudio, probeVideo } from '../lib/ffmpeg.js';
+import { packageHls, HlsPackage } from '../lib/hls.js';
+import { deletePrefix, downloadToPath, getPublicUrl, uploadDirectory, uploadFromPath } from '../lib/s3.js';
+import { withTempDir } from '../lib/temp.js';
+import { deleteThumbnails, generateThumbnails, Thumbnails } from '../lib/thumbnails.js';
+
+interface HlsRendition {
+  prefix: string;
+  masterKey: string;
+  url: string;
+  variants: HlsPackage['variants'];
+}
+
+// Progress is advisory; a failed update must not become an unhandled rejection
+function reportProgress(job: Job<MediaTranscodeJobData>, progress: number): void {
+  job.updateProgress(progress).catch((error) => console.error('Error reporting progress:', error));
+}
+
+// `ws/video/123-clip.mp4` → `ws/video/123-clip`
+function renditionPrefix(storageKey: string): string {
+  return storageKey.replace(/\.[^./]+$/, '');
+}
+
+async function uploadHls(prefix: string, dir: string, hls: HlsPackage): Promise<HlsRendition> {
+  const hlsPrefix = `${prefix}/hls`;
+  // Clear segments from an earlier run, a shorter rendition would leave stale ones behind
+  await deletePrefix(`${hlsPrefix}/`);
+  await uploadDirectory(hlsPrefix, dir);
+
+  const masterKey = `${hlsPrefix}/${hls.master}`;
+  return { prefix: hlsPrefix, masterKey, url: getPublicUrl(masterKey), variants: hls.variants };
+}
+
+// Remove the stream of a previous rendition once it has been replaced
+async function deleteStaleStream(previous: HlsRendition | undefined, current: HlsRendition) {
+  if (previous?.prefix && previous.prefix !== current.prefix) {
+    await deletePrefix(`${previous.prefix}/`).catch((error) =>
+      console.error('Error deleting stale HLS rendition:', error)
+    );
+  }
+}
+
+function isFinalAttempt(job: Job, error: unknown): boolean {
+  const attempts = job.opts.attempts ?? 1;
+  return error instanceof UnrecoverableError || job.attemptsMade + 1 >= attempts;
+}
+
+/**
+ * Music beds are used as they are, so they only get their duration and codec details recorded
+ */
+async function probeAudioAsset(job: Job<MediaTranscodeJobData>, asset: MediaAsset) {
+  const metadata = (asset.metadata as Prisma.JsonObject | null) ?? {};
+
+  try {
+    const { duration, ...details } = await withTempDir('probe-audio', async (dir) => {
+      const sourcePath = join(dir, 'source');
+      await downloadToPath(asset.storageKey!, sourcePath);
+      return probeAudio(sourcePath);
+    });
+
+    const nextMetadata: Prisma.JsonObject = { ...metadata, ...JSON.parse(JSON.stringify(details)) };
+    delete nextMetadata.transcodeError;
+
+    await prisma.mediaAsset.update({
+      where: { id: asset.id },
+      data: { duration, metadata: nextMetadata },
+    });
+
+    await job.updateProgress(100);
+    return { success: true, mediaAssetId: asset.id };
+  } catch (error) {
+    if (isFinalAttempt(job, error)) {
+      await prisma.mediaAsset.update({
+        where: { id: asset.id },
+        data: {
+          metadata: {
+            ...metadata,
+            transcodeError: {
+              message: (error instanceof Error ? error.message : 'Unknown error').slice(0, 2000),
+              failedAt: new Date().toISOString(),
+            },
+          },
+        },
+      });
+    }
+
+    throw error;
+  }
+}
+
+async function transcodeMediaAsset(job: Job<MediaTranscodeJobData>, mediaAssetId: string) {
+  const asset = await prisma.mediaAsset.findUnique({ where: { id: mediaAssetId } });
+  if (!asset) {
+    throw new UnrecoverableError(`Media asset ${mediaAssetId} not found`);
+  }
+
+  if (asset.status !== 'READY' || !asset.storageKey) {
+    throw new UnrecoverableError('Media asset is not ready for transcoding');
+  }
+
+  if (asset.type === 'AUDIO') {
+    return probeAudioAsset(job, asset);
+  }
+
+  const isVideo = asset.type === 'VIDEO';
+  let metadata = (asset.metadata as Prisma.JsonObject | null) ?? {};
+  const previous = (metadata.renditions as unknown as { hls?: HlsRendition } | undefined)?.hls;
+  const previousThumbnails = { poster: metadata.poster, preview: metadata.preview } as unknown as Partial<Thumbnails>;
+  const prefix = renditionPrefix(asset.storageKey);
+
+  try {
+    const renditions = await withTempDir('transcode', async (dir) => {
+      const sourcePath = join(dir, 'source');
+      const normalizedPath = join(dir, 'normalized.mp4');
+      const hlsDir = join(dir, 'hls');
+      await mkdir(hlsDir);
+
+      await downloadToPath(asset.storageKey!, sourcePath);
+      const { hasAudio, ...probed } = await probeVideo(sourcePath);
+
+      const thumbnails = await generateThumbnails({
+        input: sourcePath,
+        workDir: dir,
+        workspaceId: asset.workspaceId,
+        name: asset.id,
+        source: probed,
+        duration: isVideo ? probed.duration : 0,
+      });
+
+      // Probed details and thumbnails are saved before the slow encode so they show up right away
+      const details: Partial<VideoMetadata> = isVideo ? probed : { codec: probed.codec };
+      metadata = JSON.parse(JSON.stringify({ ...metadata, ...details, ...thumbnails }));
+      await prisma.mediaAsset.update({
+        where: { id: asset.id },
+        data: {
+          ...(isVideo && { duration: probed.duration }),
+          width: probed.width,
+          height: probed.height,
+          thumbnailUrl: thumbnails.poster.url,
+          metadata,
+        },
+      });
+      await deleteThumbnails(previousThumbnails);
+      await job.updateProgress(10);
+
+      // Images only need their details and a poster
+      if (!isVideo) {
+        return null;
+      }
+
+      // Normalizing is the slow part, the ladder is encoded from its smaller output
+      const normalized = await normalizeVideo({
+        input: sourcePath,
+        output: normalizedPath,
+        source: probed,
+        duration: probed.duration,
+        onProgress: (fraction) => reportProgress(job, 10 + Math.floor(fraction * 35)),
+      });
+
+      const hls = await packageHls({
+        input: normalizedPath,
+        outputDir: hlsDir,
+        source: normalized,
+        hasAudio,
+        duration: probed.duration,
+        onProgress: (fraction) => reportProgress(job, 45 + Math.floor(fraction * 45)),
+      });
+
+      const mp4Key = `${prefix}/normalized.mp4`;
+      const mp4 = await uploadFromPath(mp4Key, normalizedPath, 'video/mp4');
+      const stream = await uploadHls(prefix, hlsDir, hls);
+
+      return {
+        mp4: { key: mp4Key, url: mp4.url, size: mp4.size, ...normalized },
+        hls: stream,
+      };
+    });
+
+    if (!renditions) {
+      await job.updateProgress(100);
+      return { success: true, mediaAssetId };
+    }
+
+    const nextMetadata: Prisma.JsonObject = {
+      ...metadata,
+      renditions: JSON.parse(JSON.stringify({ ...renditions, transcodedAt: new Date().toISOString() })),
+    };
+    delete nextMetadata.transcodeError;
+
+    await prisma.mediaAsset.update({
+      where: { id: asset.id },
+      data: { streamUrl: renditions.hls.url, metadata: nextMetadata },
+    });
+
+    await deleteStaleStream(previous, renditions.hls);
+
+    await job.updateProgress(100);
+    return { success: true, mediaAssetId, variants: renditions.hls.variants.length };
+  } catch (error) {
+    // The original upload stays playable, so a failed transcode only gets recorded
+    if (isFinalAttempt(job, error)) {
+      await prisma.mediaAsset.update({
+        where: { id: asset.id },
+        data: {
+          metadata: {
+            ...metadata,
+            transcodeError: {
+              message: (error instanceof Error ? error.message : 'Unknown error').slice(0, 2000),
+              failedAt: new Date().toISOString(),
+            },
+          },
+        },
+      });
+    }
+
+    throw error;
+  }
+}
+
+async function transcodeClip(job: Job<MediaTranscodeJobData>, clipId: string) {
+  const clip = await prisma.repurposedClip.findUnique({ where: { id: clipId } });
+  if (!clip) {
+    throw new UnrecoverableError(`Clip ${clipId} not found`);
+  }
+
+  if (!clip.storageKey) {
+    throw new UnrecoverableError('Clip has not been rendered yet');
+  }
+
+  const storageKey = clip.storageKey;
+
+  try {
+    const stream = await withTempDir('transcode-clip', async (dir) => {
+      const inputPath = join(dir, 'clip.mp4');
+      const hlsDir = join(dir, 'hls');
+      await mkdir(hlsDir);
+
+      await downloadToPath(storageKey, inputPath);
+      const probe = await probeVideo(inputPath);
+
+      // Clips are rendered as H.264/AAC already, they only need packaging
+      const hls = await packageHls({
+        input: inputPath,
+        outputDir: hlsDir,
+        source: probe,
+        hasAudio: probe.hasAudio,
+        duration: probe.duration,
+        onProgress: (fraction) => reportProgress(job, Math.floor(fraction * 90)),
+      });
+
+      return uploadHls(renditionPrefix(storageKey), hlsDir, hls);
+    });
+
+    // Burning captions in replaces the video while we work; its own transcode job takes over
+    const current = await prisma.repurposedClip.findUnique({
+      where: { id: clip.id },
+      select: { storageKey: true },
+    });
+    if (current?.storageKey !== storageKey) {
+      await deletePrefix(`${stream.prefix}/`);
+      return { success: false, clipId, skipped: 'clip was re-rendered' };
+    }
+
+    const before = await updateClipMetadata(clip.id, {
+      set: {
+        renditions: JSON.parse(JSON.stringify({ hls: stream, transcodedAt: new Date().toISOString() })),
+      },
+      remove: ['transcodeError'],
+      data: { streamUrl: stream.url },
+    });
+
+    // The stream this one replaces, which may be newer than the one the job started with
+    const previous = (before?.renditions as unknown as { hls?: HlsRendition } | undefined)?.hls;
+    await deleteStaleStream(previous, stream);
+
+    await job.updateProgress(100);
+    return { success: true, clipId, variants: stream.variants.length };
+  } catch (error) {
+    if (isFinalAttempt(job, error)) {
+      await updateClipMetadata(clip.id, {
+        set: {
+          transcodeError: {
+            message: (error instanceof Error ? error.message : 'Unknown error').slice(0, 2000),
+            failedAt: new Date().toISOString(),
+          },
+        },
+      });
+    }
+
+    throw error;
+  }
+}
+
+export async function processMediaTranscode(job: Job<MediaTranscodeJobData>) {
+  const { mediaAssetId, clipId } = job.data;
+
+  if (clipId) {
+    return transcodeClip(job, clipId);
+  }
+  if (mediaAssetId) {
+    return transcodeMediaAsset(job, mediaAssetId);
+  }
+
+  throw new UnrecoverableError('Transcode job has neither a media asset nor a clip');
+}
@@ -0,0 +1,77 @@
+/**
+ * Social Token Refresh processor
+ * Scheduled sweep that refreshes the OAuth tokens of connected accounts before they expire, so
+ * listening runs rarely have to. Accounts whose refresh is refused are flagged EXPIRED and their
+ * workspace notified. Tokens still wrapped with a previous ENCRYPTION_KEY are re-wrapped with the
+ * current one, which completes a key rotation.
+ */
+
+import { Job } from 'bullmq';
+import {
+  prisma,
+  refreshSocialAccountTokens,
+  rewrapSocialAccountTokens,
+  SocialAuthError,
+} from '@ugc/database';
+import type { SocialTokenRefreshJobData } from '@ugc/queue';
+
+const BATCH_SIZE = 100;
+
+export interface TokenRefreshResult {
+  refreshed: number;
+  failed: number;
+  rewrapped: number;
+}
+
+export async function processSocialTokenRefresh(
+  job: Job<SocialTokenRefreshJobData>
+): Promise<TokenRefreshResult> {
+  const result: TokenRefreshResult = { refreshed: 0, failed: 0, rewrapped: 0 };
+  const expiringBefore = new Date(Date.now() + job.data.withinMinutes * 60 * 1000);
+
+  const expiring = await prisma.socialAccount.findMany({
+    where: {
+      status: 'CONNECTED',
+      authTokensEncrypted: { not: null },
+      tokenExpiresAt: { lt: expiringBefore },
+    },
+    select: { id: true },
+  });
+
+  for (const account of expiring) {
+    try {
+      await refreshSocialAccountTokens(account.id);
+      result.refreshed++;
+    } catch (error) {
+      // Refused refreshes have flagged the account; anything else is tried again next sweep
+      result.failed++;
+      if (!(error instanceof SocialAuthError && error.isRefused)) {
+        console.error(`Failed to refresh tokens of social account ${account.id}:`, error);
+      }
+    }
+  }
+
+  let cursor: string | undefined;
+  for (;;) {
+    const batch = await prisma.socialAccount.findMany({
+      where: { authTokensEncrypted: { not: null } },
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+
+    for (const account of batch) {
+      try {
+        if (await rewrapSocialAccountTokens(account.id)) result.rewrapped++;
+      } catch (error) {
+        console.error(`Failed to re-wrap tokens of social account ${account.id}:`, error);
+      }
+    }
+
+    if (batch.length < BATCH_SIZE) break;
+    cursor = batch[batch.length - 1].id;
+  }
+
+  return result;
+}
@@ -0,0 +1,324 @@
+/**
+ * UGC Import processor
+ * Imports an uploaded CSV or XLSX file, or rows sent inline, into UgcPost. The file is read
+ * twice: once to count its rows and check its header, then in chunks of UGC_IMPORT_CHUNK_SIZE
+ * rows, with the ImportLog's counters updated after each chunk. Rows are validated, checked for
+ * duplicates (against the workspace and earlier rows of the same file) and enriched from the
+ * post's URL before the post and its pending rights request are created.
+ *
+ * A dry run does everything up to enrichment and writes nothing but the log, so a file can be
+ * checked before it is imported. Failed rows are logged with their values, so they can be
+ * corrected and imported again.
+ */
+
+import { join } from 'node:path';
+import { Job, UnrecoverableError } from 'bullmq';
+import { findExistingPost, ImportLogger, prisma, Prisma } from '@ugc/database';
+import type { UgcImportJobData } from '@ugc/queue';
+import {
+  detectColumnMapping,
+  enrichedPostFields,
+  enrichPostUrl,
+  importUgcCsvRowSchema,
+  mapImportRow,
+  missingImportColumns,
+  resolvePostUrl,
+  spreadsheetHeaders,
+  spreadsheetRecord,
+} from '@ugc/shared';
+import type { ImportColumnMapping, ImportUgcCsvRow, PostEnrichment } from '@ugc/shared';
+import { downloadToPath } from '../lib/s3.js';
+import { readImportRecords } from '../lib/import-files.js';
+import { withTempDir } from '../lib/temp.js';
+
+// Rows between progress updates
+const CHUNK_SIZE = parseInt(process.env.UGC_IMPORT_CHUNK_SIZE || '100', 10);
+
+export interface UgcImportResult {
+  total: number;
+  imported: number; // Posts created, or that would be on a dry run
+  skipped: number; // Duplicates
+  failed: number;
+  dryRun: boolean;
+}
+
+interface ImportRows {
+  headers: string[];
+  // Data rows keyed by header; can be read more than once
+  records: () => AsyncGenerator<Record<string, string>>;
+  // Row number of each record, when it is not its position
+  rowNumbers?: number[];
+}
+
+type RowOutcome = 'imported' | 'skipped' | 'failed';
+
+// Instagram's oEmbed endpoint takes an app access token; without one only Open Graph tags are read
+function instagramAccessToken(): string | undefined {
+  const { META_APP_ID, META_APP_SECRET } = process.env;
+  return META_APP_ID && META_APP_SECRET ? `${META_APP_ID}|${META_APP_SECRET}` : undefined;
+}
+
+async function openImportRows(
+  source: UgcImportJobData['source'],
+  dir: string
+): Promise<ImportRows> {
+  if ('rows' in source) {
+    return {
+      headers: [...new Set(source.rows.flatMap((row) => Object.keys(row)))],
+      records: async function* () {
+        yield* source.rows;
+      },
+      rowNumbers: source.rowNumbers,
+    };
+  }
+
+  const path = join(dir, `import.${source.format}`);
+  await downloadToPath(source.fileKey, path);
+
+  // Only the header row is read here; closing the reader releases the file
+  const reader = readImportRecords(path, source.format);
+  const first = await reader.next();
+  await reader.return(undefined);
+  const headers = spreadsheetHeaders(first.done ? [] : first.value);
+  return {
+    headers,
+    records: async function* () {
+      let header = true;
+      for await (const cells of readImportRecords(path, source.format)) {
+        if (header) {
+          header = false;
+          continue;
+        }
+        yield spreadsheetRecord(headers, cells);
+      }
+    },
+  };
+}
+
+function parseHashtags(row: ImportUgcCsvRow, caption: string | null): string[] {
+  if (row.hashtags) {
+    return row.hashtags
+      .split(',')
+      .map((tag) => tag.trim().toLowerCase().replace(/^#/, ''))
+      .filter(Boolean);
+  }
+  return caption?.match(/#[\w]+/g)?.map((tag) => tag.slice(1).toLowerCase()) ?? [];
+}
+
+/**
+ * Import one row, logging anything that keeps it from being imported
+ * `seen` holds the canonical URLs and post ids of earlier rows, so a file cannot import a post twice.
+ */
+async function importRow(
+  logger: ImportLogger,
+  job: Job<UgcImportJobData>,
+  rowNum: number,
+  values: Record<string, string>,
+  seen: Set<string>
+): Promise<RowOutcome> {
+  const { workspaceId, dryRun } = job.data;
+  const details = { row: rowNum, postUrl: values.post_url, values };
+
+  const validation = importUgcCsvRowSchema.safeParse(values);
+  if (!validation.success) {
+    const message = validation.error.errors[0]?.message || 'Invalid data';
+    await logger.error('VALIDATING', `Row ${rowNum}: Validation failed - ${message}`, {
+      ...details,
+      errors: validation.error.flatten().fieldErrors,
+    });
+    return 'failed';
+  }
+  const row = validation.data;
+
+  try {
+    const { url: postUrl, postId } = await resolvePostUrl(row.platform, row.post_url);
+    const keys = [
+      `${row.platform}:url:${postUrl}`,
+      ...(postId ? [`${row.platform}:id:${postId}`] : []),
+    ];
+
+    if (keys.some((key) => seen.has(key))) {
+      await logger.warning(
+        'CHECKING_DUPLICATE',
+        `Row ${rowNum}: Duplicate of an earlier row skipped`,
+        details
+      );
+      return 'skipped';
+    }
+    keys.forEach((key) => seen.add(key));
+
+    const existing = await findExistingPost(workspaceId, row.platform, { postUrl, postId });
+    if (existing) {
+      await logger.warning('CHECKING_DUPLICATE', `Row ${rowNum}: Duplicate post skipped`, {
+        ...details,
+        existingPostId: existing.id,
+      });
+      return 'skipped';
+    }
+
+    if (dryRun) {
+      return 'imported';
+    }
+
+    let enrichment: PostEnrichment | null = null;
+    try {
+      enrichment = await enrichPostUrl(postUrl, row.platform, {
+        instagramAccessToken: instagramAccessToken(),
+      });
+    } catch (error) {
+      await logger.warning('ENRICHING_METADATA', `Row ${rowNum}: Could not read post metadata`, {
+        ...details,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    const enriched = enrichedPostFields(enrichment, {
+      caption: row.caption,
+      creatorName: row.creator_name,
+      postedAt: row.posted_at ? new Date(row.posted_at) : null,
+    });
+
+    // Short links that could not be followed only reveal the post ID now
+    if (!postId && enriched.postId) {
+      const existingById = await findExistingPost(workspaceId, row.platform, {
+        postUrl,
+        postId: enriched.postId,
+      });
+      if (existingById || seen.has(`${row.platform}:id:${enriched.postId}`)) {
+        await logger.warning('CHECKING_DUPLICATE', `Row ${rowNum}: Duplicate post skipped`, {
+          ...details,
+          existingPostId: existingById?.id,
+        });
+        return 'skipped';
+      }
+      seen.add(`${row.platform}:id:${enriched.postId}`);
+    }
+
+    const post = await prisma.ugcPost.create({
+      data: {
+        workspaceId,
+        platform: row.platform,
+        postUrl,
+        creatorHandle: row.creator_handle,
+        ...enriched,
+        postId: postId ?? enriched.postId,
+        hashtags: parseHashtags(row, enriched.caption),
+        importSource: 'csv',
+      },
+    });
+
+    await prisma.rightsRequest.create({
+      data: { workspaceId, ugcPostId: post.id, status: 'PENDING' },
+    });
+
+    return 'imported';
+  } catch (error) {
+    // Another import saved the same post after the duplicate checks
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      await logger.warning('CHECKING_DUPLICATE', `Row ${rowNum}: Duplicate post skipped`, details);
+      return 'skipped';
+    }
+    await logger.error('CREATING_POST', `Row ${rowNum}: Database error`, {
+      ...details,
+      error: error instanceof Error ? error.message : 'Database error',
+    });
+    return 'failed';
+  }
+}
+
+export async function processUgcImport(job: Job<UgcImportJobData>): Promise<UgcImportResult> {
+  const { importLogId, source, dryRun } = job.data;
+  console.log(`📥 Importing UGC for log ${importLogId}${dryRun ? ' (dry run)' : ''}`);
+
+  const logger = await ImportLogger.resume(importLogId);
+  if (!logger) {
+    throw new UnrecoverableError(`Import log ${importLogId} not found`);
+  }
+
+  try {
+    return await withTempDir('import', async (dir) => {
+      const rows = await openImportRows(source, dir);
+
+      const mapping: ImportColumnMapping = job.data.mapping ?? detectColumnMapping(rows.headers);
+      const unmapped = Object.entries(mapping).filter(
+        ([, header]) => header && !rows.headers.includes(header)
+      );
+      const missing = missingImportColumns(mapping);
+      if (missing.length > 0 || unmapped.length > 0) {
+        const message =
+          missing.length > 0
+            ? `No column found for ${missing.join(', ')}`
+            : `File has no ${unmapped.map(([, header]) => `"${header}"`).join(', ')} column`;
+        await logger.fail(message, { headers: rows.headers, mapping });
+        throw new UnrecoverableError(message);
+      }
+
+      let total = 0;
+      for await (const _ of rows.records()) total++;
+      if (total === 0) {
+        await logger.fail('File has no rows to import', { headers: rows.headers });
+        throw new UnrecoverableError('File has no rows to import');
+      }
+
+      await logger.markProcessing(total);
+      await logger.info('VALIDATING', `${dryRun ? 'Checking' : 'Importing'} ${total} rows`, {
+        mapping,
+        chunkSize: CHUNK_SIZE,
+      });
+
+      const counts: Record<RowOutcome, number> = { imported: 0, skipped: 0, failed: 0 };
+      const seen = new Set<string>();
+      let processed = 0;
+      let chunk: Record<string, string>[] = [];
+
+      const processChunk = async () => {
+        const first = processed + 1;
+        const chunkCounts: Record<RowOutcome, number> = { imported: 0, skipped: 0, failed: 0 };
+        for (const record of chunk) {
+          const rowNum = rows.rowNumbers?.[processed] ?? processed + 1;
+          processed++;
+          chunkCounts[await importRow(logger, job, rowNum, mapImportRow(record, mapping), seen)]++;
+        }
+        chunk = [];
+
+        for (const outcome of Object.keys(counts) as RowOutcome[]) {
+          counts[outcome] += chunkCounts[outcome];
+        }
+        await logger.success(
+          dryRun ? 'VALIDATING' : 'CREATING_POST',
+          `Rows ${first}-${processed}: ${chunkCounts.imported} ${dryRun ? 'valid' : 'imported'}, ${chunkCounts.skipped} duplicates, ${chunkCounts.failed} failed`,
+          { ...chunkCounts }
+        );
+        await logger.updateProgress(processed, counts.imported, counts.failed);
+        await job.updateProgress(Math.floor((processed / total) * 100));
+      };
+
+      for await (const record of rows.records()) {
+        chunk.push(record);
+        if (chunk.length >= CHUNK_SIZE) await processChunk();
+      }
+      if (chunk.length > 0) await processChunk();
+
+      await logger.info(
+        'COMPLETED',
+        dryRun
+          ? `Dry run: ${counts.imported} rows would be imported, ${counts.skipped} duplicates, ${counts.failed} failed; nothing was written`
+          : `Imported ${counts.imported} posts, skipped ${counts.skipped} duplicates, ${counts.failed} failed`,
+        { ...counts, total, dryRun }
+      );
+      await logger.complete(
+        counts.failed === total ? 'FAILED' : counts.failed > 0 ? 'PARTIAL' : 'COMPLETED'
+      );
+
+      console.log(
+        `✅ Import ${importLogId}: ${counts.imported} ${dryRun ? 'valid' : 'imported'}, ${counts.skipped} duplicates, ${counts.failed} failed`
+      );
+      return { total, ...counts, dryRun };
+    });
+  } catch (error) {
+    if (!(error instanceof UnrecoverableError)) {
+      await logger.fail(error instanceof Error ? error.message : 'Import failed');
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,364 @@
+/**
+ * UGC Ingestion processor
+ * Searches a platform for posts with the watched hashtags, mentions and handles, pages through the
+ * results and upserts every post into UgcPost with importSource 'api', matching posts already
+ * imported by hand on their platform id or canonical URL. Only fields the platform returned are
+ * written, and posts imported by hand keep what was typed in. New posts get a pending rights
+ * request, and media the platform links to is queued for download.
+ *
+ * Scheduled listening runs carry a socialAccountId instead of search terms. They search the
+ * account's current listening settings and only keep posts newer than the newest one seen for
+ * each query on earlier runs. Accounts connected through OAuth search with their own token,
+ * refreshed first when it is about to expire; a refused token flags the account EXPIRED.
+ */
+
+import { Job, UnrecoverableError } from 'bullmq';
+import {
+  findExistingPost,
+  flagSocialAccount,
+  getSocialAccountTokens,
+  prisma,
+  Prisma,
+  SocialAuthError,
+} from '@ugc/database';
+import type { UgcPost } from '@ugc/database';
+import {
+  getAccountListeningInterval,
+  queueMediaDownload,
+  scheduleAccountListening,
+  unscheduleAccountListening,
+} from '@ugc/queue';
+import type { UgcIngestionJobData } from '@ugc/queue';
+import {
+  canonicalizePostUrl,
+  LISTENING_INTERVAL_MINUTES,
+  listeningSettingsSchema,
+} from '@ugc/shared';
+import { ConnectorError, getPlatformConnector } from '../lib/connectors/index.js';
+import type {
+  ConnectorCredentials,
+  ConnectorPost,
+  PlatformConnector,
+  SearchQuery,
+} from '../lib/connectors/index.js';
+
+// Pages fetched per query and run, so one busy hashtag cannot use up the API quota
+const MAX_PAGES = parseInt(process.env.UGC_INGESTION_MAX_PAGES || '5', 10);
+
+// Newest post date seen per query ('hashtag:summerdrop'), stored in SocialAccount.syncState
+type SyncState = Record<string, string>;
+
+export interface IngestionResult {
+  found: number;
+  created: number;
+  updated: number;
+  skipped: number; // Posts without a creator handle
+  mediaQueued: number;
+}
+
+function searchQueries(criteria: UgcIngestionJobData['searchCriteria']): SearchQuery[] {
+  const clean = (value: string) =>
+    value
+      .trim()
+      .replace(/^[#@]+/, '')
+      .toLowerCase();
+  return [
+    ...(criteria.hashtags ?? []).map((value) => ({
+      type: 'hashtag' as const,
+      value: clean(value),
+    })),
+    ...(criteria.mentions ?? []).map((value) => ({
+      type: 'mention' as const,
+      value: clean(value),
+    })),
+    ...(criteria.handles ?? []).map((value) => ({ type: 'handle' as const, value: clean(value) })),
+  ].filter((query) => query.value);
+}
+
+// Drops undefined fields and turns dates into strings
+function toJson(value: unknown): Prisma.InputJsonObject {
+  return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonObject;
+}
+
+type PostDetails = Pick<
+  Prisma.UgcPostUncheckedCreateInput,
+  | 'postId'
+  | 'creatorName'
+  | 'creatorProfileUrl'
+  | 'caption'
+  | 'hashtags'
+  | 'mentions'
+  | 'postedAt'
+  | 'thumbnailUrl'
+  | 'metricsJson'
+  | 'rawJson'
+>;
+
+/**
+ * Details for a post imported by hand: the connector only fills fields that are still empty,
+ * except metrics, which always follow the platform
+ */
+function fillEmptyFields(existing: UgcPost, details: PostDetails): PostDetails {
+  const filled: PostDetails = { metricsJson: details.metricsJson };
+  for (const field of Object.keys(details) as (keyof PostDetails)[]) {
+    const current = existing[field];
+    if (current == null || (Array.isArray(current) && current.length === 0)) {
+      (filled as Record<string, unknown>)[field] = details[field];
+    }
+  }
+  return filled;
+}
+
+/**
+ * Create or refresh a post, returning null when it has no creator to credit
+ */
+async function upsertPost(
+  workspaceId: string,
+  connector: PlatformConnector,
+  found: ConnectorPost,
+  socialAccountId?: string
+) {
+  // Some search endpoints leave the creator out; the post itself may have it
+  const post = found.creatorHandle ? found : ((await connector.getPost(found.postId)) ?? found);
+  if (!post.creatorHandle) {
+    return null;
+  }
+
+  const { url: postUrl } = canonicalizePostUrl(connector.platform, post.postUrl);
+  // Fields the connector left out are undefined, so an update never clears them
+  const details: PostDetails = {
+    postId: post.postId,
+    creatorName: post.creatorName,
+    creatorProfileUrl: post.creatorProfileUrl,
+    caption: post.caption,
+    hashtags: post.hashtags,
+    mentions: post.mentions,
+    postedAt: post.postedAt,
+    thumbnailUrl: post.thumbnailUrl,
+    metricsJson: post.metrics ? toJson(post.metrics) : undefined,
+    rawJson: post.raw ? toJson(post.raw) : undefined,
+  };
+
+  const identity = { postUrl, postId: post.postId };
+  const refresh = (existing: UgcPost) =>
+    prisma.ugcPost.update({
+      where: { id: existing.id },
+      data: existing.importSource === 'api' ? details : fillEmptyFields(existing, details),
+    });
+
+  const existing = await findExistingPost(workspaceId, connector.platform, identity);
+  if (existing) {
+    return { post: await refresh(existing), created: false, connectorPost: post };
+  }
+
+  try {
+    const created = await prisma.ugcPost.create({
+      data: {
+        workspaceId,
+        platform: connector.platform,
+        postUrl,
+        creatorHandle: post.creatorHandle,
+        importSource: 'api',
+        socialAccountId,
+        ...details,
+        rightsRequest: { create: { workspaceId, status: 'PENDING' } },
+      },
+    });
+    return { post: created, created: true, connectorPost: post };
+  } catch (error) {
+    // Another run or import saved the post after the lookup above
+    const raced =
+      error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002'
+        ? await findExistingPost(workspaceId, connector.platform, identity)
+        : null;
+    if (!raced) throw error;
+    return { post: await refresh(raced), created: false, connectorPost: post };
+  }
+}
+
+/**
+ * Queue the post's media for download unless it already has some
+ */
+async function queuePostMedia(
+  workspaceId: string,
+  connector: PlatformConnector,
+  ugcPostId: string,
+  post: ConnectorPost
+): Promise<boolean> {
+  const hasMedia = await prisma.mediaAsset.count({ where: { ugcPostId } });
+  if (hasMedia > 0) {
+    return false;
+  }
+
+  const mediaUrl = post.mediaUrl ?? (await connector.getMediaUrl(post.postId));
+  if (!mediaUrl) {
+    return false;
+  }
+
+  const asset = await prisma.mediaAsset.create({
+    data: {
+      workspaceId,
+      ugcPostId,
+      type: post.mediaType,
+      originalUrl: mediaUrl,
+      status: 'PENDING',
+    },
+  });
+  const queuedJob = await queueMediaDownload(workspaceId, asset.id, mediaUrl);
+  await prisma.mediaAsset.update({ where: { id: asset.id }, data: { queueJobId: queuedJob.id } });
+  return true;
+}
+
+/**
+ * Load the listening account of a scheduled run, or null when it should no longer be polled
+ * Keeps the schedule in step with the workspace's plan, which may have changed since it was set
+ */
+async function loadListeningAccount(workspaceId: string, socialAccountId: string) {
+  const account = await prisma.socialAccount.findFirst({
+    where: { id: socialAccountId, workspaceId },
+    include: { workspace: { select: { plan: true } } },
+  });
+  const settings = listeningSettingsSchema.safeParse(account?.syncSettings ?? {});
+
+  if (
+    !account ||
+    account.platform === 'MANUAL' ||
+    account.status !== 'CONNECTED' ||
+    !settings.success ||
+    !settings.data.enabled
+  ) {
+    await unscheduleAccountListening(socialAccountId);
+    return null;
+  }
+
+  const everyMinutes = LISTENING_INTERVAL_MINUTES[account.workspace.plan];
+  if ((await getAccountListeningInterval(account.id)) !== everyMinutes) {
+    await scheduleAccountListening({ ...account, platform: account.platform }, everyMinutes);
+  }
+
+  return { settings: settings.data, syncState: (account.syncState ?? {}) as SyncState };
+}
+
+/**
+ * OAuth token of a listening account, or undefined for accounts added by handle
+ */
+async function loadAccountCredentials(
+  socialAccountId: string
+): Promise<ConnectorCredentials | undefined> {
+  try {
+    const tokens = await getSocialAccountTokens(socialAccountId);
+    return tokens
+      ? { accessToken: tokens.accessToken, platformUserId: tokens.platformUserId }
+      : undefined;
+  } catch (error) {
+    // The account has been flagged and its workspace told to reconnect it
+    if (error instanceof SocialAuthError && error.isRefused) {
+      throw new UnrecoverableError(error.message);
+    }
+    throw error;
+  }
+}
+
+export async function processUgcIngestion(job: Job<UgcIngestionJobData>): Promise<IngestionResult> {
+  const { workspaceId, platform, socialAccountId } = job.data;
+  const result: IngestionResult = { found: 0, created: 0, updated: 0, skipped: 0, mediaQueued: 0 };
+
+  let searchCriteria = job.data.searchCriteria;
+  let syncState: SyncState = {};
+  let credentials: ConnectorCredentials | undefined;
+  if (socialAccountId) {
+    const listening = await loadListeningAccount(workspaceId, socialAccountId);
+    if (!listening) {
+      return result;
+    }
+    searchCriteria = listening.settings;
+    syncState = listening.syncState;
+    credentials = await loadAccountCredentials(socialAccountId);
+  }
+
+  const queries = searchQueries(searchCriteria);
+  if (queries.length === 0) {
+    throw new UnrecoverableError('No hashtags, mentions or handles to search for');
+  }
+
+  const connector = getPlatformConnector(platform, credentials);
+  // Marks of queries that are no longer watched are dropped
+  const nextSyncState: SyncState = {};
+  const seen = new Set<string>();
+
+  try {
+    for (const [index, query] of queries.entries()) {
+      const key = `${query.type}:${query.value}`;
+      const since = syncState[key] ? new Date(syncState[key]) : undefined;
+      if (syncState[key]) nextSyncState[key] = syncState[key];
+      let cursor: string | undefined;
+
+      for (let page = 0; page < MAX_PAGES; page++) {
+        const results = await connector.search({ ...query, since }, cursor);
+        const fresh = results.posts.filter(
+          (post) => !since || !post.postedAt || post.postedAt > since
+        );
+
+        for (const found of fresh) {
+          const newest = nextSyncState[key];
+          if (found.postedAt && (!newest || found.postedAt > new Date(newest))) {
+            nextSyncState[key] = found.postedAt.toISOString();
+          }
+
+          // A post can match several queries
+          if (seen.has(found.postId)) continue;
+          seen.add(found.postId);
+          result.found++;
+
+          const upserted = await upsertPost(workspaceId, connector, found, socialAccountId);
+          if (!upserted) {
+            result.skipped++;
+            continue;
+          }
+
+          if (upserted.created) {
+            result.created++;
+          } else {
+            result.updated++;
+          }
+
+          if (
+            await queuePostMedia(workspaceId, connector, upserted.post.id, upserted.connectorPost)
+          ) {
+            result.mediaQueued++;
+          }
+        }
+
+        // Results come newest first, so a page with nothing new means the rest was seen before
+        cursor = results.nextCursor;
+        if (!cursor || fresh.length === 0) break;
+      }
+
+      await job.updateProgress(Math.floor(((index + 1) / queries.length) * 100));
+    }
+  } catch (error) {
+    // Expired or revoked credentials fail every attempt the same way. Only the account's own
+    // token is for its owner to renew; refused app credentials are a configuration error
+    if (error instanceof ConnectorError && error.isAuthError) {
+      if (connector.usesAccountCredentials && socialAccountId) {
+        await flagSocialAccount(
+          socialAccountId,
+          'EXPIRED',
+          'The platform no longer accepts its access; connect it again to resume.'
+        );
+        throw new UnrecoverableError(error.message);
+      }
+      throw new UnrecoverableError(`${platform} app credentials were refused: ${error.message}`);
+    }
+    throw error;
+  }
+
+  if (socialAccountId) {
+    await prisma.socialAccount.update({
+      where: { id: socialAccountId },
+      data: { lastSyncAt: new Date(), syncState: nextSyncState },
+    });
+  }
+
+  return result;
+}
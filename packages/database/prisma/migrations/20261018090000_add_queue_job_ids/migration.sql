@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "media_assets" ADD COLUMN "queueJobId" TEXT;
+
+-- AlterTable
+ALTER TABLE "repurpose_jobs" ADD COLUMN "queueJobId" TEXT;
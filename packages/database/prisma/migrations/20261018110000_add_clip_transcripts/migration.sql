@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "repurposed_clips" ADD COLUMN "transcriptJson" JSONB;
@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "CaptionRevisionSource" AS ENUM ('TRANSCRIPTION', 'EDIT', 'RESTORE');
+
+-- CreateTable
+CREATE TABLE "caption_revisions" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "clipId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "source" "CaptionRevisionSource" NOT NULL,
+    "language" TEXT,
+    "cuesJson" JSONB NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "caption_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "caption_revisions_clipId_version_key" ON "caption_revisions"("clipId", "version");
+
+-- AddForeignKey
+ALTER TABLE "caption_revisions" ADD CONSTRAINT "caption_revisions_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "caption_revisions" ADD CONSTRAINT "caption_revisions_clipId_fkey" FOREIGN KEY ("clipId") REFERENCES "repurposed_clips"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "caption_revisions" ADD CONSTRAINT "caption_revisions_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
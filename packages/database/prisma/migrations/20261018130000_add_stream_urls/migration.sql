@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "media_assets" ADD COLUMN "streamUrl" TEXT;
+
+-- AlterTable
+ALTER TABLE "repurposed_clips" ADD COLUMN "streamUrl" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "media_assets" ADD COLUMN "thumbnailUrl" TEXT;
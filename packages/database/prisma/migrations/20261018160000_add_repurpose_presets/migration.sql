@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "repurpose_presets" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "settingsJson" JSONB NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "repurpose_presets_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "repurpose_jobs" ADD COLUMN "presetId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "repurpose_presets_workspaceId_name_key" ON "repurpose_presets"("workspaceId", "name");
+
+-- AddForeignKey
+ALTER TABLE "repurpose_presets" ADD CONSTRAINT "repurpose_presets_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "repurpose_presets" ADD CONSTRAINT "repurpose_presets_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "repurpose_jobs" ADD CONSTRAINT "repurpose_jobs_presetId_fkey" FOREIGN KEY ("presetId") REFERENCES "repurpose_presets"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "repurpose_batches" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "presetId" TEXT,
+    "paramsJson" JSONB NOT NULL,
+    "filterJson" JSONB NOT NULL,
+    "totalJobs" INTEGER NOT NULL DEFAULT 0,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "repurpose_batches_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "repurpose_jobs" ADD COLUMN "batchId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "repurpose_batches_workspaceId_createdAt_idx" ON "repurpose_batches"("workspaceId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "repurpose_jobs_batchId_idx" ON "repurpose_jobs"("batchId");
+
+-- AddForeignKey
+ALTER TABLE "repurpose_batches" ADD CONSTRAINT "repurpose_batches_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "repurpose_batches" ADD CONSTRAINT "repurpose_batches_presetId_fkey" FOREIGN KEY ("presetId") REFERENCES "repurpose_presets"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "repurpose_batches" ADD CONSTRAINT "repurpose_batches_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "repurpose_jobs" ADD CONSTRAINT "repurpose_jobs_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "repurpose_batches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "clip_exports" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "clipIds" TEXT[],
+    "platforms" TEXT[],
+    "campaignId" TEXT,
+    "useBranded" BOOLEAN NOT NULL DEFAULT false,
+    "status" "JobStatus" NOT NULL DEFAULT 'QUEUED',
+    "progress" INTEGER NOT NULL DEFAULT 0,
+    "storageKey" TEXT,
+    "fileSize" INTEGER,
+    "validationJson" JSONB,
+    "errorMessage" TEXT,
+    "queueJobId" TEXT,
+    "createdById" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "clip_exports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "clip_exports_workspaceId_createdAt_idx" ON "clip_exports"("workspaceId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "clip_exports" ADD CONSTRAINT "clip_exports_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "clip_exports" ADD CONSTRAINT "clip_exports_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "campaigns"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "clip_exports" ADD CONSTRAINT "clip_exports_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
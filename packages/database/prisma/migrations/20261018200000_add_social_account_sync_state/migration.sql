@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "social_accounts" ADD COLUMN "syncState" JSONB;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "ImportLogStep" ADD VALUE 'ENRICHING_METADATA' AFTER 'CHECKING_DUPLICATE';
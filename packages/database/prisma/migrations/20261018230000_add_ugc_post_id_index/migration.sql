@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "ugc_posts_workspaceId_platform_postId_idx" ON "ugc_posts"("workspaceId", "platform", "postId");
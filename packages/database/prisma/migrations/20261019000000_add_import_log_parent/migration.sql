@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "import_logs" ADD COLUMN "parentId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "import_logs_parentId_idx" ON "import_logs"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "import_logs" ADD CONSTRAINT "import_logs_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "import_logs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- CreateIndex
+-- Partial, so posts without a platform id are only unique by URL. Prisma cannot describe
+-- partial indexes, so the schema keeps the plain index on the same columns.
+CREATE UNIQUE INDEX "ugc_posts_workspaceId_platform_postId_key" ON "ugc_posts"("workspaceId", "platform", "postId") WHERE "postId" IS NOT NULL;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "clip_exports" ALTER COLUMN "fileSize" SET DATA TYPE BIGINT;
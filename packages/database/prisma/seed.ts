@@ -246,6 +246,44 @@ async function main() {
   });
   console.log(`✅ Created demo shoppable page: ${shoppablePage.slug}`);
 
+  // Create demo repurpose presets
+  const presets = [
+    {
+      name: 'TikTok hooks 7/15s burned captions',
+      description: 'Short vertical hooks with word-by-word captions',
+      settingsJson: {
+        durations: [7, 15],
+        formats: ['VERTICAL_9_16'],
+        strategy: 'highlights',
+        generateCaptions: true,
+        captionLanguage: 'en',
+        burnInCaptions: true,
+        captionStyle: { karaoke: true },
+      },
+    },
+    {
+      name: 'Meta ads 1:1 + 9:16',
+      description: 'Feed and Reels placements for paid social',
+      settingsJson: {
+        durations: [15, 30],
+        formats: ['SQUARE_1_1', 'VERTICAL_9_16'],
+        strategy: 'highlights',
+        generateCaptions: true,
+        captionLanguage: 'en',
+        burnInCaptions: true,
+      },
+    },
+  ];
+
+  for (const preset of presets) {
+    await prisma.repurposePreset.upsert({
+      where: { workspaceId_name: { workspaceId: demoWorkspace.id, name: preset.name } },
+      update: {},
+      create: { workspaceId: demoWorkspace.id, createdById: demoUser.id, ...preset },
+    });
+  }
+  console.log(`✅ Created ${presets.length} demo repurpose presets`);
+
   console.log('');
   console.log('🎉 Seeding completed!');
   console.log('');
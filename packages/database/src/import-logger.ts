@@ -2,15 +2,23 @@
  * Import Logger - Utility for tracking import operations with detailed logs
  */
 
-import { prisma, ImportLogStatus, ImportLogStep } from '@ugc/database';
+import { prisma } from './index';
+import type { ImportLogStatus, ImportLogStep } from '@prisma/client';
 
 export type LogStatus = 'success' | 'error' | 'warning' | 'info';
 
 export interface ImportLoggerOptions {
   workspaceId: string;
-  source: 'manual' | 'csv' | 'api';
+  source: 'manual' | 'csv' | 'xlsx' | 'api';
   totalItems?: number;
   metadata?: Record<string, unknown>;
+  parentId?: string; // Import whose failed rows this one retries
+}
+
+export interface FailedImportRow {
+  row: number;
+  values: Record<string, string>; // Keyed by import column, e.g. post_url
+  error: string;
 }
 
 export class ImportLogger {
@@ -19,6 +27,7 @@ export class ImportLogger {
   private source: string;
   private totalItems: number;
   private metadata: Record<string, unknown>;
+  private parentId: string | null;
   private stepStartTime: number = 0;
 
   constructor(options: ImportLoggerOptions) {
@@ -26,17 +35,36 @@ export class ImportLogger {
     this.source = options.source;
     this.totalItems = options.totalItems || 1;
     this.metadata = options.metadata || {};
+    this.parentId = options.parentId ?? null;
+  }
+
+  /**
+   * Attach to a log created earlier, such as one a background import job picks up
+   */
+  static async resume(logId: string): Promise<ImportLogger | null> {
+    const log = await prisma.importLog.findUnique({ where: { id: logId } });
+    if (!log) return null;
+
+    const logger = new ImportLogger({
+      workspaceId: log.workspaceId,
+      source: log.source as ImportLoggerOptions['source'],
+      totalItems: log.totalItems,
+    });
+    logger.logId = log.id;
+    logger.stepStartTime = Date.now();
+    return logger;
   }
 
   /**
-   * Initialize the import log
+   * Initialize the import log; background imports start it PENDING until a worker picks it up
    */
-  async start(): Promise<string> {
+  async start(status: ImportLogStatus = 'PROCESSING'): Promise<string> {
     const log = await prisma.importLog.create({
       data: {
         workspaceId: this.workspaceId,
         source: this.source,
-        status: 'PROCESSING',
+        parentId: this.parentId,
+        status,
         totalItems: this.totalItems,
         metadata: this.metadata ? JSON.parse(JSON.stringify(this.metadata)) : null,
         startedAt: new Date(),
@@ -103,6 +131,19 @@ export class ImportLogger {
     await this.log(step, 'info', message, details);
   }
 
+  /**
+   * Mark a pending import as running, now that the number of items is known
+   */
+  async markProcessing(totalItems: number): Promise<void> {
+    if (!this.logId) return;
+
+    this.totalItems = totalItems;
+    await prisma.importLog.update({
+      where: { id: this.logId },
+      data: { status: 'PROCESSING', totalItems, startedAt: new Date() },
+    });
+  }
+
   /**
    * Update progress counters
    */
@@ -186,3 +227,32 @@ export async function getImportLog(logId: string, workspaceId: string) {
     },
   });
 }
+
+/**
+ * Rows of an import that failed, with the values they were imported with
+ * Logs written before values were recorded only give back the post URL.
+ */
+export async function getFailedImportRows(logId: string): Promise<FailedImportRow[]> {
+  const entries = await prisma.importLogEntry.findMany({
+    where: { importLogId: logId, status: 'error' },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const rows = new Map<number, FailedImportRow>();
+  for (const entry of entries) {
+    const details = (entry.details ?? {}) as {
+      row?: unknown;
+      postUrl?: unknown;
+      values?: Record<string, string>;
+    };
+    if (typeof details.row !== 'number' || rows.has(details.row)) continue;
+
+    rows.set(details.row, {
+      row: details.row,
+      values:
+        details.values ?? (typeof details.postUrl === 'string' ? { post_url: details.postUrl } : {}),
+      error: entry.message.replace(/^Row \d+: /, ''),
+    });
+  }
+  return [...rows.values()].sort((a, b) => a.row - b.row);
+}
@@ -26,3 +26,15 @@ export * from '@prisma/client';
 
 // Export the client type for dependency injection
 export type { PrismaClient };
+
+// Envelope encryption for stored secrets
+export * from './token-vault';
+
+// OAuth connections and token refresh for social accounts
+export * from './social-auth';
+
+// Step-by-step logs of UGC imports
+export * from './import-logger';
+
+// Duplicate detection and merging for UGC posts
+export * from './ugc-posts';
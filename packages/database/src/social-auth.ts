@@ -0,0 +1,553 @@
+/**
+ * Social account OAuth - authorization code flow and token refresh for TikTok, Instagram and YouTube
+ * Endpoints default to the platforms' own. SOCIAL_OAUTH_BASE_URL sends every platform to one
+ * server instead (`<base>/<platform>/authorize`, `/token` and `/profile`), such as the mock
+ * server in apps/worker/scripts/mock-oauth-server.ts.
+ *
+ * Tokens are stored encrypted in SocialAccount.authTokensEncrypted. When a refresh is refused the
+ * account is flagged EXPIRED (or ERROR when its tokens are unusable) and the workspace notified.
+ */
+
+import { prisma } from './index';
+import { decryptSecret, encryptSecret, needsRewrap, rewrapSecret, TokenVaultError } from './token-vault';
+
+export type SocialPlatform = 'TIKTOK' | 'INSTAGRAM' | 'YOUTUBE';
+
+export interface SocialAuthTokens {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: string; // ISO date; absent when the access token does not expire
+  refreshExpiresAt?: string;
+  scope?: string;
+  platformUserId?: string; // The account's id on the platform, added once its profile is known
+}
+
+export interface SocialProfile {
+  platformUserId: string; // The account's id on the platform
+  handle: string;
+  displayName?: string;
+  profileUrl?: string;
+  profileImageUrl?: string;
+}
+
+/**
+ * A platform's OAuth server refused or failed a request
+ * Refusals (400, 401 or 403, or an `invalid_grant` error) mean the user has to connect the account
+ * again; a `not_configured` error means the OAuth client itself is missing its credentials
+ */
+export class SocialAuthError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    readonly code?: string
+  ) {
+    super(message);
+    this.name = 'SocialAuthError';
+  }
+
+  get isRefused(): boolean {
+    return (
+      this.code === 'invalid_grant' ||
+      this.status === 400 ||
+      this.status === 401 ||
+      this.status === 403
+    );
+  }
+}
+
+interface OAuthProvider {
+  authorizeUrl: string;
+  tokenUrl: string;
+  profileUrl: string;
+  scopes: string[];
+  scopeSeparator: string;
+  clientIdParam: 'client_id' | 'client_key'; // TikTok calls it client_key
+  clientIdEnv: string;
+  clientSecretEnv: string;
+  authorizeParams?: Record<string, string>;
+  // Meta has no refresh tokens; a still-valid long-lived token is exchanged for a new one
+  refreshGrant: 'refresh_token' | 'fb_exchange_token';
+  parseProfile(body: unknown): SocialProfile | null;
+}
+
+interface TikTokUserInfo {
+  data?: {
+    user?: {
+      open_id: string;
+      username?: string;
+      display_name?: string;
+      avatar_url?: string;
+      profile_deep_link?: string;
+    };
+  };
+}
+
+interface MetaPages {
+  data?: {
+    instagram_business_account?: {
+      id: string;
+      username: string;
+      name?: string;
+      profile_picture_url?: string;
+    };
+  }[];
+}
+
+interface YouTubeChannels {
+  items?: {
+    id: string;
+    snippet?: {
+      title?: string;
+      customUrl?: string;
+      thumbnails?: Record<string, { url: string }>;
+    };
+  }[];
+}
+
+const providers: Record<SocialPlatform, OAuthProvider> = {
+  TIKTOK: {
+    authorizeUrl: 'https://www.tiktok.com/v2/auth/authorize/',
+    tokenUrl: 'https://open.tiktokapis.com/v2/oauth/token/',
+    profileUrl:
+      'https://open.tiktokapis.com/v2/user/info/?fields=open_id,username,display_name,avatar_url,profile_deep_link',
+    scopes: ['user.info.basic', 'user.info.profile', 'video.list'],
+    scopeSeparator: ',',
+    clientIdParam: 'client_key',
+    clientIdEnv: 'TIKTOK_CLIENT_KEY',
+    clientSecretEnv: 'TIKTOK_CLIENT_SECRET',
+    refreshGrant: 'refresh_token',
+    parseProfile(body) {
+      const user = (body as TikTokUserInfo).data?.user;
+      if (!user?.username) return null;
+      return {
+        platformUserId: user.open_id,
+        handle: user.username,
+        displayName: user.display_name,
+        profileUrl: user.profile_deep_link ?? `https://www.tiktok.com/@${user.username}`,
+        profileImageUrl: user.avatar_url,
+      };
+    },
+  },
+  INSTAGRAM: {
+    authorizeUrl: 'https://www.facebook.com/v19.0/dialog/oauth',
+    tokenUrl: 'https://graph.facebook.com/v19.0/oauth/access_token',
+    profileUrl:
+      'https://graph.facebook.com/v19.0/me/accounts?fields=instagram_business_account{id,username,name,profile_picture_url}',
+    scopes: [
+      'instagram_basic',
+      'instagram_manage_comments',
+      'pages_show_list',
+      'pages_read_engagement',
+      'business_management',
+    ],
+    scopeSeparator: ',',
+    clientIdParam: 'client_id',
+    clientIdEnv: 'META_APP_ID',
+    clientSecretEnv: 'META_APP_SECRET',
+    refreshGrant: 'fb_exchange_token',
+    parseProfile(body) {
+      // The Instagram business account linked to one of the user's Facebook pages
+      const account = (body as MetaPages).data?.find(
+        (page) => page.instagram_business_account
+      )?.instagram_business_account;
+      if (!account) return null;
+      return {
+        platformUserId: account.id,
+        handle: account.username,
+        displayName: account.name,
+        profileUrl: `https://www.instagram.com/${account.username}/`,
+        profileImageUrl: account.profile_picture_url,
+      };
+    },
+  },
+  YOUTUBE: {
+    authorizeUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+    tokenUrl: 'https://oauth2.googleapis.com/token',
+    profileUrl: 'https://www.googleapis.com/youtube/v3/channels?part=snippet&mine=true',
+    scopes: ['https://www.googleapis.com/auth/youtube.readonly'],
+    scopeSeparator: ' ',
+    clientIdParam: 'client_id',
+    clientIdEnv: 'GOOGLE_CLIENT_ID',
+    clientSecretEnv: 'GOOGLE_CLIENT_SECRET',
+    // Google only returns a refresh token for offline access, and only on consent
+    authorizeParams: { access_type: 'offline', prompt: 'consent' },
+    refreshGrant: 'refresh_token',
+    parseProfile(body) {
+      const channel = (body as YouTubeChannels).items?.[0];
+      if (!channel) return null;
+      const handle = channel.snippet?.customUrl?.replace(/^@/, '') ?? channel.id;
+      return {
+        platformUserId: channel.id,
+        handle,
+        displayName: channel.snippet?.title,
+        profileUrl: `https://www.youtube.com/${channel.snippet?.customUrl ?? `channel/${channel.id}`}`,
+        profileImageUrl: channel.snippet?.thumbnails?.default?.url,
+      };
+    },
+  },
+};
+
+// Access tokens this close to expiring are refreshed before use
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+function endpoints(platform: SocialPlatform) {
+  const provider = providers[platform];
+  const base = process.env.SOCIAL_OAUTH_BASE_URL?.replace(/\/$/, '');
+  if (!base) {
+    return provider;
+  }
+  const prefix = `${base}/${platform.toLowerCase()}`;
+  return {
+    ...provider,
+    authorizeUrl: `${prefix}/authorize`,
+    tokenUrl: `${prefix}/token`,
+    profileUrl: `${prefix}/profile`,
+  };
+}
+
+function clientCredentials(platform: SocialPlatform) {
+  const provider = providers[platform];
+  const clientId = process.env[provider.clientIdEnv];
+  const clientSecret = process.env[provider.clientSecretEnv];
+  if (!clientId || !clientSecret) {
+    throw new SocialAuthError(
+      `${provider.clientIdEnv} and ${provider.clientSecretEnv} are not set`,
+      undefined,
+      'not_configured'
+    );
+  }
+  return { clientId, clientSecret };
+}
+
+/**
+ * Whether the platform's OAuth client is configured, so accounts can be connected
+ */
+export function isSocialAuthConfigured(platform: SocialPlatform): boolean {
+  const provider = providers[platform];
+  return Boolean(process.env[provider.clientIdEnv] && process.env[provider.clientSecretEnv]);
+}
+
+/**
+ * URL of the platform's consent screen; it redirects back to `redirectUri` with a code and `state`
+ */
+export function buildAuthorizationUrl(
+  platform: SocialPlatform,
+  options: { redirectUri: string; state: string }
+): string {
+  const provider = endpoints(platform);
+  const { clientId } = clientCredentials(platform);
+  const url = new URL(provider.authorizeUrl);
+  url.searchParams.set(provider.clientIdParam, clientId);
+  url.searchParams.set('redirect_uri', options.redirectUri);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('scope', provider.scopes.join(provider.scopeSeparator));
+  url.searchParams.set('state', options.state);
+  for (const [name, value] of Object.entries(provider.authorizeParams ?? {})) {
+    url.searchParams.set(name, value);
+  }
+  return url.toString();
+}
+
+interface TokenResponse {
+  access_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+  refresh_expires_in?: number;
+  scope?: string;
+  error?: string | { message?: string; code?: number };
+  error_description?: string;
+}
+
+async function requestTokens(
+  platform: SocialPlatform,
+  params: Record<string, string>,
+  previous?: SocialAuthTokens
+): Promise<SocialAuthTokens> {
+  const provider = endpoints(platform);
+  const { clientId, clientSecret } = clientCredentials(platform);
+
+  const response = await fetch(provider.tokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body: new URLSearchParams({
+      [provider.clientIdParam]: clientId,
+      client_secret: clientSecret,
+      ...params,
+    }),
+    signal: AbortSignal.timeout(30_000),
+  });
+
+  const text = await response.text();
+  let body: TokenResponse;
+  try {
+    body = JSON.parse(text) as TokenResponse;
+  } catch {
+    throw new SocialAuthError(
+      `${platform} token endpoint returned ${response.status}: ${text.slice(0, 200)}`,
+      response.ok ? undefined : response.status
+    );
+  }
+
+  // TikTok reports some errors with a 200 status
+  if (!response.ok || body.error || !body.access_token) {
+    const code = typeof body.error === 'string' ? body.error : undefined;
+    const message =
+      body.error_description ??
+      (typeof body.error === 'object' ? body.error.message : body.error) ??
+      `status ${response.status}`;
+    throw new SocialAuthError(
+      `${platform} token request failed: ${message}`,
+      response.ok ? 400 : response.status,
+      code
+    );
+  }
+
+  const now = Date.now();
+  return {
+    accessToken: body.access_token,
+    // Not every refresh returns a new refresh token; the old one stays valid then
+    refreshToken: body.refresh_token ?? previous?.refreshToken,
+    expiresAt: body.expires_in ? new Date(now + body.expires_in * 1000).toISOString() : undefined,
+    refreshExpiresAt: body.refresh_expires_in
+      ? new Date(now + body.refresh_expires_in * 1000).toISOString()
+      : previous?.refreshExpiresAt,
+    scope: body.scope ?? previous?.scope,
+    platformUserId: previous?.platformUserId,
+  };
+}
+
+async function refreshTokens(
+  platform: SocialPlatform,
+  tokens: SocialAuthTokens
+): Promise<SocialAuthTokens> {
+  if (providers[platform].refreshGrant === 'fb_exchange_token') {
+    return requestTokens(
+      platform,
+      { grant_type: 'fb_exchange_token', fb_exchange_token: tokens.accessToken },
+      tokens
+    );
+  }
+
+  if (!tokens.refreshToken) {
+    throw new SocialAuthError(`${platform} did not grant a refresh token`, 400, 'invalid_grant');
+  }
+  return requestTokens(
+    platform,
+    { grant_type: 'refresh_token', refresh_token: tokens.refreshToken },
+    tokens
+  );
+}
+
+/**
+ * Trade the code from the consent screen for tokens
+ * Meta's code only buys a short-lived token, so it is exchanged for a long-lived one right away
+ */
+export async function exchangeAuthorizationCode(
+  platform: SocialPlatform,
+  code: string,
+  redirectUri: string
+): Promise<SocialAuthTokens> {
+  const tokens = await requestTokens(platform, {
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri,
+  });
+  return providers[platform].refreshGrant === 'fb_exchange_token'
+    ? refreshTokens(platform, tokens)
+    : tokens;
+}
+
+/**
+ * Look up the account the tokens belong to
+ */
+export async function fetchSocialProfile(
+  platform: SocialPlatform,
+  accessToken: string
+): Promise<SocialProfile> {
+  const provider = endpoints(platform);
+  const response = await fetch(provider.profileUrl, {
+    headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/json' },
+    signal: AbortSignal.timeout(30_000),
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new SocialAuthError(
+      `${platform} profile request returned ${response.status}: ${text.slice(0, 200)}`,
+      response.status
+    );
+  }
+
+  const profile = provider.parseProfile(await response.json());
+  if (!profile) {
+    throw new SocialAuthError(
+      platform === 'INSTAGRAM'
+        ? 'No Instagram business account is linked to your Facebook pages'
+        : `${platform} did not return an account for these tokens`,
+      undefined,
+      'no_account'
+    );
+  }
+  return profile;
+}
+
+/**
+ * SocialAccount fields that store the tokens
+ */
+export function sealSocialTokens(tokens: SocialAuthTokens) {
+  return {
+    authTokensEncrypted: encryptSecret(JSON.stringify(tokens)),
+    tokenExpiresAt: tokens.expiresAt ? new Date(tokens.expiresAt) : null,
+  };
+}
+
+function openSocialTokens(payload: string): SocialAuthTokens {
+  return JSON.parse(decryptSecret(payload)) as SocialAuthTokens;
+}
+
+const failureTitles = {
+  EXPIRED: 'needs to be reconnected',
+  ERROR: 'could not be refreshed',
+} as const;
+
+/**
+ * Flag an account whose tokens stopped working and tell the workspace
+ * Only the first failure notifies; the account stays flagged until it is connected again
+ */
+export async function flagSocialAccount(
+  socialAccountId: string,
+  status: 'EXPIRED' | 'ERROR',
+  reason: string
+): Promise<void> {
+  const account = await prisma.socialAccount.findUnique({
+    where: { id: socialAccountId },
+    include: { workspace: { select: { slug: true } } },
+  });
+  if (!account || account.status === status) {
+    return;
+  }
+
+  await prisma.$transaction([
+    prisma.socialAccount.update({ where: { id: account.id }, data: { status } }),
+    prisma.notification.create({
+      data: {
+        workspaceId: account.workspaceId,
+        type: status === 'EXPIRED' ? 'social_account_expired' : 'social_account_error',
+        title: `@${account.handle} ${failureTitles[status]}`,
+        message: `Listening for this ${account.platform.toLowerCase()} account is paused. ${reason}`,
+        link: `/w/${account.workspace.slug}/settings/accounts`,
+        entityType: 'social_account',
+        entityId: account.id,
+      },
+    }),
+  ]);
+}
+
+/**
+ * Refresh an account's tokens and store them
+ * Refusals flag the account and throw; network, server and configuration errors throw without
+ * flagging, so the caller can retry later
+ */
+export async function refreshSocialAccountTokens(
+  socialAccountId: string
+): Promise<SocialAuthTokens | null> {
+  const account = await prisma.socialAccount.findUnique({ where: { id: socialAccountId } });
+  if (!account?.authTokensEncrypted || account.platform === 'MANUAL') {
+    return null;
+  }
+
+  let tokens: SocialAuthTokens;
+  try {
+    tokens = openSocialTokens(account.authTokensEncrypted);
+  } catch (error) {
+    if (error instanceof TokenVaultError || error instanceof SyntaxError) {
+      await flagSocialAccount(account.id, 'ERROR', 'Its stored tokens could not be read.');
+    }
+    throw error;
+  }
+
+  let refreshed: SocialAuthTokens;
+  try {
+    refreshed = await refreshTokens(account.platform, tokens);
+  } catch (error) {
+    if (error instanceof SocialAuthError && error.isRefused) {
+      await flagSocialAccount(
+        account.id,
+        'EXPIRED',
+        'Its access was revoked or has run out; connect it again to resume.'
+      );
+    } else if (
+      error instanceof SocialAuthError &&
+      error.status === undefined &&
+      // A missing client secret is the deployment's problem, not the account's
+      error.code !== 'not_configured'
+    ) {
+      await flagSocialAccount(account.id, 'ERROR', error.message);
+    }
+    throw error;
+  }
+
+  // Another process may have refreshed first; platforms that rotate refresh tokens would
+  // reject the one we just used, so keep whichever was stored first
+  const stored = await prisma.socialAccount.updateMany({
+    where: { id: account.id, authTokensEncrypted: account.authTokensEncrypted },
+    data: sealSocialTokens(refreshed),
+  });
+  if (stored.count === 0) {
+    const current = await prisma.socialAccount.findUnique({
+      where: { id: account.id },
+      select: { authTokensEncrypted: true },
+    });
+    return current?.authTokensEncrypted ? openSocialTokens(current.authTokensEncrypted) : null;
+  }
+  return refreshed;
+}
+
+/**
+ * Usable tokens of an account, refreshed first when they are about to expire
+ * Returns null for accounts that were added by handle and have no tokens
+ */
+export async function getSocialAccountTokens(
+  socialAccountId: string
+): Promise<SocialAuthTokens | null> {
+  const account = await prisma.socialAccount.findUnique({
+    where: { id: socialAccountId },
+    select: { id: true, authTokensEncrypted: true, tokenExpiresAt: true },
+  });
+  if (!account?.authTokensEncrypted) {
+    return null;
+  }
+
+  if (account.tokenExpiresAt && account.tokenExpiresAt.getTime() - Date.now() < REFRESH_MARGIN_MS) {
+    return refreshSocialAccountTokens(account.id);
+  }
+
+  try {
+    return openSocialTokens(account.authTokensEncrypted);
+  } catch (error) {
+    if (error instanceof TokenVaultError || error instanceof SyntaxError) {
+      await flagSocialAccount(account.id, 'ERROR', 'Its stored tokens could not be read.');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Re-wrap an account's tokens with the current ENCRYPTION_KEY after a key rotation
+ * Returns whether anything changed
+ */
+export async function rewrapSocialAccountTokens(socialAccountId: string): Promise<boolean> {
+  const account = await prisma.socialAccount.findUnique({
+    where: { id: socialAccountId },
+    select: { id: true, authTokensEncrypted: true },
+  });
+  if (!account?.authTokensEncrypted || !needsRewrap(account.authTokensEncrypted)) {
+    return false;
+  }
+
+  const stored = await prisma.socialAccount.updateMany({
+    where: { id: account.id, authTokensEncrypted: account.authTokensEncrypted },
+    data: { authTokensEncrypted: rewrapSecret(account.authTokensEncrypted) },
+  });
+  return stored.count > 0;
+}
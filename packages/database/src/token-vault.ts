@@ -0,0 +1,127 @@
+/**
+ * Envelope encryption for secrets stored in the database, such as social account OAuth tokens
+ * Every value is encrypted with its own random data key (AES-256-GCM), and that key is wrapped
+ * with the master key from ENCRYPTION_KEY. Payloads name the master key they were wrapped with,
+ * so the key can be rotated: set the new key in ENCRYPTION_KEY, list the old ones in
+ * ENCRYPTION_KEY_PREVIOUS (comma-separated) and rewrap stored values until none use them.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+
+const VERSION = 'v1';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+export class TokenVaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenVaultError';
+  }
+}
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+function parseKey(value: string): MasterKey {
+  const key = Buffer.from(value.trim(), 'base64');
+  if (key.length !== 32) {
+    throw new TokenVaultError('Encryption keys must be 32 bytes, base64 encoded');
+  }
+  // Short fingerprint, so payloads can name their key without revealing it
+  return { id: createHash('sha256').update(key).digest('hex').slice(0, 8), key };
+}
+
+function currentKey(): MasterKey {
+  const value = process.env.ENCRYPTION_KEY;
+  if (!value) {
+    throw new TokenVaultError('ENCRYPTION_KEY is not set');
+  }
+  return parseKey(value);
+}
+
+function findKey(id: string): MasterKey {
+  const candidates = [
+    process.env.ENCRYPTION_KEY,
+    ...(process.env.ENCRYPTION_KEY_PREVIOUS ?? '').split(','),
+  ].filter((value): value is string => Boolean(value?.trim()));
+
+  const match = candidates.map(parseKey).find((candidate) => candidate.id === id);
+  if (!match) {
+    throw new TokenVaultError(`Encryption key ${id} is not configured`);
+  }
+  return match;
+}
+
+// iv | tag | ciphertext
+function seal(key: Buffer, plaintext: Buffer): Buffer {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function open(key: Buffer, sealed: Buffer): Buffer {
+  const decipher = createDecipheriv('aes-256-gcm', key, sealed.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(sealed.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(sealed.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+function splitPayload(payload: string) {
+  const [version, keyId, wrappedKey, data] = payload.split('.');
+  if (version !== VERSION || !keyId || !wrappedKey || !data) {
+    throw new TokenVaultError('Unrecognized encrypted payload');
+  }
+  return { keyId, wrappedKey: Buffer.from(wrappedKey, 'base64url'), data: Buffer.from(data, 'base64url') };
+}
+
+/**
+ * Encrypt a secret for storage: `v1.<key id>.<wrapped data key>.<ciphertext>`
+ */
+export function encryptSecret(plaintext: string): string {
+  const master = currentKey();
+  const dataKey = randomBytes(32);
+  const data = seal(dataKey, Buffer.from(plaintext, 'utf8'));
+  const wrappedKey = seal(master.key, dataKey);
+  return [VERSION, master.id, wrappedKey.toString('base64url'), data.toString('base64url')].join('.');
+}
+
+export function decryptSecret(payload: string): string {
+  const { keyId, wrappedKey, data } = splitPayload(payload);
+  try {
+    const dataKey = open(findKey(keyId).key, wrappedKey);
+    return open(dataKey, data).toString('utf8');
+  } catch (error) {
+    if (error instanceof TokenVaultError) throw error;
+    throw new TokenVaultError('Encrypted payload could not be decrypted');
+  }
+}
+
+/**
+ * Whether a payload was wrapped with a key other than the current ENCRYPTION_KEY
+ */
+export function needsRewrap(payload: string): boolean {
+  return splitPayload(payload).keyId !== currentKey().id;
+}
+
+/**
+ * Wrap a payload's data key with the current master key; the secret itself is not re-encrypted
+ */
+export function rewrapSecret(payload: string): string {
+  const { keyId, wrappedKey, data } = splitPayload(payload);
+  const master = currentKey();
+  if (keyId === master.id) {
+    return payload;
+  }
+
+  let dataKey: Buffer;
+  try {
+    dataKey = open(findKey(keyId).key, wrappedKey);
+  } catch (error) {
+    if (error instanceof TokenVaultError) throw error;
+    throw new TokenVaultError('Encrypted payload could not be decrypted');
+  }
+  const rewrapped = seal(master.key, dataKey);
+  return [VERSION, master.id, rewrapped.toString('base64url'), data.toString('base64url')].join('.');
+}
@@ -0,0 +1,156 @@
+/**
+ * UGC post identity - finding a post that is already imported and merging duplicates
+ * A post is the same post when its platform id matches, or failing that its canonical URL.
+ */
+
+import { prisma } from './index';
+import type { Platform, Prisma, RightsStatus } from '@prisma/client';
+
+export interface PostIdentity {
+  postUrl: string;
+  postId?: string | null;
+}
+
+export interface MergeUgcPostsResult {
+  rightsRequestMoved: boolean;
+  mediaAssetsMoved: number;
+  productsMoved: number;
+  eventsMoved: number;
+}
+
+// The further a request got, the more worth keeping it is
+const RIGHTS_PROGRESS: Record<RightsStatus, number> = {
+  PENDING: 0,
+  REQUESTED: 1,
+  EXPIRED: 2,
+  DENIED: 3,
+  APPROVED: 4,
+};
+
+// Details the kept post takes from a duplicate when it has none of its own
+const FILLABLE_FIELDS = [
+  'postId',
+  'socialAccountId',
+  'creatorName',
+  'creatorProfileUrl',
+  'caption',
+  'postedAt',
+  'thumbnailUrl',
+  'metricsJson',
+  'rawJson',
+] as const;
+
+/**
+ * The oldest post in the workspace with the same platform id or URL
+ */
+export function findExistingPost(workspaceId: string, platform: Platform, identity: PostIdentity) {
+  return prisma.ugcPost.findFirst({
+    where: {
+      workspaceId,
+      platform,
+      OR: [
+        { postUrl: identity.postUrl },
+        ...(identity.postId ? [{ postId: identity.postId }] : []),
+      ],
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * Fold duplicate posts into one, then delete them
+ * The kept post takes over their media, product tags and events, fills its empty fields from
+ * them and keeps whichever rights request got furthest. `identity` and the post id are set on it
+ * last, once the duplicates no longer hold them.
+ */
+export async function mergeUgcPosts(
+  keepId: string,
+  duplicateIds: string[],
+  identity?: PostIdentity
+): Promise<MergeUgcPostsResult> {
+  const posts = await prisma.ugcPost.findMany({
+    where: { id: { in: [keepId, ...duplicateIds] } },
+    include: { rightsRequest: true, contentProductMaps: true },
+    orderBy: { createdAt: 'asc' },
+  });
+  const keep = posts.find((post) => post.id === keepId);
+  if (!keep) {
+    throw new Error(`UGC post ${keepId} not found`);
+  }
+  const duplicates = posts.filter((post) => post.id !== keepId);
+  const ids = duplicates.map((post) => post.id);
+
+  const rights = posts
+    .flatMap((post) => (post.rightsRequest ? [post.rightsRequest] : []))
+    .sort(
+      (a, b) =>
+        RIGHTS_PROGRESS[b.status] - RIGHTS_PROGRESS[a.status] ||
+        b.updatedAt.getTime() - a.updatedAt.getTime()
+    )[0];
+  const moveRights = rights !== undefined && rights.ugcPostId !== keepId;
+
+  const keptProducts = new Set(keep.contentProductMaps.map((map) => map.productId));
+  let hasPrimary = keep.contentProductMaps.some((map) => map.isPrimary);
+  const productMoves: Prisma.PrismaPromise<unknown>[] = [];
+  for (const map of duplicates.flatMap((post) => post.contentProductMaps)) {
+    if (keptProducts.has(map.productId)) continue;
+    keptProducts.add(map.productId);
+    productMoves.push(
+      prisma.contentProductMap.update({
+        where: { id: map.id },
+        data: { ugcPostId: keepId, isPrimary: map.isPrimary && !hasPrimary },
+      })
+    );
+    hasPrimary ||= map.isPrimary;
+  }
+
+  const filled: Prisma.UgcPostUncheckedUpdateInput = {};
+  for (const field of FILLABLE_FIELDS) {
+    if (keep[field] != null) continue;
+    const donor = duplicates.find((post) => post[field] != null);
+    if (donor) (filled as Record<string, unknown>)[field] = donor[field];
+  }
+  // Duplicates may hold the same post id, so like the URL it is set once they are gone
+  const postId = identity?.postId ?? (filled.postId as string | undefined);
+  delete filled.postId;
+  filled.hashtags = [...new Set(posts.flatMap((post) => post.hashtags))];
+  filled.mentions = [...new Set(posts.flatMap((post) => post.mentions))];
+
+  const rightsMoves: Prisma.PrismaPromise<unknown>[] = [];
+  if (moveRights) {
+    // Only one request per post, so the kept post's own one has to go first
+    if (keep.rightsRequest) {
+      rightsMoves.push(prisma.rightsRequest.delete({ where: { id: keep.rightsRequest.id } }));
+    }
+    rightsMoves.push(
+      prisma.rightsRequest.update({ where: { id: rights.id }, data: { ugcPostId: keepId } })
+    );
+  }
+
+  const [media, events] = (await prisma.$transaction([
+    prisma.mediaAsset.updateMany({
+      where: { ugcPostId: { in: ids } },
+      data: { ugcPostId: keepId },
+    }),
+    prisma.event.updateMany({ where: { ugcPostId: { in: ids } }, data: { ugcPostId: keepId } }),
+    ...rightsMoves,
+    ...productMoves,
+    prisma.ugcPost.update({ where: { id: keepId }, data: filled }),
+    prisma.ugcPost.deleteMany({ where: { id: { in: ids } } }),
+    ...(identity || postId
+      ? [
+          prisma.ugcPost.update({
+            where: { id: keepId },
+            data: { postUrl: identity?.postUrl, postId },
+          }),
+        ]
+      : []),
+  ])) as [Prisma.BatchPayload, Prisma.BatchPayload, ...unknown[]];
+
+  return {
+    rightsRequestMoved: moveRights,
+    mediaAssetsMoved: media.count,
+    productsMoved: productMoves.length,
+    eventsMoved: events.count,
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * Shared Redis connection for BullMQ queues and workers
+ */
+
+import Redis from 'ioredis';
+
+let connection: Redis | null = null;
+
+/**
+ * Get or create the Redis connection
+ * Created lazily so importing this package never opens a socket on its own
+ */
+export function getRedisConnection(): Redis {
+  if (connection) {
+    return connection;
+  }
+
+  connection = new Redis(process.env.REDIS_URL || 'redis://localhost:6379', {
+    maxRetriesPerRequest: null, // Required by BullMQ
+  });
+
+  return connection;
+}
+
+/**
+ * Close the Redis connection if one was opened
+ */
+export async function closeRedisConnection(): Promise<void> {
+  if (!connection) return;
+  await connection.quit();
+  connection = null;
+}
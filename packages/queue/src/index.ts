@@ -0,0 +1,8 @@
+/**
+ * @ugc/queue - BullMQ queue definitions shared by the web app and the worker
+ * The web app enqueues jobs through the helpers; the worker consumes the same queue names
+ */
+
+export * from './connection';
+export * from './queues';
+export * from './types';
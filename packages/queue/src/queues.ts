@@ -0,0 +1,328 @@
+/**
+ * Queue definitions and job creation helpers
+ */
+
+import { Queue, QueueEvents } from 'bullmq';
+import { getRedisConnection } from './connection';
+import type {
+  MediaDownloadJobData,
+  MediaTranscodeJobData,
+  ClipGenerationJobData,
+  CaptionGenerationJobData,
+  CaptionBurnInJobData,
+  ClipBrandingJobData,
+  ClipExportJobData,
+  UgcIngestionJobData,
+  UgcImportJobData,
+  SocialTokenRefreshJobData,
+} from './types';
+
+export const QUEUE_NAMES = {
+  MEDIA_DOWNLOAD: 'media-download',
+  MEDIA_TRANSCODE: 'media-transcode',
+  CLIP_GENERATION: 'clip-generation',
+  CAPTION_GENERATION: 'caption-generation',
+  CAPTION_BURN_IN: 'caption-burn-in',
+  CLIP_BRANDING: 'clip-branding',
+  CLIP_EXPORT: 'clip-export',
+  UGC_INGESTION: 'ugc-ingestion',
+  UGC_IMPORT: 'ugc-import',
+  SOCIAL_TOKEN_REFRESH: 'social-token-refresh',
+} as const;
+
+export type QueueName = (typeof QUEUE_NAMES)[keyof typeof QUEUE_NAMES];
+
+// Workers subscribe to this channel to stop jobs that are already running
+export const JOB_CANCELLATION_CHANNEL = 'ugc:job-cancellations';
+
+export interface JobCancellationMessage {
+  queue: QueueName;
+  jobId: string;
+}
+
+const queues = new Map<QueueName, Queue>();
+const queueEvents = new Map<QueueName, QueueEvents>();
+
+/**
+ * Get or create a queue instance
+ */
+export function getQueue<T = unknown>(name: QueueName): Queue<T> {
+  let queue = queues.get(name);
+  if (!queue) {
+    queue = new Queue(name, { connection: getRedisConnection() });
+    queues.set(name, queue);
+  }
+  return queue as Queue<T>;
+}
+
+/**
+ * Get or create the event stream of a queue
+ * BullMQ gives it a duplicate of the shared connection, since reading events blocks
+ */
+export function getQueueEvents(name: QueueName): QueueEvents {
+  let events = queueEvents.get(name);
+  if (!events) {
+    events = new QueueEvents(name, { connection: getRedisConnection() });
+    queueEvents.set(name, events);
+  }
+  return events;
+}
+
+/**
+ * Close all queue and queue event instances opened by this process
+ */
+export async function closeQueues(): Promise<void> {
+  await Promise.all([
+    ...Array.from(queues.values()).map((queue) => queue.close()),
+    ...Array.from(queueEvents.values()).map((events) => events.close()),
+  ]);
+  queues.clear();
+  queueEvents.clear();
+}
+
+/**
+ * Cancel a BullMQ job
+ * Jobs that have not started are removed from the queue; running jobs are signalled so the
+ * worker can stop its ffmpeg processes
+ */
+export async function cancelQueueJob(
+  name: QueueName,
+  jobId: string
+): Promise<'removed' | 'signalled' | 'not_found'> {
+  const job = await getQueue(name).getJob(jobId);
+  if (!job) {
+    return 'not_found';
+  }
+
+  const state = await job.getState();
+  if (state !== 'active') {
+    try {
+      await job.remove();
+      return 'removed';
+    } catch {
+      // Picked up by a worker in the meantime - it is locked, so signal it instead
+    }
+  }
+
+  const message: JobCancellationMessage = { queue: name, jobId };
+  await getRedisConnection().publish(JOB_CANCELLATION_CHANNEL, JSON.stringify(message));
+  return 'signalled';
+}
+
+/**
+ * Whether a BullMQ job is currently being processed by a worker
+ */
+export async function isQueueJobActive(name: QueueName, jobId: string): Promise<boolean> {
+  const job = await getQueue(name).getJob(jobId);
+  return job ? (await job.getState()) === 'active' : false;
+}
+
+// Job creation helpers
+export async function queueMediaDownload(workspaceId: string, mediaAssetId: string, sourceUrl?: string) {
+  return getQueue<MediaDownloadJobData>(QUEUE_NAMES.MEDIA_DOWNLOAD).add(
+    'download',
+    { workspaceId, mediaAssetId, sourceUrl },
+    {
+      attempts: 3,
+      backoff: { type: 'exponential', delay: 5000 },
+      removeOnComplete: 100,
+      removeOnFail: 1000,
+    }
+  );
+}
+
+export async function queueMediaTranscode(workspaceId: string, mediaAssetId: string) {
+  return getQueue<MediaTranscodeJobData>(QUEUE_NAMES.MEDIA_TRANSCODE).add(
+    'transcode',
+    { workspaceId, mediaAssetId },
+    {
+      attempts: 3,
+      backoff: { type: 'exponential', delay: 5000 },
+      removeOnComplete: 100,
+      removeOnFail: 1000,
+    }
+  );
+}
+
+export async function queueClipTranscode(workspaceId: string, clipId: string) {
+  return getQueue<MediaTranscodeJobData>(QUEUE_NAMES.MEDIA_TRANSCODE).add(
+    'transcode-clip',
+    { workspaceId, clipId },
+    {
+      attempts: 3,
+      backoff: { type: 'exponential', delay: 5000 },
+      removeOnComplete: 100,
+      removeOnFail: 1000,
+    }
+  );
+}
+
+export async function queueClipGeneration(
+  workspaceId: string,
+  repurposeJobId: string,
+  sourceMediaAssetId: string,
+  params: ClipGenerationJobData['params']
+) {
+  return getQueue<ClipGenerationJobData>(QUEUE_NAMES.CLIP_GENERATION).add(
+    'generate-clips',
+    { workspaceId, repurposeJobId, sourceMediaAssetId, params },
+    {
+      attempts: 3,
+      backoff: { type: 'exponential', delay: 10000 },
+      removeOnComplete: 100,
+      removeOnFail: 1000,
+    }
+  );
+}
+
+export async function queueCaptionGeneration(
+  workspaceId: string,
+  clipId: string,
+  language: string = 'en',
+  burnIn: boolean = false
+) {
+  return getQueue<CaptionGenerationJobData>(QUEUE_NAMES.CAPTION_GENERATION).add(
+    'generate-captions',
+    { workspaceId, clipId, language, burnIn },
+    {
+      attempts: 3,
+      backoff: { type: 'exponential', delay: 5000 },
+      removeOnComplete: 100,
+      removeOnFail: 1000,
+    }
+  );
+}
+
+export async function queueCaptionBurnIn(workspaceId: string, clipId: string) {
+  return getQueue<CaptionBurnInJobData>(QUEUE_NAMES.CAPTION_BURN_IN).add(
+    'burn-in-captions',
+    { workspaceId, clipId },
+    {
+      attempts: 3,
+      backoff: { type: 'exponential', delay: 5000 },
+      removeOnComplete: 100,
+      removeOnFail: 1000,
+    }
+  );
+}
+
+export async function queueClipBranding(workspaceId: string, clipId: string) {
+  return getQueue<ClipBrandingJobData>(QUEUE_NAMES.CLIP_BRANDING).add(
+    'brand-clip',
+    { workspaceId, clipId },
+    {
+      attempts: 3,
+      backoff: { type: 'exponential', delay: 5000 },
+      removeOnComplete: 100,
+      removeOnFail: 1000,
+    }
+  );
+}
+
+export async function queueClipExport(workspaceId: string, exportId: string) {
+  return getQueue<ClipExportJobData>(QUEUE_NAMES.CLIP_EXPORT).add(
+    'export-clips',
+    { workspaceId, exportId },
+    {
+      attempts: 3,
+      backoff: { type: 'exponential', delay: 5000 },
+      removeOnComplete: 100,
+      removeOnFail: 1000,
+    }
+  );
+}
+
+export async function queueUgcIngestion(
+  workspaceId: string,
+  platform: UgcIngestionJobData['platform'],
+  searchCriteria: UgcIngestionJobData['searchCriteria']
+) {
+  return getQueue<UgcIngestionJobData>(QUEUE_NAMES.UGC_INGESTION).add(
+    'ingest-ugc',
+    { workspaceId, platform, searchCriteria },
+    {
+      attempts: 3,
+      backoff: { type: 'exponential', delay: 30000 },
+      removeOnComplete: 100,
+      removeOnFail: 1000,
+    }
+  );
+}
+
+/**
+ * Import an uploaded file or a batch of rows in the background
+ * Not retried: rows are written as they go, so a rerun would only repeat what already happened
+ */
+export async function queueUgcImport(data: UgcImportJobData) {
+  return getQueue<UgcImportJobData>(QUEUE_NAMES.UGC_IMPORT).add('import-ugc', data, {
+    jobId: data.importLogId,
+    attempts: 1,
+    removeOnComplete: 100,
+    removeOnFail: 1000,
+  });
+}
+
+function listeningSchedulerId(socialAccountId: string) {
+  return `listen-${socialAccountId}`;
+}
+
+/**
+ * Poll a social account's listening terms every `everyMinutes`
+ * Creates the schedule or replaces it, so it is safe to call whenever settings or the plan change
+ */
+export async function scheduleAccountListening(
+  account: { id: string; workspaceId: string; platform: UgcIngestionJobData['platform'] },
+  everyMinutes: number
+) {
+  return getQueue<UgcIngestionJobData>(QUEUE_NAMES.UGC_INGESTION).upsertJobScheduler(
+    listeningSchedulerId(account.id),
+    { every: everyMinutes * 60 * 1000 },
+    {
+      name: 'listen-account',
+      data: {
+        workspaceId: account.workspaceId,
+        platform: account.platform,
+        searchCriteria: {},
+        socialAccountId: account.id,
+      },
+      opts: {
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 30000 },
+        removeOnComplete: 100,
+        removeOnFail: 1000,
+      },
+    }
+  );
+}
+
+export async function unscheduleAccountListening(socialAccountId: string) {
+  return getQueue(QUEUE_NAMES.UGC_INGESTION).removeJobScheduler(
+    listeningSchedulerId(socialAccountId)
+  );
+}
+
+/**
+ * Interval of an account's listening schedule in minutes, or null when it has none
+ */
+export async function getAccountListeningInterval(socialAccountId: string) {
+  const scheduler = await getQueue(QUEUE_NAMES.UGC_INGESTION).getJobScheduler(
+    listeningSchedulerId(socialAccountId)
+  );
+  return scheduler?.every ? Number(scheduler.every) / 60000 : null;
+}
+
+/**
+ * Refresh social account tokens before they expire, every `everyMinutes`
+ * Each sweep looks a little further ahead than its interval, so no token expires between sweeps
+ */
+export async function scheduleSocialTokenRefresh(everyMinutes: number) {
+  return getQueue<SocialTokenRefreshJobData>(QUEUE_NAMES.SOCIAL_TOKEN_REFRESH).upsertJobScheduler(
+    'refresh-social-tokens',
+    { every: everyMinutes * 60 * 1000 },
+    {
+      name: 'refresh-social-tokens',
+      data: { withinMinutes: everyMinutes * 2 },
+      opts: { attempts: 1, removeOnComplete: 10, removeOnFail: 100 },
+    }
+  );
+}
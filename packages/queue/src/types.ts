@@ -0,0 +1,129 @@
+/**
+ * Job payload definitions shared by producers (web) and consumers (worker)
+ * Every workspace job carries its workspace so queue events can be relayed to that workspace only
+ */
+
+export type ClipFormat = 'VERTICAL_9_16' | 'SQUARE_1_1' | 'HORIZONTAL_16_9';
+
+export type ClipSelectionStrategy = 'first' | 'scenes' | 'highlights';
+
+export interface ClipWatermark {
+  position: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
+  opacity: number; // 0-1
+  size: number; // Percent of the frame width
+}
+
+export interface ClipAttribution {
+  position: 'top-left' | 'top-center' | 'top-right' | 'bottom-left' | 'bottom-center' | 'bottom-right';
+  fontSize: number;
+  fontColor: string;
+  backgroundColor?: string;
+  backgroundOpacity: number;
+  showPlatform: boolean;
+}
+
+export interface ClipAudio {
+  normalize: boolean;
+  targetLoudness: number;
+  muteOriginal: boolean;
+  musicBedMediaAssetId?: string;
+  musicVolume?: number;
+}
+
+export interface ClipBranding {
+  introMediaAssetId?: string;
+  outroMediaAssetId?: string;
+  endCard?: {
+    cta: string;
+    duration: number;
+    backgroundColor: string;
+    textColor: string;
+    accentColor: string;
+  };
+}
+
+export interface MediaDownloadJobData {
+  workspaceId: string;
+  mediaAssetId: string;
+  sourceUrl?: string; // Omitted for direct uploads that are already in storage
+}
+
+export interface MediaTranscodeJobData {
+  workspaceId: string;
+  mediaAssetId?: string; // Source video: normalized MP4 plus the HLS ladder
+  clipId?: string; // Rendered clip: HLS ladder only, it is already H.264/AAC
+}
+
+export interface ClipGenerationJobData {
+  workspaceId: string;
+  repurposeJobId: string;
+  sourceMediaAssetId: string;
+  params: {
+    durations: number[];
+    formats: ClipFormat[];
+    strategy?: ClipSelectionStrategy; // Defaults to 'first' for jobs queued before selection existed
+    focalPoint?: { x: number; y: number }; // 0-1 fractions of the source frame; replaces smart reframing
+    generateCaptions: boolean;
+    captionLanguage?: string;
+    burnInCaptions: boolean;
+    captionStyle?: Record<string, unknown>;
+    watermark?: ClipWatermark; // Workspace logo drawn over every output
+    attribution?: ClipAttribution; // Creator credit burned into every output
+    audio?: ClipAudio; // Loudness normalization, muting and a music bed
+    branding?: ClipBranding; // Also render a branded version of every output
+  };
+}
+
+export interface CaptionGenerationJobData {
+  workspaceId: string;
+  clipId: string;
+  language: string; // ISO 639-1 code, or 'auto' to detect
+  burnIn?: boolean; // Queue a burn-in render once the track is ready
+}
+
+export interface CaptionBurnInJobData {
+  workspaceId: string;
+  clipId: string;
+}
+
+export interface ClipBrandingJobData {
+  workspaceId: string;
+  clipId: string;
+}
+
+export interface ClipExportJobData {
+  workspaceId: string;
+  exportId: string;
+}
+
+export interface UgcIngestionJobData {
+  workspaceId: string;
+  platform: 'TIKTOK' | 'INSTAGRAM' | 'YOUTUBE';
+  searchCriteria: {
+    hashtags?: string[];
+    mentions?: string[];
+    handles?: string[];
+  };
+  // Set on scheduled listening runs; the account's current settings are searched instead
+  socialAccountId?: string;
+}
+
+export interface UgcImportJobData {
+  workspaceId: string;
+  importLogId: string;
+  // An uploaded file in storage, or rows sent with the request
+  source:
+    | { fileKey: string; format: 'csv' | 'xlsx' }
+    // Retries keep the failed rows' numbers in the original file
+    | { rows: Record<string, string>[]; rowNumbers?: number[] };
+  // Header of the file that feeds each post field; detected from the headers when left out
+  mapping?: Partial<Record<string, string>>;
+  // Validate every row without writing posts
+  dryRun: boolean;
+}
+
+// Maintenance sweep over every workspace's social accounts; it has no workspace of its own
+export interface SocialTokenRefreshJobData {
+  // Refresh access tokens that expire within this many minutes
+  withinMinutes: number;
+}
@@ -0,0 +1,110 @@
+/**
+ * Unit tests for caption utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CAPTION_STYLE,
+  formatCaptionTimestamp,
+  groupWordsIntoCues,
+  resolveCaptionStyle,
+  retimeCueWords,
+  toSrt,
+  toVtt,
+} from '../utils';
+
+describe('resolveCaptionStyle', () => {
+  it('should fill missing fields with defaults', () => {
+    expect(resolveCaptionStyle({ fontSize: 48, karaoke: true })).toEqual({
+      ...DEFAULT_CAPTION_STYLE,
+      fontSize: 48,
+      karaoke: true,
+    });
+  });
+
+  it('should ignore null and undefined values', () => {
+    expect(resolveCaptionStyle({ fontColor: undefined })).toEqual(DEFAULT_CAPTION_STYLE);
+    expect(resolveCaptionStyle(null)).toEqual(DEFAULT_CAPTION_STYLE);
+  });
+});
+
+describe('formatCaptionTimestamp', () => {
+  it('should format WebVTT timestamps', () => {
+    expect(formatCaptionTimestamp(0)).toBe('00:00:00.000');
+    expect(formatCaptionTimestamp(75.5)).toBe('00:01:15.500');
+  });
+
+  it('should format SRT timestamps with a comma', () => {
+    expect(formatCaptionTimestamp(3723.042, 'srt')).toBe('01:02:03,042');
+  });
+
+  it('should clamp negative values to zero', () => {
+    expect(formatCaptionTimestamp(-1)).toBe('00:00:00.000');
+  });
+});
+
+describe('groupWordsIntoCues', () => {
+  const words = [
+    { text: 'This', start: 0, end: 0.3 },
+    { text: 'serum', start: 0.3, end: 0.7 },
+    { text: 'works.', start: 0.7, end: 1.1 },
+    { text: 'Try', start: 1.2, end: 1.4 },
+    { text: 'it', start: 1.4, end: 1.5 },
+    { text: 'now', start: 3, end: 3.3 },
+  ];
+
+  it('should break cues at sentence punctuation and pauses', () => {
+    const cues = groupWordsIntoCues(words);
+    expect(cues.map((cue) => cue.text)).toEqual(['This serum works.', 'Try it', 'now']);
+    expect(cues[0]).toMatchObject({ start: 0, end: 1.1 });
+    expect(cues[0].words).toHaveLength(3);
+  });
+
+  it('should break cues that get too long', () => {
+    const cues = groupWordsIntoCues(words.slice(0, 2), { maxChars: 6 });
+    expect(cues.map((cue) => cue.text)).toEqual(['This', 'serum']);
+  });
+
+  it('should skip empty words', () => {
+    expect(groupWordsIntoCues([{ text: ' ', start: 0, end: 1 }])).toEqual([]);
+  });
+});
+
+describe('retimeCueWords', () => {
+  const words = [
+    { text: 'Glow', start: 0, end: 0.4, confidence: 0.9 },
+    { text: 'serum', start: 0.4, end: 1 },
+  ];
+
+  it('should keep word timings when the text is unchanged', () => {
+    const cue = retimeCueWords({ start: 0, end: 1, text: 'Glow serum', words });
+    expect(cue.words).toEqual(words);
+  });
+
+  it('should spread edited words across the cue by length', () => {
+    const cue = retimeCueWords({ start: 1, end: 2, text: 'GlowUp serum', words });
+    expect(cue.words).toEqual([
+      { text: 'GlowUp', start: 1, end: 1.545 },
+      { text: 'serum', start: 1.545, end: 2 },
+    ]);
+  });
+});
+
+describe('toSrt / toVtt', () => {
+  const cues = [
+    { start: 0, end: 1.5, text: 'Hello there' },
+    { start: 1.5, end: 3, text: 'Link in bio' },
+  ];
+
+  it('should serialize SRT', () => {
+    expect(toSrt(cues)).toBe(
+      '1\n00:00:00,000 --> 00:00:01,500\nHello there\n\n2\n00:00:01,500 --> 00:00:03,000\nLink in bio\n'
+    );
+  });
+
+  it('should serialize WebVTT with a header', () => {
+    expect(toVtt(cues)).toBe(
+      'WEBVTT\n\n00:00:00.000 --> 00:00:01.500\nHello there\n\n00:00:01.500 --> 00:00:03.000\nLink in bio\n'
+    );
+  });
+});
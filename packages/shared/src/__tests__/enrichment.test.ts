@@ -0,0 +1,238 @@
+/**
+ * Unit tests for post enrichment
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  enrichPostUrl,
+  extractPostIdFromUrl,
+  parseMetaTags,
+  tiktokPostedAt,
+  type EnrichmentFetcher,
+} from '../utils';
+
+interface Fixture {
+  status?: number;
+  contentType?: string;
+  location?: string;
+  body: string;
+}
+
+// Serves fixtures by URL prefix and records what was asked for
+function fixtureFetcher(fixtures: Record<string, Fixture>) {
+  const requested: string[] = [];
+  const fetcher: EnrichmentFetcher = async (url) => {
+    requested.push(url);
+    const match = Object.keys(fixtures).find((prefix) => url.startsWith(prefix));
+    const fixture = match ? fixtures[match] : { status: 404, body: '' };
+    const status = fixture.status ?? 200;
+    return {
+      ok: status >= 200 && status < 300,
+      status,
+      headers: {
+        get: (name) =>
+          name === 'location'
+            ? (fixture.location ?? null)
+            : (fixture.contentType ?? 'text/html; charset=utf-8'),
+      },
+      text: async () => fixture.body,
+    };
+  };
+  return { fetcher, requested };
+}
+
+const TIKTOK_URL = 'https://www.tiktok.com/@glowgetter/video/7301234567890123456';
+const YOUTUBE_URL = 'https://www.youtube.com/shorts/dQw4w9WgXcQ';
+const INSTAGRAM_URL = 'https://www.instagram.com/p/C1a2B3c4D5e/';
+
+const INSTAGRAM_PAGE = `<!DOCTYPE html><html><head>
+<meta property="og:url" content="https://www.instagram.com/p/C1a2B3c4D5e/" />
+<meta property="og:image" content="https://cdn.example.com/ig/thumb.jpg" />
+<meta property="og:description" content="Morning routine with @brand &amp; friends #skincare #glow" />
+<meta name="author" content='Jess &quot;Glow&quot; Lee' />
+<meta property="article:published_time" content="2024-03-01T10:00:00Z" />
+</head><body></body></html>`;
+
+describe('enrichPostUrl', () => {
+  it('should read TikTok posts through oEmbed', async () => {
+    const { fetcher, requested } = fixtureFetcher({
+      'https://www.tiktok.com/oembed': {
+        contentType: 'application/json',
+        body: JSON.stringify({
+          title: 'Obsessed with this serum #skincare',
+          author_name: 'Glow Getter',
+          author_url: 'https://www.tiktok.com/@glowgetter',
+          thumbnail_url: 'https://cdn.example.com/tt/thumb.jpg',
+          embed_product_id: '7301234567890123456',
+        }),
+      },
+    });
+
+    const enrichment = await enrichPostUrl(TIKTOK_URL, 'TIKTOK', { fetcher });
+
+    expect(requested).toEqual([
+      `https://www.tiktok.com/oembed?url=${encodeURIComponent(TIKTOK_URL)}`,
+    ]);
+    expect(enrichment).toMatchObject({
+      source: 'oembed',
+      caption: 'Obsessed with this serum #skincare',
+      creatorName: 'Glow Getter',
+      creatorProfileUrl: 'https://www.tiktok.com/@glowgetter',
+      thumbnailUrl: 'https://cdn.example.com/tt/thumb.jpg',
+      postId: '7301234567890123456',
+      postedAt: new Date('2023-11-14T08:39:03.000Z'),
+    });
+    expect(enrichment?.raw.oembed).toMatchObject({ author_name: 'Glow Getter' });
+  });
+
+  it('should take the YouTube post id from the URL', async () => {
+    const { fetcher } = fixtureFetcher({
+      'https://www.youtube.com/oembed': {
+        body: JSON.stringify({
+          title: 'Unboxing',
+          author_name: 'Reviewer',
+          author_url: 'https://www.youtube.com/@reviewer',
+          thumbnail_url: 'https://i.ytimg.com/vi/dQw4w9WgXcQ/hqdefault.jpg',
+        }),
+      },
+    });
+
+    const enrichment = await enrichPostUrl(YOUTUBE_URL, 'YOUTUBE', { fetcher });
+
+    expect(enrichment?.postId).toBe('dQw4w9WgXcQ');
+    expect(enrichment?.postedAt).toBeUndefined();
+  });
+
+  it('should fall back to Open Graph tags for Instagram without an app token', async () => {
+    const { fetcher, requested } = fixtureFetcher({ [INSTAGRAM_URL]: { body: INSTAGRAM_PAGE } });
+
+    const enrichment = await enrichPostUrl(INSTAGRAM_URL, 'INSTAGRAM', { fetcher });
+
+    expect(requested).toEqual([INSTAGRAM_URL]);
+    expect(enrichment).toMatchObject({
+      source: 'opengraph',
+      caption: 'Morning routine with @brand & friends #skincare #glow',
+      creatorName: 'Jess "Glow" Lee',
+      thumbnailUrl: 'https://cdn.example.com/ig/thumb.jpg',
+      postId: 'C1a2B3c4D5e',
+      postedAt: new Date('2024-03-01T10:00:00Z'),
+    });
+  });
+
+  it('should fall back to Open Graph tags when oEmbed fails', async () => {
+    const { fetcher, requested } = fixtureFetcher({
+      'https://graph.facebook.com/': { status: 500, body: '' },
+      [INSTAGRAM_URL]: { body: INSTAGRAM_PAGE },
+    });
+
+    const enrichment = await enrichPostUrl(INSTAGRAM_URL, 'INSTAGRAM', {
+      fetcher,
+      instagramAccessToken: 'app|secret',
+    });
+
+    expect(requested[0]).toContain('access_token=app%7Csecret');
+    expect(enrichment?.source).toBe('opengraph');
+  });
+
+  it('should return null for posts that are gone', async () => {
+    const { fetcher } = fixtureFetcher({});
+
+    expect(await enrichPostUrl(TIKTOK_URL, 'TIKTOK', { fetcher })).toBeNull();
+  });
+
+  it('should throw when the post page cannot be read', async () => {
+    const { fetcher } = fixtureFetcher({ [INSTAGRAM_URL]: { status: 429, body: '' } });
+
+    await expect(enrichPostUrl(INSTAGRAM_URL, 'INSTAGRAM', { fetcher })).rejects.toThrow('429');
+  });
+  it('should never fetch manual posts', async () => {
+    const { fetcher, requested } = fixtureFetcher({});
+
+    expect(
+      await enrichPostUrl('http://169.254.169.254/latest/meta-data', 'MANUAL', { fetcher })
+    ).toBeNull();
+    expect(requested).toEqual([]);
+  });
+
+  it('should not fetch URLs off the platform hosts', async () => {
+    const { fetcher, requested } = fixtureFetcher({});
+
+    expect(
+      await enrichPostUrl('http://internal.example/p/C1a2B3c4D5e/', 'INSTAGRAM', { fetcher })
+    ).toBeNull();
+    expect(
+      await enrichPostUrl('https://eviltiktok.com/@a/video/1', 'TIKTOK', { fetcher })
+    ).toBeNull();
+    expect(requested.filter((url) => !url.includes('/oembed'))).toEqual([]);
+  });
+
+  it('should follow redirects on the platform hosts', async () => {
+    const { fetcher, requested } = fixtureFetcher({
+      'https://instagram.com/p/C1a2B3c4D5e/': { status: 301, location: INSTAGRAM_URL, body: '' },
+      [INSTAGRAM_URL]: { body: INSTAGRAM_PAGE },
+    });
+
+    const enrichment = await enrichPostUrl('https://instagram.com/p/C1a2B3c4D5e/', 'INSTAGRAM', {
+      fetcher,
+    });
+
+    expect(requested).toEqual(['https://instagram.com/p/C1a2B3c4D5e/', INSTAGRAM_URL]);
+    expect(enrichment?.postId).toBe('C1a2B3c4D5e');
+  });
+
+  it('should not follow redirects off the platform hosts', async () => {
+    const { fetcher, requested } = fixtureFetcher({
+      [INSTAGRAM_URL]: { status: 302, location: 'http://127.0.0.1:6379/', body: '' },
+    });
+
+    expect(await enrichPostUrl(INSTAGRAM_URL, 'INSTAGRAM', { fetcher })).toBeNull();
+    expect(requested).toEqual([INSTAGRAM_URL]);
+  });
+
+  it('should give up after too many redirects', async () => {
+    const { fetcher, requested } = fixtureFetcher({
+      [INSTAGRAM_URL]: { status: 302, location: INSTAGRAM_URL, body: '' },
+    });
+
+    expect(await enrichPostUrl(INSTAGRAM_URL, 'INSTAGRAM', { fetcher })).toBeNull();
+    expect(requested).toHaveLength(6);
+  });
+});
+
+describe('parseMetaTags', () => {
+  it('should keep the first value of each key', () => {
+    const tags = parseMetaTags(
+      '<meta property="og:title" content="First"><meta property="og:title" content="Second">'
+    );
+    expect(tags['og:title']).toBe('First');
+  });
+
+  it('should ignore tags without content', () => {
+    expect(parseMetaTags('<meta charset="utf-8"><meta name="viewport">')).toEqual({});
+  });
+});
+
+describe('extractPostIdFromUrl', () => {
+  it('should read ids from each platform', () => {
+    expect(extractPostIdFromUrl('TIKTOK', TIKTOK_URL)).toBe('7301234567890123456');
+    expect(extractPostIdFromUrl('INSTAGRAM', 'https://www.instagram.com/reel/Cx9_-aB/')).toBe(
+      'Cx9_-aB'
+    );
+    expect(extractPostIdFromUrl('YOUTUBE', 'https://youtu.be/dQw4w9WgXcQ?t=4')).toBe('dQw4w9WgXcQ');
+    expect(extractPostIdFromUrl('YOUTUBE', 'https://www.youtube.com/watch?v=dQw4w9WgXcQ')).toBe(
+      'dQw4w9WgXcQ'
+    );
+  });
+
+  it('should return undefined when the URL has no id', () => {
+    expect(extractPostIdFromUrl('TIKTOK', 'https://vm.tiktok.com/ZMabc123/')).toBeUndefined();
+    expect(extractPostIdFromUrl('INSTAGRAM', 'not a url')).toBeUndefined();
+  });
+});
+
+describe('tiktokPostedAt', () => {
+  it('should ignore ids that are not snowflakes', () => {
+    expect(tiktokPostedAt('12345')).toBeUndefined();
+    expect(tiktokPostedAt('100000000000000000')).toBeUndefined();
+  });
+});
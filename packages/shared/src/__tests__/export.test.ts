@@ -0,0 +1,83 @@
+/**
+ * Unit tests for clip export utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import { EXPORT_SPECS, toCsv, validateClipExport, validateExportSpec } from '../utils/export';
+
+const vertical = { width: 1080, height: 1920, duration: 15, bitrate: 4_000_000, fileSize: 8_000_000 };
+
+describe('validateExportSpec', () => {
+  it('should pass a vertical clip on every placement', () => {
+    expect(validateExportSpec(vertical, EXPORT_SPECS.TIKTOK_ADS)).toEqual([]);
+    expect(validateExportSpec(vertical, EXPORT_SPECS.META_REELS)).toEqual([]);
+    expect(validateExportSpec(vertical, EXPORT_SPECS.YOUTUBE_SHORTS)).toEqual([]);
+  });
+
+  it('should reject an aspect ratio the placement does not accept', () => {
+    const issues = validateExportSpec({ ...vertical, width: 1920, height: 1080 }, EXPORT_SPECS.META_REELS);
+    expect(issues).toEqual(['Aspect ratio of 1920x1080 is not 9:16']);
+  });
+
+  it('should allow frame sizes rounded by the encoder', () => {
+    expect(validateExportSpec({ ...vertical, width: 1078, height: 1920 }, EXPORT_SPECS.META_REELS)).toEqual([]);
+  });
+
+  it('should check duration limits', () => {
+    expect(validateExportSpec({ ...vertical, duration: 3 }, EXPORT_SPECS.TIKTOK_ADS)).toEqual([
+      'Duration of 3s is under the 5s minimum',
+    ]);
+    expect(validateExportSpec({ ...vertical, duration: 120 }, EXPORT_SPECS.YOUTUBE_SHORTS)).toEqual([]);
+    expect(validateExportSpec({ ...vertical, duration: 120 }, EXPORT_SPECS.META_REELS)).toEqual([
+      'Duration of 120s is over the 90s maximum',
+    ]);
+  });
+
+  it('should check bitrate and file size', () => {
+    const issues = validateExportSpec(
+      { ...vertical, bitrate: 400_000, fileSize: 600 * 1024 * 1024 },
+      EXPORT_SPECS.TIKTOK_ADS
+    );
+    expect(issues).toEqual([
+      'Bitrate of 400 kbps is under the 516 kbps minimum',
+      'File size of 600 MB is over the 500 MB limit',
+    ]);
+  });
+
+  it('should skip the bitrate check when it is unknown', () => {
+    expect(validateExportSpec({ ...vertical, bitrate: undefined }, EXPORT_SPECS.TIKTOK_ADS)).toEqual([]);
+  });
+});
+
+describe('validateClipExport', () => {
+  it('should report each requested placement', () => {
+    const results = validateClipExport({ ...vertical, width: 1080, height: 1080 }, ['TIKTOK_ADS', 'META_REELS']);
+    expect(results.TIKTOK_ADS).toEqual({ passed: true, issues: [] });
+    expect(results.META_REELS.passed).toBe(false);
+    expect(results).not.toHaveProperty('YOUTUBE_SHORTS');
+  });
+});
+
+describe('toCsv', () => {
+  it('should quote values with commas, quotes and line breaks', () => {
+    expect(
+      toCsv([
+        ['file', 'products'],
+        ['01.mp4', 'Tee, white'],
+        ['02.mp4', 'The "Classic"\nhoodie'],
+        ['03.mp4', null],
+      ])
+    ).toBe('file,products\r\n01.mp4,"Tee, white"\r\n02.mp4,"The ""Classic""\nhoodie"\r\n03.mp4,\r\n');
+  });
+
+  it('should keep spreadsheets from reading text as formulas', () => {
+    expect(
+      toCsv([
+        ['=HYPERLINK("http://example.com")', '+1', '-1', '@SUM(A1)', '\tTab', '\rReturn'],
+        [-1, 'a=b', 'Tee - white'],
+      ])
+    ).toBe(
+      `"'=HYPERLINK(""http://example.com"")",'+1,'-1,'@SUM(A1),'\tTab,"'\rReturn"\r\n-1,a=b,Tee - white\r\n`
+    );
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Unit tests for post URL canonicalization
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  canonicalizePostUrl,
+  isShortPostLink,
+  resolvePostUrl,
+  type EnrichmentFetcher,
+} from '../utils';
+
+// Answers each URL with a redirect to the mapped location, or a 404
+function redirectFetcher(redirects: Record<string, string>) {
+  const requested: string[] = [];
+  const fetcher: EnrichmentFetcher = async (url) => {
+    requested.push(url);
+    const location = redirects[url];
+    return {
+      ok: false,
+      status: location ? 301 : 404,
+      headers: { get: (name) => (name === 'location' ? (location ?? null) : null) },
+      text: async () => '',
+    };
+  };
+  return { fetcher, requested };
+}
+
+describe('canonicalizePostUrl', () => {
+  it('should give Instagram share variants one URL', () => {
+    const expected = { url: 'https://www.instagram.com/p/C1a2B3c4D5e', postId: 'C1a2B3c4D5e' };
+    expect(canonicalizePostUrl('INSTAGRAM', 'https://www.instagram.com/p/C1a2B3c4D5e/')).toEqual(
+      expected
+    );
+    expect(
+      canonicalizePostUrl(
+        'INSTAGRAM',
+        'https://instagram.com/p/C1a2B3c4D5e/?igshid=MzRlODBiNWFlZA=='
+      )
+    ).toEqual(expected);
+    expect(
+      canonicalizePostUrl(
+        'INSTAGRAM',
+        'http://m.instagram.com/glowgetter/p/C1a2B3c4D5e?img_index=1'
+      )
+    ).toEqual(expected);
+  });
+
+  it('should keep Instagram reels apart from posts', () => {
+    expect(canonicalizePostUrl('INSTAGRAM', 'https://www.instagram.com/reels/Cx9abc/').url).toBe(
+      'https://www.instagram.com/reel/Cx9abc'
+    );
+  });
+
+  it('should give TikTok share variants one URL', () => {
+    const expected = {
+      url: 'https://www.tiktok.com/@glowgetter/video/7301234567890123456',
+      postId: '7301234567890123456',
+    };
+    expect(
+      canonicalizePostUrl(
+        'TIKTOK',
+        'https://www.tiktok.com/@GlowGetter/video/7301234567890123456?is_from_webapp=1&sender_device=pc'
+      )
+    ).toEqual(expected);
+    expect(
+      canonicalizePostUrl('TIKTOK', 'https://m.tiktok.com/@glowgetter/video/7301234567890123456/')
+    ).toEqual(expected);
+  });
+
+  it('should give YouTube watch, short and embed links one URL', () => {
+    const expected = { url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ', postId: 'dQw4w9WgXcQ' };
+    expect(canonicalizePostUrl('YOUTUBE', 'https://youtu.be/dQw4w9WgXcQ?si=abc')).toEqual(expected);
+    expect(
+      canonicalizePostUrl('YOUTUBE', 'https://m.youtube.com/watch?v=dQw4w9WgXcQ&feature=share')
+    ).toEqual(expected);
+    expect(canonicalizePostUrl('YOUTUBE', 'https://www.youtube.com/shorts/dQw4w9WgXcQ/')).toEqual({
+      url: 'https://www.youtube.com/shorts/dQw4w9WgXcQ',
+      postId: 'dQw4w9WgXcQ',
+    });
+  });
+
+  it('should only clean up URLs without a post id', () => {
+    expect(
+      canonicalizePostUrl('MANUAL', 'HTTPS://Example.com/posts/42/?utm_source=x&b=2&a=1#top')
+    ).toEqual({ url: 'https://example.com/posts/42?a=1&b=2' });
+    expect(canonicalizePostUrl('TIKTOK', 'https://vm.tiktok.com/ZMabc123/')).toEqual({
+      url: 'https://vm.tiktok.com/ZMabc123',
+    });
+  });
+
+  it('should leave invalid URLs as they are', () => {
+    expect(canonicalizePostUrl('TIKTOK', ' not a url ')).toEqual({ url: 'not a url' });
+  });
+});
+
+describe('isShortPostLink', () => {
+  it('should spot TikTok short links', () => {
+    expect(isShortPostLink('TIKTOK', 'https://vm.tiktok.com/ZMabc123/')).toBe(true);
+    expect(isShortPostLink('TIKTOK', 'https://www.tiktok.com/t/ZTabc123/')).toBe(true);
+    expect(isShortPostLink('TIKTOK', 'https://www.tiktok.com/@a/video/7301234567890123456')).toBe(
+      false
+    );
+    expect(isShortPostLink('YOUTUBE', 'https://youtu.be/dQw4w9WgXcQ')).toBe(false);
+  });
+
+  it('should not trust hosts that only end in tiktok.com', () => {
+    expect(isShortPostLink('TIKTOK', 'https://eviltiktok.com/t/ZTabc123/')).toBe(false);
+    expect(isShortPostLink('TIKTOK', 'https://tiktok.com/t/ZTabc123/')).toBe(true);
+  });
+});
+
+describe('resolvePostUrl', () => {
+  it('should follow TikTok short links to the video', async () => {
+    const { fetcher } = redirectFetcher({
+      'https://vm.tiktok.com/ZMabc123':
+        'https://www.tiktok.com/@glowgetter/video/7301234567890123456?_r=1&_t=8abc',
+    });
+
+    expect(await resolvePostUrl('TIKTOK', 'https://vm.tiktok.com/ZMabc123/', { fetcher })).toEqual({
+      url: 'https://www.tiktok.com/@glowgetter/video/7301234567890123456',
+      postId: '7301234567890123456',
+    });
+  });
+
+  it('should not fetch URLs that already carry a post id', async () => {
+    const { fetcher, requested } = redirectFetcher({});
+
+    await resolvePostUrl('INSTAGRAM', 'https://www.instagram.com/p/C1a2B3c4D5e/', { fetcher });
+
+    expect(requested).toEqual([]);
+  });
+
+  it('should return short links that cannot be followed unresolved', async () => {
+    const { fetcher } = redirectFetcher({});
+    const failing: EnrichmentFetcher = async () => {
+      throw new Error('network down');
+    };
+
+    expect(await resolvePostUrl('TIKTOK', 'https://vm.tiktok.com/ZMabc123/', { fetcher })).toEqual({
+      url: 'https://vm.tiktok.com/ZMabc123',
+    });
+    expect(
+      await resolvePostUrl('TIKTOK', 'https://vm.tiktok.com/ZMabc123/', { fetcher: failing })
+    ).toEqual({ url: 'https://vm.tiktok.com/ZMabc123' });
+  });
+});
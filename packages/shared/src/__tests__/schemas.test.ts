@@ -10,7 +10,18 @@ import {
   inviteMemberSchema,
   createProductSchema,
   importUgcManualSchema,
+  importUgcCsvRowSchema,
+  startUgcImportSchema,
+  retryUgcImportSchema,
+  listeningSettingsSchema,
   createRightsRequestSchema,
+  updateCaptionsSchema,
+  createRepurposePresetSchema,
+  createRepurposeJobSchema,
+  resolveRepurposeParams,
+  createRepurposeBatchSchema,
+  createClipExportSchema,
+  markNotificationsReadSchema,
 } from '../schemas';
 
 describe('registerSchema', () => {
@@ -200,6 +211,106 @@ describe('importUgcManualSchema', () => {
   });
 });
 
+describe('importUgcCsvRowSchema', () => {
+  const row = {
+    post_url: 'https://tiktok.com/@user/video/123',
+    platform: 'TIKTOK',
+    creator_handle: 'user',
+  };
+
+  it('should accept platforms in any case', () => {
+    expect(importUgcCsvRowSchema.parse({ ...row, platform: ' tiktok ' }).platform).toBe('TIKTOK');
+  });
+
+  it('should reject unknown platforms and dates', () => {
+    expect(importUgcCsvRowSchema.safeParse({ ...row, platform: 'MYSPACE' }).success).toBe(false);
+    expect(importUgcCsvRowSchema.safeParse({ ...row, posted_at: 'last week' }).success).toBe(false);
+  });
+});
+
+describe('startUgcImportSchema', () => {
+  const mapping = { post_url: 'Link', creator_handle: 'Handle' };
+
+  it('should take an uploaded file or inline rows', () => {
+    const file = startUgcImportSchema.parse({ fileKey: 'ws/import/1-posts.csv', mapping });
+    expect(file.dryRun).toBe(false);
+    expect(startUgcImportSchema.safeParse({ rows: [{ Link: 'x' }], dryRun: true }).success).toBe(
+      true
+    );
+  });
+
+  it('should require exactly one source', () => {
+    expect(startUgcImportSchema.safeParse({}).success).toBe(false);
+    expect(
+      startUgcImportSchema.safeParse({ fileKey: 'ws/import/1-posts.csv', rows: [{ a: 'b' }] })
+        .success
+    ).toBe(false);
+  });
+
+  it('should require the post URL and creator handle to be mapped', () => {
+    expect(
+      startUgcImportSchema.safeParse({
+        fileKey: 'ws/import/1-posts.csv',
+        mapping: { post_url: 'Link' },
+      }).success
+    ).toBe(false);
+  });
+});
+
+describe('retryUgcImportSchema', () => {
+  it('should retry every failed row as it was by default', () => {
+    expect(retryUgcImportSchema.parse({})).toEqual({ corrections: [], dryRun: false });
+  });
+
+  it('should take corrected values by import column', () => {
+    const result = retryUgcImportSchema.safeParse({
+      corrections: [{ row: 4, values: { creator_handle: 'sam', platform: 'TIKTOK' } }],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject unknown columns and row numbers', () => {
+    expect(
+      retryUgcImportSchema.safeParse({ corrections: [{ row: 4, values: { Handle: 'sam' } }] })
+        .success
+    ).toBe(false);
+    expect(
+      retryUgcImportSchema.safeParse({ corrections: [{ row: 0, values: {} }] }).success
+    ).toBe(false);
+  });
+});
+
+describe('listeningSettingsSchema', () => {
+  it('should normalize and dedupe terms', () => {
+    const result = listeningSettingsSchema.parse({
+      enabled: true,
+      hashtags: ['#SummerDrop', 'summerdrop', ' glow '],
+      mentions: ['@Acme.Beauty'],
+    });
+    expect(result).toEqual({
+      enabled: true,
+      hashtags: ['summerdrop', 'glow'],
+      mentions: ['acme.beauty'],
+      handles: [],
+    });
+  });
+
+  it('should reject terms with spaces or symbols', () => {
+    expect(listeningSettingsSchema.safeParse({ hashtags: ['summer drop'] }).success).toBe(false);
+    expect(listeningSettingsSchema.safeParse({ handles: ['#'] }).success).toBe(false);
+  });
+
+  it('should require a term when enabled', () => {
+    expect(listeningSettingsSchema.safeParse({ enabled: true }).success).toBe(false);
+    expect(listeningSettingsSchema.safeParse({ enabled: false }).success).toBe(true);
+  });
+
+  it('should cap the number of terms', () => {
+    const hashtags = Array.from({ length: 21 }, (_, i) => `tag${i}`);
+    expect(listeningSettingsSchema.safeParse({ hashtags }).success).toBe(false);
+  });
+});
+
 describe('createRightsRequestSchema', () => {
   it('should validate valid rights request', () => {
     const result = createRightsRequestSchema.safeParse({
@@ -226,3 +337,214 @@ describe('createRightsRequestSchema', () => {
     expect(result.success).toBe(false);
   });
 });
+
+describe('updateCaptionsSchema', () => {
+  it('should validate ordered cues', () => {
+    const result = updateCaptionsSchema.safeParse({
+      cues: [
+        { start: 0, end: 1.2, text: 'Hello' },
+        { start: 1.2, end: 2, text: 'world' },
+      ],
+      baseVersion: 1,
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject cues that end before they start', () => {
+    const result = updateCaptionsSchema.safeParse({
+      cues: [{ start: 2, end: 1, text: 'Hello' }],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('should reject cues out of order', () => {
+    const result = updateCaptionsSchema.safeParse({
+      cues: [
+        { start: 3, end: 4, text: 'Second' },
+        { start: 0, end: 1, text: 'First' },
+      ],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('should reject empty caption text', () => {
+    const result = updateCaptionsSchema.safeParse({
+      cues: [{ start: 0, end: 1, text: '   ' }],
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('createRepurposePresetSchema', () => {
+  it('should fill in defaults for missing settings', () => {
+    const result = createRepurposePresetSchema.parse({
+      name: 'TikTok hooks 7/15s burned captions',
+      settings: { durations: [7, 15], burnInCaptions: true },
+    });
+    expect(result.settings).toMatchObject({
+      durations: [7, 15],
+      formats: ['VERTICAL_9_16'],
+      generateCaptions: true,
+      burnInCaptions: true,
+    });
+  });
+
+  it('should drop the focal point', () => {
+    const result = createRepurposePresetSchema.parse({
+      name: 'Meta ads 1:1 + 9:16',
+      settings: { formats: ['SQUARE_1_1', 'VERTICAL_9_16'], focalPoint: { x: 0.5, y: 0.5 } },
+    });
+    expect(result.settings).not.toHaveProperty('focalPoint');
+  });
+
+  it('should reject an empty format list', () => {
+    const result = createRepurposePresetSchema.safeParse({ name: 'Empty', settings: { formats: [] } });
+    expect(result.success).toBe(false);
+  });
+
+  it('should fill in end card defaults', () => {
+    const result = createRepurposePresetSchema.parse({
+      name: 'Paid social',
+      settings: { branding: { introMediaAssetId: 'clh0000000000000000000000', endCard: {} } },
+    });
+    expect(result.settings.branding?.endCard).toEqual({
+      cta: 'Shop now',
+      duration: 3,
+      backgroundColor: '#000000',
+      textColor: '#FFFFFF',
+      accentColor: '#FFFFFF',
+    });
+  });
+
+  it('should reject branding without a bumper or an end card', () => {
+    const result = createRepurposePresetSchema.safeParse({ name: 'Empty branding', settings: { branding: {} } });
+    expect(result.success).toBe(false);
+  });
+
+  it('should fill in audio defaults', () => {
+    const result = createRepurposePresetSchema.parse({
+      name: 'Music bed',
+      settings: { audio: { musicBedMediaAssetId: 'clh0000000000000000000000' } },
+    });
+    expect(result.settings.audio).toEqual({
+      normalize: false,
+      targetLoudness: -14,
+      muteOriginal: false,
+      musicBedMediaAssetId: 'clh0000000000000000000000',
+    });
+  });
+
+  it('should reject a loudness target outside the EBU R128 range', () => {
+    const result = createRepurposePresetSchema.safeParse({
+      name: 'Too loud',
+      settings: { audio: { normalize: true, targetLoudness: -4 } },
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('should reject a watermark that is too large', () => {
+    const result = createRepurposePresetSchema.safeParse({
+      name: 'Logo',
+      settings: { watermark: { position: 'top-left', size: 80 } },
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('resolveRepurposeParams', () => {
+  const preset = {
+    durations: [7, 15],
+    formats: ['VERTICAL_9_16'],
+    burnInCaptions: true,
+    watermark: { position: 'top-right', opacity: 0.5, size: 12 },
+  };
+
+  it('should use the preset settings', () => {
+    const params = resolveRepurposeParams(preset);
+    expect(params.durations).toEqual([7, 15]);
+    expect(params.burnInCaptions).toBe(true);
+    expect(params.watermark).toEqual({ position: 'top-right', opacity: 0.5, size: 12 });
+  });
+
+  it('should let fields passed with the job override the preset', () => {
+    const { params: overrides } = createRepurposeJobSchema.parse({
+      sourceMediaAssetId: 'clh0000000000000000000000',
+      params: { formats: ['SQUARE_1_1'], focalPoint: { x: 0.2, y: 0.3 } },
+    });
+    const params = resolveRepurposeParams(preset, overrides);
+    expect(params.formats).toEqual(['SQUARE_1_1']);
+    expect(params.durations).toEqual([7, 15]);
+    expect(params.focalPoint).toEqual({ x: 0.2, y: 0.3 });
+  });
+
+  it('should apply defaults without a preset', () => {
+    const params = resolveRepurposeParams(undefined, { durations: [30] });
+    expect(params).toMatchObject({
+      durations: [30],
+      formats: ['VERTICAL_9_16'],
+      strategy: 'highlights',
+      captionLanguage: 'en',
+    });
+  });
+});
+
+describe('createRepurposeBatchSchema', () => {
+  it('should normalize the hashtag filter', () => {
+    const result = createRepurposeBatchSchema.parse({
+      filter: { platform: 'TIKTOK', hashtag: '#SummerDrop' },
+      params: { formats: ['VERTICAL_9_16'], durations: [15] },
+    });
+    expect(result.filter?.hashtag).toBe('summerdrop');
+  });
+
+  it('should accept a list of media asset ids', () => {
+    const result = createRepurposeBatchSchema.safeParse({
+      mediaAssetIds: ['clh0000000000000000000000'],
+      presetId: 'clh0000000000000000000001',
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('should require either a filter or media asset ids', () => {
+    expect(createRepurposeBatchSchema.safeParse({ params: {} }).success).toBe(false);
+    expect(
+      createRepurposeBatchSchema.safeParse({ filter: {}, mediaAssetIds: ['clh0000000000000000000000'] }).success
+    ).toBe(false);
+  });
+
+  it('should reject a date range that ends before it starts', () => {
+    const result = createRepurposeBatchSchema.safeParse({
+      filter: { from: '2024-06-30', to: '2024-06-01' },
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('createClipExportSchema', () => {
+  it('should check every placement by default', () => {
+    const result = createClipExportSchema.parse({ clipIds: ['clh0000000000000000000000'] });
+    expect(result.platforms).toEqual(['TIKTOK_ADS', 'META_REELS', 'YOUTUBE_SHORTS']);
+    expect(result.useBranded).toBe(false);
+  });
+
+  it('should reject an empty selection and unknown placements', () => {
+    expect(createClipExportSchema.safeParse({ clipIds: [] }).success).toBe(false);
+    expect(
+      createClipExportSchema.safeParse({ clipIds: ['clh0000000000000000000000'], platforms: ['SNAPCHAT'] }).success
+    ).toBe(false);
+  });
+});
+
+describe('markNotificationsReadSchema', () => {
+  it('should mark everything read when no ids are given', () => {
+    expect(markNotificationsReadSchema.parse({})).toEqual({});
+  });
+
+  it('should reject an empty or invalid id list', () => {
+    expect(markNotificationsReadSchema.safeParse({ ids: [] }).success).toBe(false);
+    expect(markNotificationsReadSchema.safeParse({ ids: ['not a cuid'] }).success).toBe(false);
+    expect(
+      markNotificationsReadSchema.safeParse({ ids: ['clh0000000000000000000000'] }).success
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Unit tests for spreadsheet reading and import column mapping
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CsvParser,
+  detectColumnMapping,
+  mapImportRow,
+  missingImportColumns,
+  spreadsheetCellText,
+  spreadsheetFormat,
+  spreadsheetHeaders,
+  spreadsheetRecord,
+} from '../utils';
+
+function parseCsv(chunks: string[]): string[][] {
+  const parser = new CsvParser();
+  return [...chunks.flatMap((chunk) => parser.push(chunk)), ...parser.flush()];
+}
+
+describe('CsvParser', () => {
+  it('should parse quoted fields with delimiters, quotes and line breaks', () => {
+    expect(
+      parseCsv(['url,caption\r\n', 'https://a.com/1,"Love it, ""really""\nso good"\r\n'])
+    ).toEqual([
+      ['url', 'caption'],
+      ['https://a.com/1', 'Love it, "really"\nso good'],
+    ]);
+  });
+
+  it('should give the same records however the input is split', () => {
+    const csv = 'a,b\n"x,1","y""2"\n\nlast,row';
+    const expected = parseCsv([csv]);
+    expect(parseCsv(csv.split(''))).toEqual(expected);
+    expect(parseCsv([csv.slice(0, 5), csv.slice(5)])).toEqual(expected);
+    expect(expected).toEqual([
+      ['a', 'b'],
+      ['x,1', 'y"2'],
+      ['last', 'row'],
+    ]);
+  });
+
+  it('should detect semicolon and tab delimiters and drop a BOM', () => {
+    expect(parseCsv(['\uFEFFurl;handle\nhttps://a.com/1;sam\n'])).toEqual([
+      ['url', 'handle'],
+      ['https://a.com/1', 'sam'],
+    ]);
+    expect(parseCsv(['url\thandle\n', 'https://a.com/1,2\tsam'])).toEqual([
+      ['url', 'handle'],
+      ['https://a.com/1,2', 'sam'],
+    ]);
+  });
+});
+
+describe('spreadsheetCellText', () => {
+  it('should give the displayed text of XLSX cell values', () => {
+    expect(spreadsheetCellText(null)).toBe('');
+    expect(spreadsheetCellText(42)).toBe('42');
+    expect(spreadsheetCellText(new Date('2024-05-01T00:00:00Z'))).toBe('2024-05-01T00:00:00.000Z');
+    expect(spreadsheetCellText({ richText: [{ text: 'Glow ' }, { text: 'up' }] })).toBe('Glow up');
+    expect(spreadsheetCellText({ text: 'https://a.com/1', hyperlink: 'https://a.com/1' })).toBe(
+      'https://a.com/1'
+    );
+    expect(spreadsheetCellText({ formula: 'A1', result: 7 })).toBe('7');
+  });
+});
+
+describe('spreadsheetFormat', () => {
+  it('should tell CSV and XLSX files by extension', () => {
+    expect(spreadsheetFormat('posts.CSV')).toBe('csv');
+    expect(spreadsheetFormat('ws/import/1-posts.xlsx')).toBe('xlsx');
+    expect(spreadsheetFormat('posts.xls')).toBeNull();
+  });
+});
+
+describe('spreadsheetHeaders', () => {
+  it('should name blank and repeated headers', () => {
+    expect(spreadsheetHeaders(['Handle', '', ' Handle '])).toEqual([
+      'Handle',
+      'Column 2',
+      'Handle (2)',
+    ]);
+    expect(spreadsheetRecord(['a', 'b'], ['1'])).toEqual({ a: '1', b: '' });
+  });
+});
+
+describe('detectColumnMapping', () => {
+  it('should map headers exported by other tools', () => {
+    expect(
+      detectColumnMapping([
+        'Post URL',
+        'Network',
+        'Username',
+        'Display Name',
+        'Description',
+        'Date',
+      ])
+    ).toEqual({
+      post_url: 'Post URL',
+      platform: 'Network',
+      creator_handle: 'Username',
+      creator_name: 'Display Name',
+      caption: 'Description',
+      posted_at: 'Date',
+    });
+  });
+
+  it('should prefer exact names and use each header once', () => {
+    expect(detectColumnMapping(['Creator Name', 'Creator Handle'])).toEqual({
+      creator_handle: 'Creator Handle',
+      creator_name: 'Creator Name',
+    });
+    expect(detectColumnMapping(['post_url', 'creator_handle'])).toEqual({
+      post_url: 'post_url',
+      creator_handle: 'creator_handle',
+    });
+  });
+
+  it('should report required columns it could not find', () => {
+    expect(missingImportColumns(detectColumnMapping(['Link', 'Caption']))).toEqual([
+      'creator_handle',
+    ]);
+  });
+});
+
+describe('mapImportRow', () => {
+  it('should key values by column and take the platform from the URL', () => {
+    expect(
+      mapImportRow(
+        { Link: ' https://www.instagram.com/p/C1a2B3c4D5e/ ', Handle: 'sam', Notes: '', Tags: '' },
+        { post_url: 'Link', creator_handle: 'Handle', hashtags: 'Tags' }
+      )
+    ).toEqual({
+      post_url: 'https://www.instagram.com/p/C1a2B3c4D5e/',
+      creator_handle: 'sam',
+      platform: 'INSTAGRAM',
+    });
+  });
+
+  it('should drop the apostrophe exports put before formula-like text', () => {
+    expect(
+      mapImportRow(
+        {
+          Link: 'https://www.tiktok.com/@sam/video/7301234567890123456',
+          Handle: "'@sam",
+          Caption: "'it's great",
+        },
+        { post_url: 'Link', creator_handle: 'Handle', caption: 'Caption' }
+      )
+    ).toMatchObject({ creator_handle: '@sam', caption: "'it's great" });
+  });
+});
@@ -15,6 +15,8 @@ import {
   calculatePercentChange,
   truncate,
   chunk,
+  summarizeRepurposeBatch,
+  formatCreatorCredit,
 } from '../utils';
 
 describe('generateSlug', () => {
@@ -187,3 +189,59 @@ describe('chunk', () => {
     expect(chunk([1, 2], 5)).toEqual([[1, 2]]);
   });
 });
+
+describe('summarizeRepurposeBatch', () => {
+  it('should average progress, counting finished jobs as done', () => {
+    const summary = summarizeRepurposeBatch([
+      { status: 'PROCESSING', progress: 50 },
+      { status: 'QUEUED', progress: 0 },
+      { status: 'FAILED', progress: 30 },
+    ]);
+    expect(summary).toMatchObject({ totalJobs: 3, processing: 1, queued: 1, failed: 1, progress: 50 });
+    expect(summary.status).toBe('PROCESSING');
+  });
+
+  it('should be queued until a job starts', () => {
+    expect(summarizeRepurposeBatch([{ status: 'QUEUED', progress: 0 }]).status).toBe('QUEUED');
+  });
+
+  it('should be partial when some jobs made clips and others did not', () => {
+    const summary = summarizeRepurposeBatch([
+      { status: 'COMPLETED', progress: 100 },
+      { status: 'FAILED', progress: 40 },
+    ]);
+    expect(summary.status).toBe('PARTIAL');
+    expect(summary.progress).toBe(100);
+  });
+
+  it('should be failed when no job made clips', () => {
+    const summary = summarizeRepurposeBatch([
+      { status: 'FAILED', progress: 0 },
+      { status: 'CANCELLED', progress: 0 },
+    ]);
+    expect(summary.status).toBe('FAILED');
+  });
+
+  it('should be completed when every job completed', () => {
+    const summary = summarizeRepurposeBatch([
+      { status: 'COMPLETED', progress: 100 },
+      { status: 'COMPLETED', progress: 100 },
+    ]);
+    expect(summary.status).toBe('COMPLETED');
+  });
+});
+
+describe('formatCreatorCredit', () => {
+  it('should name the platform', () => {
+    expect(formatCreatorCredit('jane.doe', 'TIKTOK')).toBe('@jane.doe on TikTok');
+    expect(formatCreatorCredit('@jane.doe', 'INSTAGRAM')).toBe('@jane.doe on Instagram');
+  });
+
+  it('should leave the platform out when asked', () => {
+    expect(formatCreatorCredit('jane.doe', 'YOUTUBE', false)).toBe('@jane.doe');
+  });
+
+  it('should use the handle only for manual imports', () => {
+    expect(formatCreatorCredit('jane.doe', 'MANUAL')).toBe('@jane.doe');
+  });
+});
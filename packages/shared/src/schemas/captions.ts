@@ -0,0 +1,40 @@
+/**
+ * Caption editing Zod schemas
+ */
+
+import { z } from 'zod';
+
+// Word timing inside a cue
+export const captionWordSchema = z.object({
+  text: z.string().min(1).max(100),
+  start: z.number().min(0),
+  end: z.number().min(0),
+  confidence: z.number().min(0).max(1).optional(),
+});
+
+// Single caption cue
+export const captionCueSchema = z
+  .object({
+    start: z.number().min(0),
+    end: z.number().min(0),
+    text: z.string().trim().min(1, 'Caption text is required').max(200),
+    words: z.array(captionWordSchema).optional(),
+  })
+  .refine((cue) => cue.end > cue.start, { message: 'Cue must end after it starts', path: ['end'] });
+
+export type CaptionCueInput = z.infer<typeof captionCueSchema>;
+
+// Save edited captions
+export const updateCaptionsSchema = z.object({
+  cues: z
+    .array(captionCueSchema)
+    .max(1000)
+    .refine((cues) => cues.every((cue, i) => i === 0 || cue.start >= cues[i - 1].start), {
+      message: 'Cues must be in chronological order',
+    }),
+  language: z.string().regex(/^[a-z]{2}$/).optional(),
+  baseVersion: z.number().int().min(0).optional(), // Version the edit started from, to detect conflicting saves
+  restoredFromVersion: z.number().int().min(1).optional(),
+});
+
+export type UpdateCaptionsInput = z.infer<typeof updateCaptionsSchema>;
@@ -7,3 +7,5 @@ export * from './workspace';
 export * from './ugc';
 export * from './products';
 export * from './common';
+export * from './captions';
+export * from './repurpose';
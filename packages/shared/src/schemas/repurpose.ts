@@ -0,0 +1,187 @@
+/**
+ * Repurpose job and preset Zod schemas
+ */
+
+import { z } from 'zod';
+import { platformSchema } from './ugc';
+
+const hexColor = z.string().regex(/^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/, 'Must be a hex color');
+
+export const clipFormatSchema = z.enum(['VERTICAL_9_16', 'SQUARE_1_1', 'HORIZONTAL_16_9']);
+
+export const captionStyleSchema = z.object({
+  fontFamily: z.string().optional(),
+  fontSize: z.number().min(12).max(200).optional(),
+  fontColor: hexColor.optional(),
+  backgroundColor: hexColor.optional(),
+  backgroundOpacity: z.number().min(0).max(1).optional(),
+  position: z.enum(['top', 'center', 'bottom']).optional(),
+  marginBottom: z.number().min(0).max(800).optional(),
+  maxWidth: z.number().min(10).max(100).optional(),
+  karaoke: z.boolean().optional(),
+  highlightColor: hexColor.optional(),
+});
+
+// Workspace logo drawn over every clip
+export const watermarkSchema = z.object({
+  position: z.enum(['top-left', 'top-right', 'bottom-left', 'bottom-right', 'center']).default('bottom-right'),
+  opacity: z.number().min(0.05).max(1).default(0.8),
+  size: z.number().min(5).max(50).default(15), // Percent of the frame width
+});
+
+// Credit for the creator of the source post, drawn as "@handle on TikTok"
+export const attributionSchema = z.object({
+  position: z
+    .enum(['top-left', 'top-center', 'top-right', 'bottom-left', 'bottom-center', 'bottom-right'])
+    .default('top-left'),
+  fontSize: z.number().min(16).max(120).default(40), // Pixels relative to a 1080px short edge
+  fontColor: hexColor.default('#FFFFFF'),
+  backgroundColor: hexColor.optional(), // Box behind the text; outlined text without one
+  backgroundOpacity: z.number().min(0).max(1).default(0.6),
+  showPlatform: z.boolean().default(true),
+});
+
+// Audio of every output: the original can be muted or mixed with a music bed from the audio library
+export const audioSchema = z.object({
+  normalize: z.boolean().default(false), // EBU R128 loudness normalization of the final mix
+  targetLoudness: z.number().min(-36).max(-8).default(-14), // Integrated loudness in LUFS
+  muteOriginal: z.boolean().default(false),
+  musicBedMediaAssetId: z.string().cuid().optional(), // READY AUDIO asset, looped to the clip's length
+  musicVolume: z.number().min(0).max(1).optional(), // Defaults to 1 when the original is muted, 0.25 under it
+});
+
+// Branded version for paid social: bumper videos around the clip and an end card with the primary product
+export const brandingSchema = z
+  .object({
+    introMediaAssetId: z.string().cuid().optional(), // READY video played before the clip
+    outroMediaAssetId: z.string().cuid().optional(), // READY video played after the end card
+    endCard: z
+      .object({
+        cta: z.string().trim().min(1).max(40).default('Shop now'),
+        duration: z.number().min(1).max(10).default(3), // Seconds
+        backgroundColor: hexColor.default('#000000'),
+        textColor: hexColor.default('#FFFFFF'),
+        accentColor: hexColor.default('#FFFFFF'), // CTA button
+      })
+      .optional(),
+  })
+  .refine((branding) => branding.introMediaAssetId || branding.outroMediaAssetId || branding.endCard, {
+    message: 'Add a bumper or an end card',
+  });
+
+// Clip generation parameters, with the defaults a job gets when a field is left out
+export const repurposeParamsSchema = z.object({
+  durations: z.array(z.number().positive().max(600)).min(1).max(10).default([10, 20, 30]),
+  formats: z.array(clipFormatSchema).min(1).default(['VERTICAL_9_16']),
+  strategy: z.enum(['first', 'scenes', 'highlights']).default('highlights'),
+  focalPoint: z.object({ x: z.number().min(0).max(1), y: z.number().min(0).max(1) }).optional(),
+  generateCaptions: z.boolean().default(true),
+  captionLanguage: z.string().regex(/^([a-z]{2}|auto)$/).default('en'),
+  burnInCaptions: z.boolean().default(false),
+  captionStyle: captionStyleSchema.optional(),
+  watermark: watermarkSchema.optional(),
+  attribution: attributionSchema.optional(),
+  audio: audioSchema.optional(),
+  branding: brandingSchema.optional(),
+});
+
+export type RepurposeParamsInput = z.input<typeof repurposeParamsSchema>;
+export type RepurposeParams = z.output<typeof repurposeParamsSchema>;
+
+// Everything in a job's parameters except the focal point, which depends on the source video
+export const repurposePresetSettingsSchema = repurposeParamsSchema.omit({ focalPoint: true });
+
+export type RepurposePresetSettings = z.output<typeof repurposePresetSettingsSchema>;
+
+export const createRepurposePresetSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().trim().max(500).optional(),
+  settings: repurposePresetSettingsSchema,
+});
+
+export type CreateRepurposePresetInput = z.infer<typeof createRepurposePresetSchema>;
+
+export const updateRepurposePresetSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100).optional(),
+  description: z.string().trim().max(500).nullable().optional(),
+  settings: repurposePresetSettingsSchema.optional(),
+});
+
+export type UpdateRepurposePresetInput = z.infer<typeof updateRepurposePresetSchema>;
+
+// Fields passed with a preset override the preset's settings, the rest come from the preset
+export const createRepurposeJobSchema = z.object({
+  sourceMediaAssetId: z.string().cuid(),
+  presetId: z.string().cuid().optional(),
+  params: repurposeParamsSchema.partial().default({}),
+});
+
+export type CreateRepurposeJobInput = z.infer<typeof createRepurposeJobSchema>;
+
+// Largest number of jobs one batch may create
+export const MAX_REPURPOSE_BATCH_SIZE = 200;
+
+// Approved UGC to repurpose; every field narrows the selection
+export const repurposeBatchFilterSchema = z
+  .object({
+    platform: platformSchema.optional(),
+    hashtag: z
+      .string()
+      .trim()
+      .min(1)
+      .max(100)
+      .transform((tag) => tag.replace(/^#/, '').toLowerCase())
+      .optional(),
+    from: z.coerce.date().optional(), // Posted on or after
+    to: z.coerce.date().optional(), // Posted on or before
+  })
+  .refine((filter) => !filter.from || !filter.to || filter.from <= filter.to, {
+    message: 'The date range ends before it starts',
+    path: ['to'],
+  });
+
+export type RepurposeBatchFilter = z.infer<typeof repurposeBatchFilterSchema>;
+
+export const createRepurposeBatchSchema = z
+  .object({
+    filter: repurposeBatchFilterSchema.optional(),
+    mediaAssetIds: z.array(z.string().cuid()).min(1).max(MAX_REPURPOSE_BATCH_SIZE).optional(),
+    presetId: z.string().cuid().optional(),
+    params: repurposeParamsSchema.omit({ focalPoint: true }).partial().default({}),
+  })
+  .refine((batch) => !batch.filter !== !batch.mediaAssetIds, {
+    message: 'Pass either a filter or a list of media asset ids',
+    path: ['filter'],
+  });
+
+export type CreateRepurposeBatchInput = z.infer<typeof createRepurposeBatchSchema>;
+
+// Ad placements clips are checked against when they are exported
+export const exportPlatformSchema = z.enum(['TIKTOK_ADS', 'META_REELS', 'YOUTUBE_SHORTS']);
+
+export type ExportPlatform = z.infer<typeof exportPlatformSchema>;
+
+// Largest number of clips one export bundle may hold
+export const MAX_CLIP_EXPORT_SIZE = 50;
+
+export const createClipExportSchema = z.object({
+  clipIds: z.array(z.string().cuid()).min(1).max(MAX_CLIP_EXPORT_SIZE),
+  platforms: z.array(exportPlatformSchema).min(1).default(exportPlatformSchema.options),
+  campaignId: z.string().cuid().optional(), // UTM parameters for the product links
+  useBranded: z.boolean().default(false), // Export branded versions where a clip has one
+});
+
+export type CreateClipExportInput = z.infer<typeof createClipExportSchema>;
+
+/**
+ * Resolve a job's parameters from a preset's settings and the fields passed with the job
+ * Settings saved before a field existed get that field's default
+ */
+export function resolveRepurposeParams(
+  presetSettings: unknown,
+  overrides: Partial<RepurposeParams> = {}
+): RepurposeParams {
+  const base = repurposePresetSettingsSchema.partial().parse(presetSettings ?? {});
+  const defined = Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined));
+  return repurposeParamsSchema.parse({ ...base, ...defined });
+}
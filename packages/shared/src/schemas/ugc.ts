@@ -4,6 +4,7 @@
 
 import { z } from 'zod';
 import { cuidSchema, urlSchema, paginationSchema, dateRangeSchema } from './common';
+import type { WorkspacePlan } from './workspace';
 
 // Platforms
 export const platformSchema = z.enum(['TIKTOK', 'INSTAGRAM', 'YOUTUBE', 'MANUAL']);
@@ -27,6 +28,52 @@ export const connectSocialAccountSchema = z.object({
 
 export type ConnectSocialAccountInput = z.infer<typeof connectSocialAccountSchema>;
 
+// Minutes between listening runs for each workspace plan
+export const LISTENING_INTERVAL_MINUTES: Record<WorkspacePlan, number> = {
+  FREE: 24 * 60,
+  STARTER: 6 * 60,
+  GROWTH: 60,
+  SCALE: 15,
+};
+
+// Most hashtags, mentions and handles one account may watch in total
+export const MAX_LISTENING_TERMS = 20;
+
+// A hashtag, mention or handle, stored without its # or @
+const listeningTermSchema = z
+  .string()
+  .trim()
+  .transform((value) => value.replace(/^[#@]+/, '').toLowerCase())
+  .pipe(z.string().regex(/^[\w.]{1,100}$/, 'Only letters, numbers, dots and underscores'));
+
+const listeningTermsSchema = z
+  .array(listeningTermSchema)
+  .default([])
+  .transform((terms) => Array.from(new Set(terms)));
+
+// Listening settings, stored in SocialAccount.syncSettings
+export const listeningSettingsSchema = z
+  .object({
+    enabled: z.boolean().default(false),
+    hashtags: listeningTermsSchema,
+    mentions: listeningTermsSchema,
+    handles: listeningTermsSchema,
+  })
+  .refine(
+    (settings) =>
+      settings.hashtags.length + settings.mentions.length + settings.handles.length <=
+      MAX_LISTENING_TERMS,
+    { message: `Watch at most ${MAX_LISTENING_TERMS} hashtags, mentions and handles in total` }
+  )
+  .refine(
+    (settings) =>
+      !settings.enabled ||
+      settings.hashtags.length + settings.mentions.length + settings.handles.length > 0,
+    { message: 'Add a hashtag, mention or handle to listen for', path: ['hashtags'] }
+  );
+
+export type ListeningSettings = z.infer<typeof listeningSettingsSchema>;
+
 // Manual UGC import
 export const importUgcManualSchema = z.object({
   postUrl: urlSchema,
@@ -43,16 +90,77 @@ export type ImportUgcManualInput = z.infer<typeof importUgcManualSchema>;
 // CSV import row
 export const importUgcCsvRowSchema = z.object({
   post_url: urlSchema,
-  platform: z.string().transform((val) => val.toUpperCase() as Platform),
+  platform: z
+    .string()
+    .transform((val) => val.trim().toUpperCase())
+    .pipe(platformSchema),
   creator_handle: z.string().min(1),
   creator_name: z.string().optional(),
   caption: z.string().optional(),
   hashtags: z.string().optional(), // Comma-separated
-  posted_at: z.string().optional(),
+  posted_at: z
+    .string()
+    .optional()
+    .refine((val) => !val || !Number.isNaN(Date.parse(val)), 'Invalid date'),
 });
 
 export type ImportUgcCsvRow = z.infer<typeof importUgcCsvRowSchema>;
 
+// Columns of an import file, named like the CSV row fields
+export const importColumnSchema = z.enum([
+  'post_url',
+  'platform',
+  'creator_handle',
+  'creator_name',
+  'caption',
+  'hashtags',
+  'posted_at',
+]);
+export type ImportColumn = z.infer<typeof importColumnSchema>;
+
+// Which header of the file each column is read from; platform is taken from the URL when unmapped
+export const importColumnMappingSchema = z
+  .record(importColumnSchema, z.string().min(1))
+  .refine((mapping) => Boolean(mapping.post_url && mapping.creator_handle), {
+    message: 'Map the post URL and creator handle columns',
+  });
+export type ImportColumnMapping = z.infer<typeof importColumnMappingSchema>;
+
+export const MAX_IMPORT_FILE_SIZE = 50 * 1024 * 1024;
+export const MAX_IMPORT_INLINE_ROWS = 5000;
+
+// Start a background import, from an uploaded CSV or XLSX file or from rows sent inline
+export const startUgcImportSchema = z
+  .object({
+    fileKey: z.string().min(1).optional(),
+    fileName: z.string().max(255).optional(),
+    rows: z.array(z.record(z.string())).min(1).max(MAX_IMPORT_INLINE_ROWS).optional(),
+    mapping: importColumnMappingSchema.optional(),
+    dryRun: z.boolean().default(false),
+  })
+  .refine((input) => Boolean(input.fileKey) !== Boolean(input.rows), {
+    message: 'Provide either an uploaded file or rows',
+    path: ['fileKey'],
+  });
+
+export type StartUgcImportInput = z.infer<typeof startUgcImportSchema>;
+
+// Import the failed rows of an earlier import again, with corrected values where given
+export const retryUgcImportSchema = z.object({
+  corrections: z
+    .array(
+      z.object({
+        row: z.number().int().positive(),
+        values: z.record(importColumnSchema, z.string()),
+      })
+    )
+    .max(MAX_IMPORT_INLINE_ROWS)
+    .default([]),
+  dryRun: z.boolean().default(false),
+});
+
+export type RetryUgcImportInput = z.infer<typeof retryUgcImportSchema>;
+
 // UGC post filters
 export const ugcPostFiltersSchema = paginationSchema.extend({
   platform: platformSchema.optional(),
@@ -104,6 +104,13 @@ export const workspaceWithRoleSchema = workspaceResponseSchema.extend({
 
 export type WorkspaceWithRole = z.infer<typeof workspaceWithRoleSchema>;
 
+// Mark notifications as read; all unread ones when no ids are given
+export const markNotificationsReadSchema = z.object({
+  ids: z.array(z.string().cuid()).min(1).max(100).optional(),
+});
+
+export type MarkNotificationsReadInput = z.infer<typeof markNotificationsReadSchema>;
+
 // Role permissions helper
 export const rolePermissions = {
   OWNER: ['manage:workspace', 'manage:members', 'manage:billing', 'write:all', 'read:all'],
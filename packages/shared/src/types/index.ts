@@ -29,6 +29,7 @@ export type {
   InvitationResponse,
   AcceptInvitationInput,
   WorkspaceWithRole,
+  MarkNotificationsReadInput,
 } from '../schemas/workspace';
 
 export type {
@@ -36,6 +37,7 @@ export type {
   RightsStatus,
   SocialAccountStatus,
   ConnectSocialAccountInput,
+  ListeningSettings,
   ImportUgcManualInput,
   ImportUgcCsvRow,
   UgcPostFilters,
@@ -92,14 +94,50 @@ export interface PaginatedResponse<T> {
 }
 
 // Job types
+// Relayed to the browser by the workspace job stream
 export interface JobProgress {
   jobId: string;
+  queue?: string; // BullMQ queue name, e.g. 'clip-generation'
+  entityId?: string; // Record the job works on: repurpose job, media asset, clip, clip export or import log
   status: 'queued' | 'processing' | 'completed' | 'failed';
-  progress: number;
+  progress: number; // 0-100
   message?: string;
   error?: string;
 }
 
+// Repurpose job outputs, one per format × duration combination
+export type RepurposeOutputStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+export interface RepurposeOutput {
+  format: ClipGenerationParams['formats'][number];
+  duration: number;
+  status: RepurposeOutputStatus;
+  clipId?: string;
+  startTime?: number;
+  endTime?: number;
+  error?: string;
+}
+
+export interface RepurposeOutputSummary {
+  totalOutputs: number;
+  completedOutputs: number;
+  failedOutputs: number;
+  outputs: RepurposeOutput[];
+}
+
+// Aggregate progress of the jobs in a repurpose batch
+export interface RepurposeBatchProgress {
+  totalJobs: number;
+  queued: number;
+  processing: number;
+  completed: number;
+  partial: number;
+  failed: number;
+  cancelled: number;
+  progress: number; // 0-100, finished jobs count as done
+  status: 'QUEUED' | 'PROCESSING' | 'COMPLETED' | 'PARTIAL' | 'FAILED' | 'CANCELLED';
+}
+
 // Media types
 export interface MediaDimensions {
   width: number;
@@ -113,25 +151,162 @@ export interface VideoMetadata extends MediaDimensions {
   fps?: number;
 }
 
+// Horizontal strip of evenly spaced frames, played back by stepping through the tiles
+export interface PreviewSprite {
+  url: string;
+  frames: number;
+  frameWidth: number;
+  frameHeight: number;
+  interval: number; // Seconds of video between frames
+}
+
 // Caption style configuration
 export interface CaptionStyle {
   fontFamily: string;
-  fontSize: number;
-  fontColor: string;
+  fontSize: number; // Pixels, relative to a 1080px short edge
+  fontColor: string; // Hex, e.g. #FFFFFF
   backgroundColor?: string;
-  backgroundOpacity?: number;
+  backgroundOpacity?: number; // 0-1
   position: 'top' | 'center' | 'bottom';
-  marginBottom?: number;
-  maxWidth?: number;
+  marginBottom?: number; // Pixels from the anchored edge, same scale as fontSize
+  maxWidth?: number; // Percent of the frame width
+  karaoke?: boolean; // Highlight each word as it is spoken
+  highlightColor?: string;
 }
 
+// Caption style with every optional field filled in except the background
+export type ResolvedCaptionStyle = Required<Omit<CaptionStyle, 'backgroundColor'>> &
+  Pick<CaptionStyle, 'backgroundColor'>;
+
+// Caption timing (seconds, relative to the start of the clip)
+export interface CaptionWord {
+  text: string;
+  start: number;
+  end: number;
+  confidence?: number;
+}
+
+export interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
+  words?: CaptionWord[];
+}
+
+export interface Transcript {
+  language: string;
+  provider: string;
+  words: CaptionWord[];
+  cues: CaptionCue[];
+}
+
+// How clip segments are chosen from the source video
+export type ClipSelectionStrategy = 'first' | 'scenes' | 'highlights';
+
 // Clip generation parameters
 export interface ClipGenerationParams {
   durations: number[]; // Target durations in seconds
   formats: ('VERTICAL_9_16' | 'SQUARE_1_1' | 'HORIZONTAL_16_9')[];
+  strategy?: ClipSelectionStrategy;
+  focalPoint?: { x: number; y: number }; // Manual crop center as 0-1 fractions of the source frame
   generateCaptions: boolean;
+  captionLanguage?: string;
   captionStyle?: CaptionStyle;
   burnInCaptions: boolean;
+  watermark?: ClipWatermark;
+  attribution?: ClipAttribution;
+  audio?: ClipAudio;
+  branding?: ClipBranding;
+}
+
+// Workspace logo drawn over a clip
+export interface ClipWatermark {
+  position: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
+  opacity: number; // 0-1
+  size: number; // Percent of the frame width
+}
+
+// Creator credit drawn over a clip
+export interface ClipAttribution {
+  position: 'top-left' | 'top-center' | 'top-right' | 'bottom-left' | 'bottom-center' | 'bottom-right';
+  fontSize: number; // Pixels relative to a 1080px short edge
+  fontColor: string;
+  backgroundColor?: string;
+  backgroundOpacity: number; // 0-1
+  showPlatform: boolean;
+}
+
+// Audio processing applied while a clip is rendered
+export interface ClipAudio {
+  normalize: boolean; // EBU R128 loudness normalization
+  targetLoudness: number; // LUFS
+  muteOriginal: boolean;
+  musicBedMediaAssetId?: string;
+  musicVolume?: number; // 0-1
+}
+
+// Bumpers and end card of a clip's branded version
+export interface ClipBranding {
+  introMediaAssetId?: string;
+  outroMediaAssetId?: string;
+  endCard?: {
+    cta: string;
+    duration: number; // Seconds
+    backgroundColor: string;
+    textColor: string;
+    accentColor: string;
+  };
+}
+
+// Branded version of a clip, stored in the clip's metadata.branded
+export interface BrandedRendition {
+  key: string;
+  url: string;
+  duration: number;
+  introMediaAssetId?: string;
+  outroMediaAssetId?: string;
+  endCard?: {
+    productId: string | null; // Primary product shown on the card, null when the clip has none
+    duration: number;
+  };
+  renderedAt: string;
+}
+
+// Delivery requirements of an ad placement
+export interface ExportSpec {
+  name: string;
+  aspectRatios: string[]; // Accepted ratios, e.g. '9:16'
+  minDuration: number; // Seconds
+  maxDuration: number;
+  minShortEdge: number; // Pixels
+  minBitrate?: number; // Bits per second
+  maxFileSize: number; // Bytes
+}
+
+// File that is checked against an export spec
+export interface ExportedFile extends MediaDimensions {
+  duration: number;
+  bitrate?: number;
+  fileSize: number;
+}
+
+// Result of checking one clip against every requested spec, keyed by export platform
+export interface ClipExportValidation {
+  clipId: string;
+  file: string; // Path of the video inside the bundle
+  results: Record<string, { passed: boolean; issues: string[] }>;
+}
+
+// Details of an imported post read from its URL; fields the platform did not expose are absent
+export interface PostEnrichment {
+  source: 'oembed' | 'opengraph';
+  caption?: string;
+  creatorName?: string;
+  creatorProfileUrl?: string;
+  thumbnailUrl?: string;
+  postId?: string;
+  postedAt?: Date;
+  raw: Record<string, unknown>; // The oEmbed payload or the page's meta tags
 }
 
 // Analytics types
@@ -0,0 +1,149 @@
+/**
+ * Caption utilities - styles, cue grouping and SRT/WebVTT serialization
+ */
+
+import type { CaptionCue, CaptionStyle, CaptionWord, ResolvedCaptionStyle } from '../types';
+
+export const DEFAULT_CAPTION_STYLE: ResolvedCaptionStyle = {
+  fontFamily: 'Arial',
+  fontSize: 64,
+  fontColor: '#FFFFFF',
+  backgroundColor: undefined,
+  backgroundOpacity: 0.6,
+  position: 'bottom',
+  marginBottom: 160,
+  maxWidth: 85,
+  karaoke: false,
+  highlightColor: '#FFE135',
+};
+
+/**
+ * Fill in missing caption style fields with the defaults
+ */
+export function resolveCaptionStyle(style?: Partial<CaptionStyle> | null): ResolvedCaptionStyle {
+  const resolved = { ...DEFAULT_CAPTION_STYLE };
+  for (const [key, value] of Object.entries(style ?? {})) {
+    if (value !== undefined && value !== null) {
+      (resolved as Record<string, unknown>)[key] = value;
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Format seconds as a caption timestamp (HH:MM:SS,mmm for SRT, HH:MM:SS.mmm for WebVTT)
+ */
+export function formatCaptionTimestamp(seconds: number, format: 'srt' | 'vtt' = 'vtt'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(totalMs / 3_600_000);
+  const m = Math.floor((totalMs % 3_600_000) / 60_000);
+  const s = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+
+  const separator = format === 'srt' ? ',' : '.';
+  return (
+    `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}` +
+    `${separator}${ms.toString().padStart(3, '0')}`
+  );
+}
+
+/**
+ * Group word timings into readable cues
+ * A cue ends at sentence punctuation, at a pause, or when it would get too long to read
+ */
+export function groupWordsIntoCues(
+  words: CaptionWord[],
+  options: { maxChars?: number; maxDuration?: number; maxGap?: number } = {}
+): CaptionCue[] {
+  const { maxChars = 32, maxDuration = 3, maxGap = 0.8 } = options;
+  const cues: CaptionCue[] = [];
+  let current: CaptionWord[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    cues.push({
+      start: current[0].start,
+      end: current[current.length - 1].end,
+      text: current.map((word) => word.text).join(' '),
+      words: current,
+    });
+    current = [];
+  };
+
+  for (const word of words) {
+    const text = word.text.trim();
+    if (!text) continue;
+
+    if (current.length > 0) {
+      const first = current[0];
+      const last = current[current.length - 1];
+      const length = current.reduce((sum, w) => sum + w.text.length + 1, 0) + text.length;
+
+      if (word.start - last.end > maxGap || length > maxChars || word.end - first.start > maxDuration) {
+        flush();
+      }
+    }
+
+    current.push({ ...word, text });
+
+    if (/[.!?]$/.test(text)) {
+      flush();
+    }
+  }
+
+  flush();
+  return cues;
+}
+
+/**
+ * Keep a cue's word timings in step with its text after an edit
+ * Words are kept when they still spell the text and fit the cue; otherwise the cue's
+ * duration is shared out across the new words by length
+ */
+export function retimeCueWords(cue: CaptionCue): CaptionCue {
+  const tokens = cue.text.trim().split(/\s+/).filter(Boolean);
+  const words = cue.words ?? [];
+
+  const unchanged =
+    words.length === tokens.length &&
+    words.every((word, i) => word.text === tokens[i] && word.start >= cue.start && word.end <= cue.end);
+  if (unchanged) {
+    return { ...cue, words };
+  }
+
+  const totalChars = tokens.reduce((sum, token) => sum + token.length, 0);
+  const duration = cue.end - cue.start;
+  let cursor = cue.start;
+
+  const retimed = tokens.map((token, i) => {
+    const start = cursor;
+    const end = i === tokens.length - 1 ? cue.end : start + (duration * token.length) / totalChars;
+    cursor = end;
+    return { text: token, start: Math.round(start * 1000) / 1000, end: Math.round(end * 1000) / 1000 };
+  });
+
+  return { ...cue, words: retimed };
+}
+
+/**
+ * Serialize cues as SubRip (SRT)
+ */
+export function toSrt(cues: CaptionCue[]): string {
+  return cues
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${formatCaptionTimestamp(cue.start, 'srt')} --> ${formatCaptionTimestamp(cue.end, 'srt')}\n${cue.text}\n`
+    )
+    .join('\n');
+}
+
+/**
+ * Serialize cues as WebVTT
+ */
+export function toVtt(cues: CaptionCue[]): string {
+  const body = cues
+    .map((cue) => `${formatCaptionTimestamp(cue.start)} --> ${formatCaptionTimestamp(cue.end)}\n${cue.text}\n`)
+    .join('\n');
+
+  return `WEBVTT\n\n${body}`;
+}
@@ -0,0 +1,266 @@
+/**
+ * Post enrichment - details of an imported post, read from its public URL
+ * TikTok and YouTube are asked through oEmbed; Instagram too when a Meta app token is given.
+ * A failed oEmbed lookup falls back to the Open Graph tags of the post page. Only pages on the
+ * platform's own hosts are fetched, redirects included, so an imported URL cannot point the
+ * server at anything else.
+ */
+
+import type { Platform } from '../schemas/ugc';
+import type { PostEnrichment } from '../types';
+import { detectPlatformFromUrl, extractPostIdFromUrl } from './post-url';
+
+// The parts of a fetch Response that enrichment reads
+export interface EnrichmentResponse {
+  ok: boolean;
+  status: number;
+  headers: { get(name: string): string | null };
+  text(): Promise<string>;
+}
+
+// Fetches a URL; swapped for a fixture-backed fetcher in tests
+export type EnrichmentFetcher = (
+  url: string,
+  init: { headers: Record<string, string> }
+) => Promise<EnrichmentResponse>;
+
+export interface EnrichPostOptions {
+  fetcher?: EnrichmentFetcher;
+  // `<app id>|<app secret>`; Instagram's oEmbed endpoint is closed without one
+  instagramAccessToken?: string;
+}
+
+export class EnrichmentError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'EnrichmentError';
+  }
+}
+
+// Some platforms only serve their Open Graph tags to link preview crawlers
+const USER_AGENT = 'facebookexternalhit/1.1 (+https://ugc-commerce.app)';
+
+const MAX_REDIRECTS = 5;
+
+// Redirects are followed by hand, so each hop's host can be checked
+const defaultFetcher: EnrichmentFetcher = (url, init) =>
+  fetch(url, { ...init, redirect: 'manual', signal: AbortSignal.timeout(10_000) });
+
+interface OEmbedPayload {
+  title?: string;
+  author_name?: string;
+  author_url?: string;
+  author_unique_id?: string;
+  thumbnail_url?: string;
+  embed_product_id?: string;
+  [key: string]: unknown;
+}
+
+function oembedUrl(platform: Platform, postUrl: string, options: EnrichPostOptions): string | null {
+  const url = encodeURIComponent(postUrl);
+  switch (platform) {
+    case 'TIKTOK':
+      return `https://www.tiktok.com/oembed?url=${url}`;
+    case 'YOUTUBE':
+      return `https://www.youtube.com/oembed?format=json&url=${url}`;
+    case 'INSTAGRAM':
+      return options.instagramAccessToken
+        ? `https://graph.facebook.com/v19.0/instagram_oembed?url=${url}&access_token=${encodeURIComponent(options.instagramAccessToken)}`
+        : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Upload time of a TikTok video; its id starts with the Unix timestamp in the top 32 bits
+ */
+export function tiktokPostedAt(postId: string): Date | undefined {
+  if (!/^\d{15,20}$/.test(postId)) return undefined;
+  const seconds = Number(BigInt(postId) >> 32n);
+  // Ids from before TikTok launched are not snowflakes
+  return seconds > 1_470_000_000 ? new Date(seconds * 1000) : undefined;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Open Graph and similar `<meta>` tags of a page, keyed by property, name or itemprop
+ * The first value of each key wins
+ */
+export function parseMetaTags(html: string): Record<string, string> {
+  const tags: Record<string, string> = {};
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes: Record<string, string> = {};
+    for (const [, name, , doubleQuoted, singleQuoted] of tag.matchAll(
+      /([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g
+    )) {
+      attributes[name.toLowerCase()] = doubleQuoted ?? singleQuoted;
+    }
+    const key = attributes.property ?? attributes.name ?? attributes.itemprop;
+    if (key && attributes.content !== undefined && !(key in tags)) {
+      tags[key] = decodeEntities(attributes.content);
+    }
+  }
+  return tags;
+}
+
+function parseDate(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+async function fetchOEmbed(url: string, fetcher: EnrichmentFetcher): Promise<OEmbedPayload | null> {
+  const response = await fetcher(url, {
+    headers: { Accept: 'application/json', 'User-Agent': USER_AGENT },
+  });
+  // Private, deleted or unknown posts
+  if (response.status === 400 || response.status === 404) return null;
+  if (!response.ok) {
+    throw new EnrichmentError(`oEmbed lookup returned ${response.status}`, response.status);
+  }
+  try {
+    return JSON.parse(await response.text()) as OEmbedPayload;
+  } catch {
+    return null;
+  }
+}
+
+async function fetchOpenGraph(
+  platform: Platform,
+  postUrl: string,
+  fetcher: EnrichmentFetcher
+): Promise<Record<string, string> | null> {
+  let url = postUrl;
+  let response = await fetcher(url, {
+    headers: { Accept: 'text/html', 'User-Agent': USER_AGENT },
+  });
+  for (let hop = 0; response.status >= 300 && response.status < 400; hop++) {
+    const location = response.headers.get('location');
+    if (!location || hop === MAX_REDIRECTS) return null;
+    url = new URL(location, url).toString();
+    // Login walls and consent pages on other hosts have nothing to say about the post
+    if (detectPlatformFromUrl(url) !== platform) return null;
+    response = await fetcher(url, {
+      headers: { Accept: 'text/html', 'User-Agent': USER_AGENT },
+    });
+  }
+  if (!response.ok) {
+    if (response.status === 404 || response.status === 410) return null;
+    throw new EnrichmentError(`Post page returned ${response.status}`, response.status);
+  }
+  if (!(response.headers.get('content-type') ?? 'text/html').includes('html')) return null;
+
+  const tags = parseMetaTags(await response.text());
+  return Object.keys(tags).length > 0 ? tags : null;
+}
+
+function fromOEmbed(platform: Platform, postUrl: string, payload: OEmbedPayload): PostEnrichment {
+  const postId =
+    (platform === 'TIKTOK' ? payload.embed_product_id : undefined) ??
+    extractPostIdFromUrl(platform, postUrl);
+  return {
+    source: 'oembed',
+    caption: payload.title || undefined,
+    creatorName: payload.author_name || undefined,
+    creatorProfileUrl: payload.author_url || undefined,
+    thumbnailUrl: payload.thumbnail_url || undefined,
+    postId,
+    postedAt: platform === 'TIKTOK' && postId ? tiktokPostedAt(postId) : undefined,
+    raw: { oembed: payload },
+  };
+}
+
+function fromOpenGraph(
+  platform: Platform,
+  postUrl: string,
+  tags: Record<string, string>
+): PostEnrichment {
+  const postId = extractPostIdFromUrl(platform, tags['og:url'] ?? postUrl);
+  return {
+    source: 'opengraph',
+    caption: tags['og:description'] ?? tags['description'] ?? tags['og:title'],
+    creatorName: tags['author'] ?? tags['article:author'],
+    creatorProfileUrl: tags['article:author']?.startsWith('http')
+      ? tags['article:author']
+      : undefined,
+    thumbnailUrl: tags['og:image:secure_url'] ?? tags['og:image'] ?? tags['twitter:image'],
+    postId,
+    postedAt:
+      parseDate(
+        tags['article:published_time'] ??
+          tags['og:video:release_date'] ??
+          tags['datePublished'] ??
+          tags['uploadDate']
+      ) ?? (platform === 'TIKTOK' && postId ? tiktokPostedAt(postId) : undefined),
+    raw: { openGraph: tags },
+  };
+}
+
+/**
+ * Look up a post's caption, creator, thumbnail, id and date from its URL
+ * Returns null when the platform has nothing to say about it; throws an EnrichmentError when a
+ * lookup fails outright
+ */
+export async function enrichPostUrl(
+  postUrl: string,
+  platform: Platform,
+  options: EnrichPostOptions = {}
+): Promise<PostEnrichment | null> {
+  const fetcher = options.fetcher ?? defaultFetcher;
+
+  const endpoint = oembedUrl(platform, postUrl, options);
+  if (endpoint) {
+    try {
+      const payload = await fetchOEmbed(endpoint, fetcher);
+      if (payload) return fromOEmbed(platform, postUrl, payload);
+    } catch {
+      // The page itself may still have Open Graph tags
+    }
+  }
+
+  // Manual posts and URLs on other hosts are never fetched
+  if (detectPlatformFromUrl(postUrl) !== platform) return null;
+
+  const tags = await fetchOpenGraph(platform, postUrl, fetcher);
+  return tags ? fromOpenGraph(platform, postUrl, tags) : null;
+}
+
+/**
+ * Post fields from an enrichment; values the importer typed win over looked-up ones
+ */
+export function enrichedPostFields(
+  enrichment: PostEnrichment | null,
+  typed: { caption?: string | null; creatorName?: string | null; postedAt?: Date | null }
+) {
+  return {
+    caption: typed.caption || enrichment?.caption || null,
+    creatorName: typed.creatorName || enrichment?.creatorName || null,
+    postedAt: typed.postedAt ?? enrichment?.postedAt ?? null,
+    creatorProfileUrl: enrichment?.creatorProfileUrl ?? null,
+    thumbnailUrl: enrichment?.thumbnailUrl ?? null,
+    postId: enrichment?.postId ?? null,
+    rawJson: enrichment
+      ? JSON.parse(
+          JSON.stringify({
+            source: enrichment.source,
+            fetchedAt: new Date().toISOString(),
+            ...enrichment.raw,
+          })
+        )
+      : undefined,
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * Clip export utilities - ad placement specs and the bundle manifest
+ */
+
+import type { ExportPlatform } from '../schemas/repurpose';
+import type { ClipExportValidation, ExportedFile, ExportSpec } from '../types';
+
+const MB = 1024 * 1024;
+
+// Published delivery specs of each placement; clips outside them are rejected on upload
+export const EXPORT_SPECS: Record<ExportPlatform, ExportSpec> = {
+  TIKTOK_ADS: {
+    name: 'TikTok Ads',
+    aspectRatios: ['9:16', '1:1', '16:9'],
+    minDuration: 5,
+    maxDuration: 60,
+    minShortEdge: 540,
+    minBitrate: 516_000,
+    maxFileSize: 500 * MB,
+  },
+  META_REELS: {
+    name: 'Meta Reels',
+    aspectRatios: ['9:16'],
+    minDuration: 1,
+    maxDuration: 90,
+    minShortEdge: 500,
+    maxFileSize: 4096 * MB,
+  },
+  YOUTUBE_SHORTS: {
+    name: 'YouTube Shorts',
+    aspectRatios: ['9:16', '1:1'],
+    minDuration: 1,
+    maxDuration: 180,
+    minShortEdge: 480,
+    maxFileSize: 256 * 1024 * MB,
+  },
+};
+
+// Encoders round odd frame sizes, so ratios only need to match this closely
+const ASPECT_RATIO_TOLERANCE = 0.01;
+
+function matchesAspectRatio(file: ExportedFile, ratio: string): boolean {
+  const [width, height] = ratio.split(':').map(Number);
+  return Math.abs(file.width / file.height - width / height) <= (width / height) * ASPECT_RATIO_TOLERANCE;
+}
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * MB ? `${Math.round((bytes / (1024 * MB)) * 10) / 10} GB` : `${Math.round(bytes / MB)} MB`;
+}
+
+/**
+ * Check a file against a placement's spec
+ * Returns one readable issue per requirement the file misses, so an empty list means it passes
+ */
+export function validateExportSpec(file: ExportedFile, spec: ExportSpec): string[] {
+  const issues: string[] = [];
+  const duration = Math.round(file.duration * 10) / 10;
+
+  if (!spec.aspectRatios.some((ratio) => matchesAspectRatio(file, ratio))) {
+    issues.push(`Aspect ratio of ${file.width}x${file.height} is not ${spec.aspectRatios.join(', ')}`);
+  }
+  if (duration < spec.minDuration) {
+    issues.push(`Duration of ${duration}s is under the ${spec.minDuration}s minimum`);
+  }
+  if (duration > spec.maxDuration) {
+    issues.push(`Duration of ${duration}s is over the ${spec.maxDuration}s maximum`);
+  }
+  if (Math.min(file.width, file.height) < spec.minShortEdge) {
+    issues.push(`Resolution of ${file.width}x${file.height} is under the ${spec.minShortEdge}px minimum`);
+  }
+  if (spec.minBitrate && file.bitrate !== undefined && file.bitrate < spec.minBitrate) {
+    issues.push(
+      `Bitrate of ${Math.round(file.bitrate / 1000)} kbps is under the ${spec.minBitrate / 1000} kbps minimum`
+    );
+  }
+  if (file.fileSize > spec.maxFileSize) {
+    issues.push(`File size of ${formatSize(file.fileSize)} is over the ${formatSize(spec.maxFileSize)} limit`);
+  }
+
+  return issues;
+}
+
+/**
+ * Check a file against the specs of every requested placement
+ */
+export function validateClipExport(
+  file: ExportedFile,
+  platforms: ExportPlatform[]
+): ClipExportValidation['results'] {
+  return Object.fromEntries(
+    platforms.map((platform) => {
+      const issues = validateExportSpec(file, EXPORT_SPECS[platform]);
+      return [platform, { passed: issues.length === 0, issues }];
+    })
+  );
+}
+
+/**
+ * Serialize rows as CSV (RFC 4180), quoting values that contain commas, quotes or line breaks
+ * Text that a spreadsheet would read as a formula (starting with =, +, -, @, tab or carriage
+ * return) gets a leading apostrophe, so captions and error messages cannot run as formulas.
+ * Numbers are written as they are.
+ */
+export function toCsv(rows: (string | number | boolean | null | undefined)[][]): string {
+  return rows
+    .map((row) =>
+      row
+        .map((value) => {
+          let text = value === null || value === undefined ? '' : String(value);
+          if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+            text = `'${text}`;
+          }
+          return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        })
+        .join(',')
+    )
+    .join('\r\n')
+    .concat('\r\n');
+}
@@ -0,0 +1,89 @@
+/**
+ * Import column mapping - which header of an uploaded file feeds each post field
+ * Headers are matched against common names, so exports from other tools import without setup.
+ */
+
+import {
+  importColumnSchema,
+  type ImportColumn,
+  type ImportColumnMapping,
+} from '../schemas/ugc';
+import { detectPlatformFromUrl } from './post-url';
+
+export const REQUIRED_IMPORT_COLUMNS: ImportColumn[] = ['post_url', 'creator_handle'];
+
+// Header names each column is known by, lowercase with single spaces
+const COLUMN_ALIASES: Record<ImportColumn, string[]> = {
+  post_url: ['post url', 'url', 'post link', 'link', 'permalink', 'content url', 'video url'],
+  platform: ['platform', 'network', 'channel', 'social network', 'source'],
+  creator_handle: ['creator handle', 'handle', 'username', 'user name', 'creator', 'account'],
+  creator_name: ['creator name', 'name', 'display name', 'full name', 'author'],
+  caption: ['caption', 'description', 'text', 'post text', 'title'],
+  hashtags: ['hashtags', 'tags', 'hashtag'],
+  posted_at: ['posted at', 'posted', 'post date', 'date', 'published at', 'published', 'created at'],
+};
+
+function normalizeHeader(header: string): string {
+  return header
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Guess the mapping from a file's headers
+ * Exact names win over headers that merely contain one, and each header is used once.
+ */
+export function detectColumnMapping(headers: string[]): ImportColumnMapping {
+  const mapping: ImportColumnMapping = {};
+  const used = new Set<string>();
+  const normalized = new Map(headers.map((header) => [header, normalizeHeader(header)]));
+
+  for (const exact of [true, false]) {
+    for (const column of importColumnSchema.options) {
+      if (mapping[column]) continue;
+      const header = headers.find((candidate) => {
+        if (used.has(candidate)) return false;
+        const name = normalized.get(candidate)!;
+        return COLUMN_ALIASES[column].some((alias) =>
+          exact ? name === alias : ` ${name} `.includes(` ${alias} `)
+        );
+      });
+      if (header) {
+        mapping[column] = header;
+        used.add(header);
+      }
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Required columns the mapping leaves out
+ */
+export function missingImportColumns(mapping: ImportColumnMapping): ImportColumn[] {
+  return REQUIRED_IMPORT_COLUMNS.filter((column) => !mapping[column]);
+}
+
+/**
+ * A file row keyed by header, turned into an import row keyed by column
+ * Empty cells are left out, and the platform comes from the URL when no column gives one. The
+ * apostrophe toCsv puts before formula-like text is removed, so an errors.csv can be imported again.
+ */
+export function mapImportRow(
+  record: Record<string, string>,
+  mapping: ImportColumnMapping
+): Record<string, string> {
+  const row: Record<string, string> = {};
+  for (const [column, header] of Object.entries(mapping)) {
+    const value = header ? record[header]?.replace(/^'(?=[=+\-@\t\r])/, '').trim() : undefined;
+    if (value) row[column] = value;
+  }
+
+  if (!row.platform && row.post_url) {
+    const platform = detectPlatformFromUrl(row.post_url);
+    if (platform) row.platform = platform;
+  }
+  return row;
+}
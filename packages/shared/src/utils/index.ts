@@ -229,3 +229,11 @@ export function pick<T extends object, K extends keyof T>(
   }
   return result;
 }
+
+export * from './captions';
+export * from './repurpose';
+export * from './export';
+export * from './enrichment';
+export * from './post-url';
+export * from './spreadsheet';
+export * from './import-mapping';
@@ -0,0 +1,182 @@
+/**
+ * Post URLs - one canonical form per post, so the same post shared different ways is seen once
+ * Share links add tracking parameters, mobile hosts and trailing slashes; TikTok short links
+ * have to be followed to learn which video they point to.
+ */
+
+import type { Platform } from '../schemas/ugc';
+import type { EnrichmentFetcher } from './enrichment';
+
+export interface CanonicalPostUrl {
+  url: string;
+  postId?: string;
+}
+
+const CANONICAL_HOSTS: Partial<Record<Platform, string>> = {
+  TIKTOK: 'www.tiktok.com',
+  INSTAGRAM: 'www.instagram.com',
+  YOUTUBE: 'www.youtube.com',
+};
+
+// Hosts that serve the same pages as the canonical one
+const HOST_ALIASES: Record<string, string> = {
+  'tiktok.com': 'www.tiktok.com',
+  'm.tiktok.com': 'www.tiktok.com',
+  'instagram.com': 'www.instagram.com',
+  'm.instagram.com': 'www.instagram.com',
+  'instagr.am': 'www.instagram.com',
+  'youtube.com': 'www.youtube.com',
+  'm.youtube.com': 'www.youtube.com',
+};
+
+const TIKTOK_SHORT_HOSTS = ['vm.tiktok.com', 'vt.tiktok.com'];
+
+// Share and campaign parameters that never change which post a URL points to
+const TRACKING_PARAMS =
+  /^(utm_\w+|igshid|igsh|fbclid|gclid|si|feature|_r|_t|is_from_webapp|sender_device|share_\w+)$/i;
+
+const MAX_REDIRECTS = 5;
+
+const defaultFetcher: EnrichmentFetcher = (url, init) =>
+  fetch(url, { ...init, redirect: 'manual', signal: AbortSignal.timeout(10_000) });
+
+function parseUrl(value: string): URL | null {
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Platform id of a post from its URL, when the URL carries one
+ */
+export function extractPostIdFromUrl(platform: Platform, postUrl: string): string | undefined {
+  const url = parseUrl(postUrl);
+  if (!url) return undefined;
+
+  switch (platform) {
+    case 'TIKTOK':
+      return url.pathname.match(/\/(?:video|photo|v)\/(\d+)/)?.[1];
+    case 'INSTAGRAM':
+      return url.pathname.match(/\/(?:p|reels?|tv)\/([\w-]+)/)?.[1];
+    case 'YOUTUBE': {
+      const id =
+        url.hostname === 'youtu.be'
+          ? url.pathname.slice(1).split('/')[0]
+          : (url.searchParams.get('v') ??
+            url.pathname.match(/\/(?:shorts|embed|live)\/([\w-]+)/)?.[1]);
+      return id && /^[\w-]{11}$/.test(id) ? id : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * The platform a post URL belongs to, judged by its host
+ */
+export function detectPlatformFromUrl(postUrl: string): Platform | undefined {
+  const host = parseUrl(postUrl)?.hostname.toLowerCase();
+  if (!host) return undefined;
+  if (host === 'tiktok.com' || host.endsWith('.tiktok.com')) return 'TIKTOK';
+  if (host === 'instagr.am' || host === 'instagram.com' || host.endsWith('.instagram.com')) {
+    return 'INSTAGRAM';
+  }
+  if (host === 'youtu.be' || host === 'youtube.com' || host.endsWith('.youtube.com')) {
+    return 'YOUTUBE';
+  }
+  return undefined;
+}
+
+/**
+ * Whether a URL is a short link that only redirects to the post
+ */
+export function isShortPostLink(platform: Platform, postUrl: string): boolean {
+  const url = parseUrl(postUrl);
+  if (!url || platform !== 'TIKTOK') return false;
+  const host = url.hostname.toLowerCase();
+  return (
+    TIKTOK_SHORT_HOSTS.includes(host) ||
+    ((host === 'tiktok.com' || host.endsWith('.tiktok.com')) && url.pathname.startsWith('/t/'))
+  );
+}
+
+// Lowercase host and https, no fragment, tracking parameters or trailing slash
+function cleanUrl(url: URL): URL {
+  const clean = new URL(url.toString());
+  clean.protocol = 'https:';
+  clean.hostname = HOST_ALIASES[clean.hostname.toLowerCase()] ?? clean.hostname.toLowerCase();
+  clean.hash = '';
+  for (const name of [...clean.searchParams.keys()]) {
+    if (TRACKING_PARAMS.test(name)) clean.searchParams.delete(name);
+  }
+  clean.searchParams.sort();
+  clean.pathname = clean.pathname.replace(/\/+$/, '') || '/';
+  return clean;
+}
+
+/**
+ * The canonical URL and post id of a post URL, without any network calls
+ * URLs that carry a post id are rebuilt from it; others are only cleaned up.
+ */
+export function canonicalizePostUrl(platform: Platform, postUrl: string): CanonicalPostUrl {
+  const url = parseUrl(postUrl);
+  if (!url) return { url: postUrl.trim() };
+
+  const postId = extractPostIdFromUrl(platform, postUrl);
+  const host = CANONICAL_HOSTS[platform];
+  if (!postId || !host) {
+    return { url: cleanUrl(url).toString() };
+  }
+
+  switch (platform) {
+    case 'TIKTOK': {
+      const handle = url.pathname.match(/\/@([\w.-]+)/)?.[1];
+      const kind = url.pathname.includes('/photo/') ? 'photo' : 'video';
+      return {
+        url: `https://${host}${handle ? `/@${handle.toLowerCase()}` : ''}/${kind}/${postId}`,
+        postId,
+      };
+    }
+    case 'INSTAGRAM': {
+      const kind = url.pathname.match(/\/(p|reels?|tv)\//)?.[1] ?? 'p';
+      return { url: `https://${host}/${kind === 'reels' ? 'reel' : kind}/${postId}`, postId };
+    }
+    default:
+      return {
+        url: url.pathname.includes('/shorts/')
+          ? `https://${host}/shorts/${postId}`
+          : `https://${host}/watch?v=${postId}`,
+        postId,
+      };
+  }
+}
+
+/**
+ * Canonicalize a post URL, following short links to the post they point to
+ * A short link that cannot be followed is returned cleaned up but unresolved.
+ */
+export async function resolvePostUrl(
+  platform: Platform,
+  postUrl: string,
+  options: { fetcher?: EnrichmentFetcher } = {}
+): Promise<CanonicalPostUrl> {
+  const fetcher = options.fetcher ?? defaultFetcher;
+  let canonical = canonicalizePostUrl(platform, postUrl);
+
+  for (let hop = 0; hop < MAX_REDIRECTS; hop++) {
+    if (canonical.postId || !isShortPostLink(platform, canonical.url)) break;
+    try {
+      const response = await fetcher(canonical.url, { headers: { Accept: 'text/html' } });
+      const location = response.headers.get('location');
+      if (!location) break;
+      canonical = canonicalizePostUrl(platform, new URL(location, canonical.url).toString());
+    } catch {
+      break;
+    }
+  }
+
+  return canonical;
+}
@@ -0,0 +1,66 @@
+/**
+ * Repurpose job utilities
+ */
+
+import type { RepurposeBatchProgress } from '../types';
+
+/**
+ * Summarize the jobs of a batch into counts, an overall progress and a status
+ * The batch is running until every job has finished; it is COMPLETED only if every job is, and
+ * FAILED or CANCELLED only if no job made any clips
+ */
+export function summarizeRepurposeBatch(jobs: { status: string; progress: number }[]): RepurposeBatchProgress {
+  const count = (status: string) => jobs.filter((job) => job.status === status).length;
+
+  const summary = {
+    totalJobs: jobs.length,
+    queued: count('QUEUED'),
+    processing: count('PROCESSING'),
+    completed: count('COMPLETED'),
+    partial: count('PARTIAL'),
+    failed: count('FAILED'),
+    cancelled: count('CANCELLED'),
+  };
+
+  const running = summary.queued + summary.processing;
+  const progress =
+    jobs.length === 0
+      ? 100
+      : Math.floor(
+          jobs.reduce((total, job) => {
+            const isRunning = job.status === 'QUEUED' || job.status === 'PROCESSING';
+            return total + (isRunning ? Math.min(100, Math.max(0, job.progress)) : 100);
+          }, 0) / jobs.length
+        );
+
+  let status: RepurposeBatchProgress['status'];
+  if (running > 0) {
+    status = running === jobs.length && summary.processing === 0 ? 'QUEUED' : 'PROCESSING';
+  } else if (summary.completed === jobs.length) {
+    status = 'COMPLETED';
+  } else if (summary.completed + summary.partial > 0) {
+    status = 'PARTIAL';
+  } else if (summary.cancelled === jobs.length) {
+    status = 'CANCELLED';
+  } else {
+    status = 'FAILED';
+  }
+
+  return { ...summary, progress, status };
+}
+
+const PLATFORM_NAMES: Record<string, string> = {
+  TIKTOK: 'TikTok',
+  INSTAGRAM: 'Instagram',
+  YOUTUBE: 'YouTube',
+};
+
+/**
+ * Credit line for a creator, e.g. "@jane.doe on TikTok"
+ * Manually imported posts have no platform to name, so they get the handle only
+ */
+export function formatCreatorCredit(handle: string, platform: string, showPlatform: boolean = true): string {
+  const credit = `@${handle.trim().replace(/^@+/, '')}`;
+  const platformName = PLATFORM_NAMES[platform];
+  return showPlatform && platformName ? `${credit} on ${platformName}` : credit;
+}
@@ -0,0 +1,189 @@
+/**
+ * Spreadsheet reading - incremental CSV parsing and cell text for UGC imports
+ * The parser takes a file in chunks of any size, so large uploads never have to be held whole.
+ */
+
+const DELIMITERS = [',', ';', '\t'];
+
+// The delimiter that appears most often outside quotes in a file's first line
+function detectDelimiter(firstLine: string): string {
+  const counts = new Map(DELIMITERS.map((delimiter) => [delimiter, 0]));
+  let inQuotes = false;
+  for (const char of firstLine) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && counts.has(char)) counts.set(char, counts.get(char)! + 1);
+  }
+  return DELIMITERS.reduce((best, delimiter) =>
+    counts.get(delimiter)! > counts.get(best)! ? delimiter : best
+  );
+}
+
+/**
+ * RFC 4180 CSV parser fed one chunk at a time
+ * Handles quoted fields with delimiters, doubled quotes and line breaks, CRLF endings and a
+ * leading BOM. Blank lines are skipped. The delimiter (comma, semicolon or tab) is detected from
+ * the first line unless given.
+ */
+export class CsvParser {
+  private delimiter: string | null;
+  private head = '';
+  private started = false;
+  private field = '';
+  private record: string[] = [];
+  private atFieldStart = true;
+  private inQuotes = false;
+  private quoteInQuotes = false;
+
+  constructor(options: { delimiter?: string } = {}) {
+    this.delimiter = options.delimiter ?? null;
+  }
+
+  /**
+   * Parse a chunk, returning the records it completed
+   */
+  push(chunk: string): string[][] {
+    if (!this.started) {
+      this.started = true;
+      chunk = chunk.replace(/^\uFEFF/, '');
+    }
+
+    if (this.delimiter === null) {
+      this.head += chunk;
+      const lineEnd = this.head.indexOf('\n');
+      if (lineEnd === -1) return [];
+      this.delimiter = detectDelimiter(this.head.slice(0, lineEnd));
+      chunk = this.head;
+      this.head = '';
+    }
+
+    return this.parse(chunk);
+  }
+
+  /**
+   * Finish the input, returning the last record when the file does not end with a line break
+   */
+  flush(): string[][] {
+    const records: string[][] = [];
+    if (this.delimiter === null) {
+      this.delimiter = detectDelimiter(this.head);
+      records.push(...this.parse(this.head));
+      this.head = '';
+    }
+
+    this.inQuotes = false;
+    this.quoteInQuotes = false;
+    if (!this.atFieldStart || this.record.length > 0) {
+      this.endRecord(records);
+    }
+    return records;
+  }
+
+  private parse(chunk: string): string[][] {
+    const records: string[][] = [];
+
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (this.inQuotes) {
+        if (this.quoteInQuotes) {
+          this.quoteInQuotes = false;
+          if (char === '"') {
+            this.field += '"';
+            continue;
+          }
+          // The quote closed the field; this character follows it
+          this.inQuotes = false;
+        } else {
+          if (char === '"') this.quoteInQuotes = true;
+          else this.field += char;
+          continue;
+        }
+      }
+
+      if (char === '"' && this.atFieldStart) {
+        this.inQuotes = true;
+        this.atFieldStart = false;
+      } else if (char === this.delimiter) {
+        this.endField();
+      } else if (char === '\n') {
+        this.endRecord(records);
+      } else if (char !== '\r') {
+        this.field += char;
+        this.atFieldStart = false;
+      }
+    }
+
+    return records;
+  }
+
+  private endField() {
+    this.record.push(this.field);
+    this.field = '';
+    this.atFieldStart = true;
+  }
+
+  private endRecord(records: string[][]) {
+    this.endField();
+    if (this.record.length > 1 || this.record[0] !== '') {
+      records.push(this.record);
+    }
+    this.record = [];
+  }
+}
+
+/**
+ * Text of a spreadsheet cell value as read from an XLSX file
+ * Dates become ISO strings; rich text, hyperlinks and formulas give their displayed text.
+ */
+export function spreadsheetCellText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value !== 'object') return String(value).trim();
+
+  const cell = value as {
+    richText?: { text: string }[];
+    text?: unknown;
+    result?: unknown;
+  };
+  if (Array.isArray(cell.richText))
+    return cell.richText
+      .map((run) => run.text)
+      .join('')
+      .trim();
+  if (cell.text !== undefined) return spreadsheetCellText(cell.text);
+  if ('result' in cell) return spreadsheetCellText(cell.result);
+  return '';
+}
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+/**
+ * Format of an import file from its name, or null when it is neither CSV nor XLSX
+ */
+export function spreadsheetFormat(fileName: string): SpreadsheetFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'csv' || extension === 'txt') return 'csv';
+  if (extension === 'xlsx') return 'xlsx';
+  return null;
+}
+
+/**
+ * Column names from a file's header row
+ * Blank headers become "Column 3" and repeated ones "Handle (2)", so every column can be mapped.
+ */
+export function spreadsheetHeaders(cells: string[]): string[] {
+  const seen = new Map<string, number>();
+  return cells.map((cell, index) => {
+    const name = cell.trim() || `Column ${index + 1}`;
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    return count > 1 ? `${name} (${count})` : name;
+  });
+}
+
+/**
+ * A data row keyed by header; missing trailing cells are empty
+ */
+export function spreadsheetRecord(headers: string[], cells: string[]): Record<string, string> {
+  return Object.fromEntries(headers.map((header, index) => [header, cells[index] ?? '']));
+}